@@ -4,19 +4,40 @@
 
 import type { FastifyInstance } from 'fastify';
 import type { ApiContext } from '../server.js';
+import type { ValidationEngine } from '../../core/openspec-cli.js';
+import type { ChangePriority, Delta } from '../../types/openspec.js';
+import { DeltaParser } from '../../core/delta-parser.js';
+import { filterChanges } from '../../core/change-metadata.js';
 
 export function registerChangesRoutes(fastify: FastifyInstance, ctx: ApiContext): void {
   const { cli } = ctx;
 
   /**
    * GET /api/changes - 列出所有变更
+   *
+   * 元数据过滤：owner、priority、label（逗号分隔，需全部包含）、targetRelease、dueBefore
    */
   fastify.get('/changes', async (request, reply) => {
-    const { includeArchived } = request.query as { includeArchived?: string };
+    const { includeArchived, owner, priority, label, targetRelease, dueBefore } = request.query as {
+      includeArchived?: string;
+      owner?: string;
+      priority?: ChangePriority;
+      label?: string;
+      targetRelease?: string;
+      dueBefore?: string;
+    };
     const changes = await cli.listChanges({
       includeArchived: includeArchived === 'true',
     });
-    return { changes };
+    return {
+      changes: filterChanges(changes, {
+        owner,
+        priority,
+        labels: label?.split(',').map((l) => l.trim()).filter(Boolean),
+        targetRelease,
+        dueBefore,
+      }),
+    };
   });
 
   /**
@@ -33,31 +54,68 @@ export function registerChangesRoutes(fastify: FastifyInstance, ctx: ApiContext)
     return { change };
   });
 
+  /**
+   * GET /api/changes/:id/impact - 变更修改的 Spec 及传递依赖它们的 Spec
+   */
+  fastify.get('/changes/:id/impact', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      return await ctx.specParser.analyzeChangeImpact(id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to analyze impact';
+      return reply.status(404).send({ error: message });
+    }
+  });
+
   /**
    * POST /api/changes/:id/validate - 验证变更
    */
   fastify.post('/changes/:id/validate', async (request, reply) => {
     const { id } = request.params as { id: string };
-    const body = (request.body || {}) as { strict?: boolean };
-    const { strict } = body;
+    const body = (request.body || {}) as { strict?: boolean; engine?: ValidationEngine };
+    const { strict, engine } = body;
 
-    const result = await cli.validateChange(id, { strict });
+    const result = await cli.validateChange(id, { strict, engine });
     return result;
   });
 
   /**
    * POST /api/changes/:id/archive - 归档变更
+   * ?dryRun=true 仅返回规格差异预览，不写入文件
    */
   fastify.post('/changes/:id/archive', async (request, reply) => {
     const { id } = request.params as { id: string };
-    const body = (request.body || {}) as { skipSpecs?: boolean };
+    const { dryRun } = request.query as { dryRun?: string };
+    const body = (request.body || {}) as { skipSpecs?: boolean; dryRun?: boolean };
     const { skipSpecs } = body;
+    const isDryRun = dryRun === 'true' || body.dryRun === true;
 
-    const result = await cli.archiveChange(id, { skipSpecs });
+    const result = await cli.archiveChange(id, { skipSpecs, dryRun: isDryRun });
 
     if (result.success) {
       // 广播归档事件
-      ctx.broadcast('change:archived', { changeId: id, archivedPath: result.archivedPath });
+      if (!result.dryRun) {
+        ctx.broadcast('change:archived', { changeId: id, archivedPath: result.archivedPath });
+      }
+      return result;
+    } else {
+      return reply.status(400).send(result);
+    }
+  });
+
+  /**
+   * POST /api/changes/:id/restore - 恢复已归档的变更
+   */
+  fastify.post('/changes/:id/restore', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { approvalManager } = ctx;
+
+    const result = await cli.restoreChange(id);
+
+    if (result.success) {
+      await approvalManager.resetToDraft(result.changeId, 'user');
+      ctx.broadcast('change:restored', { changeId: result.changeId, restoredPath: result.restoredPath });
       return result;
     } else {
       return reply.status(400).send(result);
@@ -148,7 +206,8 @@ export function registerChangesRoutes(fastify: FastifyInstance, ctx: ApiContext)
     try {
       // 获取 change 目录下的 specs
       const specsDir = `${cli['getOpenSpecDir']()}/changes/${id}/specs`;
-      const specs: Array<{ id: string; title: string; content: string }> = [];
+      const specs: Array<{ id: string; title: string; content: string; deltas: Delta[] }> = [];
+      const deltaParser = new DeltaParser();
       
       const fs = await import('fs/promises');
       const path = await import('path');
@@ -169,6 +228,7 @@ export function registerChangesRoutes(fastify: FastifyInstance, ctx: ApiContext)
               id: entry.name,
               title,
               content,
+              deltas: deltaParser.parseDeltas(entry.name, content),
             });
           } catch {
             // 没有 spec.md
@@ -0,0 +1,24 @@
+/**
+ * Conflicts REST API 路由
+ */
+
+import type { FastifyInstance } from 'fastify';
+import type { ApiContext } from '../server.js';
+import { ChangeConflicts } from '../../core/change-conflicts.js';
+
+export function registerConflictsRoutes(fastify: FastifyInstance, ctx: ApiContext): void {
+  const changeConflicts = ctx.workspace.scoped(({ root }) => new ChangeConflicts({ cwd: root, index: ctx.projectIndex }));
+
+  /**
+   * GET /api/conflicts - 活跃变更之间的需求冲突
+   *
+   * ?changeId= 只返回涉及该变更的冲突
+   */
+  fastify.get('/conflicts', async (request) => {
+    const { changeId } = request.query as { changeId?: string };
+    const conflicts = changeId
+      ? await changeConflicts.getConflictsFor(changeId)
+      : await changeConflicts.analyze();
+    return { conflicts };
+  });
+}
@@ -8,8 +8,8 @@ import type { ApiContext } from '../server.js';
 import { ContextAnalyzer } from '../../core/context-analyzer.js';
 
 export function registerContextRoutes(fastify: FastifyInstance, ctx: ApiContext): void {
-  // 创建 ContextAnalyzer 实例
-  const analyzer = new ContextAnalyzer({ cwd: ctx.cwd });
+  // 创建 ContextAnalyzer 实例（按项目分派）
+  const analyzer = ctx.workspace.scoped(({ root }) => new ContextAnalyzer({ cwd: root }));
 
   /**
    * GET /api/context/analyze - 分析项目上下文
@@ -0,0 +1,75 @@
+/**
+ * Evidence REST API 路由
+ * 上传 JUnit / TAP 测试结果作为变更场景的验证证据
+ */
+
+import type { FastifyInstance } from 'fastify';
+import type { ApiContext } from '../server.js';
+import { TestEvidenceManager } from '../../core/test-evidence.js';
+import type { EvidenceFormat } from '../../core/test-evidence.js';
+
+interface EvidenceBody {
+  changeId?: string;
+  content?: string;
+  path?: string;
+  format?: EvidenceFormat;
+  attachedBy?: string;
+}
+
+export function registerEvidenceRoutes(fastify: FastifyInstance, ctx: ApiContext): void {
+  const evidence = ctx.workspace.scoped(({ root }) => new TestEvidenceManager({ cwd: root, cli: ctx.cli, index: ctx.projectIndex }));
+
+  // 允许直接上传 XML 报告
+  fastify.addContentTypeParser(['application/xml', 'text/xml'], { parseAs: 'string' }, (_request, body, done) => {
+    done(null, body);
+  });
+
+  /**
+   * POST /api/evidence - 导入测试结果
+   *
+   * JSON: { changeId, content | path, format?, attachedBy? }
+   * 原始报告（text/plain、application/xml）：?changeId=&format=
+   */
+  fastify.post('/evidence', async (request, reply) => {
+    const body: EvidenceBody =
+      typeof request.body === 'string'
+        ? { ...(request.query as EvidenceBody), content: request.body }
+        : ((request.body || {}) as EvidenceBody);
+
+    if (!body.changeId) {
+      return reply.status(400).send({ error: 'changeId is required' });
+    }
+    if (!body.content && !body.path) {
+      return reply.status(400).send({ error: 'content or path is required' });
+    }
+
+    try {
+      const result = await evidence.attach(body.changeId, {
+        content: body.content,
+        file: body.path,
+        format: body.format,
+        attachedBy: body.attachedBy || 'user',
+      });
+
+      ctx.broadcast('evidence:updated', { changeId: body.changeId, summary: result.verification.summary }, 'changes');
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to attach evidence';
+      const status = message.startsWith('Change not found') ? 404 : 400;
+      return reply.status(status).send({ error: message });
+    }
+  });
+
+  /**
+   * GET /api/evidence/:changeId - 变更的验证状态
+   */
+  fastify.get('/evidence/:changeId', async (request, reply) => {
+    const { changeId } = request.params as { changeId: string };
+    try {
+      return await evidence.getVerification(changeId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load verification';
+      return reply.status(404).send({ error: message });
+    }
+  });
+}
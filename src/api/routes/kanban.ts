@@ -5,6 +5,9 @@
 
 import type { FastifyInstance } from 'fastify';
 import type { ApiContext } from '../server.js';
+import { ChangeDependencies } from '../../core/change-dependencies.js';
+import { ChangeConflicts } from '../../core/change-conflicts.js';
+import { TestEvidenceManager } from '../../core/test-evidence.js';
 
 // 审批状态对应的看板列 (5 列)
 type KanbanColumn = 'draft' | 'pending_approval' | 'in_progress' | 'completed' | 'archived';
@@ -15,8 +18,19 @@ interface KanbanCard {
   description?: string;
   progress: number;
   column: KanbanColumn;
+  project: string;             // 所属工作区项目
   labels: string[];
   priority?: 'high' | 'medium' | 'low';
+  owner?: string;
+  targetRelease?: string;
+  dueDate?: string;
+  blockedBy?: string[];        // 未归档的依赖变更
+  conflictsWith?: string[];    // 修改了相同需求的其他活跃变更
+  verification?: {             // 已导入测试结果时的场景验证情况
+    verified: number;
+    failed: number;
+    total: number;
+  };
   updatedAt: string;
   createdAt: string;
 }
@@ -61,33 +75,60 @@ function statusToColumn(status?: string, isArchived?: boolean): KanbanColumn {
   return mapping[status || 'draft'] || 'draft';
 }
 
+// 创建空看板
+function createEmptyKanban(): KanbanData {
+  return {
+    columns: COLUMN_DEFINITIONS.map(col => ({
+      ...col,
+      cards: [],
+    })),
+    summary: {
+      total: 0,
+      byColumn: {
+        draft: 0,
+        pending_approval: 0,
+        in_progress: 0,
+        completed: 0,
+        archived: 0,
+      },
+    },
+  };
+}
+
+// 按更新时间排序每列的卡片
+function sortCards(kanban: KanbanData): void {
+  for (const col of kanban.columns) {
+    col.cards.sort((a: KanbanCard, b: KanbanCard) => 
+      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    );
+  }
+}
+
 export function registerKanbanRoutes(fastify: FastifyInstance, ctx: ApiContext): void {
-  const { cli, approvalManager } = ctx;
+  const { cli, approvalManager, workspace } = ctx;
+  const dependencies = workspace.scoped(({ root }) => new ChangeDependencies({ cwd: root, index: ctx.projectIndex }));
+  const conflicts = workspace.scoped(({ root }) => new ChangeConflicts({ cwd: root, index: ctx.projectIndex }));
+  const evidence = workspace.scoped(
+    ({ root }) => new TestEvidenceManager({ cwd: root, cli, index: ctx.projectIndex })
+  );
 
   /**
-   * GET /api/kanban - 获取看板数据
+   * 构建当前项目的看板数据
    */
-  fastify.get('/kanban', async () => {
+  const buildKanban = async (): Promise<KanbanData> => {
+    const project = workspace.current().name;
+
     // 获取所有变更（包括归档）
     const changes = await cli.listChanges({ includeArchived: true });
+    const { nodes } = await dependencies.analyze();
+    const blockedBy = new Map(
+      nodes.filter((n) => n.status === 'active' && n.blockedBy.length > 0).map((n) => [n.id, n.blockedBy])
+    );
+    const conflictsWith = await conflicts.getConflictingChanges();
     
     // 构建看板数据
-    const kanban: KanbanData = {
-      columns: COLUMN_DEFINITIONS.map(col => ({
-        ...col,
-        cards: [],
-      })),
-      summary: {
-        total: changes.length,
-        byColumn: {
-          draft: 0,
-          pending_approval: 0,
-          in_progress: 0,
-          completed: 0,
-          archived: 0,
-        },
-      },
-    };
+    const kanban = createEmptyKanban();
+    kanban.summary.total = changes.length;
 
     // 分类变更到各列
     for (const change of changes) {
@@ -103,6 +144,17 @@ export function registerKanbanRoutes(fastify: FastifyInstance, ctx: ApiContext):
       const isArchived = change.status === 'archived';
       const column = statusToColumn(approvalStatus, isArchived);
       
+      // 场景验证情况（仅已导入测试结果的活跃变更）
+      let verification: KanbanCard['verification'];
+      if (!isArchived) {
+        try {
+          const { verified, failed, total, runs } = await evidence.getVerification(change.id);
+          if (runs.length > 0) verification = { verified, failed, total };
+        } catch {
+          // 忽略错误
+        }
+      }
+
       // 计算进度百分比
       const progress = change.tasksTotal > 0 
         ? Math.round((change.tasksCompleted / change.tasksTotal) * 100) 
@@ -114,8 +166,15 @@ export function registerKanbanRoutes(fastify: FastifyInstance, ctx: ApiContext):
         description: undefined,
         progress,
         column,
-        labels: [],
-        priority: undefined,
+        project,
+        labels: [...(change.labels || [])],
+        priority: change.priority,
+        owner: change.owner,
+        targetRelease: change.targetRelease,
+        dueDate: change.dueDate,
+        blockedBy: blockedBy.get(change.id),
+        conflictsWith: change.status === 'active' ? conflictsWith.get(change.id) : undefined,
+        verification,
         updatedAt: change.updatedAt || new Date().toISOString(),
         createdAt: change.createdAt || new Date().toISOString(),
       };
@@ -132,13 +191,32 @@ export function registerKanbanRoutes(fastify: FastifyInstance, ctx: ApiContext):
       }
     }
     
-    // 按更新时间排序每列的卡片
-    for (const col of kanban.columns) {
-      col.cards.sort((a: KanbanCard, b: KanbanCard) => 
-        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-      );
+    sortCards(kanban);
+    return kanban;
+  };
+
+  /**
+   * GET /api/kanban - 获取看板数据
+   *
+   * combined=true 时合并工作区所有项目的看板
+   */
+  fastify.get('/kanban', async (request) => {
+    const { combined } = request.query as { combined?: string };
+    if (combined !== 'true') {
+      return buildKanban();
     }
-    
+
+    const kanban = createEmptyKanban();
+    for (const project of workspace.getProjects()) {
+      const projectKanban = await workspace.run(project.name, buildKanban);
+      for (const column of projectKanban.columns) {
+        kanban.columns.find((c) => c.id === column.id)!.cards.push(...column.cards);
+        kanban.summary.byColumn[column.id] += column.cards.length;
+      }
+      kanban.summary.total += projectKanban.summary.total;
+    }
+
+    sortCards(kanban);
     return kanban;
   });
 
@@ -155,30 +233,45 @@ export function registerKanbanRoutes(fastify: FastifyInstance, ctx: ApiContext):
     
     // 根据目标列确定操作
     try {
+      let changeId = id;
+
+      // 从归档列移出：先恢复变更（同时重置审批为草稿）
+      if (toColumn !== 'archived') {
+        const changes = await cli.listChanges({ includeArchived: true });
+        if (changes.find((c) => c.id === id)?.status === 'archived') {
+          const restored = await cli.restoreChange(id);
+          if (!restored.success) {
+            return reply.status(400).send({ error: restored.error });
+          }
+          changeId = restored.changeId;
+          await approvalManager.resetToDraft(changeId, 'user');
+        }
+      }
+
       switch (toColumn) {
         case 'pending_approval':
           // 请求审批
-          await approvalManager.requestApproval(id, 'user', note ? [note] : undefined);
+          await approvalManager.requestApproval(changeId, 'user', note ? [note] : undefined);
           break;
           
         case 'in_progress':
           // 批准变更（直接进入 in_progress）
-          await approvalManager.approve(id, 'user', note);
+          await approvalManager.approve(changeId, 'user', note);
           break;
           
         case 'draft':
           // 退回到草稿
-          await approvalManager.resetToDraft(id, 'user');
+          await approvalManager.resetToDraft(changeId, 'user');
           break;
           
         case 'completed':
           // 标记完成
-          await approvalManager.markCompleted(id, 'user');
+          await approvalManager.markCompleted(changeId, 'user');
           break;
           
         case 'archived':
           // 归档
-          const result = await cli.archiveChange(id);
+          const result = await cli.archiveChange(changeId);
           if (!result.success) {
             return reply.status(400).send({ error: result.error });
           }
@@ -186,9 +279,9 @@ export function registerKanbanRoutes(fastify: FastifyInstance, ctx: ApiContext):
       }
       
       // 广播更新
-      ctx.broadcast('kanban:updated', { changeId: id, toColumn }, 'kanban');
+      ctx.broadcast('kanban:updated', { changeId, toColumn }, 'kanban');
       
-      return { success: true, changeId: id, newColumn: toColumn };
+      return { success: true, changeId, newColumn: toColumn };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to move card';
       return reply.status(400).send({ error: message });
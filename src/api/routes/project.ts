@@ -15,4 +15,11 @@ export function registerProjectRoutes(fastify: FastifyInstance, ctx: ApiContext)
     const project = await cli.getProjectName();
     return { project };
   });
+
+  /**
+   * GET /api/project/index - 获取项目索引的命中统计
+   */
+  fastify.get('/project/index', async () => {
+    return { stats: ctx.projectIndex.getStats() };
+  });
 }
@@ -0,0 +1,49 @@
+/**
+ * Search REST API 路由
+ */
+
+import type { FastifyInstance } from 'fastify';
+import type { ApiContext } from '../server.js';
+import { SpecSearch } from '../../core/spec-search.js';
+import type { SearchResultType, SearchStatus } from '../../core/spec-search.js';
+
+const RESULT_TYPES: SearchResultType[] = ['requirement', 'scenario', 'proposal', 'design', 'task'];
+
+export function registerSearchRoutes(fastify: FastifyInstance, ctx: ApiContext): void {
+  const specSearch = ctx.workspace.scoped(({ root }) => new SpecSearch({ cwd: root }));
+
+  /**
+   * GET /api/search?q= - 全文搜索
+   *
+   * 过滤参数：type（逗号分隔）、status（active/archived）、specId、limit
+   */
+  fastify.get('/search', async (request, reply) => {
+    const { q, type, status, specId, limit } = request.query as {
+      q?: string;
+      type?: string;
+      status?: string;
+      specId?: string;
+      limit?: string;
+    };
+
+    if (!q?.trim()) {
+      return reply.status(400).send({ error: 'Query parameter q is required' });
+    }
+
+    const types = type?.split(',').map((t) => t.trim()).filter(Boolean);
+    const invalidType = types?.find((t) => !RESULT_TYPES.includes(t as SearchResultType));
+    if (invalidType) {
+      return reply.status(400).send({ error: `Invalid type: ${invalidType}` });
+    }
+    if (status && status !== 'active' && status !== 'archived') {
+      return reply.status(400).send({ error: `Invalid status: ${status}` });
+    }
+
+    return specSearch.search(q, {
+      types: types as SearchResultType[] | undefined,
+      status: status as SearchStatus | undefined,
+      specId,
+      limit: limit ? parseInt(limit, 10) || undefined : undefined,
+    });
+  });
+}
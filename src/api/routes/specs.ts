@@ -4,10 +4,17 @@
 
 import type { FastifyInstance } from 'fastify';
 import type { ApiContext } from '../server.js';
+import type { ValidationEngine } from '../../core/openspec-cli.js';
 import type { ReviewTargetType, ReviewType, ReviewSeverity } from '../../core/review-manager.js';
+import { SpecHistory } from '../../core/spec-history.js';
+import { getGraphExporter, listGraphFormats } from '../../core/graph-exporters.js';
+import { TestGenerator, TEST_FORMATS } from '../../core/test-generator.js';
+import type { TestFormat } from '../../core/test-generator.js';
 
 export function registerSpecsRoutes(fastify: FastifyInstance, ctx: ApiContext): void {
   const { cli, reviewManager, specParser } = ctx;
+  const specHistory = ctx.workspace.scoped(({ root }) => new SpecHistory({ cwd: root }));
+  const testGenerator = ctx.workspace.scoped(({ root }) => new TestGenerator({ cwd: root, cli }));
 
   /**
    * GET /api/specs - 列出所有规格
@@ -36,16 +43,68 @@ export function registerSpecsRoutes(fastify: FastifyInstance, ctx: ApiContext):
    */
   fastify.post('/specs/:id/validate', async (request) => {
     const { id } = request.params as { id: string };
-    const { strict } = request.body as { strict?: boolean };
+    const { strict, engine } = (request.body || {}) as { strict?: boolean; engine?: ValidationEngine };
 
-    const result = await cli.validateSpec(id, { strict });
+    const result = await cli.validateSpec(id, { strict, engine });
     return result;
   });
 
+  /**
+   * GET /api/specs/:id/export?format=gherkin|vitest|jest|go - 导出 Gherkin / 测试桩
+   */
+  fastify.get('/specs/:id/export', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { format = 'gherkin', requirement } = request.query as { format?: string; requirement?: string };
+
+    if (!TEST_FORMATS.includes(format as TestFormat)) {
+      return reply.status(400).send({ error: `Invalid format: ${format} (use ${TEST_FORMATS.join(', ')})` });
+    }
+
+    try {
+      const result = await testGenerator.generate(id, format as TestFormat, { requirement });
+      return reply
+        .type(result.contentType)
+        .header('Content-Disposition', `inline; filename="${result.fileName}"`)
+        .send(result.content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to export tests';
+      return reply.status(404).send({ error: message });
+    }
+  });
+
   /**
    * GET /api/specs/dependencies - 获取 Spec 依赖图
+   *
+   * ?format=mermaid|dot|plantuml|json 时直接返回导出结果
+   * ?graph=impact 导出变更 -> 规格影响图（可选 changeId）
    */
-  fastify.get('/specs/dependencies', async () => {
+  fastify.get('/specs/dependencies', async (request, reply) => {
+    const { format, graph: graphType, changeId } = request.query as {
+      format?: string;
+      graph?: string;
+      changeId?: string;
+    };
+
+    if (format || graphType) {
+      const exporter = getGraphExporter(format || 'json');
+      if (!exporter) {
+        return reply.status(400).send({ error: `Invalid format: ${format} (use ${listGraphFormats().join(', ')})` });
+      }
+      if (graphType && graphType !== 'specs' && graphType !== 'impact') {
+        return reply.status(400).send({ error: `Invalid graph: ${graphType} (use specs or impact)` });
+      }
+
+      try {
+        const exportable = graphType === 'impact'
+          ? await specParser.toImpactGraph(changeId)
+          : await specParser.toExportGraph();
+        return reply.type(exporter.contentType).send(exporter.export(exportable));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to export graph';
+        return reply.status(404).send({ error: message });
+      }
+    }
+
     const graph = await specParser.buildDependencyGraph();
     const mermaid = await specParser.toMermaid();
 
@@ -63,15 +122,40 @@ export function registerSpecsRoutes(fastify: FastifyInstance, ctx: ApiContext):
 
     const directDeps = await specParser.parseDependencies(id);
     const allDeps = await specParser.getDependencyChain(id);
+    const { cycles } = await specParser.buildDependencyGraph();
 
     return {
       specId: id,
       direct: directDeps,
       transitive: allDeps.filter((d) => !directDeps.includes(d)),
       all: allDeps,
+      dependents: await specParser.getDependents(id),
+      allDependents: await specParser.getDependents(id, { transitive: true }),
+      cycles: cycles.filter((c) => c.includes(id)),
     };
   });
 
+  /**
+   * GET /api/specs/:id/history - 规格历史与 blame
+   *
+   * ?at= 返回该时间点的规格内容；?from=&to= 返回两个时间点之间的 diff
+   * 时间点：initial、current、YYYY-MM-DD 或归档变更 ID
+   */
+  fastify.get('/specs/:id/history', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { at, from, to } = request.query as { at?: string; from?: string; to?: string };
+
+    try {
+      const history = await specHistory.getHistory(id);
+      const snapshot = at ? await specHistory.getSnapshot(id, at) : undefined;
+      const diff = from || to ? await specHistory.diff(id, from || 'initial', to || 'current') : undefined;
+      return { ...history, snapshot, diff };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load spec history';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
   /**
    * Reviews API for Specs
    */
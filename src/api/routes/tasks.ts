@@ -2,56 +2,208 @@
  * Tasks REST API 路由
  */
 
-import type { FastifyInstance } from 'fastify';
+import type { FastifyInstance, FastifyReply } from 'fastify';
 import type { ApiContext } from '../server.js';
+import { TaskParser, filterTasks, findNextTasks } from '../../core/task-parser.js';
+import type { TaskFilter } from '../../core/task-parser.js';
+import { TaskEditor } from '../../core/task-editor.js';
+import type { AddTaskOptions, MoveTaskOptions, TaskEditResult } from '../../core/task-editor.js';
+import { TASK_STATES, TASK_STATUSES } from '../../utils/constants.js';
+import type { TaskMetadataUpdate, TaskStatus } from '../../types/openspec.js';
+
+interface TaskFilterQuery {
+  assignee?: string;
+  tag?: string;
+  overdue?: string;
+}
+
+interface TaskUpdateBody extends TaskMetadataUpdate {
+  status?: TaskStatus;
+  title?: string;
+}
 
 export function registerTasksRoutes(fastify: FastifyInstance, ctx: ApiContext): void {
   const { cli } = ctx;
+  const editor = ctx.workspace.scoped(({ root }) => new TaskEditor({ cwd: root, index: ctx.projectIndex }));
+
+  /**
+   * 执行任务编辑并广播，找不到变更或任务时返回 404
+   */
+  const runEdit = async (
+    reply: FastifyReply,
+    changeId: string,
+    edit: () => Promise<TaskEditResult>,
+    status = 200
+  ) => {
+    try {
+      const result = await edit();
+      ctx.broadcast('task:updated', { changeId, taskId: result.task?.id, renumbered: result.renumbered });
+      return reply.status(status).send(result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to edit tasks';
+      return reply.status(/not found/i.test(message) ? 404 : 400).send({ error: message });
+    }
+  };
+
+  /**
+   * GET /api/tasks/states - 任务状态定义（checkbox 字符、图标、是否计入进度）
+   */
+  fastify.get('/tasks/states', async () => {
+    return { states: TASK_STATES };
+  });
+
+  /**
+   * POST /api/changes/:id/tasks - 新增任务
+   *
+   * body: { title, section?, parentId?, afterId?, beforeId?, assignee?, estimate?, due?, tags?, renumber? }
+   */
+  fastify.post('/changes/:id/tasks', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = (request.body || {}) as AddTaskOptions;
+    if (!body.title) {
+      return reply.status(400).send({ error: 'title is required' });
+    }
+    return runEdit(reply, id, () => editor.addTask(id, body), 201);
+  });
+
+  /**
+   * DELETE /api/changes/:id/tasks/:taskId - 删除任务及其子任务（?renumber=true 时重新编号）
+   */
+  fastify.delete('/changes/:id/tasks/:taskId', async (request, reply) => {
+    const { id, taskId } = request.params as { id: string; taskId: string };
+    const { renumber } = request.query as { renumber?: string };
+    return runEdit(reply, id, () => editor.removeTask(id, taskId, { renumber: renumber === 'true' }));
+  });
+
+  /**
+   * POST /api/changes/:id/tasks/:taskId/move - 移动任务及其子任务
+   *
+   * body: { section?, parentId?, afterId?, beforeId?, renumber? }
+   */
+  fastify.post('/changes/:id/tasks/:taskId/move', async (request, reply) => {
+    const { id, taskId } = request.params as { id: string; taskId: string };
+    const body = (request.body || {}) as MoveTaskOptions;
+    return runEdit(reply, id, () => editor.moveTask(id, taskId, body));
+  });
 
   /**
-   * GET /api/changes/:id/tasks - 获取变更的任务列表
+   * GET /api/changes/:id/tasks - 获取变更的任务列表和任务树
+   *
+   * ?progress=weighted 时按任务树加权计算进度（默认只统计叶子任务）
+   * ?assignee=&tag=&overdue=true 时只返回匹配的任务（平铺列表），进度只统计这些任务
    */
   fastify.get('/changes/:id/tasks', async (request, reply) => {
     const { id } = request.params as { id: string };
-    const result = await cli.getTasks(id);
-    return result;
+    const { progress, ...query } = request.query as TaskFilterQuery & { progress?: string };
+    const progressMode = progress === 'weighted' ? 'weighted' : 'leaf';
+    const result = await cli.getTasks(id, { progressMode });
+
+    const filter = parseTaskFilter(query);
+    if (!filter) return result;
+
+    const tasks = filterTasks(result.tasks, filter);
+    return { tasks, tree: tasks, progress: new TaskParser().calculateProgress(tasks, progressMode) };
+  });
+
+  /**
+   * GET /api/changes/:id/tasks/next - 下一步可做的任务（未开始且前置任务都已完成）
+   *
+   * ?assignee= 时只返回该负责人的任务；blocked 为被前置任务阻塞的叶子任务
+   */
+  fastify.get('/changes/:id/tasks/next', async (request) => {
+    const { id } = request.params as { id: string };
+    const { assignee } = request.query as { assignee?: string };
+    const { tasks } = await cli.getTasks(id);
+    const scope = (list: typeof tasks) => (assignee ? filterTasks(list, { assignee }) : list);
+    const parents = new Set(tasks.map((t) => t.parentId).filter(Boolean));
+
+    return {
+      changeId: id,
+      tasks: scope(findNextTasks(tasks)),
+      blocked: scope(tasks.filter((t) => t.blocked && !parents.has(t.id))),
+    };
   });
 
   /**
-   * PATCH /api/changes/:id/tasks/:taskId - 更新任务状态
+   * PATCH /api/changes/:id/tasks/:taskId - 更新任务标题、状态和行内元数据
+   *
+   * body: { title?, status?, assignee?, estimate?, due?, tags?, reason? }，元数据为 null 时删除
    */
   fastify.patch('/changes/:id/tasks/:taskId', async (request, reply) => {
     const { id, taskId } = request.params as { id: string; taskId: string };
-    const { status } = request.body as { status: 'pending' | 'in_progress' | 'done' };
+    const { status, title, ...body } = (request.body || {}) as TaskUpdateBody;
+    if (title !== undefined) {
+      if (status !== undefined || Object.keys(body).length > 0) {
+        return reply.status(400).send({ error: 'title cannot be combined with other updates' });
+      }
+      return runEdit(reply, id, () => editor.editTask(id, taskId, { title }));
+    }
+
+    const metadata: TaskMetadataUpdate = {};
+    for (const key of ['assignee', 'estimate', 'due', 'tags', 'reason'] as const) {
+      if (body[key] !== undefined) {
+        Object.assign(metadata, { [key]: body[key] });
+      }
+    }
+    const hasMetadata = Object.keys(metadata).length > 0;
 
-    if (!status || !['pending', 'in_progress', 'done'].includes(status)) {
+    if (status !== undefined && !TASK_STATUSES.includes(status)) {
       return reply.status(400).send({ error: 'Invalid status' });
     }
+    if (!status && !hasMetadata) {
+      return reply.status(400).send({ error: 'status or metadata is required' });
+    }
 
-    const result = await cli.updateTaskStatus(id, taskId, status);
+    let task;
+    if (hasMetadata) {
+      const result = await cli.updateTaskMetadata(id, taskId, metadata);
+      if (!result.success) {
+        return reply.status(400).send(result);
+      }
+      task = result.task;
+    }
 
-    if (result.success) {
-      // 广播任务更新事件
-      ctx.broadcast('task:updated', { changeId: id, taskId, status });
-      return { success: true, taskId, status };
-    } else {
-      return reply.status(400).send(result);
+    if (status) {
+      const result = await cli.updateTaskStatus(id, taskId, status);
+      if (!result.success) {
+        return reply.status(400).send(result);
+      }
     }
+
+    // 广播任务更新事件
+    ctx.broadcast('task:updated', { changeId: id, taskId, status, ...metadata });
+    return { success: true, taskId, status, task };
   });
 
   /**
    * GET /api/progress - 获取所有变更的进度汇总
+   *
+   * ?assignee=&tag=&overdue=true 时只统计匹配的任务，并跳过没有匹配任务的变更
    */
-  fastify.get('/progress', async () => {
+  fastify.get('/progress', async (request) => {
+    const filter = parseTaskFilter(request.query as TaskFilterQuery);
+    const parser = new TaskParser();
     const changes = await cli.listChanges();
     const summaries = [];
 
     for (const change of changes) {
-      const { progress } = await cli.getTasks(change.id);
+      const { tasks, progress } = await cli.getTasks(change.id);
+      if (!filter) {
+        summaries.push({
+          changeId: change.id,
+          title: change.title,
+          progress,
+        });
+        continue;
+      }
+
+      const matching = filterTasks(tasks, filter);
+      if (matching.length === 0) continue;
       summaries.push({
         changeId: change.id,
         title: change.title,
-        progress,
+        progress: parser.calculateProgress(matching),
+        tasks: matching,
       });
     }
 
@@ -77,7 +229,7 @@ export function registerTasksRoutes(fastify: FastifyInstance, ctx: ApiContext):
   fastify.post('/changes/:id/tasks/batch', async (request, reply) => {
     const { id } = request.params as { id: string };
     const { updates } = request.body as {
-      updates: Array<{ taskId: string; status: 'pending' | 'in_progress' | 'done' }>;
+      updates: Array<{ taskId: string; status: TaskStatus }>;
     };
 
     if (!Array.isArray(updates) || updates.length === 0) {
@@ -87,7 +239,7 @@ export function registerTasksRoutes(fastify: FastifyInstance, ctx: ApiContext):
     const results: { taskId: string; success: boolean; error?: string }[] = [];
 
     for (const update of updates) {
-      if (!['pending', 'in_progress', 'done'].includes(update.status)) {
+      if (!TASK_STATUSES.includes(update.status)) {
         results.push({ taskId: update.taskId, success: false, error: 'Invalid status' });
         continue;
       }
@@ -114,3 +266,15 @@ export function registerTasksRoutes(fastify: FastifyInstance, ctx: ApiContext):
     };
   });
 }
+
+/**
+ * 解析任务筛选参数，没有筛选条件时返回 null
+ */
+function parseTaskFilter(query: TaskFilterQuery): TaskFilter | null {
+  const filter: TaskFilter = {
+    assignee: query.assignee || undefined,
+    tag: query.tag || undefined,
+    overdue: query.overdue === 'true' || query.overdue === '1',
+  };
+  return filter.assignee || filter.tag || filter.overdue ? filter : null;
+}
@@ -0,0 +1,21 @@
+/**
+ * Traceability REST API 路由
+ */
+
+import type { FastifyInstance } from 'fastify';
+import type { ApiContext } from '../server.js';
+import { TraceabilityScanner } from '../../core/traceability.js';
+
+export function registerTraceabilityRoutes(fastify: FastifyInstance, ctx: ApiContext): void {
+  const scanner = ctx.workspace.scoped(({ root }) => new TraceabilityScanner({ cwd: root }));
+
+  /**
+   * GET /api/traceability - 需求 -> 测试追溯矩阵及各规格覆盖率
+   *
+   * ?specId= 只返回该规格
+   */
+  fastify.get('/traceability', async (request) => {
+    const { specId } = request.query as { specId?: string };
+    return scanner.scan({ specId });
+  });
+}
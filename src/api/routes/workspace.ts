@@ -0,0 +1,21 @@
+/**
+ * Workspace REST API 路由
+ */
+
+import type { FastifyInstance } from 'fastify';
+import type { ApiContext } from '../server.js';
+
+export function registerWorkspaceRoutes(fastify: FastifyInstance, ctx: ApiContext): void {
+  const { workspace } = ctx;
+
+  /**
+   * GET /api/workspace - 列出工作区项目
+   */
+  fastify.get('/workspace', async () => {
+    return {
+      projects: workspace.getProjects(),
+      defaultProject: workspace.getDefaultProject(),
+      multiRoot: workspace.isMultiRoot(),
+    };
+  });
+}
@@ -14,6 +14,7 @@ import { OpenSpecCli } from '../core/openspec-cli.js';
 import { ApprovalManager } from '../core/approval-manager.js';
 import { ReviewManager } from '../core/review-manager.js';
 import { FileWatcher } from '../core/file-watcher.js';
+import { ProjectIndex } from '../core/project-index.js';
 import { SpecParser } from '../core/spec-parser.js';
 import { registerChangesRoutes } from './routes/changes.js';
 import { registerSpecsRoutes } from './routes/specs.js';
@@ -22,8 +23,14 @@ import { registerApprovalsRoutes } from './routes/approvals.js';
 import { registerProjectRoutes } from './routes/project.js';
 import { registerKanbanRoutes } from './routes/kanban.js';
 import { registerContextRoutes } from './routes/context.js';
+import { registerWorkspaceRoutes } from './routes/workspace.js';
+import { registerSearchRoutes } from './routes/search.js';
+import { registerConflictsRoutes } from './routes/conflicts.js';
+import { registerTraceabilityRoutes } from './routes/traceability.js';
+import { registerEvidenceRoutes } from './routes/evidence.js';
 import { CrossServiceManager } from '../core/cross-service-manager.js';
 import { RevisionManager } from '../core/revision-manager.js';
+import { Workspace } from '../core/workspace.js';
 import { VERSION } from '../utils/version.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -32,6 +39,8 @@ const __dirname = path.dirname(__filename);
 export interface ApiServerOptions {
   cwd: string;
   port: number;
+  projectIndex?: ProjectIndex;   // 与 MCP Server 共享索引
+  workspace?: Workspace;         // 多根工作区，默认以 cwd 为唯一项目
 }
 
 export interface ApiContext {
@@ -41,8 +50,10 @@ export interface ApiContext {
   revisionManager: RevisionManager;
   specParser: SpecParser;
   fileWatcher: FileWatcher;
+  projectIndex: ProjectIndex;
   crossServiceManager: CrossServiceManager;
-  cwd: string;
+  workspace: Workspace;
+  cwd: string;                   // 当前请求所属项目的根目录
   broadcast: (event: string, data: any, topic?: string) => void;
 }
 
@@ -121,7 +132,10 @@ function openBrowser(url: string): void {
  * 创建并启动 API 服务器
  */
 export async function startApiServer(options: ApiServerOptions): Promise<FastifyInstance> {
-  const { cwd, port } = options;
+  const { port } = options;
+  const workspace = options.workspace || new Workspace({ cwd: options.cwd });
+  const projects = workspace.getProjects();
+  const projectIndex = options.projectIndex || workspace.scoped(({ root }) => new ProjectIndex({ cwd: root }));
 
   // 创建 Fastify 实例
   const fastify = Fastify({
@@ -147,13 +161,19 @@ export async function startApiServer(options: ApiServerOptions): Promise<Fastify
     console.log('Web dashboard not found, skipping static files');
   }
 
-  // 创建核心模块
-  const cli = new OpenSpecCli({ cwd });
-  const approvalManager = new ApprovalManager({ cwd });
-  const reviewManager = new ReviewManager({ cwd });
-  const specParser = new SpecParser({ cwd });
-  const fileWatcher = new FileWatcher({ cwd });
-  const crossServiceManager = new CrossServiceManager({ cwd });
+  // 创建核心模块（按请求的项目分派）
+  const cli = workspace.scoped(({ root }) => new OpenSpecCli({ cwd: root, index: projectIndex }));
+  const approvalManager = workspace.scoped(({ root }) => new ApprovalManager({ cwd: root, index: projectIndex }));
+  const reviewManager = workspace.scoped(({ root }) => new ReviewManager({ cwd: root, index: projectIndex }));
+  const specParser = workspace.scoped(({ root }) => new SpecParser({ cwd: root }));
+  const crossServiceManager = workspace.scoped(({ root }) => new CrossServiceManager({ cwd: root }));
+
+  // 每个项目一个文件监控器
+  const fileWatchers = new Map(projects.map((project) => [project.name, new FileWatcher({ cwd: project.root })]));
+  for (const project of projects) {
+    workspace.run(project.name, () => projectIndex.attach(fileWatchers.get(project.name)!));
+  }
+  const fileWatcher = workspace.scoped(({ name }) => fileWatchers.get(name)!);
 
   // WebSocket 客户端列表
   const wsClients = new Set<any>();
@@ -161,9 +181,12 @@ export async function startApiServer(options: ApiServerOptions): Promise<Fastify
   // 客户端订阅管理 (socket -> Set<topic>)
   const subscriptions = new Map<any, Set<string>>();
 
-  // 广播函数 (支持按主题过滤)
+  // 广播函数 (支持按主题过滤，数据中附带当前项目)
   const broadcast = (event: string, data: any, topic?: string) => {
-    const message = JSON.stringify({ event, data, timestamp: new Date().toISOString() });
+    const payload = data && typeof data === 'object' && !Array.isArray(data)
+      ? { ...data, project: workspace.current().name }
+      : data;
+    const message = JSON.stringify({ event, data: payload, timestamp: new Date().toISOString() });
     for (const client of wsClients) {
       if (client.readyState === 1) {
         // OPEN
@@ -181,7 +204,7 @@ export async function startApiServer(options: ApiServerOptions): Promise<Fastify
   };
 
   // API 上下文
-  const revisionManager = new RevisionManager({ cwd });
+  const revisionManager = workspace.scoped(({ root }) => new RevisionManager({ cwd: root }));
   const ctx: ApiContext = {
     cli,
     approvalManager,
@@ -189,8 +212,12 @@ export async function startApiServer(options: ApiServerOptions): Promise<Fastify
     revisionManager,
     specParser,
     fileWatcher,
+    projectIndex,
     crossServiceManager,
-    cwd,
+    workspace,
+    get cwd() {
+      return workspace.current().root;
+    },
     broadcast,
   };
 
@@ -263,6 +290,19 @@ export async function startApiServer(options: ApiServerOptions): Promise<Fastify
   // 注册 REST 路由
   await fastify.register(
     async (instance) => {
+      // 按 ?project= 或 x-openspec-project 请求头选择项目
+      instance.addHook('preHandler', (request, reply, done) => {
+        const header = request.headers['x-openspec-project'];
+        const project = (request.query as { project?: string } | undefined)?.project
+          || (Array.isArray(header) ? header[0] : header);
+
+        if (project && !workspace.has(project)) {
+          reply.code(404).send({ error: `Unknown project: ${project}` });
+          return;
+        }
+        workspace.run(project, done);
+      });
+
       registerChangesRoutes(instance, ctx);
       registerSpecsRoutes(instance, ctx);
       registerTasksRoutes(instance, ctx);
@@ -270,6 +310,11 @@ export async function startApiServer(options: ApiServerOptions): Promise<Fastify
       registerProjectRoutes(instance, ctx);
       registerKanbanRoutes(instance, ctx);
       registerContextRoutes(instance, ctx);
+      registerWorkspaceRoutes(instance, ctx);
+      registerSearchRoutes(instance, ctx);
+      registerConflictsRoutes(instance, ctx);
+      registerTraceabilityRoutes(instance, ctx);
+      registerEvidenceRoutes(instance, ctx);
     },
     { prefix: '/api' }
   );
@@ -287,8 +332,8 @@ export async function startApiServer(options: ApiServerOptions): Promise<Fastify
     return reply.code(404).send({ error: 'Not Found', statusCode: 404 });
   });
 
-  // 启动文件监控
-  fileWatcher.on('change', (event, fileInfo) => {
+  // 文件变化广播（在变化所属项目的作用域内执行）
+  const handleFileChange = (event: string, fileInfo: any) => {
     broadcast('file:changed', { event, filePath: fileInfo });
     
     // 处理 review 文件变化 - 广播 reviews:updated 事件
@@ -347,6 +392,18 @@ export async function startApiServer(options: ApiServerOptions): Promise<Fastify
         }
       }
 
+      // evidence.json 变化
+      if (type === 'evidence') {
+        const match = fileInfo.path?.match(/changes\/([^/]+)\/evidence\.json$/);
+        const changeId = match ? match[1] : null;
+        if (changeId) {
+          broadcast('evidence:updated', {
+            changeId,
+            timestamp: new Date().toISOString()
+          }, 'changes');
+        }
+      }
+
       // 跨服务文件变化 - 广播 cross-service:updated 事件
       if (type?.startsWith('cross-service')) {
         const fileName = fileInfo.path?.split('/').pop() || '';
@@ -357,23 +414,27 @@ export async function startApiServer(options: ApiServerOptions): Promise<Fastify
         }, 'cross-service');
       }
     }
-  });
+  };
 
-  await fileWatcher.start();
+  for (const project of projects) {
+    const watcher = fileWatchers.get(project.name)!;
+    watcher.on('change', (event, fileInfo) => workspace.run(project.name, () => handleFileChange(event, fileInfo)));
+    await watcher.start();
 
-  // 扫描活跃 changes 的跨服务目录并添加监控
-  try {
-    const changes = await cli.listChanges({ includeArchived: false });
-    for (const change of changes) {
-      const info = await crossServiceManager.getCrossServiceInfo(change.id);
-      if (info?.config?.rootPath) {
-        const changesDir = path.join(cwd, 'openspec', 'changes', change.id);
-        const crossServicePath = path.resolve(changesDir, info.config.rootPath);
-        fileWatcher.addCrossServicePath(crossServicePath);
+    // 扫描活跃 changes 的跨服务目录并添加监控
+    try {
+      const changes = await workspace.run(project.name, () => cli.listChanges({ includeArchived: false }));
+      for (const change of changes) {
+        const info = await workspace.run(project.name, () => crossServiceManager.getCrossServiceInfo(change.id));
+        if (info?.config?.rootPath) {
+          const changesDir = path.join(project.root, 'openspec', 'changes', change.id);
+          const crossServicePath = path.resolve(changesDir, info.config.rootPath);
+          watcher.addCrossServicePath(crossServicePath);
+        }
       }
+    } catch (err) {
+      console.log('No cross-service paths to watch or error scanning:', err);
     }
-  } catch (err) {
-    console.log('No cross-service paths to watch or error scanning:', err);
   }
 
   // 启动服务器
@@ -384,7 +445,9 @@ export async function startApiServer(options: ApiServerOptions): Promise<Fastify
     }
     const url = `http://localhost:${actualPort}`;
     console.log(`\n🚀 OpenSpec MCP Dashboard running at ${url}`);
-    console.log(`📁 Watching: ${cwd}/openspec`);
+    for (const project of projects) {
+      console.log(`📁 Watching: ${project.root}/openspec${workspace.isMultiRoot() ? ` (${project.name})` : ''}`);
+    }
     
     // 自动打开浏览器
     openBrowser(url);
@@ -396,7 +459,9 @@ export async function startApiServer(options: ApiServerOptions): Promise<Fastify
   // 优雅关闭
   const shutdown = async () => {
     console.log('\nShutting down...');
-    await fileWatcher.stop();
+    for (const watcher of fileWatchers.values()) {
+      await watcher.stop();
+    }
     await fastify.close();
     process.exit(0);
   };
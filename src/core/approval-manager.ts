@@ -6,16 +6,23 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import type { ApprovalRecord, ApprovalStatus } from '../types/openspec.js';
+import { ProjectIndex } from './project-index.js';
+import { ChangeDependencies } from './change-dependencies.js';
 
 export interface ApprovalManagerOptions {
   cwd?: string;
+  index?: ProjectIndex;       // 共享的项目索引（不传则不缓存）
 }
 
 export class ApprovalManager {
   private cwd: string;
+  private index: ProjectIndex;
+  private dependencies: ChangeDependencies;
 
   constructor(options?: ApprovalManagerOptions) {
     this.cwd = options?.cwd || process.cwd();
+    this.index = options?.index || new ProjectIndex({ cwd: this.cwd });
+    this.dependencies = new ChangeDependencies({ cwd: this.cwd, index: this.index });
   }
 
   /**
@@ -50,12 +57,14 @@ export class ApprovalManager {
   async getApprovalStatus(changeId: string): Promise<ApprovalRecord | null> {
     const approvalPath = this.getApprovalPath(changeId);
 
-    try {
-      const content = await fs.readFile(approvalPath, 'utf-8');
-      return JSON.parse(content) as ApprovalRecord;
-    } catch {
-      return null;
-    }
+    return this.index.get('approval', approvalPath, async () => {
+      try {
+        const content = await fs.readFile(approvalPath, 'utf-8');
+        return JSON.parse(content) as ApprovalRecord;
+      } catch {
+        return null;
+      }
+    });
   }
 
   /**
@@ -65,6 +74,7 @@ export class ApprovalManager {
     await this.ensureApprovalsDir();
     const approvalPath = this.getApprovalPath(record.changeId);
     await fs.writeFile(approvalPath, JSON.stringify(record, null, 2), 'utf-8');
+    this.index.invalidate(approvalPath);
   }
 
   /**
@@ -127,6 +137,9 @@ export class ApprovalManager {
       );
     }
 
+    // 依赖未归档时不能开始实施
+    await this.dependencies.assertUnblocked(changeId, 'approve');
+
     // 添加审批
     record.approvals.push({
       approver,
@@ -220,6 +233,8 @@ export class ApprovalManager {
       );
     }
 
+    await this.dependencies.assertUnblocked(changeId, 'complete');
+
     record.status = 'completed';
 
     record.history.push({
@@ -283,11 +298,10 @@ export class ApprovalManager {
       for (const file of files) {
         if (!file.endsWith('.json')) continue;
 
-        try {
-          const content = await fs.readFile(path.join(dir, file), 'utf-8');
-          records.push(JSON.parse(content));
-        } catch {
-          // 跳过无效文件
+        // 无效文件返回 null，跳过
+        const record = await this.getApprovalStatus(file.slice(0, -'.json'.length));
+        if (record) {
+          records.push(record);
         }
       }
     } catch {
@@ -316,6 +330,8 @@ export class ApprovalManager {
       return true;
     } catch {
       return false;
+    } finally {
+      this.index.invalidate(approvalPath);
     }
   }
 }
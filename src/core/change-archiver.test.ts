@@ -0,0 +1,252 @@
+/**
+ * ChangeArchiver 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ChangeArchiver } from './change-archiver.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const BASE_SPEC = `# Auth Specification
+
+## Purpose
+Authentication.
+
+## Requirements
+
+### Requirement: Login
+The system SHALL authenticate users.
+
+#### Scenario: Valid password
+- **WHEN** the password matches
+- **THEN** a session is created
+
+### Requirement: Remember me
+The system SHALL keep users signed in.
+
+#### Scenario: Returning user
+- **WHEN** the cookie is present
+- **THEN** the user is signed in
+
+### Requirement: Session timeout
+Sessions SHALL expire after 30 minutes.
+
+#### Scenario: Idle user
+- **WHEN** idle for 30 minutes
+- **THEN** the user is logged out
+`;
+
+const DELTA = `## ADDED Requirements
+
+### Requirement: Login throttling
+The system SHALL lock an account after five failed attempts.
+
+#### Scenario: Too many attempts
+- **WHEN** a user fails to log in five times
+- **THEN** the account is locked
+
+## MODIFIED Requirements
+
+### Requirement: Session timeout
+Sessions SHALL expire after 15 minutes.
+
+#### Scenario: Idle user
+- **WHEN** idle for 15 minutes
+- **THEN** the user is logged out
+
+## REMOVED Requirements
+
+### Requirement: Remember me
+**Reason**: security review
+
+## RENAMED Requirements
+
+- FROM: \`### Requirement: Login\`
+- TO: \`### Requirement: Password Login\`
+`;
+
+describe('ChangeArchiver', () => {
+  let tempDir: string;
+  let archiver: ChangeArchiver;
+
+  const write = async (relativePath: string, content: string) => {
+    const filePath = path.join(tempDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  };
+
+  const exists = (relativePath: string) =>
+    fs.access(path.join(tempDir, relativePath)).then(() => true, () => false);
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'change-archiver-test-'));
+    archiver = new ChangeArchiver({ cwd: tempDir });
+
+    await write('openspec/specs/auth/spec.md', BASE_SPEC);
+    await write('openspec/changes/harden-auth/proposal.md', '# Harden auth\n');
+    await write('openspec/changes/harden-auth/specs/auth/spec.md', DELTA);
+    await write(
+      'openspec/changes/harden-auth/specs/billing/spec.md',
+      '## ADDED Requirements\n\n### Requirement: Invoices\nThe system SHALL issue invoices.\n'
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should preview spec diffs without writing in dry-run mode', async () => {
+    const result = await archiver.archive('harden-auth', { dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.dryRun).toBe(true);
+    expect(result.specs.map((s) => [s.specName, s.status])).toEqual([
+      ['auth', 'updated'],
+      ['billing', 'created'],
+    ]);
+    expect(result.specs[0]).toMatchObject({
+      added: ['Login throttling'],
+      modified: ['Session timeout'],
+      removed: ['Remember me'],
+      renamed: [{ from: 'Login', to: 'Password Login' }],
+    });
+    expect(result.specs[0].diff).toContain('-### Requirement: Login');
+    expect(result.specs[0].diff).toContain('+### Requirement: Password Login');
+    expect(result.specs[1].diff).toContain('--- /dev/null');
+
+    // 未写入任何文件
+    expect(await fs.readFile(path.join(tempDir, 'openspec/specs/auth/spec.md'), 'utf-8')).toBe(BASE_SPEC);
+    expect(await exists('openspec/specs/billing/spec.md')).toBe(false);
+    expect(await exists('openspec/changes/harden-auth')).toBe(true);
+  });
+
+  it('should merge deltas into specs and move the change to the archive', async () => {
+    const result = await archiver.archive('harden-auth');
+    const date = new Date().toISOString().slice(0, 10);
+
+    expect(result.success).toBe(true);
+    expect(result.archivedPath).toBe(`openspec/changes/archive/${date}-harden-auth`);
+    expect(await exists(result.archivedPath)).toBe(true);
+    expect(await exists('openspec/changes/harden-auth')).toBe(false);
+
+    const auth = await fs.readFile(path.join(tempDir, 'openspec/specs/auth/spec.md'), 'utf-8');
+    expect(auth).toContain('### Requirement: Password Login');
+    expect(auth).not.toContain('Remember me');
+    expect(auth).toContain('Sessions SHALL expire after 15 minutes.');
+    expect(auth.indexOf('Login throttling')).toBeGreaterThan(auth.indexOf('Session timeout'));
+
+    const billing = await fs.readFile(path.join(tempDir, 'openspec/specs/billing/spec.md'), 'utf-8');
+    expect(billing).toContain('# billing Specification');
+    expect(billing).toContain('### Requirement: Invoices');
+  });
+
+  it('should abort without writing when a delta conflicts with the spec', async () => {
+    await write(
+      'openspec/changes/harden-auth/specs/auth/spec.md',
+      '## MODIFIED Requirements\n\n### Requirement: Unknown\nThe system SHALL do something.\n'
+    );
+
+    const result = await archiver.archive('harden-auth');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('auth: MODIFIED: requirement not found: Unknown');
+    expect(await exists('openspec/changes/harden-auth')).toBe(true);
+    expect(await exists('openspec/specs/billing/spec.md')).toBe(false);
+  });
+
+  it('should restore an archived change and revert its spec edits', async () => {
+    const archived = await archiver.archive('harden-auth');
+    const folder = archived.archivedPath.split('/').pop()!;
+
+    const result = await archiver.restore(folder);
+
+    expect(result.success).toBe(true);
+    expect(result.changeId).toBe('harden-auth');
+    expect(result.restoredPath).toBe('openspec/changes/harden-auth');
+    expect(result.specs.map((s) => [s.specName, s.status])).toEqual([
+      ['auth', 'reverted'],
+      ['billing', 'deleted'],
+    ]);
+    expect(await fs.readFile(path.join(tempDir, 'openspec/specs/auth/spec.md'), 'utf-8')).toBe(BASE_SPEC);
+    expect(await exists('openspec/specs/billing')).toBe(false);
+    expect(await exists('openspec/changes/harden-auth/.archive-manifest.json')).toBe(false);
+    expect(await exists(archived.archivedPath)).toBe(false);
+  });
+
+  it('should keep requirements edited after the archive', async () => {
+    await archiver.archive('harden-auth');
+    const specPath = path.join(tempDir, 'openspec/specs/auth/spec.md');
+    const merged = await fs.readFile(specPath, 'utf-8');
+    await fs.writeFile(specPath, merged.replace('after five failed attempts', 'after three failed attempts'));
+
+    const result = await archiver.restore('harden-auth');
+    const auth = await fs.readFile(specPath, 'utf-8');
+
+    expect(result.success).toBe(true);
+    expect(result.specs[0].status).toBe('partial');
+    expect(result.specs[0].skipped).toEqual(['ADDED Login throttling: requirement was edited after archive']);
+    expect(auth).toContain('after three failed attempts');
+    expect(auth).toContain('### Requirement: Remember me');
+    expect(auth).toContain('### Requirement: Login\n');
+  });
+
+  it('should roll back merged specs when archiving fails part way', async () => {
+    // billing 规格目录的位置被普通文件占用，写入 billing 规格时失败
+    await write('openspec/specs/billing', 'not a directory');
+
+    const result = await archiver.archive('harden-auth');
+
+    expect(result.success).toBe(false);
+    expect(await exists('openspec/changes/harden-auth')).toBe(true);
+    expect(await exists('openspec/changes/harden-auth/.archive-manifest.json')).toBe(false);
+    expect(await fs.readFile(path.join(tempDir, 'openspec/specs/auth/spec.md'), 'utf-8')).toBe(BASE_SPEC);
+  });
+
+  it('should report a corrupt archive manifest without touching specs', async () => {
+    const archived = await archiver.archive('harden-auth');
+    await write(`${archived.archivedPath}/.archive-manifest.json`, '{ not json');
+    const merged = await fs.readFile(path.join(tempDir, 'openspec/specs/auth/spec.md'), 'utf-8');
+
+    const result = await archiver.restore('harden-auth');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid archive manifest');
+    expect(await exists(archived.archivedPath)).toBe(true);
+    expect(await fs.readFile(path.join(tempDir, 'openspec/specs/auth/spec.md'), 'utf-8')).toBe(merged);
+  });
+
+  it('should report a manifest with the wrong shape or unsafe spec names', async () => {
+    const archived = await archiver.archive('harden-auth');
+    const manifestPath = `${archived.archivedPath}/.archive-manifest.json`;
+
+    await write(manifestPath, '{}');
+    const empty = await archiver.restore('harden-auth');
+    expect(empty.success).toBe(false);
+    expect(empty.error).toBe('Invalid archive manifest .archive-manifest.json: specs must be an array');
+
+    await write(manifestPath, JSON.stringify({ specs: [{ specName: '../../secrets', operations: [] }] }));
+    const unsafe = await archiver.restore('harden-auth');
+    expect(unsafe.success).toBe(false);
+    expect(unsafe.error).toContain('Invalid spec id: ../../secrets');
+    expect(await exists(archived.archivedPath)).toBe(true);
+  });
+
+  it('should refuse to restore over an active change', async () => {
+    await archiver.archive('harden-auth', { skipSpecs: true });
+    await write('openspec/changes/harden-auth/proposal.md', '# Again\n');
+
+    const result = await archiver.restore('harden-auth');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Active change already exists');
+  });
+
+  it('should skip spec merging when skipSpecs is set', async () => {
+    const result = await archiver.archive('harden-auth', { skipSpecs: true });
+
+    expect(result.success).toBe(true);
+    expect(result.specs).toEqual([]);
+    expect(await fs.readFile(path.join(tempDir, 'openspec/specs/auth/spec.md'), 'utf-8')).toBe(BASE_SPEC);
+  });
+});
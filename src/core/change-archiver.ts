@@ -0,0 +1,465 @@
+/**
+ * 变更归档器
+ * 在进程内完成归档：将 delta 合并到主规格，并把变更目录移动到 changes/archive/<date>-<id>
+ *
+ * 所有规格的合并结果先在内存中计算，任何冲突都会中止归档且不写入文件
+ * 归档目录中会写入 .archive-manifest.json，记录需求级操作以便恢复时回滚
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DeltaParser } from './delta-parser.js';
+import { SpecMerger } from './spec-merger.js';
+import type { AppliedOperation } from './spec-merger.js';
+import { CrossServiceManager } from './cross-service-manager.js';
+import { ChangeDependencies } from './change-dependencies.js';
+import { createUnifiedDiff } from '../utils/diff.js';
+import { ARCHIVE_DATE_PREFIX } from '../utils/constants.js';
+import { ensureSafeId } from '../utils/ids.js';
+
+const MANIFEST_FILE = '.archive-manifest.json';
+const SNAPSHOT_DIR = '.cross-service-snapshot';
+
+export interface ChangeArchiverOptions {
+  cwd?: string;
+}
+
+/**
+ * 单个规格的归档报告
+ */
+export interface ArchiveSpecReport {
+  specName: string;
+  path: string;                       // 相对项目根目录
+  status: 'created' | 'updated' | 'unchanged';
+  added: string[];
+  modified: string[];
+  removed: string[];
+  renamed: { from: string; to: string }[];
+  diff: string;                       // unified diff
+}
+
+export interface ArchiveResult {
+  success: boolean;
+  changeId: string;
+  archivedPath: string;
+  dryRun: boolean;
+  specs: ArchiveSpecReport[];
+  error?: string;
+}
+
+/**
+ * 归档清单（写入归档目录，供恢复使用）
+ */
+interface ArchiveManifest {
+  changeId: string;
+  archivedAt: string;
+  crossServiceSnapshot: boolean;
+  specs: {
+    specName: string;
+    created: boolean;                 // 规格是否由本次归档新建
+    operations: AppliedOperation[];
+  }[];
+}
+
+/**
+ * 单个规格的恢复报告
+ */
+export interface RestoreSpecReport {
+  specName: string;
+  path: string;
+  status: 'reverted' | 'partial' | 'deleted' | 'unchanged' | 'missing';
+  reverted: string[];
+  skipped: string[];
+}
+
+export interface RestoreResult {
+  success: boolean;
+  changeId: string;
+  restoredPath: string;
+  archivedPath: string;
+  specs: RestoreSpecReport[];
+  error?: string;
+}
+
+export class ChangeArchiver {
+  private cwd: string;
+  private deltaParser: DeltaParser;
+  private specMerger: SpecMerger;
+
+  constructor(options?: ChangeArchiverOptions) {
+    this.cwd = options?.cwd || process.cwd();
+    this.deltaParser = new DeltaParser();
+    this.specMerger = new SpecMerger();
+  }
+
+  /**
+   * 获取 openspec 目录路径
+   */
+  private getOpenSpecDir(): string {
+    return path.join(this.cwd, 'openspec');
+  }
+
+  /**
+   * 转换为相对项目根目录的路径
+   */
+  private relative(filePath: string): string {
+    return path.relative(this.cwd, filePath).split(path.sep).join('/');
+  }
+
+  /**
+   * 归档变更
+   *
+   * dryRun 为 true 时只返回合并后的规格差异，不写入任何文件
+   */
+  async archive(
+    changeId: string,
+    options?: { skipSpecs?: boolean; dryRun?: boolean }
+  ): Promise<ArchiveResult> {
+    const dryRun = options?.dryRun ?? false;
+    const changeDir = path.join(this.getOpenSpecDir(), 'changes', changeId);
+    // 日期只计算一次，避免跨午夜时路径不一致
+    const date = new Date().toISOString().slice(0, 10);
+    const archiveDir = path.join(this.getOpenSpecDir(), 'changes', 'archive', `${date}-${changeId}`);
+    const result: ArchiveResult = {
+      success: false,
+      changeId,
+      archivedPath: this.relative(archiveDir),
+      dryRun,
+      specs: [],
+    };
+
+    try {
+      await fs.access(changeDir);
+    } catch {
+      return { ...result, archivedPath: '', error: `Change not found: ${changeId}` };
+    }
+
+    try {
+      await fs.access(archiveDir);
+      return { ...result, archivedPath: '', error: `Archive already exists: ${result.archivedPath}` };
+    } catch {
+      // 目标不存在，可以归档
+    }
+
+    // 依赖的变更必须先归档
+    try {
+      await new ChangeDependencies({ cwd: this.cwd }).assertUnblocked(changeId, 'archive');
+    } catch (error) {
+      return { ...result, archivedPath: '', error: (error as Error).message };
+    }
+
+    const planned: { specPath: string; content: string; previous: string | null }[] = [];
+    const manifest: ArchiveManifest = {
+      changeId,
+      archivedAt: new Date().toISOString(),
+      crossServiceSnapshot: false,
+      specs: [],
+    };
+
+    if (!options?.skipSpecs) {
+      const errors: string[] = [];
+
+      for (const { specName, deltaContent } of await this.readDeltaSpecs(changeDir)) {
+        const deltas = this.deltaParser.parseDeltas(specName, deltaContent);
+        if (deltas.length === 0) continue;
+
+        const specPath = path.join(this.getOpenSpecDir(), 'specs', specName, 'spec.md');
+        const existing = await this.readOptional(specPath);
+        const base = existing ?? this.specMerger.createSkeleton(specName, changeId);
+        const merged = this.specMerger.merge(base, deltaContent, deltas);
+
+        errors.push(...merged.errors.map((e) => `${specName}: ${e}`));
+
+        const relativePath = this.relative(specPath);
+        result.specs.push({
+          specName,
+          path: relativePath,
+          status: existing === null ? 'created' : merged.content === existing ? 'unchanged' : 'updated',
+          added: merged.added,
+          modified: merged.modified,
+          removed: merged.removed,
+          renamed: merged.renamed,
+          diff: createUnifiedDiff(existing ?? '', merged.content, {
+            oldLabel: existing === null ? '/dev/null' : `a/${relativePath}`,
+            newLabel: `b/${relativePath}`,
+          }),
+        });
+        planned.push({ specPath, content: merged.content, previous: existing });
+        manifest.specs.push({ specName, created: existing === null, operations: merged.applied });
+      }
+
+      if (errors.length > 0) {
+        return { ...result, error: `Cannot apply spec deltas:\n${errors.join('\n')}` };
+      }
+    }
+
+    if (dryRun) {
+      return { ...result, success: true };
+    }
+
+    // 先移动变更目录再写入规格；写入规格失败时回滚，避免规格已合并而变更仍未归档
+    try {
+      // 跨服务文档快照：rootPath 相对变更目录解析，因此在移动前写入变更目录
+      const crossServiceManager = new CrossServiceManager({ cwd: this.cwd });
+      manifest.crossServiceSnapshot = await crossServiceManager.createSnapshot(changeDir, changeDir);
+
+      await fs.writeFile(path.join(changeDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2), 'utf-8');
+
+      await fs.mkdir(path.dirname(archiveDir), { recursive: true });
+      await fs.rename(changeDir, archiveDir);
+    } catch (error) {
+      await this.removeArchiveFiles(changeDir, manifest.crossServiceSnapshot);
+      const message = error instanceof Error ? error.message : 'Archive failed';
+      return { ...result, error: message };
+    }
+
+    try {
+      for (const { specPath, content } of planned) {
+        await fs.mkdir(path.dirname(specPath), { recursive: true });
+        await fs.writeFile(specPath, content, 'utf-8');
+      }
+    } catch (error) {
+      await this.restoreFiles(planned.map(({ specPath, previous }) => [specPath, previous]));
+      await fs.rename(archiveDir, changeDir).catch(() => undefined);
+      await this.removeArchiveFiles(changeDir, manifest.crossServiceSnapshot);
+      const message = error instanceof Error ? error.message : 'Archive failed';
+      return { ...result, error: message };
+    }
+
+    return { ...result, success: true };
+  }
+
+  /**
+   * 恢复已归档的变更
+   *
+   * 将目录移回 changes/，并在安全的前提下回滚归档对主规格的需求级修改
+   * 没有归档清单时（例如由 openspec CLI 归档）只能回滚 ADDED 和 RENAMED
+   *
+   * changeId 可以是原始 ID，也可以是归档目录名 (<date>-<id>)
+   */
+  async restore(changeId: string): Promise<RestoreResult> {
+    const archiveDir = await this.findArchiveDir(changeId);
+    if (!archiveDir) {
+      return {
+        success: false,
+        changeId,
+        restoredPath: '',
+        archivedPath: '',
+        specs: [],
+        error: `Archived change not found: ${changeId}`,
+      };
+    }
+
+    const restoredId = path.basename(archiveDir).replace(ARCHIVE_DATE_PREFIX, '');
+    const changeDir = path.join(this.getOpenSpecDir(), 'changes', restoredId);
+    const result: RestoreResult = {
+      success: false,
+      changeId: restoredId,
+      restoredPath: this.relative(changeDir),
+      archivedPath: this.relative(archiveDir),
+      specs: [],
+    };
+
+    try {
+      await fs.access(changeDir);
+      return { ...result, error: `Active change already exists: ${result.restoredPath}` };
+    } catch {
+      // 目标不存在，可以恢复
+    }
+
+    const manifestRaw = await this.readOptional(path.join(archiveDir, MANIFEST_FILE));
+    let manifest: ArchiveManifest;
+    try {
+      manifest = manifestRaw ? JSON.parse(manifestRaw) : await this.manifestFromDeltas(changeId, archiveDir);
+      if (!Array.isArray(manifest?.specs)) {
+        throw new Error('specs must be an array');
+      }
+      for (const entry of manifest.specs) {
+        ensureSafeId(String(entry?.specName ?? ''), 'spec');
+        if (!Array.isArray(entry.operations)) {
+          throw new Error(`operations of ${entry.specName} must be an array`);
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ...result, error: `Invalid archive manifest ${MANIFEST_FILE}: ${message}` };
+    }
+
+    // 先移回变更目录再回滚规格；回滚失败时恢复规格原内容并重新归档
+    const specPaths = manifest.specs.map((entry) => path.join(this.getOpenSpecDir(), 'specs', entry.specName, 'spec.md'));
+    const originals: [string, string | null][] = [];
+    for (const specPath of specPaths) {
+      originals.push([specPath, await this.readOptional(specPath)]);
+    }
+
+    try {
+      await fs.rename(archiveDir, changeDir);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Restore failed';
+      return { ...result, error: message };
+    }
+
+    try {
+      for (const [index, entry] of manifest.specs.entries()) {
+        result.specs.push(await this.revertSpec(specPaths[index], entry));
+      }
+    } catch (error) {
+      await this.restoreFiles(originals);
+      await fs.rename(changeDir, archiveDir).catch(() => undefined);
+      const message = error instanceof Error ? error.message : 'Restore failed';
+      return { ...result, specs: [], error: message };
+    }
+
+    await this.removeArchiveFiles(changeDir, manifest.crossServiceSnapshot);
+    return { ...result, success: true };
+  }
+
+  /**
+   * 回滚单个规格
+   */
+  private async revertSpec(
+    specPath: string,
+    entry: ArchiveManifest['specs'][number]
+  ): Promise<RestoreSpecReport> {
+    const report: RestoreSpecReport = {
+      specName: entry.specName,
+      path: this.relative(specPath),
+      status: 'unchanged',
+      reverted: [],
+      skipped: [],
+    };
+
+    const current = await this.readOptional(specPath);
+    if (current === null) {
+      return { ...report, status: 'missing', skipped: ['Spec file no longer exists'] };
+    }
+
+    const reverted = this.specMerger.revert(current, entry.operations);
+    report.reverted = reverted.reverted;
+    report.skipped = reverted.skipped;
+    if (reverted.reverted.length === 0) {
+      return report;
+    }
+
+    // 由归档新建且已无需求的规格直接删除
+    if (entry.created && reverted.skipped.length === 0 && this.specMerger.countRequirements(reverted.content) === 0) {
+      await fs.rm(specPath);
+      await fs.rmdir(path.dirname(specPath)).catch(() => undefined);
+      return { ...report, status: 'deleted' };
+    }
+
+    await fs.writeFile(specPath, reverted.content, 'utf-8');
+    return { ...report, status: reverted.skipped.length > 0 ? 'partial' : 'reverted' };
+  }
+
+  /**
+   * 没有归档清单时，从 delta spec 推导可回滚的操作
+   */
+  private async manifestFromDeltas(changeId: string, archiveDir: string): Promise<ArchiveManifest> {
+    const manifest: ArchiveManifest = { changeId, archivedAt: '', crossServiceSnapshot: false, specs: [] };
+
+    for (const { specName, deltaContent } of await this.readDeltaSpecs(archiveDir)) {
+      const deltaLines = deltaContent.split('\n');
+      const operations: AppliedOperation[] = [];
+
+      for (const delta of this.deltaParser.parseDeltas(specName, deltaContent)) {
+        if (delta.operation === 'RENAMED') {
+          operations.push(
+            ...(delta.renames || []).map((r) => ({ operation: delta.operation, title: r.to, from: r.from }))
+          );
+          continue;
+        }
+        for (const requirement of delta.requirements) {
+          const block = deltaLines.slice(requirement.line - 1, requirement.endLine).join('\n');
+          operations.push({
+            operation: delta.operation,
+            title: requirement.title,
+            after: delta.operation === 'REMOVED' ? undefined : block,
+          });
+        }
+      }
+
+      if (operations.length > 0) {
+        manifest.specs.push({ specName, created: false, operations });
+      }
+    }
+
+    return manifest;
+  }
+
+  /**
+   * 查找归档目录（<date>-<id>），有多个时取最新
+   */
+  private async findArchiveDir(changeId: string): Promise<string | null> {
+    const archiveRoot = path.join(this.getOpenSpecDir(), 'changes', 'archive');
+    try {
+      const entries = await fs.readdir(archiveRoot, { withFileTypes: true });
+      const matches = entries
+        .filter((e) => e.isDirectory())
+        .map((e) => e.name)
+        .filter((name) => name === changeId || name.replace(ARCHIVE_DATE_PREFIX, '') === changeId)
+        .sort();
+      return matches.length > 0 ? path.join(archiveRoot, matches[matches.length - 1]) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 读取变更中的所有 delta spec
+   */
+  private async readDeltaSpecs(changeDir: string): Promise<{ specName: string; deltaContent: string }[]> {
+    const specsDir = path.join(changeDir, 'specs');
+    const specs: { specName: string; deltaContent: string }[] = [];
+
+    try {
+      const entries = await fs.readdir(specsDir, { withFileTypes: true });
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        if (!entry.isDirectory()) continue;
+        const deltaContent = await this.readOptional(path.join(specsDir, entry.name, 'spec.md'));
+        if (deltaContent !== null) {
+          specs.push({ specName: entry.name, deltaContent });
+        }
+      }
+    } catch {
+      // 没有 specs 目录
+    }
+
+    return specs;
+  }
+
+  /**
+   * 删除归档时写入变更目录的清单和跨服务快照
+   */
+  private async removeArchiveFiles(dir: string, snapshot: boolean): Promise<void> {
+    if (snapshot) {
+      await fs.rm(path.join(dir, SNAPSHOT_DIR), { recursive: true, force: true }).catch(() => undefined);
+    }
+    await fs.rm(path.join(dir, MANIFEST_FILE), { force: true }).catch(() => undefined);
+  }
+
+  /**
+   * 把规格文件恢复为原内容（原本不存在的文件删除），用于失败时回滚
+   */
+  private async restoreFiles(originals: [string, string | null][]): Promise<void> {
+    for (const [filePath, content] of originals) {
+      if (content === null) {
+        await fs.rm(filePath, { force: true }).catch(() => undefined);
+        await fs.rmdir(path.dirname(filePath)).catch(() => undefined);
+      } else {
+        await fs.writeFile(filePath, content, 'utf-8').catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * 读取文件，不存在时返回 null
+   */
+  private async readOptional(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
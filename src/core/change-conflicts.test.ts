@@ -0,0 +1,82 @@
+/**
+ * ChangeConflicts 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ChangeConflicts } from './change-conflicts.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ChangeConflicts', () => {
+  let tempDir: string;
+  let conflicts: ChangeConflicts;
+
+  async function writeDelta(changeId: string, specName: string, content: string): Promise<void> {
+    const specDir = path.join(tempDir, 'openspec', 'changes', changeId, 'specs', specName);
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.writeFile(path.join(specDir, 'spec.md'), content);
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'change-conflicts-test-'));
+    conflicts = new ChangeConflicts({ cwd: tempDir });
+
+    await writeDelta('harden-login', 'auth', '## MODIFIED Requirements\n\n### Requirement: Login\nThe system SHALL lock.\n');
+    await writeDelta(
+      'add-sso',
+      'auth',
+      '## REMOVED Requirements\n\n### Requirement: login\n\n## ADDED Requirements\n\n### Requirement: Audit\nThe system SHALL audit.\n'
+    );
+    await writeDelta(
+      'add-audit',
+      'auth',
+      '## RENAMED Requirements\n- FROM: `### Requirement: Logging`\n- TO: `### Requirement: Audit`\n'
+    );
+    // 不同规格中的同名需求不冲突
+    await writeDelta('billing-login', 'billing', '## MODIFIED Requirements\n\n### Requirement: Login\nThe system SHALL bill.\n');
+    // 归档变更不参与比较
+    await writeDelta('archive/2024-01-01-old', 'auth', '## MODIFIED Requirements\n\n### Requirement: Login\nOld.\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should flag overlapping targets and name collisions', async () => {
+    const result = await conflicts.analyze();
+
+    expect(result).toEqual([
+      {
+        kind: 'name-collision',
+        specName: 'auth',
+        requirement: 'Audit',
+        operations: [
+          { changeId: 'add-audit', operation: 'RENAMED', file: 'openspec/changes/add-audit/specs/auth/spec.md', line: 2 },
+          { changeId: 'add-sso', operation: 'ADDED', file: 'openspec/changes/add-sso/specs/auth/spec.md', line: 7 },
+        ],
+      },
+      {
+        kind: 'overlap',
+        specName: 'auth',
+        requirement: 'login',
+        operations: [
+          { changeId: 'add-sso', operation: 'REMOVED', file: 'openspec/changes/add-sso/specs/auth/spec.md', line: 3 },
+          { changeId: 'harden-login', operation: 'MODIFIED', file: 'openspec/changes/harden-login/specs/auth/spec.md', line: 3 },
+        ],
+      },
+    ]);
+  });
+
+  it('should map each change to the changes it conflicts with', async () => {
+    const byChange = await conflicts.getConflictingChanges();
+
+    expect(Object.fromEntries(byChange)).toEqual({
+      'add-audit': ['add-sso'],
+      'add-sso': ['add-audit', 'harden-login'],
+      'harden-login': ['add-sso'],
+    });
+    expect((await conflicts.getConflictsFor('harden-login')).map((c) => c.requirement)).toEqual(['login']);
+    expect(await conflicts.getConflictsFor('billing-login')).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * 变更冲突检测
+ * 比较所有活跃变更的 delta spec，找出会在归档时互相覆盖的需求级操作
+ *
+ * - overlap：多个变更 MODIFIED / REMOVED / RENAMED 同一个需求
+ * - name-collision：多个变更 ADDED（或 RENAMED 为）同名需求
+ *
+ * 需求按标题匹配（忽略大小写和首尾空白），与 SpecMerger 一致
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DeltaParser } from './delta-parser.js';
+import { ProjectIndex } from './project-index.js';
+import type { DeltaOperation } from '../types/openspec.js';
+
+export interface ChangeConflictsOptions {
+  cwd?: string;
+  index?: ProjectIndex;        // 共享的项目索引（不传则不缓存）
+}
+
+export type ChangeConflictKind = 'overlap' | 'name-collision';
+
+/**
+ * 参与冲突的一次操作
+ */
+export interface ConflictingOperation {
+  changeId: string;
+  operation: DeltaOperation;
+  file: string;                // 相对项目根目录
+  line: number;
+}
+
+export interface ChangeConflict {
+  kind: ChangeConflictKind;
+  specName: string;
+  requirement: string;
+  operations: ConflictingOperation[];
+}
+
+interface Touch extends ConflictingOperation {
+  specName: string;
+  title: string;
+  kind: ChangeConflictKind;
+}
+
+export class ChangeConflicts {
+  private cwd: string;
+  private deltaParser: DeltaParser;
+  private index: ProjectIndex;
+
+  constructor(options?: ChangeConflictsOptions) {
+    this.cwd = options?.cwd || process.cwd();
+    this.index = options?.index || new ProjectIndex({ cwd: this.cwd });
+    this.deltaParser = new DeltaParser();
+  }
+
+  /**
+   * 获取 openspec 目录路径
+   */
+  private getOpenSpecDir(): string {
+    return path.join(this.cwd, 'openspec');
+  }
+
+  /**
+   * 分析所有活跃变更之间的冲突
+   */
+  async analyze(): Promise<ChangeConflict[]> {
+    const groups = new Map<string, Touch[]>();
+    const touches = await this.index.get('conflicts', path.join(this.getOpenSpecDir(), 'changes'), () =>
+      this.collectTouches()
+    );
+    for (const touch of touches) {
+      const key = [touch.kind, touch.specName, touch.title.trim().toLowerCase()].join('\0');
+      groups.set(key, [...(groups.get(key) || []), touch]);
+    }
+
+    const conflicts: ChangeConflict[] = [];
+    for (const touches of groups.values()) {
+      if (new Set(touches.map((t) => t.changeId)).size < 2) continue;
+
+      conflicts.push({
+        kind: touches[0].kind,
+        specName: touches[0].specName,
+        requirement: touches[0].title,
+        operations: touches.map(({ changeId, operation, file, line }) => ({ changeId, operation, file, line })),
+      });
+    }
+
+    return conflicts.sort(
+      (a, b) => a.specName.localeCompare(b.specName) || a.requirement.localeCompare(b.requirement)
+    );
+  }
+
+  /**
+   * 获取涉及指定变更的冲突
+   */
+  async getConflictsFor(changeId: string): Promise<ChangeConflict[]> {
+    const conflicts = await this.analyze();
+    return conflicts.filter((c) => c.operations.some((op) => op.changeId === changeId));
+  }
+
+  /**
+   * 变更 ID -> 与之冲突的其他变更
+   */
+  async getConflictingChanges(): Promise<Map<string, string[]>> {
+    const result = new Map<string, Set<string>>();
+    for (const conflict of await this.analyze()) {
+      const changeIds = conflict.operations.map((op) => op.changeId);
+      for (const changeId of changeIds) {
+        const others = result.get(changeId) || new Set<string>();
+        changeIds.filter((id) => id !== changeId).forEach((id) => others.add(id));
+        result.set(changeId, others);
+      }
+    }
+    return new Map([...result].map(([id, others]) => [id, [...others].sort()]));
+  }
+
+  /**
+   * 收集所有活跃变更对需求的操作
+   */
+  private async collectTouches(): Promise<Touch[]> {
+    const changesDir = path.join(this.getOpenSpecDir(), 'changes');
+    const touches: Touch[] = [];
+
+    for (const changeId of await this.listDirs(changesDir)) {
+      if (changeId === 'archive') continue;
+
+      const specsDir = path.join(changesDir, changeId, 'specs');
+      for (const specName of await this.listDirs(specsDir)) {
+        const deltaPath = path.join(specsDir, specName, 'spec.md');
+        let content: string;
+        try {
+          content = await fs.readFile(deltaPath, 'utf-8');
+        } catch {
+          continue;
+        }
+
+        const file = path.relative(this.cwd, deltaPath).split(path.sep).join('/');
+        const base = { changeId, specName, file };
+
+        for (const delta of this.deltaParser.parseDeltas(specName, content)) {
+          if (delta.operation === 'RENAMED') {
+            for (const rename of delta.renames || []) {
+              touches.push({ ...base, operation: 'RENAMED', title: rename.from, line: rename.line, kind: 'overlap' });
+              touches.push({ ...base, operation: 'RENAMED', title: rename.to, line: rename.line, kind: 'name-collision' });
+            }
+            continue;
+          }
+
+          for (const requirement of delta.requirements) {
+            touches.push({
+              ...base,
+              operation: delta.operation,
+              title: requirement.title,
+              line: requirement.line,
+              kind: delta.operation === 'ADDED' ? 'name-collision' : 'overlap',
+            });
+          }
+        }
+      }
+    }
+
+    return touches;
+  }
+
+  /**
+   * 列出子目录名（排序），目录不存在时返回空数组
+   */
+  private async listDirs(dir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries.filter((e) => e.isDirectory()).map((e) => e.name).sort();
+    } catch {
+      return [];
+    }
+  }
+}
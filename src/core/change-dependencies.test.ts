@@ -0,0 +1,86 @@
+/**
+ * ChangeDependencies 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ChangeDependencies } from './change-dependencies.js';
+import { ApprovalManager } from './approval-manager.js';
+import { SpecValidator } from './spec-validator.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ChangeDependencies', () => {
+  let tempDir: string;
+  let dependencies: ChangeDependencies;
+
+  async function createChange(dir: string, frontmatter = ''): Promise<void> {
+    const changeDir = path.join(tempDir, 'openspec', 'changes', dir);
+    await fs.mkdir(changeDir, { recursive: true });
+    const header = frontmatter ? `---\n${frontmatter}\n---\n` : '';
+    await fs.writeFile(path.join(changeDir, 'proposal.md'), `${header}# ${path.basename(dir)}\n`);
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'change-dependencies-test-'));
+    dependencies = new ChangeDependencies({ cwd: tempDir });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should block a change until its dependencies are archived', async () => {
+    await createChange('add-auth');
+    await createChange('add-sso', 'dependsOn: [add-auth]');
+
+    expect(await dependencies.getBlockers('add-sso')).toEqual(['add-auth']);
+    await expect(dependencies.assertUnblocked('add-sso', 'archive')).rejects.toThrow(
+      'Cannot archive add-sso: blocked by add-auth'
+    );
+
+    // 归档后（带日期前缀）依赖即满足
+    const changesDir = path.join(tempDir, 'openspec', 'changes');
+    await fs.mkdir(path.join(changesDir, 'archive'));
+    await fs.rename(path.join(changesDir, 'add-auth'), path.join(changesDir, 'archive', '2025-01-01-add-auth'));
+
+    expect(await dependencies.getBlockers('add-sso')).toEqual([]);
+    const report = await dependencies.analyze();
+    expect(report.edges).toEqual([{ from: '2025-01-01-add-auth', to: 'add-sso' }]);
+  });
+
+  it('should report missing references and cycles', async () => {
+    await createChange('a', 'dependsOn: b');
+    await createChange('b', 'dependsOn: [a, ghost]');
+
+    const report = await dependencies.analyze();
+    expect(report.missing).toEqual([{ changeId: 'b', dependsOn: 'ghost' }]);
+    expect(report.cycles).toEqual([['a', 'b']]);
+
+    const mermaid = await dependencies.toMermaid();
+    expect(mermaid).toContain('ghost (missing)');
+    expect(mermaid).toContain('class c0,c1 blocked');
+
+    const result = await new SpecValidator({ cwd: tempDir }).validateChange('b');
+    expect(result.errors.map((e) => [e.rule, e.line])).toEqual(
+      expect.arrayContaining([
+        ['change.dependsOn.missing', 2],
+        ['change.dependsOn.cycle', 2],
+      ])
+    );
+  });
+
+  it('should refuse to approve a blocked change', async () => {
+    await createChange('add-auth');
+    await createChange('add-sso', 'dependsOn: add-auth');
+
+    const manager = new ApprovalManager({ cwd: tempDir });
+    await manager.requestApproval('add-sso', 'alice');
+    await expect(manager.approve('add-sso', 'bob')).rejects.toThrow(
+      'Cannot approve add-sso: blocked by add-auth'
+    );
+
+    await manager.requestApproval('add-auth', 'alice');
+    await expect(manager.approve('add-auth', 'bob')).resolves.toMatchObject({ status: 'in_progress' });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * 变更依赖
+ * 根据 proposal.md frontmatter 中的 dependsOn 构建变更之间的依赖图
+ *
+ * - 依赖的变更归档后才算满足；未归档或不存在的依赖会阻塞当前变更
+ * - 依赖可写变更 ID 或归档目录名（<date>-<id>）
+ * - 检测不存在的引用和循环依赖
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import matter from 'gray-matter';
+import { parseChangeMetadata } from './change-metadata.js';
+import { ARCHIVE_DATE_PREFIX } from '../utils/constants.js';
+import { findCycles } from '../utils/graph.js';
+import { ProjectIndex } from './project-index.js';
+import type { ChangeStatus } from '../types/openspec.js';
+
+export interface ChangeDependenciesOptions {
+  cwd?: string;
+  index?: ProjectIndex;        // 共享的项目索引（不传则不缓存）
+}
+
+export interface ChangeDependencyNode {
+  id: string;                  // 活跃变更 ID 或归档目录名
+  title: string;
+  status: ChangeStatus;
+  dependsOn: string[];         // frontmatter 原始引用
+  blockedBy: string[];         // 未满足的依赖
+}
+
+export interface ChangeDependencyReport {
+  nodes: ChangeDependencyNode[];
+  edges: { from: string; to: string }[];     // 依赖 -> 被依赖方（先 from 后 to）
+  missing: { changeId: string; dependsOn: string }[];
+  cycles: string[][];
+}
+
+export class ChangeDependencies {
+  private cwd: string;
+  private index: ProjectIndex;
+
+  constructor(options?: ChangeDependenciesOptions) {
+    this.cwd = options?.cwd || process.cwd();
+    this.index = options?.index || new ProjectIndex({ cwd: this.cwd });
+  }
+
+  /**
+   * 获取 openspec 目录路径
+   */
+  private getOpenSpecDir(): string {
+    return path.join(this.cwd, 'openspec');
+  }
+
+  /**
+   * 分析所有变更（含归档）的依赖关系
+   */
+  async analyze(): Promise<ChangeDependencyReport> {
+    // changes 目录下任意文件变化都会失效该条目
+    const nodes = await this.index.get('dependencies', path.join(this.getOpenSpecDir(), 'changes'), () =>
+      this.loadNodes()
+    );
+    const byKey = new Map<string, ChangeDependencyNode>();
+    for (const node of nodes) {
+      const key = toKey(node.id);
+      // 同名时活跃变更优先
+      if (!byKey.has(key) || node.status === 'active') {
+        byKey.set(key, node);
+      }
+    }
+
+    const edges: ChangeDependencyReport['edges'] = [];
+    const missing: ChangeDependencyReport['missing'] = [];
+
+    for (const node of nodes) {
+      for (const dependency of node.dependsOn) {
+        const target = byKey.get(toKey(dependency));
+        if (!target) {
+          missing.push({ changeId: node.id, dependsOn: dependency });
+          node.blockedBy.push(dependency);
+          continue;
+        }
+
+        edges.push({ from: target.id, to: node.id });
+        if (target.status !== 'archived') {
+          node.blockedBy.push(target.id);
+        }
+      }
+    }
+
+    // 沿「依赖方 -> 被依赖方」查找环
+    const dependencies = new Map<string, string[]>(nodes.map((n) => [n.id, []]));
+    for (const edge of edges) {
+      dependencies.get(edge.to)?.push(edge.from);
+    }
+
+    return { nodes, edges, missing, cycles: findCycles(dependencies) };
+  }
+
+  /**
+   * 获取阻塞指定变更的依赖（未归档或不存在）
+   */
+  async getBlockers(changeId: string): Promise<string[]> {
+    const report = await this.analyze();
+    const node = report.nodes.find((n) => n.id === changeId && n.status === 'active');
+    return node ? node.blockedBy : [];
+  }
+
+  /**
+   * 依赖未满足时抛出错误
+   */
+  async assertUnblocked(changeId: string, action: string): Promise<void> {
+    const blockers = await this.getBlockers(changeId);
+    if (blockers.length > 0) {
+      throw new Error(
+        `Cannot ${action} ${changeId}: blocked by ${blockers.join(', ')} (dependencies must be archived first)`
+      );
+    }
+  }
+
+  /**
+   * 生成 Mermaid 格式的依赖图
+   *
+   * 默认只包含活跃变更及其直接依赖的归档变更
+   */
+  async toMermaid(options?: { includeArchived?: boolean }): Promise<string> {
+    const report = await this.analyze();
+
+    const referenced = new Set(report.edges.map((e) => e.from));
+    const nodes = report.nodes.filter(
+      (n) => n.status === 'active' || options?.includeArchived || referenced.has(n.id)
+    );
+    if (nodes.length === 0) {
+      return 'graph LR\n  NoChanges[No changes found]';
+    }
+
+    const ids = new Map(nodes.map((n, i) => [n.id, `c${i}`]));
+    let mermaid = 'graph LR\n';
+
+    for (const node of nodes) {
+      const safeTitle = node.title.replace(/"/g, "'");
+      const label = node.status === 'archived' ? `${safeTitle} ✓` : safeTitle;
+      mermaid += `  ${ids.get(node.id)}["${label}"]\n`;
+    }
+
+    // 不存在的依赖显示为虚线节点
+    const missingIds = new Map<string, string>();
+    for (const { dependsOn } of report.missing) {
+      if (!missingIds.has(dependsOn)) {
+        missingIds.set(dependsOn, `m${missingIds.size}`);
+        mermaid += `  ${missingIds.get(dependsOn)}["${dependsOn.replace(/"/g, "'")} (missing)"]\n`;
+      }
+    }
+
+    const lines: string[] = [];
+    for (const edge of report.edges) {
+      const from = ids.get(edge.from);
+      const to = ids.get(edge.to);
+      if (from && to) {
+        lines.push(`  ${from} --> ${to}`);
+      }
+    }
+    for (const { changeId, dependsOn } of report.missing) {
+      const to = ids.get(changeId);
+      if (to) {
+        lines.push(`  ${missingIds.get(dependsOn)} -.-> ${to}`);
+      }
+    }
+    if (lines.length > 0) {
+      mermaid += `\n${lines.join('\n')}\n`;
+    }
+
+    // 被阻塞的变更标红
+    const blocked = nodes.filter((n) => n.status === 'active' && n.blockedBy.length > 0).map((n) => ids.get(n.id));
+    if (blocked.length > 0) {
+      mermaid += `\n  classDef blocked stroke:#dc2626,stroke-width:2px\n  class ${blocked.join(',')} blocked\n`;
+    }
+
+    return mermaid;
+  }
+
+  /**
+   * 读取所有变更的 dependsOn
+   */
+  private async loadNodes(): Promise<ChangeDependencyNode[]> {
+    const changesDir = path.join(this.getOpenSpecDir(), 'changes');
+    const nodes: ChangeDependencyNode[] = [];
+
+    const dirs: { id: string; dir: string; status: ChangeStatus }[] = [];
+    for (const id of await this.listDirs(changesDir)) {
+      if (id !== 'archive') {
+        dirs.push({ id, dir: path.join(changesDir, id), status: 'active' });
+      }
+    }
+    for (const id of await this.listDirs(path.join(changesDir, 'archive'))) {
+      dirs.push({ id, dir: path.join(changesDir, 'archive', id), status: 'archived' });
+    }
+
+    for (const { id, dir, status } of dirs) {
+      let title = id;
+      let dependsOn: string[] = [];
+      try {
+        const { data, content } = matter(await fs.readFile(path.join(dir, 'proposal.md'), 'utf-8'));
+        title = content.match(/^#\s+(.+)/m)?.[1].trim() || id;
+        dependsOn = parseChangeMetadata(data).dependsOn || [];
+      } catch {
+        // 没有 proposal.md 或 frontmatter 无效
+      }
+      nodes.push({ id, title, status, dependsOn, blockedBy: [] });
+    }
+
+    return nodes;
+  }
+
+  /**
+   * 列出子目录名（排序），目录不存在时返回空数组
+   */
+  private async listDirs(dir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries.filter((e) => e.isDirectory()).map((e) => e.name).sort();
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * 去掉归档日期前缀，用于匹配依赖引用
+ */
+function toKey(id: string): string {
+  return id.replace(ARCHIVE_DATE_PREFIX, '');
+}
@@ -0,0 +1,69 @@
+/**
+ * 变更元数据单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { parseChangeMetadata, filterChanges } from './change-metadata.js';
+import { OpenSpecCli } from './openspec-cli.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('change metadata', () => {
+  let tempDir: string;
+
+  async function createChange(id: string, frontmatter: string): Promise<void> {
+    const changeDir = path.join(tempDir, 'openspec', 'changes', id);
+    await fs.mkdir(changeDir, { recursive: true });
+    await fs.writeFile(path.join(changeDir, 'proposal.md'), `---\n${frontmatter}\n---\n# ${id}\n`);
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'change-metadata-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should normalize frontmatter values and drop invalid ones', () => {
+    expect(
+      parseChangeMetadata({
+        owner: '@alice',
+        priority: 'High',
+        labels: 'auth, security,auth',
+        targetRelease: 2.1,
+        dueDate: new Date('2025-03-01T00:00:00Z'),
+      })
+    ).toEqual({
+      owner: 'alice',
+      priority: 'high',
+      labels: ['auth', 'security'],
+      targetRelease: '2.1',
+      dueDate: '2025-03-01',
+    });
+
+    expect(parseChangeMetadata({ priority: 'urgent', dueDate: 'next week', labels: [] })).toEqual({});
+  });
+
+  it('should surface metadata on listed changes and filter them', async () => {
+    await createChange('add-sso', 'owner: alice\npriority: high\nlabels: [auth, security]\ndueDate: 2025-03-01');
+    await createChange('add-billing', 'owner: bob\npriority: low\nlabels: [billing]\ntargetRelease: "2.0"');
+
+    const cli = new OpenSpecCli({ cwd: tempDir });
+    const changes = await cli.listChanges();
+    expect(changes.find((c) => c.id === 'add-sso')).toMatchObject({
+      title: 'add-sso',
+      owner: 'alice',
+      priority: 'high',
+      labels: ['auth', 'security'],
+      dueDate: '2025-03-01',
+    });
+
+    expect(filterChanges(changes, { owner: '@Alice' }).map((c) => c.id)).toEqual(['add-sso']);
+    expect(filterChanges(changes, { labels: ['AUTH', 'security'] }).map((c) => c.id)).toEqual(['add-sso']);
+    expect(filterChanges(changes, { targetRelease: '2.0' }).map((c) => c.id)).toEqual(['add-billing']);
+    expect(filterChanges(changes, { dueBefore: '2025-02-28' })).toEqual([]);
+    expect(filterChanges(changes, { dueBefore: '2025-03-01', priority: 'high' }).map((c) => c.id)).toEqual(['add-sso']);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * 变更元数据
+ * 解析 proposal.md frontmatter 中的 owner / priority / labels / targetRelease / dueDate，并提供列表过滤
+ *
+ * 格式：
+ * ---
+ * owner: alice
+ * priority: high
+ * labels: [auth, security]
+ * targetRelease: "2.1"
+ * dueDate: 2025-03-01
+ * dependsOn: [add-auth]
+ * ---
+ */
+
+import type { Change, ChangeMetadata, ChangePriority } from '../types/openspec.js';
+
+const PRIORITIES: ChangePriority[] = ['high', 'medium', 'low'];
+
+/**
+ * 变更列表过滤条件（均为可选，同时指定时取交集）
+ */
+export interface ChangeFilter {
+  owner?: string;
+  priority?: ChangePriority;
+  labels?: string[];           // 必须包含全部标签
+  targetRelease?: string;
+  dueBefore?: string;          // YYYY-MM-DD（包含当天）
+}
+
+/**
+ * 从 frontmatter 数据解析元数据，忽略无效字段
+ */
+export function parseChangeMetadata(data: Record<string, unknown>): ChangeMetadata {
+  const metadata: ChangeMetadata = {};
+
+  const owner = toText(data.owner);
+  if (owner) {
+    metadata.owner = owner.replace(/^@/, '');
+  }
+
+  const priority = toText(data.priority)?.toLowerCase();
+  if (priority && PRIORITIES.includes(priority as ChangePriority)) {
+    metadata.priority = priority as ChangePriority;
+  }
+
+  const labels = toList(data.labels);
+  if (labels.length > 0) {
+    metadata.labels = labels;
+  }
+
+  const targetRelease = toText(data.targetRelease);
+  if (targetRelease) {
+    metadata.targetRelease = targetRelease;
+  }
+
+  // YAML 会把未加引号的日期解析为 Date
+  const dueDate = data.dueDate instanceof Date
+    ? data.dueDate.toISOString().slice(0, 10)
+    : toText(data.dueDate);
+  if (dueDate && /^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+    metadata.dueDate = dueDate;
+  }
+
+  const dependsOn = toList(data.dependsOn);
+  if (dependsOn.length > 0) {
+    metadata.dependsOn = dependsOn;
+  }
+
+  return metadata;
+}
+
+/**
+ * 按元数据过滤变更
+ */
+export function filterChanges<T extends Change>(changes: T[], filter: ChangeFilter): T[] {
+  const owner = filter.owner?.replace(/^@/, '').toLowerCase();
+  const labels = filter.labels?.map((l) => l.toLowerCase()) ?? [];
+
+  return changes.filter((change) => {
+    if (owner && change.owner?.toLowerCase() !== owner) return false;
+    if (filter.priority && change.priority !== filter.priority) return false;
+    if (filter.targetRelease && change.targetRelease !== filter.targetRelease) return false;
+    if (filter.dueBefore && (!change.dueDate || change.dueDate > filter.dueBefore)) return false;
+
+    const changeLabels = change.labels?.map((l) => l.toLowerCase()) ?? [];
+    return labels.every((label) => changeLabels.includes(label));
+  });
+}
+
+/**
+ * 解析列表字段，支持数组或逗号分隔的字符串，去重
+ */
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return [...new Set(items.map(toText).filter((item): item is string => !!item))];
+}
+
+/**
+ * 将标量转换为去除首尾空白的字符串
+ */
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string' || typeof value === 'number') {
+    const text = String(value).trim();
+    return text || undefined;
+  }
+  return undefined;
+}
@@ -67,6 +67,9 @@ export interface ProjectContext {
   projectName: string;
 }
 
+// 扫描文件时跳过的目录（以 . 开头的目录同样跳过）
+export const IGNORED_DIRECTORIES = ['node_modules', '.git', 'dist', 'build', '.next', '__pycache__', '.cache', 'vendor'];
+
 // 语言扩展名映射
 const LANGUAGE_EXTENSIONS: Record<string, string> = {
   '.ts': 'TypeScript',
@@ -221,11 +224,18 @@ export class ContextAnalyzer {
   }
 
   /**
-   * 扫描文件
+   * 列出项目文件（相对路径，使用 / 分隔），与上下文分析使用相同的忽略规则，不限制目录深度
+   */
+  async listFiles(): Promise<string[]> {
+    const files = await this.scanFiles(this.cwd, '', Infinity);
+    return files.map((file) => file.split(path.sep).join('/'));
+  }
+
+  /**
+   * 扫描文件（maxDepth 为最大目录层级）
    */
-  private async scanFiles(dir: string, prefix = ''): Promise<string[]> {
+  private async scanFiles(dir: string, prefix = '', maxDepth = 5): Promise<string[]> {
     const files: string[] = [];
-    const ignorePatterns = ['node_modules', '.git', 'dist', 'build', '.next', '__pycache__', '.cache', 'vendor'];
     
     try {
       const entries = await fs.readdir(dir, { withFileTypes: true });
@@ -236,13 +246,13 @@ export class ContextAnalyzer {
         
         if (entry.isDirectory()) {
           // 跳过忽略的目录
-          if (ignorePatterns.includes(name) || name.startsWith('.')) {
+          if (IGNORED_DIRECTORIES.includes(name) || name.startsWith('.')) {
             continue;
           }
           
           // 限制递归深度
-          if (relativePath.split(path.sep).length < 5) {
-            const subFiles = await this.scanFiles(path.join(dir, name), relativePath);
+          if (relativePath.split(path.sep).length < maxDepth) {
+            const subFiles = await this.scanFiles(path.join(dir, name), relativePath, maxDepth);
             files.push(...subFiles);
           }
         } else if (entry.isFile()) {
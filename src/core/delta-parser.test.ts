@@ -0,0 +1,72 @@
+/**
+ * DeltaParser 单元测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DeltaParser } from './delta-parser.js';
+
+const DELTA = `# Auth Delta
+
+## ADDED Requirements
+
+### Requirement: Login throttling
+The system SHALL lock an account after five failed attempts.
+
+#### Scenario: Too many attempts
+- **WHEN** a user fails to log in five times
+- **THEN** the account is locked
+
+## MODIFIED Requirements
+
+### Requirement: Session timeout
+Sessions SHALL expire after 15 minutes.
+
+#### Scenario: Idle user
+- **WHEN** idle for 15 minutes
+- **THEN** the user is logged out
+
+## REMOVED Requirements
+
+### Requirement: Remember me
+**Reason**: security review
+
+## RENAMED Requirements
+
+- FROM: \`### Requirement: Login\`
+- TO: \`### Requirement: Password Login\`
+`;
+
+describe('DeltaParser', () => {
+  const parser = new DeltaParser();
+
+  it('should parse each operation section into a delta', () => {
+    const deltas = parser.parseDeltas('auth', DELTA);
+
+    expect(deltas.map((d) => d.operation)).toEqual(['ADDED', 'MODIFIED', 'REMOVED', 'RENAMED']);
+    expect(deltas.every((d) => d.specName === 'auth')).toBe(true);
+    expect(deltas[0]).toMatchObject({ line: 3 });
+    expect(deltas[0].requirements.map((r) => r.title)).toEqual(['Login throttling']);
+    expect(deltas[1].requirements[0].scenarios[0].then).toBe('the user is logged out');
+    expect(deltas[2].requirements[0]).toMatchObject({
+      title: 'Remember me',
+      content: '**Reason**: security review',
+    });
+  });
+
+  it('should parse RENAMED FROM/TO pairs', () => {
+    const renamed = parser.parseDeltas('auth', DELTA).find((d) => d.operation === 'RENAMED');
+
+    expect(renamed?.requirements).toEqual([]);
+    expect(renamed?.renames).toEqual([{ from: 'Login', to: 'Password Login', line: 28 }]);
+  });
+
+  it('should ignore unknown sections and headings in code fences', () => {
+    const deltas = parser.parseDeltas(
+      'auth',
+      '## Notes\n\n```md\n## ADDED Requirements\n```\n\n## ADDED Requirements\n\n### Requirement: A\nThe system SHALL do A.\n'
+    );
+
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0]).toMatchObject({ operation: 'ADDED', line: 7 });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Delta 解析器
+ * 将变更中的 specs/<capability>/spec.md 解析为结构化的 Delta 记录
+ *
+ * 支持格式：
+ * ## ADDED Requirements
+ * ### Requirement: Login throttling
+ * ...
+ *
+ * ## RENAMED Requirements
+ * - FROM: `### Requirement: Login`
+ * - TO: `### Requirement: Password Login`
+ */
+
+import type { Delta, DeltaOperation, RequirementRename } from '../types/openspec.js';
+import { RequirementParser, splitRequirementTitle } from './requirement-parser.js';
+
+const OPERATION_HEADING = /^##\s+(ADDED|MODIFIED|REMOVED|RENAMED)\s+Requirements\s*$/;
+
+export class DeltaParser {
+  private requirementParser: RequirementParser;
+
+  constructor() {
+    this.requirementParser = new RequirementParser();
+  }
+
+  /**
+   * 解析单个 delta spec，每个操作段落生成一条 Delta
+   */
+  parseDeltas(specName: string, content: string): Delta[] {
+    const lines = content.split('\n').map((l) => l.replace(/\r$/, ''));
+    const sections = this.collectSections(lines);
+    const deltas: Delta[] = [];
+
+    for (const section of sections) {
+      if (section.operation === 'RENAMED') {
+        deltas.push({
+          specName,
+          operation: section.operation,
+          requirements: [],
+          renames: this.parseRenames(lines, section.line + 1, section.endLine),
+          line: section.line,
+        });
+        continue;
+      }
+
+      deltas.push({
+        specName,
+        operation: section.operation,
+        requirements: this.requirementParser.parseRequirements(content, {
+          startLine: section.line + 1,
+          endLine: section.endLine,
+        }),
+        line: section.line,
+      });
+    }
+
+    return deltas;
+  }
+
+  /**
+   * 收集操作段落（忽略代码块），段落以下一个二级及以上标题结束
+   */
+  private collectSections(
+    lines: string[]
+  ): { operation: DeltaOperation; line: number; endLine: number }[] {
+    const sections: { operation: DeltaOperation; line: number; endLine: number }[] = [];
+    let current: { operation: DeltaOperation; line: number } | null = null;
+    let inFence = false;
+
+    const close = (endLine: number) => {
+      if (current) {
+        sections.push({ ...current, endLine });
+        current = null;
+      }
+    };
+
+    lines.forEach((line, index) => {
+      const lineNum = index + 1;
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        return;
+      }
+      if (inFence || !/^#{1,2}\s/.test(line)) return;
+
+      close(lineNum - 1);
+      const match = line.match(OPERATION_HEADING);
+      if (match) {
+        current = { operation: match[1] as DeltaOperation, line: lineNum };
+      }
+    });
+    close(lines.length);
+
+    return sections;
+  }
+
+  /**
+   * 解析 RENAMED 段落中的 FROM/TO 配对，不完整的配对会被跳过
+   */
+  private parseRenames(lines: string[], startLine: number, endLine: number): RequirementRename[] {
+    const renames: RequirementRename[] = [];
+    let pending: { from: string; line: number } | null = null;
+
+    for (let lineNum = startLine; lineNum <= endLine; lineNum++) {
+      const line = lines[lineNum - 1];
+      const fromMatch = line.match(/^\s*-\s*FROM:\s*(.+)$/i);
+      const toMatch = line.match(/^\s*-\s*TO:\s*(.+)$/i);
+
+      if (fromMatch) {
+        pending = { from: this.extractTitle(fromMatch[1]), line: lineNum };
+      } else if (toMatch && pending) {
+        renames.push({ from: pending.from, to: this.extractTitle(toMatch[1]), line: pending.line });
+        pending = null;
+      }
+    }
+
+    return renames;
+  }
+
+  /**
+   * 从 `### Requirement: Title` 形式中提取需求标题（去掉稳定 ID）
+   */
+  private extractTitle(raw: string): string {
+    return splitRequirementTitle(
+      raw
+        .trim()
+        .replace(/^`(.*)`$/, '$1')
+        .replace(/^#{1,6}\s*/, '')
+        .replace(/^Requirement:\s*/i, '')
+    ).title;
+  }
+}
@@ -9,16 +9,28 @@ import { EventEmitter } from 'events';
 
 export interface FileWatcherOptions {
   cwd: string;
+  silent?: boolean;           // 不输出日志（MCP stdio 模式下 stdout 用于协议通信）
 }
 
 export class FileWatcher extends EventEmitter {
   private cwd: string;
   private watcher: FSWatcher | null = null;
   private crossServicePaths: Set<string> = new Set();
+  private silent: boolean;
 
   constructor(options: FileWatcherOptions) {
     super();
     this.cwd = options.cwd;
+    this.silent = options.silent ?? false;
+  }
+
+  /**
+   * 输出日志
+   */
+  private log(message: string): void {
+    if (!this.silent) {
+      console.log(message);
+    }
   }
 
   /**
@@ -65,7 +77,7 @@ export class FileWatcher extends EventEmitter {
         this.emit('error', error);
       })
       .on('ready', () => {
-        console.log(`File watcher ready: ${watchPath}`);
+        this.log(`File watcher ready: ${watchPath}`);
         this.emit('ready');
       });
   }
@@ -82,7 +94,7 @@ export class FileWatcher extends EventEmitter {
 
     if (this.watcher) {
       this.watcher.add(crossServicePath);
-      console.log(`Added cross-service path to watcher: ${crossServicePath}`);
+      this.log(`Added cross-service path to watcher: ${crossServicePath}`);
     }
   }
 
@@ -96,7 +108,7 @@ export class FileWatcher extends EventEmitter {
     // 解析文件类型
     const fileType = this.getFileType(relativePath);
 
-    console.log(`[${event}] ${relativePath} (${fileType})`);
+    this.log(`[${event}] ${relativePath} (${fileType})`);
 
     // 发射事件
     this.emit('change', event, {
@@ -154,6 +166,7 @@ export class FileWatcher extends EventEmitter {
       if (relativePath.endsWith('design.md')) return 'design';
       if (relativePath.endsWith('tasks.md')) return 'tasks';
       if (relativePath.endsWith('revisions.json')) return 'revisions';
+      if (relativePath.endsWith('evidence.json')) return 'evidence';
       if (relativePath.includes('/specs/')) return 'delta';
       return 'change';
     }
@@ -176,7 +189,7 @@ export class FileWatcher extends EventEmitter {
     if (this.watcher) {
       await this.watcher.close();
       this.watcher = null;
-      console.log('File watcher stopped');
+      this.log('File watcher stopped');
     }
   }
 
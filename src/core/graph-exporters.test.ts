@@ -0,0 +1,127 @@
+/**
+ * 图导出器单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SpecParser } from './spec-parser.js';
+import { exportGraph, getGraphExporter, listGraphFormats, registerGraphExporter } from './graph-exporters.js';
+import type { ExportableGraph } from './graph-exporters.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('graph exporters', () => {
+  let tempDir: string;
+  let parser: SpecParser;
+
+  async function writeSpec(specId: string, content: string): Promise<void> {
+    const specDir = path.join(tempDir, 'openspec', 'specs', specId);
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.writeFile(path.join(specDir, 'spec.md'), content);
+  }
+
+  async function writeDelta(changeId: string, specId: string): Promise<void> {
+    const specDir = path.join(tempDir, 'openspec', 'changes', changeId, 'specs', specId);
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.writeFile(path.join(specDir, 'spec.md'), '## ADDED Requirements\n');
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-exporters-test-'));
+    parser = new SpecParser({ cwd: tempDir });
+
+    await writeSpec('auth-core', '# Auth Core\n');
+    await writeSpec('auth-session', '# Auth Session\n<!-- @depends-on: auth-core -->\n');
+    await writeSpec('billing', '# Billing\n<!-- @depends-on: auth-session, payment-gateway -->\n');
+    await writeDelta('add-sso', 'auth-core');
+    await writeDelta('add-sso', 'auth-sso');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should cluster specs by capability prefix and style them by status', async () => {
+    const graph = await parser.toExportGraph();
+    const nodes = Object.fromEntries(graph.nodes.map((n) => [n.id, n]));
+
+    expect(nodes['auth-core']).toMatchObject({ status: 'changing', cluster: 'auth' });
+    expect(nodes['auth-sso']).toMatchObject({ status: 'new', cluster: 'auth' });
+    expect(nodes['billing']).toMatchObject({ status: 'stable' });
+    expect(nodes['billing'].cluster).toBeUndefined();
+    expect(nodes['payment-gateway']).toMatchObject({ status: 'missing' });
+
+    const dot = exportGraph('dot', graph);
+    expect(dot).toContain('subgraph "cluster_auth" {');
+    expect(dot).toContain('"auth-session" -> "auth-core";');
+    expect(dot).toContain('"billing" -> "payment-gateway" [style=dashed];');
+    expect(dot).toContain('fillcolor="#fef3c7"');
+
+    const key = (id: string) => `n${graph.nodes.findIndex((n) => n.id === id)}`;
+    const plantuml = exportGraph('plantuml', graph);
+    expect(plantuml).toContain('package "auth" {');
+    expect(plantuml).toContain(`component "Auth Core" as ${key('auth-core')} <<changing>>`);
+    expect(plantuml).toContain(`${key('billing')} ..> ${key('payment-gateway')}`);
+
+    const json = JSON.parse(exportGraph('json', graph));
+    expect(json.clusters).toEqual(['auth']);
+  });
+
+  it('should build a change impact graph', async () => {
+    const graph = await parser.toImpactGraph('add-sso');
+
+    expect(graph.nodes.map((n) => n.id).sort()).toEqual(
+      ['auth-core', 'auth-session', 'auth-sso', 'billing', 'change:add-sso'].sort()
+    );
+    expect(graph.edges).toContainEqual({ from: 'change:add-sso', to: 'auth-core', kind: 'touches' });
+    expect(graph.edges).toContainEqual({ from: 'billing', to: 'auth-session', kind: 'dependency' });
+
+    const key = (id: string) => `n${graph.nodes.findIndex((n) => n.id === id)}`;
+    const mermaid = exportGraph('mermaid', graph);
+    expect(mermaid).toContain(`${key('change:add-sso')} ==> ${key('auth-core')}`);
+    expect(mermaid).toContain(`class ${key('change:add-sso')} change`);
+
+    await expect(parser.toImpactGraph('unknown')).rejects.toThrow('Change not found');
+  });
+
+  it('should keep ids that differ only in punctuation or script as separate nodes', () => {
+    const graph: ExportableGraph = {
+      title: 't',
+      nodes: [
+        { id: 'auth-core', label: 'auth-core', kind: 'spec' },
+        { id: 'auth_core', label: 'auth_core', kind: 'spec' },
+        { id: '用户', label: '用户', kind: 'spec' },
+        { id: '订单', label: '订单', kind: 'spec' },
+      ],
+      edges: [
+        { from: 'auth-core', to: 'auth_core', kind: 'dependency' },
+        { from: '用户', to: '订单', kind: 'dependency' },
+      ],
+    };
+
+    const mermaid = exportGraph('mermaid', graph);
+    expect(mermaid).toContain('n0["auth-core"]');
+    expect(mermaid).toContain('n1["auth_core"]');
+    expect(mermaid).toContain('n2["用户"]');
+    expect(mermaid).toContain('n0 --> n1');
+    expect(mermaid).toContain('n2 --> n3');
+
+    const plantuml = exportGraph('plantuml', graph);
+    expect(plantuml).toContain('component "订单" as n3 <<stable>>');
+    expect(plantuml).toContain('n2 --> n3');
+  });
+
+  it('should allow registering custom exporters', () => {
+    expect(() => exportGraph('csv', { title: 't', nodes: [], edges: [] })).toThrow('Unsupported graph format');
+
+    registerGraphExporter({
+      format: 'csv',
+      contentType: 'text/csv',
+      export: (graph) => graph.edges.map((e) => `${e.from},${e.to}`).join('\n'),
+    });
+
+    expect(listGraphFormats()).toEqual(expect.arrayContaining(['mermaid', 'dot', 'plantuml', 'json', 'csv']));
+    expect(getGraphExporter('csv')?.contentType).toBe('text/csv');
+    expect(exportGraph('csv', { title: 't', nodes: [], edges: [{ from: 'a', to: 'b', kind: 'dependency' }] })).toBe('a,b');
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * 图导出器
+ * 将规格依赖图 / 变更影响图导出为 Mermaid、Graphviz DOT、PlantUML 或 JSON
+ *
+ * 导出器按格式注册，可通过 registerGraphExporter 扩展新格式
+ * 规格按能力前缀（auth-core、auth-session -> auth）分组，节点颜色表示规格状态
+ */
+
+export type GraphNodeKind = 'spec' | 'change';
+
+/**
+ * 规格状态
+ * - stable: 没有活跃变更修改
+ * - changing: 有活跃变更的 delta spec
+ * - new: 只存在于活跃变更中（归档时新建）
+ * - missing: 被依赖但不存在
+ */
+export type SpecStatus = 'stable' | 'changing' | 'new' | 'missing';
+
+export interface GraphNode {
+  id: string;                  // 规格 ID；变更节点为 change:<id>
+  label: string;
+  kind: GraphNodeKind;
+  status?: SpecStatus;         // 仅规格节点
+  cluster?: string;            // 能力前缀分组
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: 'dependency' | 'touches';   // 规格依赖 / 变更修改规格
+}
+
+export interface ExportableGraph {
+  title: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphExporter {
+  format: string;
+  contentType: string;
+  export(graph: ExportableGraph): string;
+}
+
+// 节点配色（填充色 / 边框色）
+const STATUS_COLORS: Record<SpecStatus | 'change', { fill: string; stroke: string }> = {
+  stable: { fill: '#e0f2fe', stroke: '#0284c7' },
+  changing: { fill: '#fef3c7', stroke: '#d97706' },
+  new: { fill: '#dcfce7', stroke: '#16a34a' },
+  missing: { fill: '#fee2e2', stroke: '#dc2626' },
+  change: { fill: '#ede9fe', stroke: '#7c3aed' },
+};
+
+const exporters = new Map<string, GraphExporter>();
+
+/**
+ * 注册导出器（同名格式会被覆盖）
+ */
+export function registerGraphExporter(exporter: GraphExporter): void {
+  exporters.set(exporter.format, exporter);
+}
+
+/**
+ * 获取导出器，不支持的格式返回 undefined
+ */
+export function getGraphExporter(format: string): GraphExporter | undefined {
+  return exporters.get(format);
+}
+
+/**
+ * 已注册的格式
+ */
+export function listGraphFormats(): string[] {
+  return [...exporters.keys()];
+}
+
+/**
+ * 按格式导出
+ */
+export function exportGraph(format: string, graph: ExportableGraph): string {
+  const exporter = exporters.get(format);
+  if (!exporter) {
+    throw new Error(`Unsupported graph format: ${format} (use ${listGraphFormats().join(', ')})`);
+  }
+  return exporter.export(graph);
+}
+
+/**
+ * 按能力前缀计算分组：至少两个规格共享前缀时才分组
+ */
+export function assignClusters(nodes: GraphNode[]): void {
+  const prefix = (id: string) => (id.includes('-') ? id.slice(0, id.indexOf('-')) : id);
+  const counts = new Map<string, number>();
+  for (const node of nodes.filter((n) => n.kind === 'spec')) {
+    counts.set(prefix(node.id), (counts.get(prefix(node.id)) || 0) + 1);
+  }
+  for (const node of nodes.filter((n) => n.kind === 'spec')) {
+    if ((counts.get(prefix(node.id)) || 0) > 1) {
+      node.cluster = prefix(node.id);
+    } else {
+      delete node.cluster;
+    }
+  }
+}
+
+/**
+ * 节点样式键
+ */
+function styleOf(node: GraphNode): SpecStatus | 'change' {
+  return node.kind === 'change' ? 'change' : node.status || 'stable';
+}
+
+/**
+ * 按分组整理节点，未分组的节点在前
+ */
+function groupNodes(nodes: GraphNode[]): { cluster?: string; nodes: GraphNode[] }[] {
+  const groups = new Map<string | undefined, GraphNode[]>([[undefined, []]]);
+  for (const node of nodes) {
+    groups.set(node.cluster, [...(groups.get(node.cluster) || []), node]);
+  }
+  return [...groups].map(([cluster, members]) => ({ cluster, nodes: members }));
+}
+
+/**
+ * 按节点顺序分配唯一标识符（n0、n1…），真实 ID 只出现在标签中
+ *
+ * 直接替换 ID 中的非单词字符会让 auth-core / auth_core 或中文 ID 撞到同一个节点
+ */
+export function nodeKeys(graph: ExportableGraph): (id: string) => string {
+  const keys = new Map(graph.nodes.map((n, i) => [n.id, `n${i}`]));
+  return (id) => {
+    if (!keys.has(id)) keys.set(id, `n${keys.size}`);
+    return keys.get(id)!;
+  };
+}
+
+/**
+ * 虚线：指向不存在规格的依赖
+ */
+function isDashed(edge: GraphEdge, graph: ExportableGraph): boolean {
+  return graph.nodes.find((n) => n.id === edge.to)?.status === 'missing';
+}
+
+const mermaidExporter: GraphExporter = {
+  format: 'mermaid',
+  contentType: 'text/plain',
+  export(graph) {
+    const lines = ['graph LR'];
+    const key = nodeKeys(graph);
+    const node = (n: GraphNode, indent: string) =>
+      `${indent}${key(n.id)}["${n.label.replace(/"/g, "'")}${n.status === 'missing' ? ' (missing)' : ''}"]`;
+
+    groupNodes(graph.nodes).forEach((group, i) => {
+      if (!group.cluster) {
+        lines.push(...group.nodes.map((n) => node(n, '  ')));
+        return;
+      }
+      lines.push(`  subgraph cluster_${i} ["${group.cluster.replace(/"/g, "'")}"]`);
+      lines.push(...group.nodes.map((n) => node(n, '    ')));
+      lines.push('  end');
+    });
+
+    if (graph.edges.length > 0) {
+      lines.push('');
+      for (const edge of graph.edges) {
+        const arrow = edge.kind === 'touches' ? '==>' : isDashed(edge, graph) ? '-.->' : '-->';
+        lines.push(`  ${key(edge.from)} ${arrow} ${key(edge.to)}`);
+      }
+    }
+
+    const used = [...new Set(graph.nodes.map(styleOf))];
+    if (used.length > 0) {
+      lines.push('');
+      for (const style of used) {
+        const { fill, stroke } = STATUS_COLORS[style];
+        const ids = graph.nodes.filter((n) => styleOf(n) === style).map((n) => key(n.id));
+        lines.push(`  classDef ${style} fill:${fill},stroke:${stroke}`);
+        lines.push(`  class ${ids.join(',')} ${style}`);
+      }
+    }
+
+    return `${lines.join('\n')}\n`;
+  },
+};
+
+const dotExporter: GraphExporter = {
+  format: 'dot',
+  contentType: 'text/vnd.graphviz',
+  export(graph) {
+    const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const lines = [
+      `digraph ${quote(graph.title)} {`,
+      '  rankdir=LR;',
+      '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+    ];
+
+    const node = (n: GraphNode, indent: string) => {
+      const { fill, stroke } = STATUS_COLORS[styleOf(n)];
+      const attrs = [`label=${quote(n.label)}`, `fillcolor=${quote(fill)}`, `color=${quote(stroke)}`];
+      if (n.kind === 'change') attrs.push('shape=note');
+      if (n.status === 'missing') attrs.push('style="rounded,filled,dashed"');
+      return `${indent}${quote(n.id)} [${attrs.join(', ')}];`;
+    };
+
+    for (const group of groupNodes(graph.nodes)) {
+      if (!group.cluster) {
+        lines.push(...group.nodes.map((n) => node(n, '  ')));
+        continue;
+      }
+      lines.push(`  subgraph ${quote(`cluster_${group.cluster}`)} {`, `    label=${quote(group.cluster)};`);
+      lines.push(...group.nodes.map((n) => node(n, '    ')));
+      lines.push('  }');
+    }
+
+    for (const edge of graph.edges) {
+      const attrs = edge.kind === 'touches' ? ' [penwidth=2, color="#7c3aed"]' : isDashed(edge, graph) ? ' [style=dashed]' : '';
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attrs};`);
+    }
+
+    lines.push('}');
+    return `${lines.join('\n')}\n`;
+  },
+};
+
+const plantUmlExporter: GraphExporter = {
+  format: 'plantuml',
+  contentType: 'text/plain',
+  export(graph) {
+    const lines = ['@startuml', `title ${graph.title}`, 'left to right direction'];
+
+    for (const style of [...new Set(graph.nodes.map(styleOf))]) {
+      const { fill, stroke } = STATUS_COLORS[style];
+      lines.push(`skinparam component<<${style}>> {`, `  BackgroundColor ${fill}`, `  BorderColor ${stroke}`, '}');
+    }
+
+    const key = nodeKeys(graph);
+    const node = (n: GraphNode, indent: string) =>
+      `${indent}component "${n.label.replace(/"/g, "'")}" as ${key(n.id)} <<${styleOf(n)}>>`;
+
+    for (const group of groupNodes(graph.nodes)) {
+      if (!group.cluster) {
+        lines.push(...group.nodes.map((n) => node(n, '')));
+        continue;
+      }
+      lines.push(`package "${group.cluster}" {`);
+      lines.push(...group.nodes.map((n) => node(n, '  ')));
+      lines.push('}');
+    }
+
+    for (const edge of graph.edges) {
+      const arrow = edge.kind === 'touches' ? '-[#7c3aed,bold]->' : isDashed(edge, graph) ? '..>' : '-->';
+      lines.push(`${key(edge.from)} ${arrow} ${key(edge.to)}`);
+    }
+
+    lines.push('@enduml');
+    return `${lines.join('\n')}\n`;
+  },
+};
+
+const jsonExporter: GraphExporter = {
+  format: 'json',
+  contentType: 'application/json',
+  export(graph) {
+    const clusters = [...new Set(graph.nodes.map((n) => n.cluster).filter((c): c is string => !!c))];
+    return `${JSON.stringify({ ...graph, clusters }, null, 2)}\n`;
+  },
+};
+
+registerGraphExporter(mermaidExporter);
+registerGraphExporter(dotExporter);
+registerGraphExporter(plantUmlExporter);
+registerGraphExporter(jsonExporter);
@@ -5,8 +5,15 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { TASK_STATES, describeTaskCheckboxes, taskCheckboxClass } from '../utils/constants.js';
 
-const PRE_COMMIT_SCRIPT = `#!/bin/sh
+/**
+ * pre-commit 脚本：允许的 checkbox 字符来自 TASK_STATES（含注册的扩展状态）
+ */
+function preCommitScript(): string {
+  const invalidCheckbox = `[^${taskCheckboxClass().slice(1)}`;
+
+  return `#!/bin/sh
 # OpenSpec pre-commit hook
 # Validates tasks.md format in staged changes
 
@@ -18,9 +25,9 @@ STAGED_TASKS=$(git diff --cached --name-only | grep "openspec/changes/.*/tasks.m
 if [ -n "$STAGED_TASKS" ]; then
   for file in $STAGED_TASKS; do
     # Check for malformed task items
-    if grep -qE "^\\s*-\\s*\\[\\s*[^x -]\\s*\\]" "$file"; then
+    if grep -qE "^\\s*-\\s*\\[\\s*${invalidCheckbox}\\s*\\]" "$file"; then
       echo "❌ Invalid task format in $file"
-      echo "   Task checkbox must be [ ], [x], or [-]"
+      echo "   Task checkbox must be ${describeTaskCheckboxes()}"
       exit 1
     fi
   done
@@ -40,8 +47,15 @@ done
 echo "✅ OpenSpec validation passed"
 exit 0
 `;
+}
 
-const POST_MERGE_SCRIPT = `#!/bin/sh
+/**
+ * post-merge 脚本：不计入进度的状态（如已取消）来自 TASK_STATES
+ */
+function postMergeScript(): string {
+  const countedCheckbox = taskCheckboxClass(TASK_STATES.filter((s) => s.countsTowardProgress));
+
+  return `#!/bin/sh
 # OpenSpec post-merge hook
 # Suggests archiving completed changes after merge
 
@@ -52,8 +66,8 @@ for changeDir in openspec/changes/*/; do
   if [ -d "$changeDir" ] && [ "$(basename "$changeDir")" != "archive" ]; then
     tasksFile="$changeDir/tasks.md"
     if [ -f "$tasksFile" ]; then
-      # Count total and completed tasks
-      total=$(grep -cE "^\\s*-\\s*\\[" "$tasksFile" || echo 0)
+      # Count total and completed tasks (cancelled tasks are not counted)
+      total=$(grep -cE "^\\s*-\\s*\\[${countedCheckbox}\\]" "$tasksFile" || echo 0)
       done=$(grep -cE "^\\s*-\\s*\\[x\\]" "$tasksFile" || echo 0)
       
       if [ "$total" -gt 0 ] && [ "$total" -eq "$done" ]; then
@@ -67,6 +81,7 @@ done
 
 exit 0
 `;
+}
 
 export class HooksManager {
   private cwd: string;
@@ -137,12 +152,12 @@ export class HooksManager {
 
       // 安装 pre-commit hook
       const preCommitPath = path.join(hooksDir, 'pre-commit');
-      await this.installHook(preCommitPath, PRE_COMMIT_SCRIPT);
+      await this.installHook(preCommitPath, preCommitScript());
       installed.push('pre-commit');
 
       // 安装 post-merge hook
       const postMergePath = path.join(hooksDir, 'post-merge');
-      await this.installHook(postMergePath, POST_MERGE_SCRIPT);
+      await this.installHook(postMergePath, postMergeScript());
       installed.push('post-merge');
 
       return { success: true, installed };
@@ -16,25 +16,52 @@ import type {
   ValidationError,
   Task,
   Progress,
+  ProgressMode,
+  TaskMetadataUpdate,
+  TaskStatus,
   CrossServiceInfo,
+  Delta,
+  ChangeMetadata,
 } from '../types/openspec.js';
 import { TaskParser } from './task-parser.js';
 import { CrossServiceManager } from './cross-service-manager.js';
+import { SpecValidator } from './spec-validator.js';
+import { RequirementParser } from './requirement-parser.js';
+import { DeltaParser } from './delta-parser.js';
+import { ChangeArchiver } from './change-archiver.js';
+import { ProjectIndex } from './project-index.js';
+import { parseChangeMetadata } from './change-metadata.js';
+import { ensureSafeId } from '../utils/ids.js';
+import type { ArchiveResult, RestoreResult } from './change-archiver.js';
 import matter from 'gray-matter';
 
 const execAsync = promisify(exec);
 
 export interface OpenSpecCliOptions {
   cwd?: string;
+  index?: ProjectIndex;       // 共享的项目索引（不传则不缓存）
 }
 
+// 验证引擎：native 为内置验证器，cli 为外部 openspec 命令
+export type ValidationEngine = 'native' | 'cli';
+
 export class OpenSpecCli {
   private cwd: string;
   private taskParser: TaskParser;
+  private validator: SpecValidator;
+  private requirementParser: RequirementParser;
+  private deltaParser: DeltaParser;
+  private archiver: ChangeArchiver;
+  private index: ProjectIndex;
 
   constructor(options?: OpenSpecCliOptions) {
     this.cwd = options?.cwd || process.cwd();
     this.taskParser = new TaskParser();
+    this.requirementParser = new RequirementParser();
+    this.deltaParser = new DeltaParser();
+    this.validator = new SpecValidator({ cwd: this.cwd });
+    this.archiver = new ChangeArchiver({ cwd: this.cwd });
+    this.index = options?.index || new ProjectIndex({ cwd: this.cwd });
   }
 
   /**
@@ -48,11 +75,7 @@ export class OpenSpecCli {
    * 校验 ID 参数，防止路径遍历攻击
    */
   private ensureSafeId(id: string, type: 'change' | 'spec'): string {
-    const trimmed = id.trim();
-    if (!trimmed || trimmed.includes('..') || trimmed.includes('/') || trimmed.includes('\\')) {
-      throw new Error(`Invalid ${type} id: ${id}`);
-    }
-    return trimmed;
+    return ensureSafeId(id, type);
   }
 
   /**
@@ -233,49 +256,71 @@ export class OpenSpecCli {
     changeDir: string,
     status: 'active' | 'archived'
   ): Promise<Change | null> {
-    try {
-      const proposalPath = path.join(changeDir, 'proposal.md');
-      const tasksPath = path.join(changeDir, 'tasks.md');
-
-      // 读取 proposal 获取标题
-      let title = id;
+    return this.index.get('change', changeDir, async () => {
       try {
-        const proposal = await fs.readFile(proposalPath, 'utf-8');
-        const titleMatch = proposal.match(/^#\s+(.+)/m);
-        if (titleMatch) {
-          title = titleMatch[1].trim();
+        const proposalPath = path.join(changeDir, 'proposal.md');
+        const tasksPath = path.join(changeDir, 'tasks.md');
+
+        // 读取 proposal 获取标题和 frontmatter 元数据
+        let title = id;
+        let metadata: ChangeMetadata = {};
+        try {
+          let body = await fs.readFile(proposalPath, 'utf-8');
+          try {
+            const { data, content } = matter(body);
+            metadata = parseChangeMetadata(data);
+            body = content;
+          } catch {
+            // frontmatter 无效，忽略元数据
+          }
+          const titleMatch = body.match(/^#\s+(.+)/m);
+          if (titleMatch) {
+            title = titleMatch[1].trim();
+          }
+        } catch {
+          // 没有 proposal.md
+        }
+
+        // 读取 tasks 获取进度
+        let tasksCompleted = 0;
+        let tasksTotal = 0;
+        const tasks = await this.loadTasks(tasksPath);
+        if (tasks) {
+          const progress = this.taskParser.calculateProgress(tasks);
+          tasksCompleted = progress.completed;
+          tasksTotal = progress.total;
         }
+
+        // 获取文件修改时间
+        const stats = await fs.stat(changeDir);
+
+        return {
+          id,
+          title,
+          status,
+          ...metadata,
+          tasksCompleted,
+          tasksTotal,
+          createdAt: stats.birthtime.toISOString(),
+          updatedAt: stats.mtime.toISOString(),
+        };
       } catch {
-        // 没有 proposal.md
+        return null;
       }
+    });
+  }
 
-      // 读取 tasks 获取进度
-      let tasksCompleted = 0;
-      let tasksTotal = 0;
+  /**
+   * 读取并解析 tasks.md（经索引缓存），文件不存在时返回 null
+   */
+  private async loadTasks(tasksPath: string): Promise<Task[] | null> {
+    return this.index.get('tasks', tasksPath, async () => {
       try {
-        const tasks = await this.taskParser.parseTasks(tasksPath);
-        const progress = this.taskParser.calculateProgress(tasks);
-        tasksCompleted = progress.completed;
-        tasksTotal = progress.total;
+        return await this.taskParser.parseTasks(tasksPath);
       } catch {
-        // 没有 tasks.md
+        return null;
       }
-
-      // 获取文件修改时间
-      const stats = await fs.stat(changeDir);
-
-      return {
-        id,
-        title,
-        status,
-        tasksCompleted,
-        tasksTotal,
-        createdAt: stats.birthtime.toISOString(),
-        updatedAt: stats.mtime.toISOString(),
-      };
-    } catch {
-      return null;
-    }
+    });
   }
 
   /**
@@ -334,16 +379,10 @@ export class OpenSpecCli {
     }
 
     // 读取 tasks
-    let tasks: Task[] = [];
-    try {
-      const tasksPath = path.join(changeDir, 'tasks.md');
-      tasks = await this.taskParser.parseTasks(tasksPath);
-    } catch {
-      // 没有 tasks.md
-    }
+    const tasks: Task[] = (await this.loadTasks(path.join(changeDir, 'tasks.md'))) || [];
 
     // 读取 deltas (specs 目录下的变更)
-    const deltas: any[] = [];
+    const deltas: Delta[] = [];
     const specsDir = path.join(changeDir, 'specs');
     try {
       const specDirs = await fs.readdir(specsDir, { withFileTypes: true });
@@ -353,10 +392,7 @@ export class OpenSpecCli {
         const specPath = path.join(specsDir, specDir.name, 'spec.md');
         try {
           const content = await fs.readFile(specPath, 'utf-8');
-          deltas.push({
-            specName: specDir.name,
-            content,
-          });
+          deltas.push(...this.deltaParser.parseDeltas(specDir.name, content));
         } catch {
           // 没有 spec.md
         }
@@ -397,27 +433,14 @@ export class OpenSpecCli {
       for (const entry of entries) {
         if (!entry.isDirectory()) continue;
 
-        const specPath = path.join(specsDir, entry.name, 'spec.md');
-        try {
-          const content = await fs.readFile(specPath, 'utf-8');
-          const stats = await fs.stat(specPath);
-
-          // 解析标题
-          const titleMatch = content.match(/^#\s+(.+)/m);
-          const title = titleMatch ? titleMatch[1].trim() : entry.name;
-
-          // 计算需求数量
-          const requirementsMatch = content.match(/###\s+Requirement:/g);
-          const requirementsCount = requirementsMatch ? requirementsMatch.length : 0;
-
+        const spec = await this.loadSpec(entry.name);
+        if (spec) {
           specs.push({
-            id: entry.name,
-            title,
-            requirementsCount,
-            updatedAt: stats.mtime.toISOString(),
+            id: spec.id,
+            title: spec.title,
+            requirementsCount: spec.requirementsCount,
+            updatedAt: spec.updatedAt,
           });
-        } catch {
-          // 没有 spec.md
         }
       }
     } catch {
@@ -432,62 +455,93 @@ export class OpenSpecCli {
    */
   async showSpec(specId: string): Promise<SpecDetail | null> {
     specId = this.ensureSafeId(specId, 'spec');
+    return this.loadSpec(specId);
+  }
+
+  /**
+   * 读取并解析规格（经索引缓存），不存在时返回 null
+   */
+  private async loadSpec(specId: string): Promise<SpecDetail | null> {
     const specPath = path.join(this.getOpenSpecDir(), 'specs', specId, 'spec.md');
 
-    try {
-      const content = await fs.readFile(specPath, 'utf-8');
-      const stats = await fs.stat(specPath);
+    return this.index.get('spec', specPath, async () => {
+      try {
+        const content = await fs.readFile(specPath, 'utf-8');
+        const stats = await fs.stat(specPath);
 
-      // 解析标题
-      const titleMatch = content.match(/^#\s+(.+)/m);
-      const title = titleMatch ? titleMatch[1].trim() : specId;
+        // 解析标题
+        const titleMatch = content.match(/^#\s+(.+)/m);
+        const title = titleMatch ? titleMatch[1].trim() : specId;
 
-      // 计算需求数量
-      const requirementsMatch = content.match(/###\s+Requirement:/g);
-      const requirementsCount = requirementsMatch ? requirementsMatch.length : 0;
+        // 解析需求及场景
+        const requirements = this.requirementParser.parseRequirements(content);
 
-      return {
-        id: specId,
-        title,
-        requirementsCount,
-        updatedAt: stats.mtime.toISOString(),
-        content,
-        requirements: [], // TODO: 详细解析需求
-      };
-    } catch {
-      return null;
-    }
+        return {
+          id: specId,
+          title,
+          requirementsCount: requirements.length,
+          updatedAt: stats.mtime.toISOString(),
+          content,
+          requirements,
+        };
+      } catch {
+        return null;
+      }
+    });
   }
 
   /**
    * 验证变更
+   *
+   * 默认使用内置验证器；engine 为 'cli' 时调用外部 openspec CLI
    */
   async validateChange(
     changeId: string,
-    options?: { strict?: boolean }
+    options?: { strict?: boolean; engine?: ValidationEngine }
   ): Promise<ValidationResult> {
     changeId = this.ensureSafeId(changeId, 'change');
-    try {
-      const flags = options?.strict ? '--strict' : '';
-      await execAsync(`openspec validate ${changeId} ${flags}`, { cwd: this.cwd });
-      return { valid: true, errors: [] };
-    } catch (error: any) {
-      // 解析错误输出
-      const errors: ValidationError[] = [];
-      const output = error.stderr || error.stdout || '';
+    if (options?.engine === 'cli') {
+      return this.validateWithCli(`openspec validate ${changeId}`, options.strict);
+    }
+    return this.validator.validateChange(changeId, { strict: options?.strict });
+  }
 
-      // 简单解析错误信息
-      const lines = output.split('\n').filter((l: string) => l.trim());
-      for (const line of lines) {
-        if (line.includes('Error') || line.includes('error')) {
-          errors.push({ type: 'error', message: line.trim() });
-        } else if (line.includes('Warning') || line.includes('warning')) {
-          errors.push({ type: 'warning', message: line.trim() });
-        }
-      }
+  /**
+   * 批量验证变更（内置验证器只做一次项目级依赖分析）
+   */
+  async validateChanges(
+    changeIds: string[],
+    options?: { strict?: boolean; engine?: ValidationEngine }
+  ): Promise<Map<string, ValidationResult>> {
+    changeIds = changeIds.map((id) => this.ensureSafeId(id, 'change'));
+    if (options?.engine !== 'cli') {
+      return this.validator.validateChanges(changeIds, { strict: options?.strict });
+    }
 
-      return { valid: false, errors };
+    const results = new Map<string, ValidationResult>();
+    for (const changeId of changeIds) {
+      results.set(changeId, await this.validateWithCli(`openspec validate ${changeId}`, options.strict));
+    }
+    return results;
+  }
+
+  /**
+   * 批量验证规格（内置验证器只构建一次规格依赖图）
+   */
+  async validateSpecs(
+    specIds: string[],
+    options?: { strict?: boolean; engine?: ValidationEngine }
+  ): Promise<Map<string, ValidationResult>> {
+    specIds = specIds.map((id) => this.ensureSafeId(id, 'spec'));
+    if (options?.engine !== 'cli') {
+      return this.validator.validateSpecs(specIds, { strict: options?.strict });
+    }
+
+    const results = new Map<string, ValidationResult>();
+    for (const specId of specIds) {
+      results.set(specId, await this.validateWithCli(`openspec spec validate ${specId}`, options.strict));
     }
+    return results;
   }
 
   /**
@@ -495,11 +549,22 @@ export class OpenSpecCli {
    */
   async validateSpec(
     specId: string,
-    options?: { strict?: boolean }
+    options?: { strict?: boolean; engine?: ValidationEngine }
   ): Promise<ValidationResult> {
+    specId = this.ensureSafeId(specId, 'spec');
+    if (options?.engine === 'cli') {
+      return this.validateWithCli(`openspec spec validate ${specId}`, options.strict);
+    }
+    return this.validator.validateSpec(specId, { strict: options?.strict });
+  }
+
+  /**
+   * 调用外部 openspec CLI 验证（按输出行粗略解析错误）
+   */
+  private async validateWithCli(command: string, strict?: boolean): Promise<ValidationResult> {
     try {
-      const flags = options?.strict ? '--strict' : '';
-      await execAsync(`openspec spec validate ${specId} ${flags}`, { cwd: this.cwd });
+      const flags = strict ? '--strict' : '';
+      await execAsync(`${command} ${flags}`, { cwd: this.cwd });
       return { valid: true, errors: [] };
     } catch (error: any) {
       const errors: ValidationError[] = [];
@@ -519,64 +584,62 @@ export class OpenSpecCli {
   }
 
   /**
-   * 归档变更
+   * 归档变更（进程内合并 delta 到主规格并移动目录）
    */
   async archiveChange(
     changeId: string,
-    options?: { skipSpecs?: boolean }
-  ): Promise<{ success: boolean; archivedPath: string; error?: string }> {
-    try {
-      const flags = options?.skipSpecs ? '--skip-specs --yes' : '--yes';
-      const { stdout, stderr } = await execAsync(`openspec archive ${changeId} ${flags}`, { cwd: this.cwd });
-
-      const date = new Date().toISOString().slice(0, 10);
-      const archivedPath = `openspec/changes/archive/${date}-${changeId}`;
+    options?: { skipSpecs?: boolean; dryRun?: boolean }
+  ): Promise<ArchiveResult> {
+    changeId = this.ensureSafeId(changeId, 'change');
+    const result = await this.archiver.archive(changeId, options);
+    if (result.success && !result.dryRun) {
+      this.index.invalidate(this.getOpenSpecDir());
+    }
+    return result;
+  }
 
-      // 验证归档目录是否存在
-      const fullPath = path.join(this.cwd, archivedPath);
-      try {
-        await fs.access(fullPath);
-        return { success: true, archivedPath };
-      } catch {
-        // 归档目录不存在，说明归档失败
-        const errorOutput = stderr || stdout || 'Archive command did not create the archive directory';
-        return {
-          success: false,
-          archivedPath: '',
-          error: errorOutput,
-        };
-      }
-    } catch (error: any) {
-      // 提取 stderr 信息
-      const errorMsg = error.stderr || error.stdout || error.message || 'Archive failed';
-      return {
-        success: false,
-        archivedPath: '',
-        error: errorMsg,
-      };
+  /**
+   * 恢复已归档的变更，并回滚归档时对主规格的修改
+   */
+  async restoreChange(changeId: string): Promise<RestoreResult> {
+    changeId = this.ensureSafeId(changeId, 'change');
+    const result = await this.archiver.restore(changeId);
+    if (result.success) {
+      this.index.invalidate(this.getOpenSpecDir());
     }
+    return result;
   }
 
   /**
-   * 获取变更的任务列表
+   * 获取变更的任务列表（平铺列表、任务树和进度）
    */
-  async getTasks(changeId: string): Promise<{ tasks: Task[]; progress: Progress }> {
+  async getTasks(
+    changeId: string,
+    options?: { progressMode?: ProgressMode }
+  ): Promise<{ tasks: Task[]; tree: Task[]; progress: Progress }> {
     changeId = this.ensureSafeId(changeId, 'change');
     const changeDir = path.join(this.getOpenSpecDir(), 'changes', changeId);
     const tasksPath = path.join(changeDir, 'tasks.md');
 
-    try {
-      const tasks = await this.taskParser.parseTasks(tasksPath);
-      const progress = this.taskParser.calculateProgress(tasks);
-      return { tasks, progress };
-    } catch {
+    const tasks = await this.loadTasks(tasksPath);
+    if (tasks) {
+      return {
+        tasks,
+        tree: this.taskParser.buildTaskTree(tasks),
+        progress: this.taskParser.calculateProgress(tasks, options?.progressMode),
+      };
+    } else {
       return {
         tasks: [],
+        tree: [],
         progress: {
           total: 0,
           completed: 0,
           inProgress: 0,
           pending: 0,
+          blocked: 0,
+          deferred: 0,
+          cancelled: 0,
           percentage: 0,
         },
       };
@@ -584,22 +647,48 @@ export class OpenSpecCli {
   }
 
   /**
-   * 更新任务状态
+   * 更新任务状态（父任务的子任务和祖先任务同步更新）
    */
   async updateTaskStatus(
     changeId: string,
     taskId: string,
-    status: 'pending' | 'in_progress' | 'done'
+    status: TaskStatus
   ): Promise<{ success: boolean; error?: string }> {
     changeId = this.ensureSafeId(changeId, 'change');
     const changeDir = path.join(this.getOpenSpecDir(), 'changes', changeId);
     const tasksPath = path.join(changeDir, 'tasks.md');
 
     try {
-      await this.taskParser.updateTaskStatus(tasksPath, taskId, status);
+      const tasks = await this.taskParser.parseTasks(tasksPath);
+      const updates = this.taskParser.planStatusUpdate(tasks, taskId, status);
+      await this.taskParser.batchUpdateTaskStatus(tasksPath, updates);
       return { success: true };
     } catch (error: any) {
       return { success: false, error: error.message };
+    } finally {
+      // 文件监控有延迟，写入后立即失效缓存
+      this.index.invalidate(tasksPath);
+    }
+  }
+
+  /**
+   * 更新任务的行内元数据（负责人、估时、截止日期、标签）
+   */
+  async updateTaskMetadata(
+    changeId: string,
+    taskId: string,
+    metadata: TaskMetadataUpdate
+  ): Promise<{ success: boolean; task?: Task; error?: string }> {
+    changeId = this.ensureSafeId(changeId, 'change');
+    const tasksPath = path.join(this.getOpenSpecDir(), 'changes', changeId, 'tasks.md');
+
+    try {
+      const task = await this.taskParser.updateTaskMetadata(tasksPath, taskId, metadata);
+      return { success: true, task };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    } finally {
+      this.index.invalidate(tasksPath);
     }
   }
 }
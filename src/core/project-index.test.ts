@@ -0,0 +1,142 @@
+/**
+ * ProjectIndex 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { ProjectIndex } from './project-index.js';
+import { OpenSpecCli } from './openspec-cli.js';
+import { ChangeDependencies } from './change-dependencies.js';
+import { ChangeConflicts } from './change-conflicts.js';
+import { TestEvidenceManager } from './test-evidence.js';
+import type { FileWatcher } from './file-watcher.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * 模拟正在运行的文件监控器
+ */
+function createWatcher(): FileWatcher {
+  return Object.assign(new EventEmitter(), { isWatching: () => true }) as unknown as FileWatcher;
+}
+
+describe('ProjectIndex', () => {
+  let tempDir: string;
+  let index: ProjectIndex;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'project-index-test-'));
+    index = new ProjectIndex({ cwd: tempDir });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should not cache without an attached watcher', async () => {
+    let loads = 0;
+    const loader = async () => ++loads;
+
+    await index.get('tasks', 'openspec/changes/a/tasks.md', loader);
+    await index.get('tasks', 'openspec/changes/a/tasks.md', loader);
+
+    expect(loads).toBe(2);
+    expect(index.getStats()).toMatchObject({ enabled: false, hits: 0, misses: 2, entries: 0 });
+  });
+
+  it('should cache entries and return copies', async () => {
+    index.attach(createWatcher());
+    let loads = 0;
+    const loader = async () => ({ loads: ++loads });
+
+    const first = await index.get('approval', 'openspec/approvals/a.json', loader);
+    first.loads = 99;
+    const second = await index.get('approval', path.join(tempDir, 'openspec/approvals/a.json'), loader);
+
+    expect(second).toEqual({ loads: 1 });
+    expect(index.getStats()).toMatchObject({ enabled: true, hits: 1, misses: 1, entries: 1 });
+    expect(index.getStats().byKind.approval).toEqual({ entries: 1, hits: 1, misses: 1 });
+  });
+
+  it('should invalidate related entries from watcher events', async () => {
+    const watcher = createWatcher();
+    index.attach(watcher);
+
+    await index.get('change', 'openspec/changes/a', async () => 'a');
+    await index.get('tasks', 'openspec/changes/a/tasks.md', async () => 'a-tasks');
+    await index.get('change', 'openspec/changes/b', async () => 'b');
+
+    watcher.emit('change', 'change', {
+      path: 'openspec/changes/a/tasks.md',
+      absolutePath: path.join(tempDir, 'openspec/changes/a/tasks.md'),
+    });
+
+    // 变更目录条目和 tasks 条目失效，其他变更不受影响
+    expect(index.getStats()).toMatchObject({ entries: 1, invalidations: 2 });
+
+    watcher.emit('change', 'unlinkDir', { absolutePath: path.join(tempDir, 'openspec/changes') });
+    expect(index.getStats().entries).toBe(0);
+  });
+
+  it('should serve OpenSpecCli lists from the index until files change', async () => {
+    const changeDir = path.join(tempDir, 'openspec', 'changes', 'add-login');
+    await fs.mkdir(changeDir, { recursive: true });
+    await fs.writeFile(path.join(changeDir, 'proposal.md'), '# Add login\n');
+    await fs.writeFile(path.join(changeDir, 'tasks.md'), '- [ ] **1.1** First\n- [ ] **1.2** Second\n');
+
+    index.attach(createWatcher());
+    const cli = new OpenSpecCli({ cwd: tempDir, index });
+
+    await cli.listChanges();
+    const before = index.getStats().hits;
+    const [cached] = await cli.listChanges();
+    expect(index.getStats().hits).toBeGreaterThan(before);
+    expect(cached).toMatchObject({ title: 'Add login', tasksCompleted: 0, tasksTotal: 2 });
+
+    // 通过 cli 写入时立即失效
+    await cli.updateTaskStatus('add-login', '1.1', 'done');
+    const { progress } = await cli.getTasks('add-login');
+    expect(progress.completed).toBe(1);
+  });
+
+  it('should serve dependencies, conflicts and evidence from the index until files change', async () => {
+    const changeDir = path.join(tempDir, 'openspec', 'changes', 'add-login');
+    await fs.mkdir(path.join(changeDir, 'specs', 'auth'), { recursive: true });
+    await fs.writeFile(path.join(changeDir, 'proposal.md'), '---\ndependsOn: [add-users]\n---\n# Add login\n');
+    await fs.writeFile(
+      path.join(changeDir, 'specs', 'auth', 'spec.md'),
+      '## ADDED Requirements\n\n### Requirement: Login\n\n#### Scenario: Success\n- **WHEN** ok\n'
+    );
+
+    const watcher = createWatcher();
+    index.attach(watcher);
+    const dependencies = new ChangeDependencies({ cwd: tempDir, index });
+    const conflicts = new ChangeConflicts({ cwd: tempDir, index });
+    const evidence = new TestEvidenceManager({ cwd: tempDir, index });
+
+    await dependencies.analyze();
+    await conflicts.analyze();
+    await evidence.getVerification('add-login');
+    const before = index.getStats();
+    await dependencies.analyze();
+    await conflicts.analyze();
+    await evidence.getVerification('add-login');
+    const after = index.getStats();
+
+    expect(after.misses).toBe(before.misses);
+    expect(after.byKind.dependencies.hits).toBe(1);
+    expect(after.byKind.conflicts.hits).toBe(1);
+    expect(after.byKind.evidence.hits).toBe(1);
+
+    // 修改 proposal.md 后重新读取依赖
+    await fs.writeFile(path.join(changeDir, 'proposal.md'), '# Add login\n');
+    watcher.emit('change', 'change', { absolutePath: path.join(changeDir, 'proposal.md') });
+    const { nodes } = await dependencies.analyze();
+    expect(nodes[0].blockedBy).toEqual([]);
+
+    // 导入测试结果后立即失效
+    await evidence.attach('add-login', { content: 'ok 1 - Login Success\n', format: 'tap' });
+    expect((await evidence.getVerification('add-login')).verified).toBe(1);
+  });
+});
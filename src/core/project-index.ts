@@ -0,0 +1,197 @@
+/**
+ * 项目索引
+ * 在内存中缓存变更、规格、任务、审批、评审、依赖、冲突和测试结果的解析结果
+ *
+ * - 只有挂接的 FileWatcher 正在运行时才启用缓存；否则每次都重新读取，行为与无缓存一致
+ * - 每个条目绑定一个文件或目录路径，文件事件只失效相关条目（增量更新）
+ * - 返回值是缓存的副本，调用方可以安全修改
+ */
+
+import * as path from 'path';
+import type { FileWatcher } from './file-watcher.js';
+
+export interface ProjectIndexOptions {
+  cwd?: string;
+}
+
+// 缓存条目类型
+export type IndexEntryKind =
+  | 'change'
+  | 'tasks'
+  | 'spec'
+  | 'approval'
+  | 'reviews'
+  | 'dependencies'
+  | 'conflicts'
+  | 'evidence';
+
+export interface ProjectIndexStats {
+  enabled: boolean;
+  entries: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+  hitRate: number;             // 0-1
+  byKind: Record<IndexEntryKind, { entries: number; hits: number; misses: number }>;
+}
+
+interface IndexEntry {
+  kind: IndexEntryKind;
+  path: string;                // 相对项目根目录，使用 '/'
+  value: Promise<unknown>;
+}
+
+const KINDS: IndexEntryKind[] = [
+  'change',
+  'tasks',
+  'spec',
+  'approval',
+  'reviews',
+  'dependencies',
+  'conflicts',
+  'evidence',
+];
+
+export class ProjectIndex {
+  private cwd: string;
+  private entries = new Map<string, IndexEntry>();
+  private watchers = new Set<FileWatcher>();
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+  private kindStats = new Map<IndexEntryKind, { hits: number; misses: number }>(
+    KINDS.map((kind) => [kind, { hits: 0, misses: 0 }])
+  );
+
+  constructor(options?: ProjectIndexOptions) {
+    this.cwd = options?.cwd || process.cwd();
+  }
+
+  /**
+   * 挂接文件监控器，启用缓存并根据文件事件失效条目
+   */
+  attach(watcher: FileWatcher): void {
+    if (this.watchers.has(watcher)) return;
+
+    this.watchers.add(watcher);
+    watcher.on('change', (_event: string, fileInfo: { absolutePath?: string; path?: string }) => {
+      const changedPath = fileInfo?.absolutePath || fileInfo?.path;
+      if (changedPath) {
+        this.invalidate(changedPath);
+      }
+    });
+    // 监控就绪前可能错过事件，清空已有条目
+    watcher.on('ready', () => this.clear());
+  }
+
+  /**
+   * 是否启用缓存（至少一个已挂接的监控器正在运行）
+   */
+  isEnabled(): boolean {
+    return [...this.watchers].some((watcher) => watcher.isWatching());
+  }
+
+  /**
+   * 读取条目，未命中时调用 loader 加载
+   *
+   * filePath 为条目依赖的文件或目录（绝对路径或相对项目根目录）
+   */
+  async get<T>(kind: IndexEntryKind, filePath: string, loader: () => Promise<T>): Promise<T> {
+    const relativePath = this.normalize(filePath);
+    const key = `${kind}:${relativePath}`;
+    const stats = this.kindStats.get(kind)!;
+
+    if (!this.isEnabled()) {
+      this.misses++;
+      stats.misses++;
+      return loader();
+    }
+
+    let entry = this.entries.get(key);
+    if (entry) {
+      this.hits++;
+      stats.hits++;
+    } else {
+      this.misses++;
+      stats.misses++;
+      entry = { kind, path: relativePath, value: loader() };
+      this.entries.set(key, entry);
+
+      // 加载失败不缓存
+      entry.value.catch(() => {
+        if (this.entries.get(key) === entry) {
+          this.entries.delete(key);
+        }
+      });
+    }
+
+    return structuredClone(await entry.value) as T;
+  }
+
+  /**
+   * 失效与路径相关的条目：路径本身、其子路径，以及包含该路径的目录条目
+   *
+   * 返回失效的条目数
+   */
+  invalidate(filePath: string): number {
+    const changed = this.normalize(filePath);
+    let count = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (
+        changed === '' ||
+        entry.path === changed ||
+        changed.startsWith(`${entry.path}/`) ||
+        entry.path.startsWith(`${changed}/`)
+      ) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+
+    this.invalidations += count;
+    return count;
+  }
+
+  /**
+   * 清空所有条目
+   */
+  clear(): void {
+    this.invalidations += this.entries.size;
+    this.entries.clear();
+  }
+
+  /**
+   * 获取命中统计
+   */
+  getStats(): ProjectIndexStats {
+    const byKind = {} as ProjectIndexStats['byKind'];
+    for (const kind of KINDS) {
+      const stats = this.kindStats.get(kind)!;
+      byKind[kind] = {
+        entries: [...this.entries.values()].filter((e) => e.kind === kind).length,
+        hits: stats.hits,
+        misses: stats.misses,
+      };
+    }
+
+    const total = this.hits + this.misses;
+    return {
+      enabled: this.isEnabled(),
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+      hitRate: total > 0 ? this.hits / total : 0,
+      byKind,
+    };
+  }
+
+  /**
+   * 转换为相对项目根目录的路径
+   */
+  private normalize(filePath: string): string {
+    const absolutePath = path.resolve(this.cwd, filePath);
+    return path.relative(this.cwd, absolutePath).split(path.sep).join('/');
+  }
+}
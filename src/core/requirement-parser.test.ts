@@ -0,0 +1,109 @@
+/**
+ * RequirementParser 单元测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RequirementParser } from './requirement-parser.js';
+
+const SPEC = `# Auth Specification
+
+## Purpose
+Authentication.
+
+## Requirements
+
+### Requirement: User Login
+The system SHALL authenticate users with a password.
+
+#### Scenario: Valid credentials
+- **GIVEN** a registered user
+- **WHEN** valid credentials are provided
+- **THEN** a session is created
+- **AND** the login is audited
+
+#### Scenario: Locked account
+- **WHEN** the account is locked
+- **THEN** login is rejected
+  with a lockout message
+
+### Requirement: Logout
+The system SHALL end the session on logout.
+
+\`\`\`md
+### Requirement: not a real heading
+\`\`\`
+
+## Notes
+Trailing section.
+`;
+
+describe('RequirementParser', () => {
+  const parser = new RequirementParser();
+
+  it('should parse requirements with line ranges', () => {
+    const requirements = parser.parseRequirements(SPEC);
+
+    expect(requirements.map((r) => r.title)).toEqual(['User Login', 'Logout']);
+    expect(requirements[0]).toMatchObject({
+      id: 1,
+      content: 'The system SHALL authenticate users with a password.',
+      line: 8,
+      endLine: 20,
+    });
+    // 代码块中的标题不会开启新需求，二级标题结束需求块
+    expect(requirements[1]).toMatchObject({ id: 2, line: 22, endLine: 27 });
+  });
+
+  it('should extract scenario clauses', () => {
+    const [login] = parser.parseRequirements(SPEC);
+
+    expect(login.scenarios).toHaveLength(2);
+    expect(login.scenarios[0]).toMatchObject({
+      name: 'Valid credentials',
+      given: 'a registered user',
+      when: 'valid credentials are provided',
+      then: 'a session is created',
+      and: ['the login is audited'],
+      line: 11,
+    });
+    expect(login.scenarios[0].clauses.map((c) => c.keyword)).toEqual(['GIVEN', 'WHEN', 'THEN', 'AND']);
+    expect(login.scenarios[1].then).toBe('login is rejected with a lockout message');
+    expect(login.scenarios[1].given).toBeUndefined();
+  });
+
+  it('should restrict parsing to a line range', () => {
+    const requirements = parser.parseRequirements(SPEC, { startLine: 21 });
+
+    expect(requirements).toHaveLength(1);
+    expect(requirements[0]).toMatchObject({ id: 1, title: 'Logout' });
+    expect(parser.countRequirements(SPEC)).toBe(2);
+  });
+
+  it('should read stable ids from headings and the frontmatter map', () => {
+    const content = [
+      '---',
+      'ids:',
+      '  AUTH-002: logout',
+      '  AUTH-009: Missing',
+      '---',
+      '### Requirement: Login {#AUTH-001}',
+      'The system SHALL log in.',
+      '### Requirement: Logout',
+      'The system SHALL log out.',
+      '### Requirement: Login again {#AUTH-001}',
+      'The system SHALL log in twice.',
+    ].join('\n');
+
+    const requirements = parser.parseRequirements(content);
+    expect(requirements.map((r) => [r.title, r.anchor])).toEqual([
+      ['Login', 'AUTH-001'],
+      ['Logout', 'AUTH-002'],
+      ['Login again', 'AUTH-001'],
+    ]);
+
+    const { ids, duplicates, unknown } = parser.collectIds(content);
+    expect([...ids.keys()]).toEqual(['AUTH-001', 'AUTH-002']);
+    expect(duplicates).toEqual([{ id: 'AUTH-001', title: 'Login again', line: 10, firstLine: 6 }]);
+    expect(unknown).toEqual([{ id: 'AUTH-009', title: 'Missing', line: 4 }]);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * 需求解析器
+ * 将 spec.md 中的 `### Requirement:` / `#### Scenario:` 解析为结构化数据
+ *
+ * 支持格式：
+ * ### Requirement: User Login
+ * The system SHALL ...
+ *
+ * #### Scenario: Valid credentials
+ * - **GIVEN** a registered user
+ * - **WHEN** valid credentials are provided
+ * - **THEN** a session is created
+ * - **AND** the login is audited
+ *
+ * 稳定 ID（可选）：标题后缀 `{#AUTH-003}`，或 frontmatter 中的 ids 映射
+ * ---
+ * ids:
+ *   AUTH-003: User Login
+ * ---
+ */
+
+import matter from 'gray-matter';
+import type { Requirement, Scenario, ScenarioClause, ScenarioKeyword } from '../types/openspec.js';
+
+// 标题末尾的稳定 ID，如 `Login throttling {#AUTH-003}`
+const ANCHOR_SUFFIX = /\s*\{#([A-Za-z][\w-]*)\}\s*$/;
+
+/**
+ * 稳定 ID 的收集结果（每个规格内唯一）
+ */
+export interface RequirementIds {
+  ids: Map<string, Requirement>;                                   // ID -> 首个声明它的需求
+  duplicates: { id: string; title: string; line: number; firstLine: number }[];
+  unknown: { id: string; title: string; line: number }[];          // frontmatter 中指向不存在需求的条目
+}
+
+/**
+ * 拆分需求标题与稳定 ID
+ */
+export function splitRequirementTitle(raw: string): { title: string; anchor?: string } {
+  const match = raw.match(ANCHOR_SUFFIX);
+  return match ? { title: raw.slice(0, match.index).trim(), anchor: match[1] } : { title: raw.trim() };
+}
+
+export class RequirementParser {
+  /**
+   * 解析需求列表
+   *
+   * startLine / endLine 用于只解析某个章节（1-based，包含边界）
+   */
+  parseRequirements(
+    content: string,
+    options?: { startLine?: number; endLine?: number }
+  ): Requirement[] {
+    const lines = content.split('\n').map((l) => l.replace(/\r$/, ''));
+    const startLine = options?.startLine ?? 1;
+    const endLine = Math.min(options?.endLine ?? lines.length, lines.length);
+    const requirements: Requirement[] = [];
+
+    let current: {
+      title: string;
+      anchor?: string;
+      line: number;
+      lines: { text: string; lineNum: number }[];
+    } | null = null;
+    let inFence = false;
+
+    const flush = () => {
+      if (!current) return;
+      requirements.push(
+        this.buildRequirement(requirements.length + 1, current.title, current.line, current.lines, current.anchor)
+      );
+      current = null;
+    };
+
+    for (let lineNum = startLine; lineNum <= endLine; lineNum++) {
+      const line = lines[lineNum - 1];
+
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      }
+
+      if (!inFence) {
+        const requirementMatch = line.match(/^###\s+Requirement:\s*(.+?)\s*$/);
+        if (requirementMatch) {
+          flush();
+          current = { ...splitRequirementTitle(requirementMatch[1]), line: lineNum, lines: [] };
+          continue;
+        }
+
+        // 同级或更高级标题结束当前需求块
+        if (/^#{1,3}\s/.test(line)) {
+          flush();
+          continue;
+        }
+      }
+
+      current?.lines.push({ text: line, lineNum });
+    }
+
+    flush();
+
+    // frontmatter 映射只补充标题中未声明 ID 的需求
+    for (const entry of this.parseIdMap(content)) {
+      const requirement = requirements.find(
+        (r) => !r.anchor && r.title.toLowerCase() === entry.title.toLowerCase()
+      );
+      if (requirement) {
+        requirement.anchor = entry.id;
+      }
+    }
+
+    return requirements;
+  }
+
+  /**
+   * 解析 frontmatter 中的 ids 映射（ID -> 需求标题）
+   */
+  parseIdMap(content: string): { id: string; title: string; line: number }[] {
+    if (!/^---\r?\n/.test(content)) return [];
+
+    let ids: unknown;
+    try {
+      ids = matter(content).data.ids;
+    } catch {
+      return [];
+    }
+    if (!ids || typeof ids !== 'object' || Array.isArray(ids)) return [];
+
+    const lines = content.split('\n');
+    return Object.entries(ids as Record<string, unknown>)
+      .filter(([, title]) => typeof title === 'string' && title.trim())
+      .map(([id, title]) => ({
+        id,
+        title: (title as string).trim(),
+        line: lines.findIndex((l) => new RegExp(`^\\s+['"]?${escapeRegExp(id)}['"]?\\s*:`).test(l)) + 1 || 1,
+      }));
+  }
+
+  /**
+   * 收集规格中的稳定 ID，重复的 ID 只保留第一个声明
+   */
+  collectIds(content: string): RequirementIds {
+    const requirements = this.parseRequirements(content);
+    const result: RequirementIds = { ids: new Map(), duplicates: [], unknown: [] };
+
+    for (const requirement of requirements) {
+      if (!requirement.anchor) continue;
+      const first = result.ids.get(requirement.anchor);
+      if (first) {
+        result.duplicates.push({
+          id: requirement.anchor,
+          title: requirement.title,
+          line: requirement.line,
+          firstLine: first.line,
+        });
+      } else {
+        result.ids.set(requirement.anchor, requirement);
+      }
+    }
+
+    for (const entry of this.parseIdMap(content)) {
+      if (!requirements.some((r) => r.title.toLowerCase() === entry.title.toLowerCase())) {
+        result.unknown.push(entry);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 统计需求数量（忽略代码块中的标题）
+   */
+  countRequirements(content: string): number {
+    return this.parseRequirements(content).length;
+  }
+
+  /**
+   * 构建单个需求
+   */
+  private buildRequirement(
+    id: number,
+    title: string,
+    line: number,
+    bodyLines: { text: string; lineNum: number }[],
+    anchor?: string
+  ): Requirement {
+    const descriptionLines: string[] = [];
+    const scenarios: Scenario[] = [];
+    let scenario: { name: string; line: number; lines: string[] } | null = null;
+    let inFence = false;
+
+    const pushScenario = () => {
+      if (scenario) {
+        scenarios.push(this.buildScenario(scenario.name, scenario.line, scenario.lines));
+        scenario = null;
+      }
+    };
+
+    for (const { text, lineNum } of bodyLines) {
+      if (/^\s*(```|~~~)/.test(text)) {
+        inFence = !inFence;
+      }
+
+      const scenarioMatch = !inFence && text.match(/^####\s+Scenario:\s*(.+?)\s*$/);
+      if (scenarioMatch) {
+        pushScenario();
+        scenario = { name: scenarioMatch[1], line: lineNum, lines: [] };
+        continue;
+      }
+
+      if (scenario) {
+        scenario.lines.push(text);
+      } else {
+        descriptionLines.push(text);
+      }
+    }
+    pushScenario();
+
+    // 去掉结尾空行，使 endLine 指向最后一行有效内容
+    const lastContent = [...bodyLines].reverse().find((l) => l.text.trim() !== '');
+    const endLine = lastContent ? lastContent.lineNum : line;
+
+    return {
+      id,
+      title,
+      ...(anchor ? { anchor } : {}),
+      content: descriptionLines.join('\n').trim(),
+      scenarios,
+      line,
+      endLine,
+    };
+  }
+
+  /**
+   * 构建场景，提取 GIVEN / WHEN / THEN / AND 子句
+   */
+  private buildScenario(name: string, line: number, lines: string[]): Scenario {
+    const clauses: ScenarioClause[] = [];
+
+    for (const text of lines) {
+      const match = text.match(/^\s*(?:[-*]\s+)?\*{0,2}(GIVEN|WHEN|THEN|AND)\*{0,2}:?\*{0,2}\s+(.+?)\s*$/i);
+      if (match) {
+        clauses.push({
+          keyword: match[1].toUpperCase() as ScenarioKeyword,
+          text: match[2],
+        });
+      } else if (text.trim() && clauses.length > 0 && /^\s{2,}\S/.test(text)) {
+        // 缩进的续行归入上一个子句
+        clauses[clauses.length - 1].text += ` ${text.trim()}`;
+      }
+    }
+
+    const collect = (keyword: ScenarioKeyword) =>
+      clauses.filter((c) => c.keyword === keyword).map((c) => c.text);
+
+    const given = collect('GIVEN');
+    const and = collect('AND');
+
+    return {
+      name,
+      given: given.length > 0 ? given.join('; ') : undefined,
+      when: collect('WHEN').join('; '),
+      then: collect('THEN').join('; '),
+      and: and.length > 0 ? and : undefined,
+      clauses,
+      line,
+    };
+  }
+}
+
+/**
+ * 转义正则特殊字符
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
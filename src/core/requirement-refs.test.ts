@@ -0,0 +1,101 @@
+/**
+ * 需求引用单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { RequirementRefs, findRequirementReferences } from './requirement-refs.js';
+import { SpecValidator } from './spec-validator.js';
+import { SpecMerger } from './spec-merger.js';
+import { DeltaParser } from './delta-parser.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const AUTH_SPEC = `# auth Specification
+
+## Purpose
+Authentication.
+
+## Requirements
+
+### Requirement: Login throttling {#AUTH-003}
+The system SHALL throttle logins.
+
+#### Scenario: Too many attempts
+- **WHEN** a client exceeds the limit
+- **THEN** the request is rejected
+`;
+
+describe('RequirementRefs', () => {
+  let tempDir: string;
+
+  async function write(relativePath: string, content: string): Promise<void> {
+    const filePath = path.join(tempDir, 'openspec', relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'requirement-refs-test-'));
+    await write('specs/auth/spec.md', AUTH_SPEC);
+    await write('specs/billing/spec.md', '### Requirement: Invoices {#BILL-001}\nThe system SHALL bill.\n');
+    await write(
+      'changes/add-sso/specs/auth/spec.md',
+      '## ADDED Requirements\n\n### Requirement: SSO {#AUTH-010}\nThe system SHALL support SSO.\n'
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should find references outside code blocks', () => {
+    const refs = findRequirementReferences('See [[AUTH-003]] and spec:auth#AUTH-010.\n```\n[[IGNORED]]\n```\n');
+    expect(refs).toEqual([
+      { raw: '[[AUTH-003]]', id: 'AUTH-003', line: 1, column: 5 },
+      { raw: 'spec:auth#AUTH-010', id: 'AUTH-010', specId: 'auth', line: 1, column: 22 },
+    ]);
+  });
+
+  it('should resolve references against specs and active deltas', async () => {
+    await write('changes/add-sso/proposal.md', '# SSO\n\nExtends [[AUTH-003]] with [[AUTH-010]].\n');
+    await write('changes/add-sso/tasks.md', '- [ ] 1.1 Implement spec:billing#AUTH-003\n');
+
+    const refs = await new RequirementRefs({ cwd: tempDir }).findReferences();
+    expect(refs.map((r) => [r.file, r.id, r.targets.map((t) => t.file)])).toEqual([
+      ['openspec/changes/add-sso/proposal.md', 'AUTH-003', ['openspec/specs/auth/spec.md']],
+      ['openspec/changes/add-sso/proposal.md', 'AUTH-010', ['openspec/changes/add-sso/specs/auth/spec.md']],
+      ['openspec/changes/add-sso/tasks.md', 'AUTH-003', []],
+    ]);
+  });
+
+  it('should report dangling references and duplicate ids when validating', async () => {
+    await write('changes/add-sso/design.md', '# Design\n\nReplaces [[AUTH-404]].\n');
+    await write('specs/billing/spec.md', '### Requirement: A {#BILL-001}\n\n### Requirement: B {#BILL-001}\n');
+
+    const validator = new SpecValidator({ cwd: tempDir });
+    const change = await validator.validateChange('add-sso');
+    expect(change.errors.filter((e) => e.rule === 'reference.dangling')).toMatchObject([
+      { file: 'openspec/changes/add-sso/design.md', line: 3 },
+    ]);
+
+    const spec = await validator.validateSpec('billing');
+    expect(spec.errors.filter((e) => e.rule === 'requirement.id.duplicate')).toMatchObject([{ line: 3 }]);
+  });
+
+  it('should keep stable ids when a requirement is renamed', () => {
+    const delta = '## RENAMED Requirements\n- FROM: `### Requirement: Login throttling {#AUTH-003}`\n- TO: `### Requirement: Sign-in throttling`\n';
+    const merged = new SpecMerger().merge(AUTH_SPEC, delta, new DeltaParser().parseDeltas('auth', delta));
+
+    expect(merged.errors).toEqual([]);
+    expect(merged.content).toContain('### Requirement: Sign-in throttling {#AUTH-003}');
+  });
+
+  it('should keep stable ids when a MODIFIED delta heading omits them', () => {
+    const delta = '## MODIFIED Requirements\n### Requirement: Login throttling\nThe system SHALL lock accounts after 10 failures.\n\n#### Scenario: Lockout\n- **WHEN** 10 logins fail\n- **THEN** the account is locked\n';
+    const merged = new SpecMerger().merge(AUTH_SPEC, delta, new DeltaParser().parseDeltas('auth', delta));
+
+    expect(merged.errors).toEqual([]);
+    expect(merged.content).toContain('### Requirement: Login throttling {#AUTH-003}\nThe system SHALL lock accounts after 10 failures.');
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * 需求引用
+ * 收集规格中的稳定需求 ID，并解析变更文档（proposal / design / tasks）中的引用
+ *
+ * 引用格式：
+ * - [[AUTH-003]]             在所有规格中查找
+ * - spec:auth#AUTH-003       限定规格
+ *
+ * ID 来源包括主规格和活跃变更的 delta spec（尚未归档的新需求也可以被引用）
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { RequirementParser } from './requirement-parser.js';
+
+const REFERENCE_PATTERN = /\[\[([A-Za-z][\w-]*)\]\]|\bspec:([\w-]+)#([A-Za-z][\w-]*)/g;
+const CHANGE_DOCUMENTS = ['proposal.md', 'design.md', 'tasks.md'];
+
+export interface RequirementRefsOptions {
+  cwd?: string;
+}
+
+/**
+ * 带稳定 ID 的需求
+ */
+export interface RequirementIdEntry {
+  id: string;
+  specId: string;
+  title: string;
+  file: string;                // 相对项目根目录
+  line: number;
+  changeId?: string;           // 来自活跃变更的 delta spec
+}
+
+/**
+ * 文档中的需求引用
+ */
+export interface RequirementReference {
+  raw: string;                 // 原文，如 [[AUTH-003]]
+  id: string;
+  specId?: string;             // 仅 spec:<spec>#<ID> 形式
+  line: number;
+  column: number;              // 1-based
+}
+
+/**
+ * 解析后的引用，targets 为空表示悬空引用
+ */
+export interface ResolvedReference extends RequirementReference {
+  file: string;
+  changeId: string;
+  targets: RequirementIdEntry[];
+}
+
+/**
+ * 查找文本中的需求引用（跳过代码块）
+ */
+export function findRequirementReferences(content: string): RequirementReference[] {
+  const references: RequirementReference[] = [];
+  let inFence = false;
+
+  content.split('\n').forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+
+    for (const match of line.matchAll(REFERENCE_PATTERN)) {
+      references.push({
+        raw: match[0],
+        id: match[1] ?? match[3],
+        ...(match[2] ? { specId: match[2] } : {}),
+        line: index + 1,
+        column: (match.index ?? 0) + 1,
+      });
+    }
+  });
+
+  return references;
+}
+
+export class RequirementRefs {
+  private cwd: string;
+  private requirementParser: RequirementParser;
+
+  constructor(options?: RequirementRefsOptions) {
+    this.cwd = options?.cwd || process.cwd();
+    this.requirementParser = new RequirementParser();
+  }
+
+  /**
+   * 获取 openspec 目录路径
+   */
+  private getOpenSpecDir(): string {
+    return path.join(this.cwd, 'openspec');
+  }
+
+  /**
+   * 转换为相对项目根目录的路径
+   */
+  private relative(filePath: string): string {
+    return path.relative(this.cwd, filePath).split(path.sep).join('/');
+  }
+
+  /**
+   * 收集所有带稳定 ID 的需求
+   */
+  async getIndex(): Promise<RequirementIdEntry[]> {
+    const entries: RequirementIdEntry[] = [];
+
+    const specsDir = path.join(this.getOpenSpecDir(), 'specs');
+    for (const specId of await this.listDirs(specsDir)) {
+      entries.push(...(await this.collect(path.join(specsDir, specId, 'spec.md'), specId)));
+    }
+
+    for (const changeId of await this.listChanges()) {
+      const deltasDir = path.join(this.getOpenSpecDir(), 'changes', changeId, 'specs');
+      for (const specId of await this.listDirs(deltasDir)) {
+        entries.push(...(await this.collect(path.join(deltasDir, specId, 'spec.md'), specId, changeId)));
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * 查找并解析活跃变更文档中的引用，指定 changeId 时只检查该变更
+   *
+   * index 为已收集的需求 ID 索引（批量检查时复用，不传则重新收集）
+   */
+  async findReferences(changeId?: string, index?: RequirementIdEntry[]): Promise<ResolvedReference[]> {
+    index = index ?? (await this.getIndex());
+    const changeIds = changeId ? [changeId] : await this.listChanges();
+    const references: ResolvedReference[] = [];
+
+    for (const id of changeIds) {
+      for (const document of CHANGE_DOCUMENTS) {
+        const filePath = path.join(this.getOpenSpecDir(), 'changes', id, document);
+        const content = await this.readOptional(filePath);
+        if (content === null) continue;
+
+        for (const reference of findRequirementReferences(content)) {
+          references.push({
+            ...reference,
+            file: this.relative(filePath),
+            changeId: id,
+            targets: index.filter(
+              (e) => e.id === reference.id && (!reference.specId || e.specId === reference.specId)
+            ),
+          });
+        }
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * 收集单个规格文件中的 ID（重复的 ID 只保留第一个）
+   */
+  private async collect(filePath: string, specId: string, changeId?: string): Promise<RequirementIdEntry[]> {
+    const content = await this.readOptional(filePath);
+    if (content === null) return [];
+
+    return [...this.requirementParser.collectIds(content).ids].map(([id, requirement]) => ({
+      id,
+      specId,
+      title: requirement.title,
+      file: this.relative(filePath),
+      line: requirement.line,
+      ...(changeId ? { changeId } : {}),
+    }));
+  }
+
+  /**
+   * 列出活跃变更
+   */
+  private async listChanges(): Promise<string[]> {
+    const changes = await this.listDirs(path.join(this.getOpenSpecDir(), 'changes'));
+    return changes.filter((id) => id !== 'archive');
+  }
+
+  /**
+   * 列出子目录名（排序），目录不存在时返回空数组
+   */
+  private async listDirs(dir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries.filter((e) => e.isDirectory()).map((e) => e.name).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 读取文件，不存在时返回 null
+   */
+  private async readOptional(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
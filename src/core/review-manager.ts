@@ -12,6 +12,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { randomUUID } from 'crypto';
+import { ProjectIndex } from './project-index.js';
 
 /**
  * 评审目标类型
@@ -86,9 +87,11 @@ export interface ReviewSummary {
 
 export class ReviewManager {
   private cwd: string;
+  private index: ProjectIndex;
 
-  constructor(options?: { cwd?: string }) {
+  constructor(options?: { cwd?: string; index?: ProjectIndex }) {
     this.cwd = options?.cwd || process.cwd();
+    this.index = options?.index || new ProjectIndex({ cwd: this.cwd });
   }
 
   /**
@@ -137,13 +140,15 @@ export class ReviewManager {
    */
   async loadReviews(targetType: ReviewTargetType, targetId: string): Promise<ReviewComment[]> {
     const filePath = this.getReviewFilePath(targetType, targetId);
-    
-    try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(content) as ReviewComment[];
-    } catch {
-      return [];
-    }
+
+    return this.index.get('reviews', filePath, async () => {
+      try {
+        const content = await fs.readFile(filePath, 'utf-8');
+        return JSON.parse(content) as ReviewComment[];
+      } catch {
+        return [];
+      }
+    });
   }
 
   /**
@@ -157,6 +162,7 @@ export class ReviewManager {
     const filePath = this.getReviewFilePath(targetType, targetId);
     await this.ensureDir(filePath);
     await fs.writeFile(filePath, JSON.stringify(reviews, null, 2), 'utf-8');
+    this.index.invalidate(filePath);
   }
 
   /**
@@ -282,6 +288,34 @@ export class ReviewManager {
     return true;
   }
 
+  /**
+   * 文档行号变化后更新评审定位
+   *
+   * lineMap 为旧行号 -> 新行号，null 表示该行已删除（评审保留，去掉行号）；
+   * 返回更新的评审数量
+   */
+  async remapLineNumbers(
+    targetType: ReviewTargetType,
+    targetId: string,
+    lineMap: Map<number, number | null>
+  ): Promise<number> {
+    const reviews = await this.loadReviews(targetType, targetId);
+    let updated = 0;
+
+    for (const review of reviews) {
+      if (review.lineNumber === undefined || !lineMap.has(review.lineNumber)) continue;
+      const lineNumber = lineMap.get(review.lineNumber) ?? undefined;
+      if (lineNumber === review.lineNumber) continue;
+      review.lineNumber = lineNumber;
+      updated++;
+    }
+
+    if (updated > 0) {
+      await this.saveReviews(targetType, targetId, reviews);
+    }
+    return updated;
+  }
+
   /**
    * 获取评审统计
    */
@@ -0,0 +1,124 @@
+/**
+ * SiteExporter 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SiteExporter } from './site-exporter.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const AUTH_SPEC = `# Auth Specification
+
+## Requirements
+
+### Requirement: Login {#AUTH-001}
+The system SHALL accept a password.
+
+#### Scenario: Valid password
+- **WHEN** the password matches
+- **THEN** a session is created
+`;
+
+const BILLING_SPEC = `# Billing Specification
+<!-- @depends-on: auth -->
+
+## Requirements
+
+### Requirement: Invoices
+The system SHALL send monthly invoices.
+
+#### Scenario: Month end
+- **WHEN** the month ends
+- **THEN** an invoice is sent
+`;
+
+describe('SiteExporter', () => {
+  let tempDir: string;
+  let exporter: SiteExporter;
+
+  async function write(file: string, content: string): Promise<void> {
+    const filePath = path.join(tempDir, 'openspec', file);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'site-exporter-test-'));
+    exporter = new SiteExporter({ cwd: tempDir });
+
+    await write('project.md', '# Demo\n');
+    await write('specs/auth/spec.md', AUTH_SPEC);
+    await write('specs/billing/spec.md', BILLING_SPEC);
+    await write('changes/archive/2024-01-01-add-auth/proposal.md', '# Change: Add auth\n\n## Why\nUsers need accounts.\n');
+    await write(
+      'changes/archive/2024-01-01-add-auth/specs/auth/spec.md',
+      '## ADDED Requirements\n\n### Requirement: Login {#AUTH-001}\nThe system SHALL accept a password.\n'
+    );
+    await write('changes/add-mfa/proposal.md', '# Change: Add MFA\n\n## Why\nPasswords are not enough.\n\n## Rollout\n- [x] Announce\n- [-] Migrate admins\n- [~] Email everyone\n');
+    await write('changes/add-mfa/tasks.md', '## 1. Implementation\n- [x] 1.1 Add TOTP\n- [ ] 1.2 Add recovery codes\n  - [ ] 1.2.1 Generate codes\n  - [ ] 1.2.2 Show codes once\n- [~] 1.3 SMS fallback\n');
+    await write(
+      'changes/add-mfa/specs/auth/spec.md',
+      '## ADDED Requirements\n\n### Requirement: MFA\nThe system SHALL support TOTP.\n'
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should export a static HTML site', async () => {
+    const result = await exporter.exportHtml('site');
+
+    expect(result.files.sort()).toEqual([
+      'changes/2024-01-01-add-auth.html',
+      'changes/add-mfa.html',
+      'index.html',
+      'requirements.html',
+      'specs/auth.html',
+      'specs/billing.html',
+    ]);
+
+    const read = (file: string) => fs.readFile(path.join(tempDir, 'site', file), 'utf-8');
+
+    const index = await read('index.html');
+    expect(index).toContain('<a href="specs/auth.html">auth</a>');
+    expect(index).toContain('<pre class="mermaid">graph LR');
+    expect(index).toContain('mermaid.esm.min.mjs');
+
+    const requirements = await read('requirements.html');
+    expect(requirements).toContain('<code>AUTH-001</code>');
+    expect(requirements).toContain('href="specs/auth.html#requirement-login"');
+    expect(requirements).toContain('href="changes/2024-01-01-add-auth.html"');
+
+    const auth = await read('specs/auth.html');
+    expect(auth).toContain('<a id="AUTH-001"></a><h3 id="requirement-login">Requirement: Login</h3>');
+    expect(auth).toContain('Used by: <a href="billing.html">billing</a>');
+    expect(auth).toContain('<a href="../changes/2024-01-01-add-auth.html">');
+    expect(auth).toContain('<a href="../index.html#specs">Specs</a>');
+
+    const change = await read('changes/add-mfa.html');
+    expect(change).toContain('Tasks 1/3');
+    expect(change).toContain('<input type="checkbox" disabled checked> 1.1 Add TOTP');
+    expect(change).toContain('<li><input type="checkbox" disabled> Migrate admins</li>');
+    expect(change).toContain('<li><input type="checkbox" disabled> Email everyone</li>');
+    expect(change).toContain('<h2 id="impact">Impact</h2>');
+  });
+
+  it('should render a Markdown spec book with a table of contents', async () => {
+    const book = await exporter.renderBook();
+
+    expect(book).toContain('## Table of Contents');
+    expect(book).toContain('  - [Auth Specification](#spec-auth)');
+    expect(book).toContain('  - [Change: Add MFA](#change-add-mfa)');
+    expect(book).toContain('### Auth Specification (`auth`)');
+    // 规格内的标题降级两级
+    expect(book).toContain('##### Requirement: Login {#AUTH-001}');
+    expect(book).toContain('| AUTH-001 | Login | [auth](#spec-auth) | 1 | 2024-01-01-add-auth |');
+    expect(book).toContain('Tasks: 1/3 · Specs: auth');
+    expect(book).not.toContain('# Change: Add MFA\n');
+
+    const file = await exporter.exportBook('docs/spec-book.md');
+    expect(await fs.readFile(file, 'utf-8')).toContain('## Requirement Index');
+  });
+});
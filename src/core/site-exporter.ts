@@ -0,0 +1,483 @@
+/**
+ * 静态站点导出
+ * 将全部规格、活跃提案和归档变更导出为无需 Dashboard 即可浏览的静态 HTML 站点，
+ * 或单文件 Markdown "spec book"
+ *
+ * 站点结构：
+ * - index.html           概览、规格列表、依赖图、变更列表
+ * - requirements.html    需求索引（稳定 ID、所属规格、引入变更）
+ * - specs/<id>.html      规格内容、依赖关系、修改历史
+ * - changes/<id>.html    提案、设计、任务、delta 及影响图
+ *
+ * 数据来自 OpenSpecCli、SpecParser 和 SpecHistory；依赖图为 Mermaid，由页面加载 mermaid 渲染
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import matter from 'gray-matter';
+import { OpenSpecCli } from './openspec-cli.js';
+import { SpecParser } from './spec-parser.js';
+import { SpecHistory } from './spec-history.js';
+import { exportGraph } from './graph-exporters.js';
+import { TaskParser } from './task-parser.js';
+import { escapeHtml, renderInline, renderMarkdown, slugify } from '../utils/markdown.js';
+import type { RequirementBlame, SpecHistoryEntry } from './spec-history.js';
+import type { ChangeDetail, SpecDetail, Task } from '../types/openspec.js';
+
+const MERMAID_SCRIPT =
+  '<script type="module">import mermaid from "https://cdn.jsdelivr.net/npm/mermaid@10/dist/mermaid.esm.min.mjs"; mermaid.initialize({ startOnLoad: true });</script>';
+
+const STYLE = `
+body { margin: 0; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2937; }
+header { background: #111827; padding: 12px 24px; }
+header a { color: #e5e7eb; margin-right: 20px; text-decoration: none; }
+header a.brand { color: #fff; font-weight: 600; }
+main { max-width: 960px; margin: 0 auto; padding: 24px; }
+a { color: #2563eb; }
+table { border-collapse: collapse; width: 100%; margin: 12px 0; }
+th, td { border: 1px solid #e5e7eb; padding: 6px 10px; text-align: left; vertical-align: top; }
+th { background: #f9fafb; }
+pre { background: #f3f4f6; padding: 12px; overflow-x: auto; border-radius: 6px; }
+pre.mermaid { background: #fff; }
+code { background: #f3f4f6; padding: 1px 4px; border-radius: 4px; }
+blockquote { border-left: 4px solid #e5e7eb; margin: 0; padding-left: 12px; color: #4b5563; }
+.meta { color: #6b7280; font-size: 13px; }
+.badge { display: inline-block; padding: 0 8px; border-radius: 10px; font-size: 12px; background: #e5e7eb; }
+.badge.active { background: #fef3c7; }
+.badge.archived { background: #dcfce7; }
+`;
+
+export interface SiteExporterOptions {
+  cwd?: string;
+  cli?: OpenSpecCli;
+}
+
+/**
+ * 导出用的规格数据
+ */
+export interface SiteSpec extends SpecDetail {
+  dependencies: string[];
+  dependents: string[];
+  history: SpecHistoryEntry[];
+  blame: RequirementBlame[];
+}
+
+/**
+ * 需求索引条目
+ */
+export interface RequirementIndexEntry {
+  specId: string;
+  title: string;
+  anchor?: string;
+  slug: string;                // 规格页中需求标题的锚点
+  scenarios: number;
+  introducedBy: string | null;
+}
+
+export interface SiteData {
+  projectName: string;
+  generatedAt: string;
+  specs: SiteSpec[];
+  activeChanges: ChangeDetail[];
+  archivedChanges: ChangeDetail[];
+  requirements: RequirementIndexEntry[];
+  dependencyGraph: string;     // Mermaid
+  impactGraphs: Record<string, string>; // 活跃变更 ID -> Mermaid 影响图
+}
+
+export interface SiteExportResult {
+  outDir: string;
+  files: string[];             // 相对 outDir
+  specs: number;
+  changes: number;
+}
+
+export class SiteExporter {
+  private cwd: string;
+  private cli: OpenSpecCli;
+  private specParser: SpecParser;
+  private specHistory: SpecHistory;
+
+  constructor(options?: SiteExporterOptions) {
+    this.cwd = options?.cwd || process.cwd();
+    this.cli = options?.cli || new OpenSpecCli({ cwd: this.cwd });
+    this.specParser = new SpecParser({ cwd: this.cwd });
+    this.specHistory = new SpecHistory({ cwd: this.cwd });
+  }
+
+  /**
+   * 收集导出所需的全部数据
+   */
+  async collect(): Promise<SiteData> {
+    const graph = await this.specParser.buildDependencyGraph();
+
+    const specs: SiteSpec[] = [];
+    for (const { id } of await this.cli.listSpecs()) {
+      const detail = await this.cli.showSpec(id);
+      if (!detail) continue;
+      const { entries, blame } = await this.specHistory.getHistory(id);
+      specs.push({
+        ...detail,
+        dependencies: graph.edges.filter((e) => e.from === id).map((e) => e.to),
+        dependents: graph.edges.filter((e) => e.to === id).map((e) => e.from),
+        history: entries,
+        blame,
+      });
+    }
+    specs.sort((a, b) => a.id.localeCompare(b.id));
+
+    const activeChanges: ChangeDetail[] = [];
+    const archivedChanges: ChangeDetail[] = [];
+    for (const change of await this.cli.listChanges({ includeArchived: true })) {
+      const detail = await this.cli.showChange(change.id);
+      if (!detail) continue;
+      (change.status === 'archived' ? archivedChanges : activeChanges).push(detail);
+    }
+    activeChanges.sort((a, b) => a.id.localeCompare(b.id));
+    archivedChanges.sort((a, b) => b.id.localeCompare(a.id));
+
+    const requirements: RequirementIndexEntry[] = specs.flatMap((spec) =>
+      spec.requirements.map((requirement) => ({
+        specId: spec.id,
+        title: requirement.title,
+        ...(requirement.anchor ? { anchor: requirement.anchor } : {}),
+        slug: slugify(`Requirement: ${requirement.title}`),
+        scenarios: requirement.scenarios.length,
+        introducedBy: spec.blame.find((b) => b.line === requirement.line)?.introducedBy ?? null,
+      }))
+    );
+
+    const impactGraphs: Record<string, string> = {};
+    for (const change of activeChanges) {
+      if (change.deltas.length > 0) {
+        impactGraphs[change.id] = exportGraph('mermaid', await this.specParser.toImpactGraph(change.id));
+      }
+    }
+
+    return {
+      projectName: (await this.cli.getProjectName()).name,
+      generatedAt: new Date().toISOString(),
+      specs,
+      activeChanges,
+      archivedChanges,
+      requirements,
+      dependencyGraph: await this.specParser.toMermaid(),
+      impactGraphs,
+    };
+  }
+
+  /**
+   * 导出静态 HTML 站点
+   */
+  async exportHtml(outDir: string): Promise<SiteExportResult> {
+    const data = await this.collect();
+    const root = path.resolve(this.cwd, outDir);
+    const files = new Map<string, string>();
+
+    files.set('index.html', this.renderIndex(data));
+    files.set('requirements.html', this.renderRequirementIndex(data));
+    for (const spec of data.specs) {
+      files.set(`specs/${spec.id}.html`, this.renderSpecPage(data, spec));
+    }
+    for (const change of [...data.activeChanges, ...data.archivedChanges]) {
+      files.set(`changes/${change.id}.html`, this.renderChangePage(data, change));
+    }
+
+    for (const [file, content] of files) {
+      await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+      await fs.writeFile(path.join(root, file), content, 'utf-8');
+    }
+
+    return {
+      outDir: root,
+      files: [...files.keys()],
+      specs: data.specs.length,
+      changes: data.activeChanges.length + data.archivedChanges.length,
+    };
+  }
+
+  /**
+   * 生成单文件 Markdown spec book（带目录）
+   */
+  async renderBook(): Promise<string> {
+    const data = await this.collect();
+    const lines: string[] = [
+      `# ${data.projectName} Spec Book`,
+      '',
+      `_Generated ${data.generatedAt}_`,
+      '',
+      '## Table of Contents',
+      '',
+      '- [Specs](#specs)',
+      ...data.specs.map((s) => `  - [${s.title}](#spec-${s.id})`),
+      '- [Dependency Graph](#dependency-graph)',
+      '- [Requirement Index](#requirement-index)',
+      '- [Active Changes](#active-changes)',
+      ...data.activeChanges.map((c) => `  - [${c.title}](#change-${c.id})`),
+      '- [Change History](#change-history)',
+      ...data.archivedChanges.map((c) => `  - [${c.id}](#change-${c.id})`),
+      '',
+      '<a id="specs"></a>',
+      '## Specs',
+      '',
+    ];
+
+    for (const spec of data.specs) {
+      lines.push(`<a id="spec-${spec.id}"></a>`, '', `### ${spec.title} (\`${spec.id}\`)`, '');
+      if (spec.dependencies.length > 0) {
+        lines.push(`Depends on: ${spec.dependencies.map((d) => `[${d}](#spec-${d})`).join(', ')}`, '');
+      }
+      lines.push(demoteHeadings(stripTitle(matter(spec.content).content), 2), '');
+    }
+
+    lines.push('<a id="dependency-graph"></a>', '## Dependency Graph', '', '```mermaid', data.dependencyGraph.trimEnd(), '```', '');
+
+    lines.push('<a id="requirement-index"></a>', '## Requirement Index', '');
+    lines.push('| ID | Requirement | Spec | Scenarios | Introduced by |', '| --- | --- | --- | --- | --- |');
+    for (const r of data.requirements) {
+      lines.push(
+        `| ${r.anchor || ''} | ${r.title} | [${r.specId}](#spec-${r.specId}) | ${r.scenarios} | ${r.introducedBy || ''} |`
+      );
+    }
+    lines.push('');
+
+    lines.push('<a id="active-changes"></a>', '## Active Changes', '');
+    for (const change of data.activeChanges) {
+      lines.push(...this.renderBookChange(change));
+    }
+
+    lines.push('<a id="change-history"></a>', '## Change History', '');
+    for (const change of data.archivedChanges) {
+      lines.push(...this.renderBookChange(change));
+    }
+
+    return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd()}\n`;
+  }
+
+  /**
+   * 写入 Markdown spec book，返回文件路径
+   */
+  async exportBook(filePath: string): Promise<string> {
+    const target = path.resolve(this.cwd, filePath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, await this.renderBook(), 'utf-8');
+    return target;
+  }
+
+  /**
+   * spec book 中的单个变更
+   */
+  private renderBookChange(change: ChangeDetail): string[] {
+    return [
+      `<a id="change-${change.id}"></a>`,
+      '',
+      `### ${change.title} (\`${change.id}\`)`,
+      '',
+      `Tasks: ${countTasks(change.tasks)}` +
+        (change.deltas.length > 0 ? ` · Specs: ${[...new Set(change.deltas.map((d) => d.specName))].join(', ')}` : ''),
+      '',
+      demoteHeadings(stripTitle(change.proposal), 2),
+      '',
+    ];
+  }
+
+  /**
+   * 首页
+   */
+  private renderIndex(data: SiteData): string {
+    const specRows = data.specs.map(
+      (s) =>
+        `<tr><td><a href="specs/${s.id}.html">${escapeHtml(s.id)}</a></td><td>${escapeHtml(s.title)}</td><td>${s.requirements.length}</td><td>${s.history.length}</td></tr>`
+    );
+
+    const body = [
+      `<h1>${escapeHtml(data.projectName)}</h1>`,
+      `<p class="meta">${data.specs.length} specs · ${data.requirements.length} requirements · ${data.activeChanges.length} active changes · ${data.archivedChanges.length} archived changes</p>`,
+      '<h2 id="specs">Specs</h2>',
+      `<table><thead><tr><th>Spec</th><th>Title</th><th>Requirements</th><th>Archived changes</th></tr></thead><tbody>${specRows.join('')}</tbody></table>`,
+      '<h2 id="dependencies">Dependency Graph</h2>',
+      `<pre class="mermaid">${escapeHtml(data.dependencyGraph)}</pre>`,
+      '<h2 id="active">Active Proposals</h2>',
+      this.renderChangeTable(data.activeChanges),
+      '<h2 id="archive">Change History</h2>',
+      this.renderChangeTable(data.archivedChanges),
+    ];
+
+    return this.page(data, data.projectName, body.join('\n'), 0);
+  }
+
+  /**
+   * 需求索引页
+   */
+  private renderRequirementIndex(data: SiteData): string {
+    const rows = data.requirements.map(
+      (r) =>
+        `<tr><td>${r.anchor ? `<code>${escapeHtml(r.anchor)}</code>` : ''}</td>` +
+        `<td><a href="specs/${r.specId}.html#${r.slug}">${escapeHtml(r.title)}</a></td>` +
+        `<td><a href="specs/${r.specId}.html">${escapeHtml(r.specId)}</a></td>` +
+        `<td>${r.scenarios}</td>` +
+        `<td>${r.introducedBy ? `<a href="changes/${r.introducedBy}.html">${escapeHtml(r.introducedBy)}</a>` : ''}</td></tr>`
+    );
+
+    const body = [
+      '<h1>Requirement Index</h1>',
+      `<table><thead><tr><th>ID</th><th>Requirement</th><th>Spec</th><th>Scenarios</th><th>Introduced by</th></tr></thead><tbody>${rows.join('')}</tbody></table>`,
+    ];
+
+    return this.page(data, 'Requirement Index', body.join('\n'), 0);
+  }
+
+  /**
+   * 规格页
+   */
+  private renderSpecPage(data: SiteData, spec: SiteSpec): string {
+    const links = (ids: string[]) =>
+      ids.length > 0 ? ids.map((id) => `<a href="${id}.html">${escapeHtml(id)}</a>`).join(', ') : '—';
+    const historyRows = spec.history.map((entry) => {
+      const summary = [
+        ...entry.added.map((t) => `+ ${t}`),
+        ...entry.modified.map((t) => `~ ${t}`),
+        ...entry.removed.map((t) => `- ${t}`),
+        ...entry.renamed.map((r) => `${r.from} → ${r.to}`),
+      ];
+      return (
+        `<tr><td>${entry.date}</td><td><a href="../changes/${entry.changeId}.html">${escapeHtml(entry.changeId)}</a></td>` +
+        `<td>${summary.map(escapeHtml).join('<br>')}</td></tr>`
+      );
+    });
+
+    const body = [
+      `<p class="meta">Depends on: ${links(spec.dependencies)} · Used by: ${links(spec.dependents)}</p>`,
+      renderMarkdown(matter(spec.content).content),
+      '<h2 id="history">History</h2>',
+      historyRows.length > 0
+        ? `<table><thead><tr><th>Date</th><th>Change</th><th>Requirements</th></tr></thead><tbody>${historyRows.join('')}</tbody></table>`
+        : '<p class="meta">No archived changes touch this spec.</p>',
+    ];
+
+    return this.page(data, spec.title, body.join('\n'), 1);
+  }
+
+  /**
+   * 变更页
+   */
+  private renderChangePage(data: SiteData, change: ChangeDetail): string {
+    const meta = [
+      `<span class="badge ${change.status}">${change.status}</span>`,
+      `Tasks ${countTasks(change.tasks)}`,
+      ...(change.owner ? [`Owner: ${escapeHtml(change.owner)}`] : []),
+      ...(change.dependsOn?.length
+        ? [`Depends on: ${change.dependsOn.map((id) => `<a href="${id}.html">${escapeHtml(id)}</a>`).join(', ')}`]
+        : []),
+    ];
+
+    const deltaRows = change.deltas.map(
+      (d) =>
+        `<tr><td><a href="../specs/${d.specName}.html">${escapeHtml(d.specName)}</a></td><td>${d.operation}</td>` +
+        `<td>${[...d.requirements.map((r) => r.title), ...(d.renames || []).map((r) => `${r.from} → ${r.to}`)].map(escapeHtml).join('<br>')}</td></tr>`
+    );
+    const taskItems = change.tasks.map(
+      (t) =>
+        `<li><input type="checkbox" disabled${t.status === 'done' ? ' checked' : ''}> ${escapeHtml(t.id)} ${renderInline(t.title)}</li>`
+    );
+
+    const body = [
+      `<p class="meta">${meta.join(' · ')}</p>`,
+      renderMarkdown(change.proposal),
+      ...(change.design ? ['<hr>', renderMarkdown(change.design)] : []),
+      ...(taskItems.length > 0 ? ['<h2 id="tasks">Tasks</h2>', `<ul>${taskItems.join('')}</ul>`] : []),
+      ...(deltaRows.length > 0
+        ? [
+            '<h2 id="deltas">Spec Deltas</h2>',
+            `<table><thead><tr><th>Spec</th><th>Operation</th><th>Requirements</th></tr></thead><tbody>${deltaRows.join('')}</tbody></table>`,
+          ]
+        : []),
+      ...(data.impactGraphs[change.id]
+        ? ['<h2 id="impact">Impact</h2>', `<pre class="mermaid">${escapeHtml(data.impactGraphs[change.id])}</pre>`]
+        : []),
+    ];
+
+    return this.page(data, change.title, body.join('\n'), 1);
+  }
+
+  /**
+   * 变更列表
+   */
+  private renderChangeTable(changes: ChangeDetail[]): string {
+    if (changes.length === 0) {
+      return '<p class="meta">None.</p>';
+    }
+    const rows = changes.map((c) => {
+      const specs = [...new Set(c.deltas.map((d) => d.specName))];
+      return (
+        `<tr><td><a href="changes/${c.id}.html">${escapeHtml(c.id)}</a></td><td>${escapeHtml(c.title)}</td>` +
+        `<td>${countTasks(c.tasks)}</td><td>${specs.map((s) => `<a href="specs/${s}.html">${escapeHtml(s)}</a>`).join(', ')}</td></tr>`
+      );
+    });
+    return `<table><thead><tr><th>Change</th><th>Title</th><th>Tasks</th><th>Specs</th></tr></thead><tbody>${rows.join('')}</tbody></table>`;
+  }
+
+  /**
+   * 页面骨架（depth 为相对站点根目录的层级）
+   */
+  private page(data: SiteData, title: string, body: string, depth: number): string {
+    const root = '../'.repeat(depth);
+    const diagrams = body.includes('class="mermaid"');
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${escapeHtml(title)} · ${escapeHtml(data.projectName)}</title>`,
+      `<style>${STYLE}</style>`,
+      '</head>',
+      '<body>',
+      '<header>',
+      `<a class="brand" href="${root}index.html">${escapeHtml(data.projectName)}</a>`,
+      `<a href="${root}index.html#specs">Specs</a>`,
+      `<a href="${root}requirements.html">Requirements</a>`,
+      `<a href="${root}index.html#active">Proposals</a>`,
+      `<a href="${root}index.html#archive">History</a>`,
+      '</header>',
+      `<main>\n${body}\n</main>`,
+      `<footer><main class="meta">Generated ${data.generatedAt}</main></footer>`,
+      ...(diagrams ? [MERMAID_SCRIPT] : []),
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+  }
+}
+
+/**
+ * 已完成 / 总任务数（与看板、进度接口一致，只计叶子任务且不含已取消的任务）
+ */
+function countTasks(tasks: Task[]): string {
+  const progress = new TaskParser().calculateProgress(tasks);
+  return `${progress.completed}/${progress.total}`;
+}
+
+/**
+ * 移除文档开头的一级标题（由页面 / 章节标题代替）
+ */
+function stripTitle(markdown: string): string {
+  return markdown.replace(/^\s*#\s+.*\n?/, '');
+}
+
+/**
+ * 将标题降级 levels 级（跳过代码块），最低为六级
+ */
+function demoteHeadings(markdown: string, levels: number): string {
+  let inFence = false;
+  return markdown
+    .split('\n')
+    .map((line) => {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      if (inFence) return line;
+      return line.replace(/^(#{1,6})(?=\s)/, (hashes) => '#'.repeat(Math.min(hashes.length + levels, 6)));
+    })
+    .join('\n')
+    .trim();
+}
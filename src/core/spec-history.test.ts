@@ -0,0 +1,125 @@
+/**
+ * SpecHistory 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SpecHistory } from './spec-history.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const ADD_AUTH = `## ADDED Requirements
+
+### Requirement: Login
+The system SHALL accept a password.
+
+### Requirement: Logout
+The system SHALL end the session.
+`;
+
+const HARDEN_AUTH = `## MODIFIED Requirements
+
+### Requirement: Login
+The system SHALL accept a password and lock the account after 5 failures.
+
+## RENAMED Requirements
+- FROM: \`### Requirement: Logout\`
+- TO: \`### Requirement: Sign Out\`
+`;
+
+const ADD_MFA = `## ADDED Requirements
+
+### Requirement: MFA
+The system SHALL support TOTP.
+`;
+
+describe('SpecHistory', () => {
+  let tempDir: string;
+  let history: SpecHistory;
+
+  async function archive(dir: string, delta: string): Promise<void> {
+    const specDir = path.join(tempDir, 'openspec', 'changes', 'archive', dir, 'specs', 'auth');
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.writeFile(path.join(specDir, 'spec.md'), delta);
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spec-history-test-'));
+    history = new SpecHistory({ cwd: tempDir });
+
+    // 乱序创建，验证按归档日期重放
+    await archive('2024-03-01-add-mfa', ADD_MFA);
+    await archive('2024-01-01-add-auth', ADD_AUTH);
+    await archive('2024-02-01-harden-auth', HARDEN_AUTH);
+
+    // 当前规格 = 重放结果 + 归档后的人工修改
+    const replayed = await history.getSnapshot('auth', '2024-03-01');
+    const specDir = path.join(tempDir, 'openspec', 'specs', 'auth');
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.writeFile(
+      path.join(specDir, 'spec.md'),
+      replayed.replace('support TOTP.', 'support TOTP and WebAuthn.') +
+        '\n### Requirement: Audit\nThe system SHALL log sign-ins.\n'
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list history entries in date order and blame requirements', async () => {
+    const report = await history.getHistory('auth');
+
+    expect(report.entries.map((e) => [e.changeId, e.date])).toEqual([
+      ['2024-01-01-add-auth', '2024-01-01'],
+      ['2024-02-01-harden-auth', '2024-02-01'],
+      ['2024-03-01-add-mfa', '2024-03-01'],
+    ]);
+    expect(report.entries[1]).toMatchObject({
+      modified: ['Login'],
+      renamed: [{ from: 'Logout', to: 'Sign Out' }],
+      errors: [],
+    });
+
+    const blame = Object.fromEntries(report.blame.map((b) => [b.title, b]));
+    expect(blame['Login']).toMatchObject({
+      introducedBy: '2024-01-01-add-auth',
+      lastChangedBy: '2024-02-01-harden-auth',
+      lastOperation: 'MODIFIED',
+      editedSinceArchive: false,
+    });
+    // 重命名保留引入者
+    expect(blame['Sign Out']).toMatchObject({
+      introducedBy: '2024-01-01-add-auth',
+      lastChangedAt: '2024-02-01',
+      lastOperation: 'RENAMED',
+    });
+    expect(blame['MFA']).toMatchObject({ lastChangedBy: '2024-03-01-add-mfa', editedSinceArchive: true });
+    expect(blame['Audit']).toMatchObject({ introducedBy: null, lastChangedBy: null, editedSinceArchive: false });
+  });
+
+  it('should reconstruct the spec at a date or after a change', async () => {
+    expect(await history.getSnapshot('auth', '2023-12-31')).toBe('');
+
+    const january = await history.getSnapshot('auth', '2024-01-15');
+    expect(january).toContain('# auth Specification');
+    expect(january).toContain('### Requirement: Logout');
+    expect(january).not.toContain('lock the account');
+
+    expect(await history.getSnapshot('auth', 'harden-auth')).toContain('### Requirement: Sign Out');
+    await expect(history.getSnapshot('auth', 'unknown-change')).rejects.toThrow('No archived change');
+    await expect(history.getHistory('../changes')).rejects.toThrow('Invalid spec id');
+    await expect(history.getSnapshot('..', 'current')).rejects.toThrow('Invalid spec id');
+  });
+
+  it('should diff two points in time', async () => {
+    const diff = await history.diff('auth', 'add-auth', '2024-02-01');
+    expect(diff).toContain('-The system SHALL accept a password.');
+    expect(diff).toContain('+The system SHALL accept a password and lock the account after 5 failures.');
+    expect(diff).toContain('+### Requirement: Sign Out');
+
+    const sinceArchive = await history.diff('auth', '2024-03-01');
+    expect(sinceArchive).toContain('+The system SHALL support TOTP and WebAuthn.');
+    expect(sinceArchive).toContain('+### Requirement: Audit');
+  });
+});
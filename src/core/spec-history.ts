@@ -0,0 +1,306 @@
+/**
+ * 规格历史
+ * 按日期顺序重放 changes/archive/* 中的 delta，重建主规格的演变过程
+ *
+ * - blame：当前规格中每个需求由哪个归档变更引入、最后由哪个变更修改
+ * - 快照：任意日期（或某个归档变更之后）的规格内容
+ * - 对比：任意两个时间点之间的 unified diff
+ *
+ * 重放从空规格开始，因此不经过归档直接写入主规格的内容不会出现在历史中
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DeltaParser } from './delta-parser.js';
+import { SpecMerger } from './spec-merger.js';
+import { RequirementParser } from './requirement-parser.js';
+import { createUnifiedDiff } from '../utils/diff.js';
+import { ensureSafeId } from '../utils/ids.js';
+import { ARCHIVE_DATE_PREFIX } from '../utils/constants.js';
+import type { DeltaOperation } from '../types/openspec.js';
+
+const MANIFEST_FILE = '.archive-manifest.json';
+
+export interface SpecHistoryOptions {
+  cwd?: string;
+}
+
+/**
+ * 一次归档对规格的修改
+ */
+export interface SpecHistoryEntry {
+  changeId: string;            // 归档目录名 (<date>-<id>)
+  date: string;                // YYYY-MM-DD
+  added: string[];
+  modified: string[];
+  removed: string[];
+  renamed: { from: string; to: string }[];
+  errors: string[];            // 重放时无法应用的操作
+}
+
+/**
+ * 单个需求的追溯信息
+ */
+export interface RequirementBlame {
+  title: string;
+  line: number;                // 当前规格中的行号
+  introducedBy: string | null; // 引入该需求的归档变更，null 表示历史中没有记录
+  introducedAt: string | null;
+  lastChangedBy: string | null;
+  lastChangedAt: string | null;
+  lastOperation: DeltaOperation | null;
+  editedSinceArchive: boolean; // 当前内容与重放结果不一致（归档后被直接修改）
+}
+
+export interface SpecHistoryReport {
+  specId: string;
+  entries: SpecHistoryEntry[];
+  blame: RequirementBlame[];
+}
+
+/**
+ * 时间点：'initial'（首次归档之前）、'current'（当前文件）、YYYY-MM-DD 或归档变更 ID
+ */
+export type SpecHistoryPoint = string;
+
+interface ReplayStep {
+  entry: SpecHistoryEntry;
+  content: string;             // 应用本次变更后的规格
+}
+
+interface BlameRecord {
+  introducedBy: string;
+  introducedAt: string;
+  lastChangedBy: string;
+  lastChangedAt: string;
+  lastOperation: DeltaOperation;
+}
+
+export class SpecHistory {
+  private cwd: string;
+  private deltaParser: DeltaParser;
+  private specMerger: SpecMerger;
+  private requirementParser: RequirementParser;
+
+  constructor(options?: SpecHistoryOptions) {
+    this.cwd = options?.cwd || process.cwd();
+    this.deltaParser = new DeltaParser();
+    this.specMerger = new SpecMerger();
+    this.requirementParser = new RequirementParser();
+  }
+
+  /**
+   * 获取 openspec 目录路径
+   */
+  private getOpenSpecDir(): string {
+    return path.join(this.cwd, 'openspec');
+  }
+
+  /**
+   * 获取规格的修改历史和当前需求的 blame
+   */
+  async getHistory(specId: string): Promise<SpecHistoryReport> {
+    specId = ensureSafeId(specId, 'spec');
+    const steps = await this.replay(specId);
+    const records = new Map<string, BlameRecord>();
+
+    for (const { entry } of steps) {
+      const touch = (title: string, operation: DeltaOperation) => {
+        const key = normalize(title);
+        const record = records.get(key);
+        records.set(key, {
+          introducedBy: record?.introducedBy ?? entry.changeId,
+          introducedAt: record?.introducedAt ?? entry.date,
+          lastChangedBy: entry.changeId,
+          lastChangedAt: entry.date,
+          lastOperation: operation,
+        });
+      };
+
+      // 与合并顺序一致：RENAMED → REMOVED → MODIFIED → ADDED
+      for (const { from, to } of entry.renamed) {
+        const record = records.get(normalize(from));
+        records.delete(normalize(from));
+        if (record) records.set(normalize(to), record);
+        touch(to, 'RENAMED');
+      }
+      entry.removed.forEach((title) => records.delete(normalize(title)));
+      entry.modified.forEach((title) => touch(title, 'MODIFIED'));
+      entry.added.forEach((title) => {
+        records.delete(normalize(title));
+        touch(title, 'ADDED');
+      });
+    }
+
+    const current = await this.readCurrent(specId);
+    const replayed = steps.length > 0 ? steps[steps.length - 1].content : '';
+    const replayedBlocks = this.blocks(replayed);
+
+    const blame = this.requirementParser.parseRequirements(current).map((requirement) => {
+      const record = records.get(normalize(requirement.title));
+      const block = current.split('\n').slice(requirement.line - 1, requirement.endLine).join('\n');
+      return {
+        title: requirement.title,
+        line: requirement.line,
+        introducedBy: record?.introducedBy ?? null,
+        introducedAt: record?.introducedAt ?? null,
+        lastChangedBy: record?.lastChangedBy ?? null,
+        lastChangedAt: record?.lastChangedAt ?? null,
+        lastOperation: record?.lastOperation ?? null,
+        editedSinceArchive: !!record && replayedBlocks.get(normalize(requirement.title)) !== block,
+      };
+    });
+
+    return { specId, entries: steps.map((s) => s.entry), blame };
+  }
+
+  /**
+   * 获取某个时间点的规格内容，规格在该时间点尚不存在时返回空字符串
+   */
+  async getSnapshot(specId: string, point: SpecHistoryPoint): Promise<string> {
+    specId = ensureSafeId(specId, 'spec');
+    if (point === 'current') {
+      return this.readCurrent(specId);
+    }
+    if (point === 'initial') {
+      return '';
+    }
+
+    const steps = await this.replay(specId);
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(point)) {
+      const applied = steps.filter((s) => s.entry.date <= point);
+      return applied.length > 0 ? applied[applied.length - 1].content : '';
+    }
+
+    const index = steps.findIndex(
+      (s) => s.entry.changeId === point || s.entry.changeId.replace(ARCHIVE_DATE_PREFIX, '') === point
+    );
+    if (index === -1) {
+      throw new Error(`No archived change touching spec ${specId}: ${point}`);
+    }
+    return steps[index].content;
+  }
+
+  /**
+   * 对比两个时间点的规格内容
+   */
+  async diff(specId: string, from: SpecHistoryPoint, to: SpecHistoryPoint = 'current'): Promise<string> {
+    specId = ensureSafeId(specId, 'spec');
+    const before = await this.getSnapshot(specId, from);
+    const after = await this.getSnapshot(specId, to);
+    const relativePath = `openspec/specs/${specId}/spec.md`;
+    return createUnifiedDiff(before, after, {
+      oldLabel: `a/${relativePath} (${from})`,
+      newLabel: `b/${relativePath} (${to})`,
+    });
+  }
+
+  /**
+   * 按归档顺序重放所有涉及该规格的 delta
+   */
+  private async replay(specId: string): Promise<ReplayStep[]> {
+    const steps: ReplayStep[] = [];
+    let content: string | null = null;
+
+    for (const archive of await this.listArchives()) {
+      const deltaContent = await this.readOptional(path.join(archive.dir, 'specs', specId, 'spec.md'));
+      if (deltaContent === null) continue;
+
+      const deltas = this.deltaParser.parseDeltas(specId, deltaContent);
+      if (deltas.length === 0) continue;
+
+      const base = content ?? this.specMerger.createSkeleton(specId, archive.changeId.replace(ARCHIVE_DATE_PREFIX, ''));
+      const merged = this.specMerger.merge(base, deltaContent, deltas);
+      content = merged.content;
+
+      steps.push({
+        entry: {
+          changeId: archive.changeId,
+          date: archive.date,
+          added: merged.added,
+          modified: merged.modified,
+          removed: merged.removed,
+          renamed: merged.renamed,
+          errors: merged.errors,
+        },
+        content,
+      });
+    }
+
+    return steps;
+  }
+
+  /**
+   * 列出归档变更，按归档日期排序（同一天按清单中的归档时间）
+   */
+  private async listArchives(): Promise<{ changeId: string; dir: string; date: string; archivedAt: string }[]> {
+    const archiveRoot = path.join(this.getOpenSpecDir(), 'changes', 'archive');
+    let names: string[];
+    try {
+      const entries = await fs.readdir(archiveRoot, { withFileTypes: true });
+      names = entries.filter((e) => e.isDirectory() && ARCHIVE_DATE_PREFIX.test(e.name)).map((e) => e.name);
+    } catch {
+      return [];
+    }
+
+    const archives = await Promise.all(
+      names.map(async (name) => {
+        const dir = path.join(archiveRoot, name);
+        let archivedAt = '';
+        try {
+          const manifest = JSON.parse((await this.readOptional(path.join(dir, MANIFEST_FILE))) ?? '{}');
+          archivedAt = typeof manifest.archivedAt === 'string' ? manifest.archivedAt : '';
+        } catch {
+          // 清单无效时只按目录名排序
+        }
+        return { changeId: name, dir, date: name.slice(0, 10), archivedAt };
+      })
+    );
+
+    return archives.sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        a.archivedAt.localeCompare(b.archivedAt) ||
+        a.changeId.localeCompare(b.changeId)
+    );
+  }
+
+  /**
+   * 需求标题 -> 需求块文本
+   */
+  private blocks(content: string): Map<string, string> {
+    const lines = content.split('\n');
+    return new Map(
+      this.requirementParser
+        .parseRequirements(content)
+        .map((r) => [normalize(r.title), lines.slice(r.line - 1, r.endLine).join('\n')])
+    );
+  }
+
+  /**
+   * 读取当前主规格（统一换行符），不存在时返回空字符串
+   */
+  private async readCurrent(specId: string): Promise<string> {
+    const content = await this.readOptional(path.join(this.getOpenSpecDir(), 'specs', specId, 'spec.md'));
+    return (content ?? '').replace(/\r\n/g, '\n');
+  }
+
+  /**
+   * 读取文件，不存在时返回 null
+   */
+  private async readOptional(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * 需求标题匹配键（与 SpecMerger 一致：忽略大小写和首尾空白）
+ */
+function normalize(title: string): string {
+  return title.trim().toLowerCase();
+}
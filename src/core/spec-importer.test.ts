@@ -0,0 +1,173 @@
+/**
+ * SpecImporter 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SpecImporter, parseAdr } from './spec-importer.js';
+import { RequirementParser } from './requirement-parser.js';
+import { SpecValidator } from './spec-validator.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const LOGIN_FEATURE = `@auth
+Feature: User Login
+  Users sign in with their email and password.
+
+  Background:
+    Given a registered user "alice"
+
+  Scenario: Successful login
+    When she submits valid credentials
+    Then she is signed in
+    But no warning is shown
+
+  Rule: Accounts lock after repeated failures
+    Scenario Outline: Wrong password
+      When she submits a wrong password <count> times
+      Then the account is <state>
+
+      Examples:
+        | count | state    |
+        | 3     | unlocked |
+        | 5     | locked   |
+`;
+
+const ADR = `# 7. Use PostgreSQL for sessions
+
+## Status
+Accepted
+
+## Context
+Sessions are lost when the cache restarts.
+
+## Decision
+Store sessions in PostgreSQL.
+
+## Consequences
+- Session reads add a database round trip.
+`;
+
+describe('SpecImporter', () => {
+  let tempDir: string;
+  let importer: SpecImporter;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spec-importer-test-'));
+    importer = new SpecImporter({ cwd: tempDir });
+    await fs.mkdir(path.join(tempDir, 'features'), { recursive: true });
+    await fs.mkdir(path.join(tempDir, 'docs', 'adr'), { recursive: true });
+    await fs.writeFile(path.join(tempDir, 'features', 'login.feature'), LOGIN_FEATURE);
+    await fs.writeFile(path.join(tempDir, 'docs', 'adr', '0007-postgres-sessions.md'), ADR);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should preview and import a Gherkin feature as a valid spec', async () => {
+    const preview = await importer.import('features/login.feature', { preview: true });
+    expect(preview.written).toBe(false);
+    expect(preview.files.map((f) => f.path)).toEqual(['openspec/specs/user-login/spec.md']);
+    await expect(fs.access(path.join(tempDir, 'openspec'))).rejects.toThrow();
+
+    const content = preview.files[0].content;
+    expect(content).toContain('# User Login Specification');
+    expect(content).toContain('Users sign in with their email and password.');
+
+    const requirements = new RequirementParser().parseRequirements(content);
+    expect(requirements.map((r) => r.title)).toEqual(['User Login', 'Accounts lock after repeated failures']);
+    expect(requirements[0].scenarios[0]).toMatchObject({
+      name: 'Successful login',
+      given: 'a registered user "alice"',
+      when: 'she submits valid credentials',
+      then: 'she is signed in',
+      and: ['no warning is shown'],
+    });
+    expect(content).toContain('| 5 | locked |');
+
+    const result = await importer.import('features/login.feature');
+    expect(result.written).toBe(true);
+
+    const validation = await new SpecValidator({ cwd: tempDir }).validateSpec('user-login');
+    expect(validation.errors.filter((e) => e.type === 'error')).toEqual([]);
+
+    // 已存在的文件不会被覆盖
+    const again = await importer.import('features/login.feature');
+    expect(again.files[0].exists).toBe(true);
+    expect(again.warnings[0]).toContain('already exists');
+  });
+
+  it('should import a feature as an ADDED delta into a change', async () => {
+    const result = await importer.import('features', { changeId: 'import-login', specId: 'auth', preview: true });
+
+    expect(result.files.map((f) => f.path)).toEqual([
+      'openspec/changes/import-login/specs/auth/spec.md',
+      'openspec/changes/import-login/proposal.md',
+    ]);
+    expect(result.files[0].content).toMatch(/^## ADDED Requirements\n\n### Requirement: User Login/);
+  });
+
+  it('should turn an ADR into a change proposal and design skeleton', async () => {
+    expect(parseAdr(ADR)).toMatchObject({ title: 'Use PostgreSQL for sessions', status: 'Accepted' });
+
+    const result = await importer.import('docs/adr', { format: 'adr' });
+    expect(result.files.map((f) => f.path)).toEqual([
+      'openspec/changes/use-postgresql-for-sessions/proposal.md',
+      'openspec/changes/use-postgresql-for-sessions/design.md',
+      'openspec/changes/use-postgresql-for-sessions/tasks.md',
+    ]);
+
+    const proposal = await fs.readFile(
+      path.join(tempDir, 'openspec/changes/use-postgresql-for-sessions/proposal.md'),
+      'utf-8'
+    );
+    expect(proposal).toContain('> Imported from docs/adr/0007-postgres-sessions.md (status: Accepted)');
+    expect(proposal).toContain('## Why\nSessions are lost when the cache restarts.');
+    expect(proposal).toContain('## What Changes\nStore sessions in PostgreSQL.');
+    expect(proposal).toContain('## Impact\n- Session reads add a database round trip.');
+
+    const design = result.files[1].content;
+    expect(design).toContain('## Decision\nStore sessions in PostgreSQL.');
+    expect(design).not.toContain('## Status');
+  });
+
+  it('should require an explicit id for CJK titles and reject unsafe ids', async () => {
+    await fs.writeFile(path.join(tempDir, 'docs', 'adr', '0008.md'), '# 数据库选型\n\n## Decision\n使用 PostgreSQL。\n');
+    await fs.writeFile(path.join(tempDir, 'features', '登录.feature'), 'Feature: 登录\n\n  Scenario: 成功\n    Given 用户\n');
+
+    await expect(importer.import('docs/adr/0008.md')).rejects.toThrow('pass changeId explicitly');
+    await expect(importer.import('features/登录.feature')).rejects.toThrow('pass specId explicitly');
+
+    const adr = await importer.import('docs/adr/0008.md', { changeId: 'choose-database', preview: true });
+    expect(adr.files[0].path).toBe('openspec/changes/choose-database/proposal.md');
+
+    await expect(importer.import('docs/adr/0008.md', { changeId: '../../../etc-x' })).rejects.toThrow('Invalid change id');
+    await expect(importer.import('features/login.feature', { specId: '..' })).rejects.toThrow('Invalid spec id');
+    await expect(
+      importer.import('features/login.feature', { changeId: '../x', specId: 'auth' })
+    ).rejects.toThrow('Invalid change id');
+    await expect(fs.access(path.join(tempDir, 'openspec'))).rejects.toThrow();
+  });
+
+  it('should only import files inside the project when asked to', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'spec-importer-outside-'));
+    try {
+      const featurePath = path.join(outside, 'login.feature');
+      await fs.writeFile(featurePath, LOGIN_FEATURE);
+
+      await expect(importer.import(featurePath, { preview: true, insideProject: true })).rejects.toThrow(
+        'Import source must be inside the project'
+      );
+      await expect(
+        importer.import(path.relative(tempDir, featurePath), { preview: true, insideProject: true })
+      ).rejects.toThrow('Import source must be inside the project');
+
+      // CLI 可以导入项目外的绝对路径
+      const result = await importer.import(featurePath, { preview: true });
+      expect(result.files[0].path).toBe('openspec/specs/user-login/spec.md');
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,494 @@
+/**
+ * 规格导入
+ * 将已有文档转换为 OpenSpec 结构
+ *
+ * - Gherkin (.feature)：Feature -> 规格，Rule -> 需求（Rule 之外的场景归入以 Feature 命名的需求），
+ *   Scenario / Scenario Outline -> `#### Scenario:`，Given/When/Then/And/But -> GIVEN/WHEN/THEN/AND 子句
+ * - ADR (.md)：Context -> proposal 的 Why，Decision -> What Changes，Consequences -> Impact，
+ *   完整的决策记录写入 design.md
+ *
+ * 预览模式只返回将要生成的文件，不写入磁盘；已存在的文件不会被覆盖
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ensureSafeId } from '../utils/ids.js';
+import type { ScenarioKeyword } from '../types/openspec.js';
+
+export type ImportFormat = 'gherkin' | 'adr';
+
+export interface SpecImporterOptions {
+  cwd?: string;
+}
+
+export interface ImportOptions {
+  format?: ImportFormat;       // 默认按扩展名识别：.feature -> gherkin，.md -> adr
+  specId?: string;             // Gherkin：目标规格 ID（仅单个文件）
+  changeId?: string;           // Gherkin：写入该变更的 delta spec；ADR：变更 ID（仅单个文件）
+  preview?: boolean;
+  insideProject?: boolean;     // 只允许导入项目内的文件（MCP 工具使用；CLI 可传绝对路径）
+}
+
+/**
+ * 生成的文件
+ */
+export interface ImportedFile {
+  path: string;                // 相对项目根目录
+  content: string;
+  source: string;              // 来源文件（相对项目根目录）
+  exists: boolean;             // 目标文件已存在（不会被写入）
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  files: ImportedFile[];
+  written: boolean;
+  warnings: string[];
+}
+
+export interface GherkinStep {
+  keyword: ScenarioKeyword;
+  text: string;
+  table: string[][];           // 步骤数据表
+  docString?: string;
+}
+
+export interface GherkinScenario {
+  name: string;
+  steps: GherkinStep[];
+  examples: string[][];        // Scenario Outline 的 Examples 表（含表头）
+}
+
+export interface GherkinRule {
+  name: string;
+  description: string;
+  scenarios: GherkinScenario[];
+}
+
+export interface GherkinFeature {
+  name: string;
+  description: string;
+  background: GherkinStep[];
+  scenarios: GherkinScenario[]; // Rule 之外的场景
+  rules: GherkinRule[];
+}
+
+export interface AdrDocument {
+  title: string;
+  status?: string;
+  sections: { heading: string; body: string }[];
+}
+
+const STEP_KEYWORDS: Record<string, ScenarioKeyword> = {
+  given: 'GIVEN',
+  when: 'WHEN',
+  then: 'THEN',
+  and: 'AND',
+  but: 'AND',
+  '*': 'AND',
+};
+
+/**
+ * 解析 Gherkin feature 文件（英文关键字）
+ */
+export function parseGherkin(content: string): GherkinFeature {
+  const feature: GherkinFeature = { name: '', description: '', background: [], scenarios: [], rules: [] };
+  let rule: GherkinRule | null = null;
+  let scenario: GherkinScenario | null = null;
+  let steps: GherkinStep[] | null = null;
+  let description: string[] | null = null;
+  let inExamples = false;
+  let docString: string[] | null = null;
+
+  const flushDescription = () => {
+    const text = (description || []).join('\n').trim();
+    if (rule && !rule.scenarios.length && !rule.description) rule.description = text;
+    else if (!rule && !feature.description) feature.description = text;
+    description = null;
+  };
+
+  for (const raw of content.replace(/\r\n/g, '\n').split('\n')) {
+    const line = raw.trim();
+
+    if (docString) {
+      if (line === '"""' || line === '```') {
+        steps![steps!.length - 1].docString = docString.join('\n');
+        docString = null;
+      } else {
+        docString.push(line);
+      }
+      continue;
+    }
+    if (!line || line.startsWith('#') || line.startsWith('@')) continue;
+
+    const keyword = line.match(/^(Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/);
+    if (keyword) {
+      const [, name, title] = keyword;
+      if (description) flushDescription();
+      inExamples = false;
+
+      if (name === 'Feature') {
+        feature.name = title;
+        description = [];
+      } else if (name === 'Rule') {
+        rule = { name: title, description: '', scenarios: [] };
+        feature.rules.push(rule);
+        scenario = null;
+        steps = null;
+        description = [];
+      } else if (name === 'Background') {
+        scenario = null;
+        steps = feature.background;
+      } else if (name === 'Examples' || name === 'Scenarios') {
+        inExamples = true;
+      } else {
+        scenario = { name: title, steps: [], examples: [] };
+        (rule ? rule.scenarios : feature.scenarios).push(scenario);
+        steps = scenario.steps;
+      }
+      continue;
+    }
+
+    if (line.startsWith('"""') || line.startsWith('```')) {
+      if (steps && steps.length > 0) docString = [];
+      continue;
+    }
+
+    if (line.startsWith('|')) {
+      const cells = line.replace(/^\||\|$/g, '').split('|').map((c) => c.trim());
+      if (inExamples && scenario) scenario.examples.push(cells);
+      else if (steps && steps.length > 0) steps[steps.length - 1].table.push(cells);
+      continue;
+    }
+
+    const step = line.match(/^(Given|When|Then|And|But|\*)\s+(.+)$/i);
+    if (step && steps) {
+      steps.push({ keyword: STEP_KEYWORDS[step[1].toLowerCase()], text: step[2], table: [] });
+      continue;
+    }
+
+    if (description) description.push(line);
+  }
+
+  if (description) flushDescription();
+  return feature;
+}
+
+/**
+ * 解析 ADR（Nygard / MADR 风格）
+ */
+export function parseAdr(content: string): AdrDocument {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const sections: AdrDocument['sections'] = [];
+  let title = '';
+  let current: { heading: string; lines: string[] } | null = null;
+  let inFence = false;
+
+  const flush = () => {
+    if (current) sections.push({ heading: current.heading, body: current.lines.join('\n').trim() });
+  };
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = !inFence && line.match(/^(#{1,2})\s+(.+?)\s*$/);
+    if (heading && heading[1] === '#' && !title) {
+      title = heading[2];
+      continue;
+    }
+    if (heading && heading[1] === '##') {
+      flush();
+      current = { heading: heading[2], lines: [] };
+      continue;
+    }
+    current?.lines.push(line);
+  }
+  flush();
+
+  // 去掉编号前缀：# 3. Use PostgreSQL / # ADR-003: Use PostgreSQL
+  title = title.replace(/^(ADR[-\s]?)?\d+[.:]?\s*[-:]?\s*/i, '').trim();
+
+  const statusSection = sections.find((s) => /^status$/i.test(s.heading));
+  const inlineStatus = content.match(/^\s*(?:\*\*)?status(?:\*\*)?:\s*(.+)$/im);
+  const status = statusSection?.body.split('\n')[0].trim() || inlineStatus?.[1].trim();
+
+  return { title, ...(status ? { status } : {}), sections };
+}
+
+/**
+ * 转换为 kebab-case ID
+ */
+export function toKebabId(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .split('-')
+    .slice(0, 6)
+    .join('-');
+}
+
+export class SpecImporter {
+  private cwd: string;
+
+  constructor(options?: SpecImporterOptions) {
+    this.cwd = options?.cwd || process.cwd();
+  }
+
+  /**
+   * 获取 openspec 目录路径
+   */
+  private getOpenSpecDir(): string {
+    return path.join(this.cwd, 'openspec');
+  }
+
+  /**
+   * 转换为相对项目根目录的路径
+   */
+  private relative(filePath: string): string {
+    return path.relative(this.cwd, filePath).split(path.sep).join('/');
+  }
+
+  /**
+   * 导入文件或目录（目录中所有匹配格式的文件，不递归）
+   */
+  async import(source: string, options: ImportOptions = {}): Promise<ImportResult> {
+    const sourcePath = path.resolve(this.cwd, source);
+    if (options.insideProject && path.relative(this.cwd, sourcePath).startsWith('..')) {
+      throw new Error(`Import source must be inside the project: ${source}`);
+    }
+    const stat = await fs.stat(sourcePath).catch(() => null);
+    if (!stat) {
+      throw new Error(`Source not found: ${source}`);
+    }
+
+    const format = options.format || (sourcePath.endsWith('.md') ? 'adr' : 'gherkin');
+    if (format !== 'gherkin' && format !== 'adr') {
+      throw new Error(`Unsupported import format: ${format} (use gherkin or adr)`);
+    }
+    const extension = format === 'gherkin' ? '.feature' : '.md';
+    const sources = stat.isDirectory()
+      ? (await fs.readdir(sourcePath)).filter((f) => f.endsWith(extension)).sort().map((f) => path.join(sourcePath, f))
+      : [sourcePath];
+
+    if (sources.length === 0) {
+      throw new Error(`No ${extension} files found in ${source}`);
+    }
+    if (sources.length > 1 && (options.specId || (format === 'adr' && options.changeId))) {
+      throw new Error(`${format === 'adr' ? 'changeId' : 'specId'} can only be used when importing a single file`);
+    }
+
+    const warnings: string[] = [];
+    const files: ImportedFile[] = [];
+    for (const file of sources) {
+      const content = await fs.readFile(file, 'utf-8');
+      const generated =
+        format === 'gherkin'
+          ? await this.fromGherkin(parseGherkin(content), file, options, warnings)
+          : this.fromAdr(parseAdr(content), file, options, warnings);
+
+      for (const [target, text] of generated) {
+        const relativeTarget = this.relative(target);
+        if (files.some((f) => f.path === relativeTarget)) {
+          warnings.push(`${this.relative(file)}: ${relativeTarget} is generated by another source file, skipped`);
+          continue;
+        }
+        const exists = await fs.access(target).then(() => true, () => false);
+        if (exists) {
+          warnings.push(`${relativeTarget} already exists and will not be overwritten`);
+        }
+        files.push({ path: relativeTarget, content: text, source: this.relative(file), exists });
+      }
+    }
+
+    if (options.preview) {
+      return { format, files, written: false, warnings };
+    }
+
+    for (const file of files.filter((f) => !f.exists)) {
+      const target = path.join(this.cwd, file.path);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, file.content, 'utf-8');
+    }
+
+    return { format, files, written: true, warnings };
+  }
+
+  /**
+   * Gherkin -> 规格（或变更中的 ADDED delta）
+   */
+  private async fromGherkin(
+    feature: GherkinFeature,
+    file: string,
+    options: ImportOptions,
+    warnings: string[]
+  ): Promise<[string, string][]> {
+    const source = this.relative(file);
+    const specId = resolveId(options.specId, [feature.name, path.basename(file, '.feature')], 'spec', source);
+    if (!feature.name) {
+      warnings.push(`${source}: no "Feature:" found, using file name`);
+    }
+
+    const requirements: string[] = [];
+    if (feature.scenarios.length > 0) {
+      requirements.push(this.renderRequirement(feature.name || specId, '', feature.scenarios, feature.background));
+    }
+    for (const rule of feature.rules) {
+      requirements.push(this.renderRequirement(rule.name, rule.description, rule.scenarios, feature.background));
+    }
+    if (requirements.length === 0) {
+      warnings.push(`${source}: no scenarios found`);
+    }
+
+    if (options.changeId) {
+      const changeDir = path.join(this.getOpenSpecDir(), 'changes', ensureSafeId(options.changeId, 'change'));
+      const files: [string, string][] = [
+        [path.join(changeDir, 'specs', specId, 'spec.md'), `## ADDED Requirements\n\n${requirements.join('\n')}`],
+      ];
+
+      // 新变更补一个 proposal 骨架
+      const proposalPath = path.join(changeDir, 'proposal.md');
+      if (!(await fs.access(proposalPath).then(() => true, () => false))) {
+        files.push([
+          proposalPath,
+          [
+            `# Change: Import ${feature.name || specId}`,
+            '',
+            '## Why',
+            `Existing behavior is documented in ${source}.`,
+            '',
+            '## What Changes',
+            `- Add the \`${specId}\` spec from the imported feature file`,
+            '',
+          ].join('\n'),
+        ]);
+      }
+      return files;
+    }
+
+    const spec = [
+      `# ${feature.name || specId} Specification`,
+      '',
+      '## Purpose',
+      feature.description || `Imported from ${source}.`,
+      '',
+      '## Requirements',
+      '',
+      requirements.join('\n'),
+    ].join('\n');
+
+    return [[path.join(this.getOpenSpecDir(), 'specs', specId, 'spec.md'), `${spec.trimEnd()}\n`]];
+  }
+
+  /**
+   * 渲染单个需求（Background 步骤加到每个场景前）
+   */
+  private renderRequirement(
+    name: string,
+    description: string,
+    scenarios: GherkinScenario[],
+    background: GherkinStep[]
+  ): string {
+    const statement = /\b(SHALL|MUST)\b/.test(description)
+      ? description
+      : [`The system SHALL support: ${name}.`, description].filter(Boolean).join('\n\n');
+    const lines = [`### Requirement: ${name}`, statement, ''];
+
+    for (const scenario of scenarios) {
+      lines.push(`#### Scenario: ${scenario.name}`);
+      for (const step of [...background, ...scenario.steps]) {
+        lines.push(`- **${step.keyword}** ${step.text}`);
+        if (step.table.length > 0) lines.push(...this.renderTable(step.table));
+        if (step.docString !== undefined) lines.push('```', step.docString, '```');
+      }
+      if (scenario.examples.length > 0) {
+        lines.push('', 'Examples:', '', ...this.renderTable(scenario.examples));
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 渲染 Markdown 表格（首行为表头）
+   */
+  private renderTable(rows: string[][]): string[] {
+    const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+    return [row(rows[0]), row(rows[0].map(() => '---')), ...rows.slice(1).map(row)];
+  }
+
+  /**
+   * ADR -> 变更的 proposal / design / tasks 骨架
+   */
+  private fromAdr(adr: AdrDocument, file: string, options: ImportOptions, warnings: string[]): [string, string][] {
+    const source = this.relative(file);
+    const title = adr.title || path.basename(file, '.md');
+    const changeId = resolveId(options.changeId, [title], 'change', source);
+    if (!adr.title) {
+      warnings.push(`${source}: no title found, using file name`);
+    }
+
+    const section = (...patterns: RegExp[]) =>
+      adr.sections
+        .filter((s) => patterns.some((p) => p.test(s.heading)))
+        .map((s) => s.body)
+        .filter(Boolean)
+        .join('\n\n');
+
+    const context = section(/^context/i, /problem statement/i);
+    const decision = section(/^decision/i);
+    const consequences = section(/consequences/i);
+    if (!decision) {
+      warnings.push(`${source}: no "Decision" section found`);
+    }
+
+    const proposal = [
+      `# Change: ${title}`,
+      '',
+      `> Imported from ${source}${adr.status ? ` (status: ${adr.status})` : ''}`,
+      '',
+      '## Why',
+      context || 'TBD',
+      '',
+      '## What Changes',
+      decision || 'TBD',
+      '',
+      '## Impact',
+      consequences || 'TBD',
+      '',
+    ].join('\n');
+
+    const design = [
+      `# Design: ${title}`,
+      '',
+      ...adr.sections
+        .filter((s) => !/^status$/i.test(s.heading))
+        .flatMap((s) => [`## ${s.heading}`, s.body, '']),
+      ...(adr.sections.length > 0 ? [] : ['## Decision', 'TBD', '']),
+    ].join('\n');
+
+    const tasks = ['## 1. Implementation', `- [ ] 1.1 Implement: ${title}`, '- [ ] 1.2 Add spec deltas for affected capabilities', ''].join('\n');
+
+    const changeDir = path.join(this.getOpenSpecDir(), 'changes', changeId);
+    return [
+      [path.join(changeDir, 'proposal.md'), proposal],
+      [path.join(changeDir, 'design.md'), design],
+      [path.join(changeDir, 'tasks.md'), tasks],
+    ];
+  }
+}
+
+/**
+ * 显式传入的 ID 或由标题推导的第一个可用 ID，统一做安全校验；
+ * 标题推导不出 ID（如纯中文标题）时要求显式指定
+ */
+function resolveId(supplied: string | undefined, titles: string[], type: 'change' | 'spec', source: string): string {
+  if (supplied !== undefined) {
+    return ensureSafeId(supplied, type);
+  }
+  const derived = titles.map(toKebabId).find(Boolean);
+  if (!derived) {
+    throw new Error(`${source}: cannot derive a ${type} id from "${titles.find(Boolean) || source}", pass ${type}Id explicitly`);
+  }
+  return ensureSafeId(derived, type);
+}
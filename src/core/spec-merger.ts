@@ -0,0 +1,345 @@
+/**
+ * Spec 合并器
+ * 将变更中的 delta 应用到主规格 openspec/specs/<capability>/spec.md
+ *
+ * 应用顺序与 OpenSpec 一致：RENAMED → REMOVED → MODIFIED → ADDED
+ * 需求按标题匹配（忽略大小写和首尾空白）
+ */
+
+import type { Delta, DeltaOperation, Requirement } from '../types/openspec.js';
+import { RequirementParser, splitRequirementTitle } from './requirement-parser.js';
+
+/**
+ * 已应用的需求级操作，记录前后的需求块文本以便回滚
+ */
+export interface AppliedOperation {
+  operation: DeltaOperation;
+  title: string;               // RENAMED 时为新标题
+  from?: string;               // 仅 RENAMED
+  before?: string;             // MODIFIED / REMOVED 前的需求块
+  after?: string;              // ADDED / MODIFIED 后的需求块
+  previous?: string | null;    // 仅 REMOVED：前一个需求的标题，null 表示位于首位
+}
+
+export interface SpecMergeResult {
+  content: string;
+  added: string[];
+  modified: string[];
+  removed: string[];
+  renamed: { from: string; to: string }[];
+  applied: AppliedOperation[];
+  errors: string[];            // 冲突（找不到需求、重复添加等），非空时不应写入
+}
+
+export interface SpecRevertResult {
+  content: string;
+  reverted: string[];          // 已回滚的操作描述
+  skipped: string[];           // 因内容已变化等原因无法安全回滚的操作
+}
+
+const APPLY_ORDER: DeltaOperation[] = ['RENAMED', 'REMOVED', 'MODIFIED', 'ADDED'];
+
+export class SpecMerger {
+  private requirementParser: RequirementParser;
+
+  constructor() {
+    this.requirementParser = new RequirementParser();
+  }
+
+  /**
+   * 为尚不存在的规格生成骨架
+   */
+  createSkeleton(specName: string, changeId: string): string {
+    return [
+      `# ${specName} Specification`,
+      '',
+      '## Purpose',
+      `TBD - created by archiving change ${changeId}. Update Purpose after archive.`,
+      '',
+      '## Requirements',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * 应用 delta
+   *
+   * deltaContent 为 delta spec 原文，用于截取需求块的完整文本
+   */
+  merge(baseContent: string, deltaContent: string, deltas: Delta[]): SpecMergeResult {
+    const lines = baseContent.replace(/\r\n/g, '\n').split('\n');
+    const deltaLines = deltaContent.replace(/\r\n/g, '\n').split('\n');
+    const result: SpecMergeResult = {
+      content: '',
+      added: [],
+      modified: [],
+      removed: [],
+      renamed: [],
+      applied: [],
+      errors: [],
+    };
+
+    const ordered = [...deltas].sort(
+      (a, b) => APPLY_ORDER.indexOf(a.operation) - APPLY_ORDER.indexOf(b.operation)
+    );
+
+    for (const delta of ordered) {
+      if (delta.operation === 'RENAMED') {
+        for (const rename of delta.renames || []) {
+          const block = this.find(lines, rename.from);
+          if (!block) {
+            result.errors.push(`RENAMED: requirement not found: ${rename.from}`);
+          } else if (this.find(lines, rename.to)) {
+            result.errors.push(`RENAMED: requirement already exists: ${rename.to}`);
+          } else {
+            lines[block.line - 1] = this.renameHeading(lines[block.line - 1], rename.to);
+            result.renamed.push({ from: rename.from, to: rename.to });
+            result.applied.push({ operation: 'RENAMED', title: rename.to, from: block.title });
+          }
+        }
+        continue;
+      }
+
+      for (const requirement of delta.requirements) {
+        const existing = this.find(lines, requirement.title);
+        let blockLines = deltaLines.slice(requirement.line - 1, requirement.endLine);
+
+        switch (delta.operation) {
+          case 'REMOVED':
+            if (!existing) {
+              result.errors.push(`REMOVED: requirement not found: ${requirement.title}`);
+              break;
+            }
+            result.applied.push({
+              operation: 'REMOVED',
+              title: existing.title,
+              before: this.blockText(lines, existing),
+              previous: this.previousTitle(lines, existing),
+            });
+            this.removeBlock(lines, existing);
+            result.removed.push(existing.title);
+            break;
+
+          case 'MODIFIED':
+            if (!existing) {
+              result.errors.push(`MODIFIED: requirement not found: ${requirement.title}`);
+              break;
+            }
+            blockLines = this.keepAnchor(lines[existing.line - 1], requirement, blockLines);
+            result.applied.push({
+              operation: 'MODIFIED',
+              title: requirement.title,
+              before: this.blockText(lines, existing),
+              after: blockLines.join('\n'),
+            });
+            lines.splice(existing.line - 1, existing.endLine - existing.line + 1, ...blockLines);
+            result.modified.push(requirement.title);
+            break;
+
+          case 'ADDED':
+            if (existing) {
+              result.errors.push(`ADDED: requirement already exists: ${requirement.title}`);
+              break;
+            }
+            if (requirement.anchor && this.findByAnchor(lines, requirement.anchor)) {
+              result.errors.push(`ADDED: requirement id already in use: ${requirement.anchor}`);
+              break;
+            }
+            this.appendBlock(lines, blockLines);
+            result.added.push(requirement.title);
+            result.applied.push({ operation: 'ADDED', title: requirement.title, after: blockLines.join('\n') });
+            break;
+        }
+      }
+    }
+
+    result.content = lines.join('\n').replace(/\n*$/, '\n');
+    return result;
+  }
+
+  /**
+   * 统计需求数量
+   */
+  countRequirements(content: string): number {
+    return this.requirementParser.countRequirements(content);
+  }
+
+  /**
+   * 回滚已应用的操作（逆序）
+   *
+   * 只有当前需求块与归档时写入的内容一致时才回滚，避免覆盖归档后的人工修改
+   */
+  revert(content: string, applied: AppliedOperation[]): SpecRevertResult {
+    const lines = content.replace(/\r\n/g, '\n').split('\n');
+    const result: SpecRevertResult = { content: '', reverted: [], skipped: [] };
+
+    for (const op of [...applied].reverse()) {
+      const current = this.find(lines, op.title);
+
+      switch (op.operation) {
+        case 'ADDED':
+          if (!current) {
+            result.skipped.push(`ADDED ${op.title}: requirement no longer exists`);
+          } else if (op.after === undefined || this.blockText(lines, current) !== op.after) {
+            result.skipped.push(`ADDED ${op.title}: requirement was edited after archive`);
+          } else {
+            this.removeBlock(lines, current);
+            result.reverted.push(`ADDED ${op.title}`);
+          }
+          break;
+
+        case 'MODIFIED':
+          if (!current || op.before === undefined) {
+            result.skipped.push(`MODIFIED ${op.title}: previous content unavailable`);
+          } else if (this.blockText(lines, current) !== op.after) {
+            result.skipped.push(`MODIFIED ${op.title}: requirement was edited after archive`);
+          } else {
+            lines.splice(current.line - 1, current.endLine - current.line + 1, ...op.before.split('\n'));
+            result.reverted.push(`MODIFIED ${op.title}`);
+          }
+          break;
+
+        case 'REMOVED':
+          if (current) {
+            result.skipped.push(`REMOVED ${op.title}: requirement exists again`);
+          } else if (op.before === undefined) {
+            result.skipped.push(`REMOVED ${op.title}: previous content unavailable`);
+          } else {
+            this.insertBlock(lines, op.before.split('\n'), op.previous);
+            result.reverted.push(`REMOVED ${op.title}`);
+          }
+          break;
+
+        case 'RENAMED':
+          if (!current || !op.from) {
+            result.skipped.push(`RENAMED ${op.title}: requirement no longer exists`);
+          } else if (this.find(lines, op.from)) {
+            result.skipped.push(`RENAMED ${op.title}: ${op.from} already exists`);
+          } else {
+            lines[current.line - 1] = this.renameHeading(lines[current.line - 1], op.from);
+            result.reverted.push(`RENAMED ${op.from} → ${op.title}`);
+          }
+          break;
+      }
+    }
+
+    result.content = lines.join('\n').replace(/\n*$/, '\n');
+    return result;
+  }
+
+  /**
+   * 生成重命名后的需求标题行，保留标题中的稳定 ID
+   */
+  private renameHeading(heading: string, title: string): string {
+    const { anchor } = splitRequirementTitle(heading);
+    return `### Requirement: ${title}${anchor ? ` {#${anchor}}` : ''}`;
+  }
+
+  /**
+   * delta 标题没有写稳定 ID 时沿用主规格标题中的 ID
+   */
+  private keepAnchor(heading: string, requirement: Requirement, blockLines: string[]): string[] {
+    if (requirement.anchor || !splitRequirementTitle(heading).anchor) {
+      return blockLines;
+    }
+    return [this.renameHeading(heading, requirement.title), ...blockLines.slice(1)];
+  }
+
+  /**
+   * 获取需求块文本（标题到最后一行有效内容）
+   */
+  private blockText(lines: string[], block: Requirement): string {
+    return lines.slice(block.line - 1, block.endLine).join('\n');
+  }
+
+  /**
+   * 获取前一个需求的标题
+   */
+  private previousTitle(lines: string[], block: Requirement): string | null {
+    const requirements = this.requirementParser.parseRequirements(lines.join('\n'));
+    const index = requirements.findIndex((r) => r.line === block.line);
+    return index > 0 ? requirements[index - 1].title : null;
+  }
+
+  /**
+   * 在原位置重新插入需求块：previous 之后，或首个需求之前；找不到位置时追加到末尾
+   */
+  private insertBlock(lines: string[], blockLines: string[], previous?: string | null): void {
+    if (previous) {
+      const anchor = this.find(lines, previous);
+      if (anchor) {
+        lines.splice(anchor.endLine, 0, '', ...blockLines);
+        return;
+      }
+    } else if (previous === null) {
+      const [first] = this.requirementParser.parseRequirements(lines.join('\n'));
+      if (first) {
+        lines.splice(first.line - 1, 0, ...blockLines, '');
+        return;
+      }
+    }
+
+    this.appendBlock(lines, blockLines);
+  }
+
+  /**
+   * 按标题查找需求块
+   */
+  private find(lines: string[], title: string): Requirement | undefined {
+    const normalized = title.trim().toLowerCase();
+    return this.requirementParser
+      .parseRequirements(lines.join('\n'))
+      .find((r) => r.title.trim().toLowerCase() === normalized);
+  }
+
+  /**
+   * 按稳定 ID 查找需求块
+   */
+  private findByAnchor(lines: string[], anchor: string): Requirement | undefined {
+    return this.requirementParser.parseRequirements(lines.join('\n')).find((r) => r.anchor === anchor);
+  }
+
+  /**
+   * 删除需求块及其后的空行
+   */
+  private removeBlock(lines: string[], block: Requirement): void {
+    let end = block.endLine;
+    while (end < lines.length && lines[end].trim() === '') end++;
+    lines.splice(block.line - 1, end - block.line + 1);
+  }
+
+  /**
+   * 追加到 `## Requirements` 章节末尾，没有该章节时在文末新建
+   */
+  private appendBlock(lines: string[], blockLines: string[]): void {
+    let sectionStart = -1;
+    let sectionEnd = lines.length;
+    let inFence = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (/^\s*(```|~~~)/.test(lines[i])) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence) continue;
+      if (sectionStart < 0 && /^##\s+Requirements\s*$/.test(lines[i])) {
+        sectionStart = i;
+      } else if (sectionStart >= 0 && /^#{1,2}\s/.test(lines[i])) {
+        sectionEnd = i;
+        break;
+      }
+    }
+
+    if (sectionStart < 0) {
+      while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+      lines.push('', '## Requirements', '', ...blockLines, '');
+      return;
+    }
+
+    let insertAt = sectionEnd;
+    while (insertAt > sectionStart + 1 && lines[insertAt - 1].trim() === '') insertAt--;
+    const insertion = ['', ...blockLines];
+    if (insertAt < lines.length && lines[insertAt].trim() !== '') insertion.push('');
+    lines.splice(insertAt, 0, ...insertion);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * SpecParser 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SpecParser } from './spec-parser.js';
+import { SpecValidator } from './spec-validator.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('SpecParser', () => {
+  let tempDir: string;
+  let parser: SpecParser;
+
+  async function writeSpec(specId: string, content: string): Promise<void> {
+    const specDir = path.join(tempDir, 'openspec', 'specs', specId);
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.writeFile(path.join(specDir, 'spec.md'), content);
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spec-parser-test-'));
+    parser = new SpecParser({ cwd: tempDir });
+
+    await writeSpec('auth-core', '# Auth Core\n');
+    await writeSpec('user-profile', '---\ndependsOn: [auth-core]\n---\n# User Profile\n');
+    await writeSpec('billing', '# Billing\n<!-- @depends-on: user-profile, payment-gateway -->\n');
+    await writeSpec('reports', '# Reports\n<!-- @requires: billing -->\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read hyphenated ids from comments and frontmatter', async () => {
+    expect(await parser.parseDependencies('user-profile')).toEqual(['auth-core']);
+    expect(await parser.parseDependencies('billing')).toEqual(['user-profile', 'payment-gateway']);
+
+    const graph = await parser.buildDependencyGraph();
+    expect(graph.missing).toEqual([{ from: 'billing', to: 'payment-gateway' }]);
+    expect(graph.cycles).toEqual([]);
+
+    const mermaid = await parser.toMermaid();
+    expect(mermaid).toContain('n3["User Profile"]');
+    expect(mermaid).toContain('n3 --> n0');
+    expect(mermaid).toContain('n1 -.-> n4');
+  });
+
+  it('should resolve dependency chains and reverse dependencies', async () => {
+    expect(await parser.getDependencyChain('reports')).toEqual(['billing', 'user-profile', 'payment-gateway', 'auth-core']);
+    expect(await parser.getDependents('auth-core')).toEqual(['user-profile']);
+    expect(await parser.getDependents('auth-core', { transitive: true })).toEqual(['user-profile', 'billing', 'reports']);
+  });
+
+  it('should report cycles instead of swallowing them', async () => {
+    await writeSpec('auth-core', '---\ndependsOn: reports\n---\n# Auth Core\n');
+
+    const graph = await parser.buildDependencyGraph();
+    expect(graph.cycles).toEqual([['auth-core', 'reports', 'billing', 'user-profile']]);
+    expect(await parser.toMermaid()).toContain('class n0,n2,n1,n3 cycle');
+    // 依赖链仍然可以终止，且不包含自身
+    expect(await parser.getDependencyChain('reports')).not.toContain('reports');
+
+    const result = await new SpecValidator({ cwd: tempDir }).validateSpec('billing');
+    expect(result.errors.map((e) => [e.rule, e.line])).toEqual(
+      expect.arrayContaining([
+        ['spec.dependsOn.missing', 2],
+        ['spec.dependsOn.cycle', undefined],
+      ])
+    );
+  });
+
+  it('should analyze the transitive impact of a change', async () => {
+    const deltaDir = path.join(tempDir, 'openspec', 'changes', 'harden-auth', 'specs', 'auth-core');
+    await fs.mkdir(deltaDir, { recursive: true });
+    await fs.writeFile(path.join(deltaDir, 'spec.md'), '## MODIFIED Requirements\n');
+
+    expect(await parser.analyzeChangeImpact('harden-auth')).toEqual({
+      changeId: 'harden-auth',
+      touched: ['auth-core'],
+      impacted: [
+        { specId: 'user-profile', path: ['auth-core', 'user-profile'] },
+        { specId: 'billing', path: ['auth-core', 'user-profile', 'billing'] },
+        { specId: 'reports', path: ['auth-core', 'user-profile', 'billing', 'reports'] },
+      ],
+    });
+    await expect(parser.analyzeChangeImpact('missing')).rejects.toThrow('Change not found');
+    await expect(parser.analyzeChangeImpact('../..')).rejects.toThrow('Invalid change id');
+    await expect(parser.analyzeChangeImpact('archive')).rejects.toThrow('Invalid change id');
+    await expect(parser.toImpactGraph('../specs')).rejects.toThrow('Invalid change id');
+  });
+});
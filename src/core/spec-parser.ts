@@ -1,10 +1,24 @@
 /**
  * Spec 依赖解析器
  * 解析 Spec 之间的依赖关系并生成可视化图表
+ *
+ * 依赖来源：
+ * - frontmatter: dependsOn: [auth, user-profile]
+ * - 注释: <!-- @depends-on: auth, user-profile --> / <!-- @requires: auth -->
+ *
+ * 依赖图会报告不存在的依赖目标和循环依赖，并支持反向查询（谁依赖某个 Spec）
+ * 依赖图和变更影响图可通过 graph-exporters 导出为多种格式
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import matter from 'gray-matter';
+import { findCycles } from '../utils/graph.js';
+import { ensureSafeId } from '../utils/ids.js';
+import { assignClusters, exportGraph, nodeKeys } from './graph-exporters.js';
+import type { ExportableGraph, GraphEdge, GraphNode, SpecStatus } from './graph-exporters.js';
+
+const DEPENDENCY_COMMENT = /<!--\s*@(?:depends-on|requires):\s*([\s\S]*?)\s*-->/gi;
 
 export interface SpecNode {
   id: string;
@@ -12,13 +26,27 @@ export interface SpecNode {
 }
 
 export interface SpecEdge {
-  from: string;
-  to: string;
+  from: string;                // 依赖方
+  to: string;                  // 被依赖方
 }
 
 export interface DependencyGraph {
   nodes: SpecNode[];
   edges: SpecEdge[];
+  missing: SpecEdge[];         // 指向不存在 Spec 的依赖
+  cycles: string[][];
+}
+
+/**
+ * 变更影响分析结果
+ */
+export interface ChangeImpact {
+  changeId: string;
+  touched: string[];           // 变更直接修改的 Spec（delta spec）
+  impacted: {
+    specId: string;
+    path: string[];            // 从被修改的 Spec 到该 Spec 的依赖路径
+  }[];
 }
 
 export class SpecParser {
@@ -37,34 +65,33 @@ export class SpecParser {
 
   /**
    * 解析单个 Spec 的依赖
-   * 
+   *
    * 支持的格式：
+   * dependsOn: [spec-a, spec-b]（frontmatter）
    * <!-- @depends-on: spec-a, spec-b -->
    * <!-- @requires: spec-c -->
    */
   async parseDependencies(specId: string): Promise<string[]> {
     const specPath = path.join(this.getSpecsDir(), specId, 'spec.md');
-    
+
     try {
       const content = await fs.readFile(specPath, 'utf-8');
       const dependencies: string[] = [];
 
+      try {
+        const { dependsOn } = matter(content).data;
+        const items = Array.isArray(dependsOn) ? dependsOn : typeof dependsOn === 'string' ? dependsOn.split(',') : [];
+        dependencies.push(...items.map((d) => String(d).trim()));
+      } catch {
+        // frontmatter 无效时只读取注释
+      }
+
       // 匹配 @depends-on 或 @requires 注释
-      const dependsMatch = content.match(/<!--\s*@(?:depends-on|requires):\s*([^-]+)\s*-->/gi);
-      
-      if (dependsMatch) {
-        for (const match of dependsMatch) {
-          const deps = match
-            .replace(/<!--\s*@(?:depends-on|requires):\s*/i, '')
-            .replace(/\s*-->/, '')
-            .split(',')
-            .map((d) => d.trim())
-            .filter((d) => d.length > 0);
-          dependencies.push(...deps);
-        }
+      for (const match of content.matchAll(DEPENDENCY_COMMENT)) {
+        dependencies.push(...match[1].split(',').map((d) => d.trim()));
       }
 
-      return [...new Set(dependencies)]; // 去重
+      return [...new Set(dependencies.filter((d) => d.length > 0 && d !== specId))]; // 去重
     } catch {
       return [];
     }
@@ -75,7 +102,7 @@ export class SpecParser {
    */
   async getSpecTitle(specId: string): Promise<string> {
     const specPath = path.join(this.getSpecsDir(), specId, 'spec.md');
-    
+
     try {
       const content = await fs.readFile(specPath, 'utf-8');
       const titleMatch = content.match(/^#\s+(.+)/m);
@@ -91,77 +118,256 @@ export class SpecParser {
   async buildDependencyGraph(): Promise<DependencyGraph> {
     const nodes: SpecNode[] = [];
     const edges: SpecEdge[] = [];
-    const specsDir = this.getSpecsDir();
-
-    try {
-      const entries = await fs.readdir(specsDir, { withFileTypes: true });
 
-      for (const entry of entries) {
-        if (!entry.isDirectory()) continue;
+    for (const specId of await this.listSpecs()) {
+      const title = await this.getSpecTitle(specId);
+      nodes.push({ id: specId, title });
 
-        const specId = entry.name;
-        const title = await this.getSpecTitle(specId);
-        nodes.push({ id: specId, title });
-
-        // 解析依赖
-        const dependencies = await this.parseDependencies(specId);
-        for (const dep of dependencies) {
-          edges.push({ from: specId, to: dep });
-        }
+      // 解析依赖
+      const dependencies = await this.parseDependencies(specId);
+      for (const dep of dependencies) {
+        edges.push({ from: specId, to: dep });
       }
-    } catch {
-      // specs 目录不存在
     }
 
-    return { nodes, edges };
+    const ids = new Set(nodes.map((n) => n.id));
+    const successors = new Map<string, string[]>(nodes.map((n) => [n.id, []]));
+    for (const edge of edges) {
+      successors.get(edge.from)!.push(edge.to);
+    }
+
+    return {
+      nodes,
+      edges,
+      missing: edges.filter((e) => !ids.has(e.to)),
+      cycles: findCycles(successors),
+    };
   }
 
   /**
    * 生成 Mermaid 格式的依赖图
    */
   async toMermaid(): Promise<string> {
-    const graph = await this.buildDependencyGraph();
+    const graph = await this.toExportGraph();
 
     if (graph.nodes.length === 0) {
       return 'graph LR\n  NoSpecs[No specs found]';
     }
 
-    let mermaid = 'graph LR\n';
+    let mermaid = exportGraph('mermaid', graph);
 
-    // 添加节点定义（使用标题）
-    for (const node of graph.nodes) {
-      const safeTitle = node.title.replace(/"/g, "'");
-      mermaid += `  ${node.id}["${safeTitle}"]\n`;
+    // 循环依赖中的 Spec 加粗红框
+    const { cycles } = await this.buildDependencyGraph();
+    const cyclic = [...new Set(cycles.flat())];
+    if (cyclic.length > 0) {
+      const key = nodeKeys(graph);
+      mermaid += `\n  classDef cycle stroke:#dc2626,stroke-width:3px\n  class ${cyclic.map(key).join(',')} cycle\n`;
     }
 
-    // 添加边
-    if (graph.edges.length > 0) {
-      mermaid += '\n';
-      for (const edge of graph.edges) {
-        mermaid += `  ${edge.from} --> ${edge.to}\n`;
+    return mermaid;
+  }
+
+  /**
+   * 构建可导出的规格依赖图（含活跃变更新建的规格和不存在的依赖目标）
+   */
+  async toExportGraph(): Promise<ExportableGraph> {
+    const graph = await this.buildDependencyGraph();
+    const statuses = await this.getSpecStatuses();
+
+    const nodes: GraphNode[] = graph.nodes.map((n) => ({
+      id: n.id,
+      label: n.title,
+      kind: 'spec',
+      status: statuses.get(n.id) ?? 'stable',
+    }));
+    for (const [specId, status] of statuses) {
+      if (status === 'new') {
+        nodes.push({ id: specId, label: specId, kind: 'spec', status });
+      }
+    }
+    for (const id of new Set(graph.missing.map((e) => e.to))) {
+      if (!statuses.has(id)) {
+        nodes.push({ id, label: id, kind: 'spec', status: 'missing' });
       }
     }
+    assignClusters(nodes);
 
-    return mermaid;
+    return {
+      title: 'Spec dependencies',
+      nodes,
+      edges: graph.edges.map((e) => ({ ...e, kind: 'dependency' })),
+    };
+  }
+
+  /**
+   * 构建变更影响图：变更 -> 修改的规格 -> 传递依赖它们的规格
+   *
+   * 不指定 changeId 时包含所有活跃变更
+   */
+  async toImpactGraph(changeId?: string): Promise<ExportableGraph> {
+    const changeIds = changeId ? [toChangeId(changeId)] : [...(await this.getChangeTouches()).keys()];
+    const specGraph = await this.toExportGraph();
+
+    const nodes: GraphNode[] = [];
+    const edges: GraphEdge[] = [];
+    const included = new Set<string>();
+
+    for (const id of changeIds) {
+      const impact = await this.analyzeChangeImpact(id);
+      nodes.push({ id: `change:${id}`, label: id, kind: 'change' });
+      for (const specId of impact.touched) {
+        edges.push({ from: `change:${id}`, to: specId, kind: 'touches' });
+        included.add(specId);
+      }
+      impact.impacted.forEach((i) => included.add(i.specId));
+    }
+
+    nodes.push(...specGraph.nodes.filter((n) => included.has(n.id)));
+    edges.push(...specGraph.edges.filter((e) => included.has(e.from) && included.has(e.to)));
+    assignClusters(nodes);
+
+    return {
+      title: changeId ? `Impact of ${changeId}` : 'Change impact',
+      nodes,
+      edges,
+    };
+  }
+
+  /**
+   * 获取某个 Spec 的依赖链（递归解析，不含自身）
+   *
+   * 循环依赖不会导致死循环，可通过 buildDependencyGraph().cycles 获取
+   */
+  async getDependencyChain(specId: string): Promise<string[]> {
+    const graph = await this.buildDependencyGraph();
+    return this.traverse(specId, graph.edges.map((e) => [e.from, e.to])).map((r) => r.id);
+  }
+
+  /**
+   * 获取依赖某个 Spec 的其他 Spec（反向查询）
+   */
+  async getDependents(specId: string, options?: { transitive?: boolean }): Promise<string[]> {
+    const graph = await this.buildDependencyGraph();
+    if (!options?.transitive) {
+      return graph.edges.filter((e) => e.to === specId).map((e) => e.from).sort();
+    }
+    return this.traverse(specId, graph.edges.map((e) => [e.to, e.from])).map((r) => r.id);
+  }
+
+  /**
+   * 分析变更的影响范围：被修改的 Spec 以及所有（传递）依赖它们的 Spec
+   */
+  async analyzeChangeImpact(changeId: string): Promise<ChangeImpact> {
+    changeId = toChangeId(changeId);
+    const changeDir = path.join(this.cwd, 'openspec', 'changes', changeId);
+    try {
+      await fs.access(changeDir);
+    } catch {
+      throw new Error(`Change not found: ${changeId}`);
+    }
+
+    const touched = await this.listDirs(path.join(changeDir, 'specs'));
+    const graph = await this.buildDependencyGraph();
+    const reverse = graph.edges.map((e): [string, string] => [e.to, e.from]);
+
+    const impacted = new Map<string, string[]>();
+    for (const specId of touched) {
+      for (const { id, path: via } of this.traverse(specId, reverse)) {
+        // 保留最短路径
+        if (!touched.includes(id) && (!impacted.has(id) || impacted.get(id)!.length > via.length)) {
+          impacted.set(id, via);
+        }
+      }
+    }
+
+    return {
+      changeId,
+      touched,
+      impacted: [...impacted]
+        .map(([specId, via]) => ({ specId, path: via }))
+        .sort((a, b) => a.path.length - b.path.length || a.specId.localeCompare(b.specId)),
+    };
   }
 
   /**
-   * 获取某个 Spec 的依赖链（递归解析）
+   * 规格状态：被活跃变更修改的为 changing，只存在于变更中的为 new
    */
-  async getDependencyChain(specId: string, visited = new Set<string>()): Promise<string[]> {
-    if (visited.has(specId)) {
-      return []; // 避免循环依赖
+  private async getSpecStatuses(): Promise<Map<string, SpecStatus>> {
+    const existing = new Set(await this.listSpecs());
+    const statuses = new Map<string, SpecStatus>();
+
+    for (const touched of (await this.getChangeTouches()).values()) {
+      for (const specId of touched) {
+        statuses.set(specId, existing.has(specId) ? 'changing' : 'new');
+      }
     }
-    visited.add(specId);
 
-    const directDeps = await this.parseDependencies(specId);
-    const allDeps: string[] = [...directDeps];
+    return statuses;
+  }
+
+  /**
+   * 活跃变更 ID -> 其 delta spec 涉及的规格
+   */
+  private async getChangeTouches(): Promise<Map<string, string[]>> {
+    const changesDir = path.join(this.cwd, 'openspec', 'changes');
+    const touches = new Map<string, string[]>();
 
-    for (const dep of directDeps) {
-      const transitiveDeps = await this.getDependencyChain(dep, visited);
-      allDeps.push(...transitiveDeps);
+    for (const changeId of await this.listDirs(changesDir)) {
+      if (changeId === 'archive') continue;
+      touches.set(changeId, await this.listDirs(path.join(changesDir, changeId, 'specs')));
     }
 
-    return [...new Set(allDeps)];
+    return touches;
+  }
+
+  /**
+   * 广度优先遍历，返回可达节点及路径（不含起点）
+   */
+  private traverse(start: string, edges: [string, string][]): { id: string; path: string[] }[] {
+    const result: { id: string; path: string[] }[] = [];
+    const visited = new Set([start]);
+    const queue: string[][] = [[start]];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const [from, to] of edges) {
+        if (from !== current[current.length - 1] || visited.has(to)) continue;
+        visited.add(to);
+        result.push({ id: to, path: [...current, to] });
+        queue.push([...current, to]);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 列出所有 Spec
+   */
+  private async listSpecs(): Promise<string[]> {
+    return this.listDirs(this.getSpecsDir());
+  }
+
+  /**
+   * 列出子目录名（排序），目录不存在时返回空数组
+   */
+  private async listDirs(dir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries.filter((e) => e.isDirectory()).map((e) => e.name).sort();
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * 校验活跃变更 ID（不允许路径穿越和 archive 目录）
+ */
+function toChangeId(changeId: string): string {
+  const id = ensureSafeId(changeId, 'change');
+  if (id === 'archive') {
+    throw new Error(`Invalid change id: ${changeId}`);
   }
+  return id;
 }
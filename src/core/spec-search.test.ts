@@ -0,0 +1,107 @@
+/**
+ * SpecSearch 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SpecSearch } from './spec-search.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const AUTH_SPEC = `# auth Specification
+
+## Purpose
+Authentication.
+
+## Requirements
+
+### Requirement: Login Rate Limit
+The system SHALL apply a rate limit to login attempts.
+
+#### Scenario: Too many attempts
+- **WHEN** a client exceeds the rate limit
+- **THEN** the request is rejected with 429
+
+### Requirement: Logout
+The system SHALL end the session.
+`;
+
+const PROPOSAL = `---
+owner: alice
+---
+# Add API throttling
+
+## Why
+Clients overload the API; we need a rate limit per token.
+`;
+
+describe('SpecSearch', () => {
+  let tempDir: string;
+  let search: SpecSearch;
+
+  async function write(relativePath: string, content: string): Promise<void> {
+    const filePath = path.join(tempDir, 'openspec', relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spec-search-test-'));
+    search = new SpecSearch({ cwd: tempDir });
+
+    await write('specs/auth/spec.md', AUTH_SPEC);
+    await write('changes/add-throttling/proposal.md', PROPOSAL);
+    await write('changes/add-throttling/tasks.md', '## 1. Impl\n- [ ] **1.1** Add rate limit middleware\n');
+    await write('changes/archive/2024-01-01-old-limits/proposal.md', '# Old limits\n\nA rate limit for uploads.\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should rank results and link them to their owner and line', async () => {
+    const { total, results } = await search.search('Rate Limit');
+
+    expect(total).toBe(5);
+    // 标题命中的需求排第一，归档内容排最后
+    expect(results[0]).toMatchObject({
+      type: 'requirement',
+      title: 'Login Rate Limit',
+      specId: 'auth',
+      file: 'openspec/specs/auth/spec.md',
+      line: 8,
+      status: 'active',
+    });
+    expect(results[results.length - 1]).toMatchObject({
+      type: 'proposal',
+      changeId: '2024-01-01-old-limits',
+      status: 'archived',
+      line: 3,
+    });
+
+    const proposal = results.find((r) => r.type === 'proposal' && r.status === 'active')!;
+    expect(proposal).toMatchObject({ title: 'Why', changeId: 'add-throttling', line: 7 });
+
+    const task = results.find((r) => r.type === 'task')!;
+    expect(task).toMatchObject({ title: '1.1 Add rate limit middleware', line: 2 });
+    expect(task.snippet.slice(task.highlights[0].start, task.highlights[0].end)).toBe('rate limit');
+  });
+
+  it('should require every term to match', async () => {
+    const { results } = await search.search('rate session');
+    expect(results).toEqual([]);
+  });
+
+  it('should filter by type, status and spec', async () => {
+    const scenarios = await search.search('rate limit', { types: ['scenario'] });
+    expect(scenarios.results.map((r) => r.title)).toEqual(['Login Rate Limit / Too many attempts']);
+    expect(scenarios.results[0].line).toBe(12);
+
+    const archived = await search.search('rate limit', { status: 'archived' });
+    expect(archived.results.map((r) => r.changeId)).toEqual(['2024-01-01-old-limits']);
+
+    const bySpec = await search.search('rate limit', { specId: 'auth' });
+    expect(bySpec.results.every((r) => r.specId === 'auth')).toBe(true);
+    expect(bySpec.total).toBe(2);
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * 全文搜索
+ * 在规格需求/场景、活跃和已归档变更的 proposal/design/tasks 及 delta 规格中查找关键词
+ *
+ * - 每个需求、场景、文档章节和任务作为一个可检索单元，结果带所属规格/变更和行号
+ * - 查询按空白拆分为多个词，单元必须包含所有词；标题命中、整句命中加权，归档内容降权
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { RequirementParser } from './requirement-parser.js';
+import { TaskParser } from './task-parser.js';
+
+export interface SpecSearchOptions {
+  cwd?: string;
+}
+
+export type SearchResultType = 'requirement' | 'scenario' | 'proposal' | 'design' | 'task';
+
+export type SearchStatus = 'active' | 'archived';
+
+export interface SearchQueryOptions {
+  types?: SearchResultType[];
+  status?: SearchStatus;       // 规格本身视为 active
+  specId?: string;             // 只搜索该规格及各变更中针对该规格的 delta
+  limit?: number;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  title: string;
+  score: number;
+  snippet: string;
+  highlights: { start: number; end: number }[];  // snippet 中命中的区间
+  file: string;                // 相对项目根目录
+  line: number;                // 最佳命中所在行号
+  specId?: string;
+  changeId?: string;
+  status: SearchStatus;
+}
+
+export interface SearchResponse {
+  query: string;
+  total: number;
+  results: SearchResult[];
+}
+
+/**
+ * 可检索单元
+ */
+interface SearchDocument {
+  type: SearchResultType;
+  title: string;
+  lines: string[];
+  startLine: number;
+  file: string;
+  specId?: string;
+  changeId?: string;
+  status: SearchStatus;
+}
+
+const DEFAULT_LIMIT = 20;
+const SNIPPET_LENGTH = 160;
+
+// 类型权重
+const TYPE_WEIGHTS: Record<SearchResultType, number> = {
+  requirement: 1.2,
+  scenario: 1,
+  proposal: 1,
+  design: 0.9,
+  task: 0.8,
+};
+
+export class SpecSearch {
+  private cwd: string;
+  private requirementParser = new RequirementParser();
+  private taskParser = new TaskParser();
+
+  constructor(options?: SpecSearchOptions) {
+    this.cwd = options?.cwd || process.cwd();
+  }
+
+  /**
+   * 获取 openspec 目录路径
+   */
+  private getOpenSpecDir(): string {
+    return path.join(this.cwd, 'openspec');
+  }
+
+  /**
+   * 搜索
+   */
+  async search(query: string, options?: SearchQueryOptions): Promise<SearchResponse> {
+    const phrase = query.trim().toLowerCase().replace(/\s+/g, ' ');
+    const terms = [...new Set(phrase.split(' ').filter(Boolean))];
+    if (terms.length === 0) {
+      return { query, total: 0, results: [] };
+    }
+
+    const documents = await this.collectDocuments(options);
+    const results: SearchResult[] = [];
+
+    for (const doc of documents) {
+      if (options?.types?.length && !options.types.includes(doc.type)) continue;
+
+      const result = this.scoreDocument(doc, terms, phrase);
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score || a.file.localeCompare(b.file) || a.line - b.line);
+
+    return {
+      query,
+      total: results.length,
+      results: results.slice(0, options?.limit ?? DEFAULT_LIMIT),
+    };
+  }
+
+  /**
+   * 收集所有可检索单元
+   */
+  private async collectDocuments(options?: SearchQueryOptions): Promise<SearchDocument[]> {
+    const documents: SearchDocument[] = [];
+    const openspecDir = this.getOpenSpecDir();
+
+    // 主规格
+    if (options?.status !== 'archived') {
+      for (const specId of await this.listDirs(path.join(openspecDir, 'specs'))) {
+        if (options?.specId && options.specId !== specId) continue;
+
+        const specPath = path.join(openspecDir, 'specs', specId, 'spec.md');
+        documents.push(...(await this.specDocuments(specPath, { specId, status: 'active' })));
+      }
+    }
+
+    // 活跃和已归档变更
+    const changesDir = path.join(openspecDir, 'changes');
+    const changeDirs: { changeId: string; dir: string; status: SearchStatus }[] = [];
+    if (options?.status !== 'archived') {
+      for (const changeId of await this.listDirs(changesDir)) {
+        if (changeId === 'archive') continue;
+        changeDirs.push({ changeId, dir: path.join(changesDir, changeId), status: 'active' });
+      }
+    }
+    if (options?.status !== 'active') {
+      for (const changeId of await this.listDirs(path.join(changesDir, 'archive'))) {
+        changeDirs.push({ changeId, dir: path.join(changesDir, 'archive', changeId), status: 'archived' });
+      }
+    }
+
+    for (const { changeId, dir, status } of changeDirs) {
+      // delta 规格
+      for (const specId of await this.listDirs(path.join(dir, 'specs'))) {
+        if (options?.specId && options.specId !== specId) continue;
+
+        const specPath = path.join(dir, 'specs', specId, 'spec.md');
+        documents.push(...(await this.specDocuments(specPath, { specId, changeId, status })));
+      }
+
+      // 指定规格时只保留 delta
+      if (options?.specId) continue;
+
+      const owner = { changeId, status };
+      documents.push(...(await this.sectionDocuments(path.join(dir, 'proposal.md'), 'proposal', owner)));
+      documents.push(...(await this.sectionDocuments(path.join(dir, 'design.md'), 'design', owner)));
+      documents.push(...(await this.taskDocuments(path.join(dir, 'tasks.md'), owner)));
+    }
+
+    return documents;
+  }
+
+  /**
+   * 规格文件：每个需求（不含场景）和每个场景各为一个单元
+   */
+  private async specDocuments(
+    specPath: string,
+    owner: { specId: string; changeId?: string; status: SearchStatus }
+  ): Promise<SearchDocument[]> {
+    const content = await this.readFile(specPath);
+    if (content === null) return [];
+
+    const lines = content.split('\n').map((l) => l.replace(/\r$/, ''));
+    const file = this.relative(specPath);
+    const documents: SearchDocument[] = [];
+
+    for (const requirement of this.requirementParser.parseRequirements(content)) {
+      const firstScenario = requirement.scenarios[0]?.line ?? requirement.endLine + 1;
+      documents.push({
+        type: 'requirement',
+        title: requirement.title,
+        lines: lines.slice(requirement.line - 1, firstScenario - 1),
+        startLine: requirement.line,
+        file,
+        ...owner,
+      });
+
+      requirement.scenarios.forEach((scenario, i) => {
+        const end = requirement.scenarios[i + 1]?.line ?? requirement.endLine + 1;
+        documents.push({
+          type: 'scenario',
+          title: `${requirement.title} / ${scenario.name}`,
+          lines: lines.slice(scenario.line - 1, end - 1),
+          startLine: scenario.line,
+          file,
+          ...owner,
+        });
+      });
+    }
+
+    return documents;
+  }
+
+  /**
+   * Markdown 文档：按标题拆分为章节，忽略 frontmatter 和代码块中的标题
+   */
+  private async sectionDocuments(
+    filePath: string,
+    type: 'proposal' | 'design',
+    owner: { changeId: string; status: SearchStatus }
+  ): Promise<SearchDocument[]> {
+    const content = await this.readFile(filePath);
+    if (content === null) return [];
+
+    const lines = content.split('\n').map((l) => l.replace(/\r$/, ''));
+    const file = this.relative(filePath);
+    const documents: SearchDocument[] = [];
+
+    let start = 0;
+    if (lines[0] === '---') {
+      const end = lines.indexOf('---', 1);
+      start = end > 0 ? end + 1 : 0;
+    }
+
+    let current: SearchDocument | null = null;
+    let inFence = false;
+    for (let i = start; i < lines.length; i++) {
+      const line = lines[i];
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      }
+
+      const heading = !inFence && line.match(/^#{1,6}\s+(.+?)\s*$/);
+      if (heading || !current) {
+        current = {
+          type,
+          title: heading ? heading[1] : type,
+          lines: [],
+          startLine: i + 1,
+          file,
+          ...owner,
+        };
+        documents.push(current);
+      }
+      current.lines.push(line);
+    }
+
+    return documents;
+  }
+
+  /**
+   * tasks.md：每个任务为一个单元
+   */
+  private async taskDocuments(
+    tasksPath: string,
+    owner: { changeId: string; status: SearchStatus }
+  ): Promise<SearchDocument[]> {
+    const content = await this.readFile(tasksPath);
+    if (content === null) return [];
+
+    const lines = content.split('\n');
+    const file = this.relative(tasksPath);
+
+    return this.taskParser.parseTasksFromContent(content).map((task) => ({
+      type: 'task' as const,
+      title: task.id.startsWith('line-') ? task.title : `${task.id} ${task.title}`,
+      lines: [lines[task.line - 1]],
+      startLine: task.line,
+      file,
+      ...owner,
+    }));
+  }
+
+  /**
+   * 计算单元得分，未包含全部查询词时返回 null
+   */
+  private scoreDocument(doc: SearchDocument, terms: string[], phrase: string): SearchResult | null {
+    const title = doc.title.toLowerCase();
+    const body = doc.lines.join('\n').toLowerCase();
+
+    let score = 0;
+    for (const term of terms) {
+      const titleHits = countOccurrences(title, term);
+      const bodyHits = countOccurrences(body, term);
+      if (titleHits + bodyHits === 0) return null;
+      score += titleHits * 3 + Math.min(bodyHits, 5);
+    }
+    if (terms.length > 1) {
+      score += countOccurrences(title, phrase) * 5 + countOccurrences(body, phrase) * 3;
+    }
+
+    score *= TYPE_WEIGHTS[doc.type];
+    if (doc.status === 'archived') {
+      score *= 0.5;
+    }
+
+    // 选择命中词最多的一行作为摘要
+    let bestIndex = 0;
+    let bestHits = -1;
+    doc.lines.forEach((line, i) => {
+      const lower = line.toLowerCase();
+      const hits = terms.filter((term) => lower.includes(term)).length + (lower.includes(phrase) ? 1 : 0);
+      if (hits > bestHits) {
+        bestHits = hits;
+        bestIndex = i;
+      }
+    });
+
+    // 整句也参与高亮，使相邻的查询词合并为一个区间
+    const { snippet, highlights } = buildSnippet(doc.lines[bestIndex].trim(), [phrase, ...terms]);
+
+    return {
+      type: doc.type,
+      title: doc.title,
+      score: Math.round(score * 100) / 100,
+      snippet,
+      highlights,
+      file: doc.file,
+      line: doc.startLine + bestIndex,
+      specId: doc.specId,
+      changeId: doc.changeId,
+      status: doc.status,
+    };
+  }
+
+  /**
+   * 列出子目录名（排序），目录不存在时返回空数组
+   */
+  private async listDirs(dir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries.filter((e) => e.isDirectory()).map((e) => e.name).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 读取文件，不存在时返回 null
+   */
+  private async readFile(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 相对项目根目录的路径
+   */
+  private relative(filePath: string): string {
+    return path.relative(this.cwd, filePath).split(path.sep).join('/');
+  }
+}
+
+/**
+ * 统计子串出现次数（不重叠）
+ */
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  let index = text.indexOf(term);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(term, index + term.length);
+  }
+  return count;
+}
+
+/**
+ * 截取命中附近的文本并计算高亮区间
+ */
+function buildSnippet(line: string, terms: string[]): Pick<SearchResult, 'snippet' | 'highlights'> {
+  const lower = line.toLowerCase();
+  const firstHit = Math.min(...terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0), lower.length);
+
+  let start = 0;
+  if (line.length > SNIPPET_LENGTH) {
+    start = Math.max(0, Math.min(firstHit - 40, line.length - SNIPPET_LENGTH));
+  }
+  const end = Math.min(line.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${line.slice(start, end)}${end < line.length ? '…' : ''}`;
+
+  // 计算高亮区间并合并重叠部分
+  const snippetLower = snippet.toLowerCase();
+  const ranges: SearchResult['highlights'] = [];
+  for (const term of terms) {
+    let index = snippetLower.indexOf(term);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + term.length });
+      index = snippetLower.indexOf(term, index + term.length);
+    }
+  }
+  ranges.sort((a, b) => a.start - b.start);
+
+  const highlights: SearchResult['highlights'] = [];
+  for (const range of ranges) {
+    const last = highlights[highlights.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      highlights.push({ ...range });
+    }
+  }
+
+  return { snippet, highlights };
+}
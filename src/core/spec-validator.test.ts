@@ -0,0 +1,251 @@
+/**
+ * SpecValidator 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SpecValidator } from './spec-validator.js';
+import { ChangeDependencies } from './change-dependencies.js';
+import { SpecParser } from './spec-parser.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const VALID_DELTA = `## ADDED Requirements
+
+### Requirement: Login throttling
+The system SHALL lock an account after five failed attempts.
+
+#### Scenario: Too many attempts
+- **WHEN** a user fails to log in five times
+- **THEN** the account is locked for 15 minutes
+`;
+
+describe('SpecValidator', () => {
+  let tempDir: string;
+  let validator: SpecValidator;
+
+  const writeChange = async (changeId: string, files: Record<string, string>) => {
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(tempDir, 'openspec', 'changes', changeId, name);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+    }
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spec-validator-test-'));
+    validator = new SpecValidator({ cwd: tempDir });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('validateChange', () => {
+    it('should accept a well-formed change', async () => {
+      await writeChange('add-throttling', {
+        'proposal.md': '# Add throttling\n\n## Why\n\nBrute force.\n\n## What Changes\n\n- Lock accounts\n',
+        'tasks.md': '## 1. Implementation\n\n- [ ] **1.1** Add counter\n',
+        'specs/auth/spec.md': VALID_DELTA,
+      });
+
+      const result = await validator.validateChange('add-throttling');
+
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should report a missing proposal and unknown change', async () => {
+      await writeChange('no-proposal', { 'tasks.md': '- [ ] task\n' });
+
+      const missing = await validator.validateChange('no-proposal');
+      expect(missing.valid).toBe(false);
+      expect(missing.errors.some((e) => e.rule === 'change.proposal.missing')).toBe(true);
+
+      const unknown = await validator.validateChange('does-not-exist');
+      expect(unknown.errors[0].rule).toBe('change.not-found');
+    });
+
+    it('should report delta problems with file and line', async () => {
+      await writeChange('bad-delta', {
+        'proposal.md': '# Bad\n\n## Why\n\nx\n\n## What Changes\n\nx\n',
+        'tasks.md': '- [ ] task\n',
+        'specs/auth/spec.md': `## ADDED Requirements
+
+### Requirement: Session timeout
+Sessions expire after 30 minutes.
+
+### Scenario: Idle user
+- **WHEN** idle
+- **THEN** logged out
+`,
+      });
+
+      const result = await validator.validateChange('bad-delta');
+      const shall = result.errors.find((e) => e.rule === 'requirement.shall');
+      const heading = result.errors.find((e) => e.rule === 'scenario.heading');
+
+      expect(result.valid).toBe(false);
+      expect(shall).toMatchObject({
+        type: 'error',
+        file: 'openspec/changes/bad-delta/specs/auth/spec.md',
+        line: 3,
+      });
+      expect(heading?.line).toBe(6);
+      expect(result.errors.some((e) => e.rule === 'requirement.scenario.missing')).toBe(true);
+    });
+
+    it('should treat warnings as errors in strict mode', async () => {
+      await writeChange('no-deltas', {
+        'proposal.md': '# No deltas\n\n## Why\n\nx\n\n## What Changes\n\nx\n',
+        'tasks.md': '- [ ] task\n',
+      });
+
+      const relaxed = await validator.validateChange('no-deltas');
+      expect(relaxed.valid).toBe(true);
+      expect(relaxed.errors[0]).toMatchObject({ type: 'warning', rule: 'change.deltas.missing' });
+
+      const strict = await validator.validateChange('no-deltas', { strict: true });
+      expect(strict.valid).toBe(false);
+      expect(strict.errors[0].type).toBe('error');
+    });
+
+    it('should analyze dependencies once when validating many changes', async () => {
+      await writeChange('add-throttling', {
+        'proposal.md': '---\ndependsOn: [missing-change]\n---\n# Throttling\n\n## Why\n\nx\n\n## What Changes\n\nx\n',
+        'specs/auth/spec.md': VALID_DELTA,
+      });
+      await writeChange('no-proposal', { 'tasks.md': '- [ ] task\n' });
+      const analyze = vi.spyOn(ChangeDependencies.prototype, 'analyze');
+
+      try {
+        const results = await validator.validateChanges(['add-throttling', 'no-proposal']);
+
+        expect(analyze).toHaveBeenCalledTimes(1);
+        expect([...results.keys()]).toEqual(['add-throttling', 'no-proposal']);
+        expect(results.get('add-throttling')!.errors).toContainEqual(
+          expect.objectContaining({ rule: 'change.dependsOn.missing' })
+        );
+        expect(results.get('no-proposal')).toEqual(await validator.validateChange('no-proposal'));
+      } finally {
+        analyze.mockRestore();
+      }
+    });
+  });
+
+  describe('validateDeltaContent', () => {
+    it('should require at least one operation section', () => {
+      const errors = validator.validateDeltaContent('# Auth\n\nSome notes\n', 'spec.md');
+      expect(errors[0].rule).toBe('delta.no-operations');
+    });
+
+    it('should check RENAMED FROM/TO pairs', () => {
+      const errors = validator.validateDeltaContent(
+        '## RENAMED Requirements\n\n- FROM: `### Requirement: Login`\n',
+        'spec.md'
+      );
+      expect(errors).toEqual([
+        expect.objectContaining({ rule: 'delta.renamed.format', line: 3 }),
+      ]);
+    });
+
+    it('should not require scenarios for REMOVED requirements', () => {
+      const errors = validator.validateDeltaContent(
+        '## REMOVED Requirements\n\n### Requirement: Legacy login\n**Reason**: replaced by SSO\n',
+        'spec.md'
+      );
+      expect(errors).toHaveLength(0);
+    });
+  });
+
+  describe('validateTasksContent', () => {
+    it('should report unknown and circular task dependencies', () => {
+      const errors = validator.validateTasksContent(
+        [
+          '## 1. Backend',
+          '- [ ] **1.1** Schema (after 1.3)',
+          '- [ ] **1.2** API (after 1.1, 9.9)',
+          '- [ ] **1.3** Docs (after 1.2)',
+          '- [ ] **1.4** Rollout',
+          '  - [ ] **1.4.1** Flag (after 1.4)',
+        ].join('\n'),
+        'tasks.md'
+      );
+
+      expect(errors).toEqual([
+        expect.objectContaining({ rule: 'change.tasks.after.missing', message: 'Task 1.2 depends on unknown task: 9.9', line: 3 }),
+        expect.objectContaining({ rule: 'change.tasks.after.cycle', message: 'Circular task dependency: 1.1 -> 1.3 -> 1.2 -> 1.1', line: 2 }),
+        expect.objectContaining({ rule: 'change.tasks.after.cycle', message: 'Circular task dependency: 1.4 -> 1.4.1 -> 1.4', line: 6 }),
+      ]);
+    });
+
+    it('should accept the extended checkbox states only', () => {
+      const errors = validator.validateTasksContent(
+        ['- [!] **1.1** API (reason: waiting on auth)', '- [~] **1.2** Import', '- [>] **1.3** Polish', '- [?] **1.4** Docs'].join('\n'),
+        'tasks.md'
+      );
+
+      expect(errors).toEqual([
+        expect.objectContaining({
+          rule: 'change.tasks.checkbox',
+          message: 'Invalid task checkbox "[?]" (use [ ], [-], [x], [!], [>] or [~])',
+          line: 4,
+        }),
+      ]);
+    });
+  });
+
+  describe('validateSpec', () => {
+    it('should ignore headings inside code fences', async () => {
+      const specDir = path.join(tempDir, 'openspec', 'specs', 'auth');
+      await fs.mkdir(specDir, { recursive: true });
+      await fs.writeFile(
+        path.join(specDir, 'spec.md'),
+        `# Auth Specification
+
+## Purpose
+Authentication.
+
+## Requirements
+
+### Requirement: Login
+Users MUST authenticate with a password.
+
+\`\`\`md
+### Scenario: not a real heading
+\`\`\`
+
+#### Scenario: Valid password
+- **WHEN** the password matches
+- **THEN** a session is created
+`
+      );
+
+      const result = await validator.validateSpec('auth');
+      expect(result.errors).toHaveLength(0);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should build the dependency graph once when validating many specs', async () => {
+      for (const [id, deps] of [['auth', ['ghost']], ['billing', ['auth']]] as const) {
+        const specDir = path.join(tempDir, 'openspec', 'specs', id);
+        await fs.mkdir(specDir, { recursive: true });
+        await fs.writeFile(path.join(specDir, 'spec.md'), `---\ndependsOn: [${deps.join(', ')}]\n---\n# ${id}\n`);
+      }
+      const build = vi.spyOn(SpecParser.prototype, 'buildDependencyGraph');
+
+      try {
+        const results = await validator.validateSpecs(['auth', 'billing']);
+
+        expect(build).toHaveBeenCalledTimes(1);
+        expect([...results.keys()]).toEqual(['auth', 'billing']);
+        expect(results.get('auth')!.errors).toContainEqual(
+          expect.objectContaining({ rule: 'spec.dependsOn.missing' })
+        );
+        expect(results.get('billing')).toEqual(await validator.validateSpec('billing'));
+      } finally {
+        build.mockRestore();
+      }
+    });
+  });
+});
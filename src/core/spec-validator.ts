@@ -0,0 +1,768 @@
+/**
+ * 规格验证器
+ * 在进程内校验 change / spec 的结构，不依赖外部 openspec CLI
+ *
+ * 检查项：
+ * - proposal.md / tasks.md 是否存在及基本结构
+ * - 任务依赖 (after 1.2) 引用是否存在、是否有循环
+ * - delta spec 的操作段落 (ADDED/MODIFIED/REMOVED/RENAMED Requirements)
+ * - `### Requirement:` 与 `#### Scenario:` 标题层级
+ * - 需求描述中的 SHALL / MUST 措辞
+ * - 变更依赖 (dependsOn) 引用是否存在、是否有循环
+ * - 规格依赖（dependsOn / @depends-on）目标是否存在、是否有循环
+ * - 稳定需求 ID 是否唯一，变更文档中的 [[ID]] / spec:<spec>#ID 引用是否悬空
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { DeltaOperation, Requirement, ValidationError, ValidationResult } from '../types/openspec.js';
+import { RequirementParser } from './requirement-parser.js';
+import { ChangeDependencies } from './change-dependencies.js';
+import { RequirementRefs } from './requirement-refs.js';
+import type { ChangeDependencyReport } from './change-dependencies.js';
+import type { RequirementIdEntry } from './requirement-refs.js';
+import { SpecParser } from './spec-parser.js';
+import type { DependencyGraph } from './spec-parser.js';
+import { TaskParser } from './task-parser.js';
+import { findCycles } from '../utils/graph.js';
+import { TASK_STATES, describeTaskCheckboxes } from '../utils/constants.js';
+
+export interface SpecValidatorOptions {
+  cwd?: string;
+}
+
+/**
+ * 变更验证共用的项目级数据（依赖分析、需求 ID 索引），批量验证时只计算一次
+ */
+export interface ChangeValidationContext {
+  dependencies: ChangeDependencyReport;
+  requirementIndex: RequirementIdEntry[];
+}
+
+const DELTA_OPERATIONS: DeltaOperation[] = ['ADDED', 'MODIFIED', 'REMOVED', 'RENAMED'];
+
+// 提案中常见的「为什么」/「做什么」章节标题
+const WHY_HEADINGS = /^(why|motivation|problem|summary|background|context|bug description|current state)\b/i;
+const WHAT_HEADINGS = /^(what changes|what|proposed solution|proposed changes|proposed fix|solution|changes)\b/i;
+
+export class SpecValidator {
+  private cwd: string;
+  private requirementParser: RequirementParser;
+
+  constructor(options?: SpecValidatorOptions) {
+    this.cwd = options?.cwd || process.cwd();
+    this.requirementParser = new RequirementParser();
+  }
+
+  /**
+   * 获取 openspec 目录路径
+   */
+  private getOpenSpecDir(): string {
+    return path.join(this.cwd, 'openspec');
+  }
+
+  /**
+   * 转换为相对项目根目录的路径
+   */
+  private relative(filePath: string): string {
+    return path.relative(this.cwd, filePath).split(path.sep).join('/');
+  }
+
+  /**
+   * 读取文件，不存在时返回 null
+   */
+  private async readOptional(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 批量验证变更（依赖分析和需求 ID 索引只计算一次）
+   */
+  async validateChanges(
+    changeIds: string[],
+    options?: { strict?: boolean }
+  ): Promise<Map<string, ValidationResult>> {
+    const context = await this.createChangeContext();
+    const results = new Map<string, ValidationResult>();
+    for (const changeId of changeIds) {
+      results.set(changeId, await this.validateChange(changeId, { ...options, context }));
+    }
+    return results;
+  }
+
+  /**
+   * 收集变更验证共用的项目级数据
+   */
+  private async createChangeContext(): Promise<ChangeValidationContext> {
+    return {
+      dependencies: await new ChangeDependencies({ cwd: this.cwd }).analyze(),
+      requirementIndex: await new RequirementRefs({ cwd: this.cwd }).getIndex(),
+    };
+  }
+
+  /**
+   * 验证变更
+   */
+  async validateChange(
+    changeId: string,
+    options?: { strict?: boolean; context?: ChangeValidationContext }
+  ): Promise<ValidationResult> {
+    const changeDir = path.join(this.getOpenSpecDir(), 'changes', changeId);
+    const errors: ValidationError[] = [];
+
+    try {
+      await fs.access(changeDir);
+    } catch {
+      errors.push(this.issue('error', 'change.not-found', `Change not found: ${changeId}`, this.relative(changeDir)));
+      return this.toResult(errors, options?.strict);
+    }
+
+    // proposal.md
+    const proposalPath = path.join(changeDir, 'proposal.md');
+    const proposal = await this.readOptional(proposalPath);
+    if (proposal === null) {
+      errors.push(
+        this.issue('error', 'change.proposal.missing', 'proposal.md is missing', this.relative(proposalPath))
+      );
+    } else {
+      errors.push(...this.validateProposalContent(proposal, this.relative(proposalPath)));
+    }
+
+    // tasks.md
+    const tasksPath = path.join(changeDir, 'tasks.md');
+    const tasks = await this.readOptional(tasksPath);
+    if (tasks === null) {
+      errors.push(
+        this.issue('warning', 'change.tasks.missing', 'tasks.md is missing', this.relative(tasksPath))
+      );
+    } else {
+      errors.push(...this.validateTasksContent(tasks, this.relative(tasksPath)));
+    }
+
+    // delta specs
+    const specsDir = path.join(changeDir, 'specs');
+    let deltaCount = 0;
+    try {
+      const entries = await fs.readdir(specsDir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
+
+        const deltaPath = path.join(specsDir, entry.name, 'spec.md');
+        const content = await this.readOptional(deltaPath);
+        if (content === null) {
+          errors.push(
+            this.issue('warning', 'delta.missing', `Delta directory ${entry.name} has no spec.md`, this.relative(deltaPath))
+          );
+          continue;
+        }
+
+        deltaCount++;
+        errors.push(...this.validateDeltaContent(content, this.relative(deltaPath)));
+      }
+    } catch {
+      // 没有 specs 目录
+    }
+
+    if (deltaCount === 0) {
+      errors.push(
+        this.issue(
+          'warning',
+          'change.deltas.missing',
+          'Change has no delta specs (expected specs/<capability>/spec.md)',
+          this.relative(specsDir)
+        )
+      );
+    }
+
+    const context = options?.context ?? (await this.createChangeContext());
+    errors.push(...this.validateDependencies(changeId, proposal, this.relative(proposalPath), context.dependencies));
+    errors.push(...(await this.validateReferences(changeId, context.requirementIndex)));
+
+    return this.toResult(errors, options?.strict);
+  }
+
+  /**
+   * 验证变更依赖：引用的变更必须存在，且不能形成循环
+   */
+  private validateDependencies(
+    changeId: string,
+    proposal: string | null,
+    file: string,
+    report: ChangeDependencyReport
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    // 指向 frontmatter 中的 dependsOn 行
+    const lineIndex = proposal?.split('\n').findIndex((l) => /^dependsOn\s*:/.test(l)) ?? -1;
+    const line = lineIndex >= 0 ? lineIndex + 1 : undefined;
+
+    for (const { dependsOn } of report.missing.filter((m) => m.changeId === changeId)) {
+      errors.push(
+        this.issue('error', 'change.dependsOn.missing', `Depends on unknown change: ${dependsOn}`, file, line)
+      );
+    }
+
+    for (const cycle of report.cycles.filter((c) => c.includes(changeId))) {
+      errors.push(
+        this.issue('error', 'change.dependsOn.cycle', `Circular dependency: ${[...cycle, cycle[0]].join(' -> ')}`, file, line)
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * 验证变更文档中的需求引用：目标 ID 必须存在，不限定规格时不能有歧义
+   */
+  private async validateReferences(changeId: string, index: RequirementIdEntry[]): Promise<ValidationError[]> {
+    const references = await new RequirementRefs({ cwd: this.cwd }).findReferences(changeId, index);
+    const errors: ValidationError[] = [];
+
+    for (const reference of references) {
+      const specs = [...new Set(reference.targets.map((t) => t.specId))];
+      if (specs.length === 0) {
+        const target = reference.specId ? `in spec ${reference.specId}` : 'in any spec';
+        errors.push(
+          this.issue(
+            'error',
+            'reference.dangling',
+            `Dangling reference ${reference.raw}: no requirement with id ${reference.id} ${target}`,
+            reference.file,
+            reference.line
+          )
+        );
+      } else if (specs.length > 1) {
+        errors.push(
+          this.issue(
+            'warning',
+            'reference.ambiguous',
+            `Reference ${reference.raw} matches requirements in ${specs.join(', ')} (use spec:<spec>#${reference.id})`,
+            reference.file,
+            reference.line
+          )
+        );
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * 批量验证规格（规格依赖图只构建一次）
+   */
+  async validateSpecs(
+    specIds: string[],
+    options?: { strict?: boolean }
+  ): Promise<Map<string, ValidationResult>> {
+    const graph = await new SpecParser({ cwd: this.cwd }).buildDependencyGraph();
+    const results = new Map<string, ValidationResult>();
+    for (const specId of specIds) {
+      results.set(specId, await this.validateSpec(specId, { ...options, graph }));
+    }
+    return results;
+  }
+
+  /**
+   * 验证规格
+   */
+  async validateSpec(
+    specId: string,
+    options?: { strict?: boolean; graph?: DependencyGraph }
+  ): Promise<ValidationResult> {
+    const specPath = path.join(this.getOpenSpecDir(), 'specs', specId, 'spec.md');
+    const content = await this.readOptional(specPath);
+
+    if (content === null) {
+      return this.toResult(
+        [this.issue('error', 'spec.not-found', `Spec not found: ${specId}`, this.relative(specPath))],
+        options?.strict
+      );
+    }
+
+    const file = this.relative(specPath);
+    const errors = [
+      ...this.validateSpecContent(content, file),
+      ...this.validateSpecDependencies(
+        specId,
+        content,
+        file,
+        options?.graph ?? (await new SpecParser({ cwd: this.cwd }).buildDependencyGraph())
+      ),
+    ];
+    return this.toResult(errors, options?.strict);
+  }
+
+  /**
+   * 验证规格依赖：目标必须存在，且不能形成循环
+   */
+  private validateSpecDependencies(
+    specId: string,
+    content: string,
+    file: string,
+    graph: DependencyGraph
+  ): ValidationError[] {
+    const lines = content.split('\n');
+    const errors: ValidationError[] = [];
+
+    for (const edge of graph.missing.filter((e) => e.from === specId)) {
+      // 指向声明该依赖的行（frontmatter 或注释）
+      const index = lines.findIndex((l) => /dependsOn\s*:|@(depends-on|requires)\s*:/i.test(l) && l.includes(edge.to));
+      errors.push(
+        this.issue('error', 'spec.dependsOn.missing', `Depends on unknown spec: ${edge.to}`, file, index >= 0 ? index + 1 : undefined)
+      );
+    }
+
+    for (const cycle of graph.cycles.filter((c) => c.includes(specId))) {
+      errors.push(
+        this.issue('error', 'spec.dependsOn.cycle', `Circular spec dependency: ${[...cycle, cycle[0]].join(' -> ')}`, file)
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * 验证 proposal.md 内容
+   */
+  validateProposalContent(content: string, file: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const headings = this.collectHeadings(content);
+
+    if (!headings.some((h) => h.level === 1)) {
+      errors.push(this.issue('warning', 'change.proposal.title', 'Proposal has no "# " title', file, 1));
+    }
+
+    const sectionTitles = headings.filter((h) => h.level === 2).map((h) => h.text);
+    if (!sectionTitles.some((t) => WHY_HEADINGS.test(t))) {
+      errors.push(
+        this.issue('warning', 'change.proposal.why', 'Proposal should explain why the change is needed (e.g. "## Why")', file)
+      );
+    }
+    if (!sectionTitles.some((t) => WHAT_HEADINGS.test(t))) {
+      errors.push(
+        this.issue('warning', 'change.proposal.what', 'Proposal should describe what changes (e.g. "## What Changes")', file)
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * 验证 tasks.md 内容
+   */
+  validateTasksContent(content: string, file: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    let taskCount = 0;
+
+    this.forEachLine(content, (line, lineNum) => {
+      const checkbox = line.match(/^\s*-\s+\[(.)\]/);
+      if (!checkbox) return;
+
+      if (TASK_STATES.some((s) => s.char === checkbox[1])) {
+        taskCount++;
+      } else {
+        errors.push(
+          this.issue('error', 'change.tasks.checkbox', `Invalid task checkbox "[${checkbox[1]}]" (use ${describeTaskCheckboxes()})`, file, lineNum)
+        );
+      }
+    });
+
+    if (taskCount === 0) {
+      errors.push(this.issue('warning', 'change.tasks.empty', 'tasks.md contains no task items', file));
+    }
+
+    errors.push(...this.validateTaskDependencies(content, file));
+    return errors;
+  }
+
+  /**
+   * 验证任务依赖：(after ...) 引用的任务必须存在且不能形成循环
+   *
+   * 父任务的完成依赖子任务，因此依赖自己的祖先任务也算循环
+   */
+  private validateTaskDependencies(content: string, file: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const tasks = new TaskParser().parseTasksFromContent(content);
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+    const successors = new Map<string, string[]>(tasks.map((t) => [t.id, []]));
+
+    for (const task of tasks) {
+      if (task.parentId) {
+        successors.get(task.parentId)?.push(task.id);
+      }
+      for (const id of task.dependsOn || []) {
+        if (byId.has(id)) {
+          successors.get(task.id)!.push(id);
+        } else {
+          errors.push(
+            this.issue('error', 'change.tasks.after.missing', `Task ${task.id} depends on unknown task: ${id}`, file, task.line)
+          );
+        }
+      }
+    }
+
+    for (const cycle of findCycles(successors)) {
+      const line = tasks.find((t) => cycle.includes(t.id) && t.dependsOn?.length)?.line;
+      errors.push(
+        this.issue('error', 'change.tasks.after.cycle', `Circular task dependency: ${[...cycle, cycle[0]].join(' -> ')}`, file, line)
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * 验证主规格内容
+   */
+  validateSpecContent(content: string, file: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const headings = this.collectHeadings(content);
+    const sections = headings.filter((h) => h.level === 2).map((h) => h.text.toLowerCase());
+
+    if (!sections.includes('purpose')) {
+      errors.push(this.issue('warning', 'spec.purpose.missing', 'Spec has no "## Purpose" section', file));
+    }
+    if (!sections.includes('requirements')) {
+      errors.push(this.issue('warning', 'spec.requirements.section', 'Spec has no "## Requirements" section', file));
+    }
+
+    errors.push(...this.checkHeadingLevels(content, file));
+
+    const blocks = this.requirementParser.parseRequirements(content);
+    if (blocks.length === 0) {
+      errors.push(this.issue('warning', 'spec.requirements.empty', 'Spec defines no "### Requirement:" entries', file));
+    }
+
+    errors.push(...this.checkDuplicates(blocks, file));
+    errors.push(...this.checkRequirementIds(content, file));
+    for (const block of blocks) {
+      errors.push(...this.checkRequirement(block, file));
+    }
+
+    return errors;
+  }
+
+  /**
+   * 验证 delta spec 内容
+   */
+  validateDeltaContent(content: string, file: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const lines = content.split('\n');
+    const headings = this.collectHeadings(content);
+    const sections = headings.filter((h) => h.level === 2);
+
+    errors.push(...this.checkHeadingLevels(content, file));
+    errors.push(...this.checkRequirementIds(content, file));
+
+    const operationSections = sections.filter((s) =>
+      /^(ADDED|MODIFIED|REMOVED|RENAMED)\s+Requirements$/i.test(s.text)
+    );
+    if (operationSections.length === 0) {
+      errors.push(
+        this.issue(
+          'error',
+          'delta.no-operations',
+          'Delta spec has no "## ADDED|MODIFIED|REMOVED|RENAMED Requirements" section',
+          file,
+          1
+        )
+      );
+      return errors;
+    }
+
+    for (let i = 0; i < sections.length; i++) {
+      const section = sections[i];
+      const match = section.text.match(/^(\w+)\s+Requirements$/i);
+      if (!match) continue;
+
+      const operation = match[1].toUpperCase() as DeltaOperation;
+      if (!DELTA_OPERATIONS.includes(operation) || match[1] !== operation) {
+        errors.push(
+          this.issue(
+            'error',
+            'delta.unknown-operation',
+            `Unknown delta section "${section.text}" (use ADDED, MODIFIED, REMOVED or RENAMED in upper case)`,
+            file,
+            section.line
+          )
+        );
+        continue;
+      }
+
+      const endLine = i + 1 < sections.length ? sections[i + 1].line - 1 : lines.length;
+
+      if (operation === 'RENAMED') {
+        errors.push(...this.checkRenamedSection(lines, section.line, endLine, file));
+        continue;
+      }
+
+      const blocks = this.requirementParser.parseRequirements(content, {
+        startLine: section.line + 1,
+        endLine,
+      });
+      if (blocks.length === 0) {
+        errors.push(
+          this.issue('warning', 'delta.empty-section', `"${section.text}" contains no requirements`, file, section.line)
+        );
+        continue;
+      }
+
+      errors.push(...this.checkDuplicates(blocks, file));
+
+      // REMOVED 只需要标题（可选 Reason / Migration）
+      if (operation === 'REMOVED') continue;
+
+      for (const block of blocks) {
+        errors.push(...this.checkRequirement(block, file));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * 校验 RENAMED 段落的 FROM/TO 配对
+   */
+  private checkRenamedSection(
+    lines: string[],
+    sectionLine: number,
+    endLine: number,
+    file: string
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    let pendingFrom: number | null = null;
+    let pairs = 0;
+
+    for (let lineNum = sectionLine + 1; lineNum <= endLine; lineNum++) {
+      const line = lines[lineNum - 1];
+      if (/^\s*-\s*FROM:/i.test(line)) {
+        if (pendingFrom !== null) {
+          errors.push(this.issue('error', 'delta.renamed.format', 'FROM without matching TO', file, pendingFrom));
+        }
+        pendingFrom = lineNum;
+      } else if (/^\s*-\s*TO:/i.test(line)) {
+        if (pendingFrom === null) {
+          errors.push(this.issue('error', 'delta.renamed.format', 'TO without preceding FROM', file, lineNum));
+        } else {
+          pairs++;
+          pendingFrom = null;
+        }
+      }
+    }
+
+    if (pendingFrom !== null) {
+      errors.push(this.issue('error', 'delta.renamed.format', 'FROM without matching TO', file, pendingFrom));
+    }
+    if (pairs === 0 && errors.length === 0) {
+      errors.push(
+        this.issue('warning', 'delta.empty-section', '"RENAMED Requirements" contains no FROM/TO pairs', file, sectionLine)
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * 校验单个需求
+   */
+  private checkRequirement(requirement: Requirement, file: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!/\b(SHALL|MUST)\b/.test(requirement.content)) {
+      errors.push(
+        this.issue(
+          'error',
+          'requirement.shall',
+          `Requirement "${requirement.title}" must use SHALL or MUST in its description`,
+          file,
+          requirement.line
+        )
+      );
+    }
+
+    if (requirement.scenarios.length === 0) {
+      errors.push(
+        this.issue(
+          'error',
+          'requirement.scenario.missing',
+          `Requirement "${requirement.title}" must have at least one "#### Scenario:"`,
+          file,
+          requirement.line
+        )
+      );
+    }
+
+    for (const scenario of requirement.scenarios) {
+      if (!scenario.when || !scenario.then) {
+        errors.push(
+          this.issue(
+            'warning',
+            'scenario.steps',
+            `Scenario "${scenario.name}" should contain WHEN and THEN clauses`,
+            file,
+            scenario.line
+          )
+        );
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * 检查重复的需求标题
+   */
+  private checkDuplicates(blocks: Requirement[], file: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const seen = new Map<string, number>();
+
+    for (const block of blocks) {
+      const key = block.title.toLowerCase();
+      const firstLine = seen.get(key);
+      if (firstLine !== undefined) {
+        errors.push(
+          this.issue(
+            'error',
+            'requirement.duplicate',
+            `Duplicate requirement "${block.title}" (first defined at line ${firstLine})`,
+            file,
+            block.line
+          )
+        );
+      } else {
+        seen.set(key, block.line);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * 检查稳定 ID：同一规格内唯一，frontmatter 映射必须指向已存在的需求
+   */
+  private checkRequirementIds(content: string, file: string): ValidationError[] {
+    const { duplicates, unknown } = this.requirementParser.collectIds(content);
+
+    return [
+      ...duplicates.map((d) =>
+        this.issue(
+          'error',
+          'requirement.id.duplicate',
+          `Requirement id ${d.id} on "${d.title}" is already used at line ${d.firstLine}`,
+          file,
+          d.line
+        )
+      ),
+      ...unknown.map((u) =>
+        this.issue('warning', 'requirement.id.unknown', `Id ${u.id} maps to unknown requirement "${u.title}"`, file, u.line)
+      ),
+    ];
+  }
+
+  /**
+   * 检查 Requirement / Scenario 标题层级
+   */
+  private checkHeadingLevels(content: string, file: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    this.forEachLine(content, (line, lineNum) => {
+      const requirement = line.match(/^(#{1,6})\s+Requirement:/i);
+      if (requirement && requirement[1].length !== 3) {
+        errors.push(
+          this.issue('error', 'requirement.heading', 'Requirement headings must use "### Requirement:"', file, lineNum)
+        );
+      }
+
+      const scenario = line.match(/^(#{1,6})\s+Scenario:/i);
+      if (scenario && scenario[1].length !== 4) {
+        errors.push(
+          this.issue('error', 'scenario.heading', 'Scenario headings must use "#### Scenario:"', file, lineNum)
+        );
+      } else if (/^\s*(?:-\s+)?\*\*Scenario:?\*\*/i.test(line) || /^\s*-\s+Scenario:/i.test(line)) {
+        errors.push(
+          this.issue(
+            'error',
+            'scenario.heading',
+            'Scenarios must be headings ("#### Scenario:"), not bullets or bold text',
+            file,
+            lineNum
+          )
+        );
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * 收集标题（跳过代码块）
+   */
+  private collectHeadings(content: string): { level: number; text: string; line: number }[] {
+    const headings: { level: number; text: string; line: number }[] = [];
+
+    this.forEachLine(content, (line, lineNum) => {
+      const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+      if (match) {
+        headings.push({ level: match[1].length, text: match[2].trim(), line: lineNum });
+      }
+    });
+
+    return headings;
+  }
+
+  /**
+   * 逐行遍历（跳过 ``` 代码块）
+   */
+  private forEachLine(content: string, callback: (line: string, lineNum: number) => void): void {
+    const lines = content.split('\n');
+    let inFence = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].replace(/\r$/, '');
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence) continue;
+      callback(line, i + 1);
+    }
+  }
+
+  /**
+   * 构建验证问题
+   */
+  private issue(
+    type: 'error' | 'warning',
+    rule: string,
+    message: string,
+    file: string,
+    line?: number
+  ): ValidationError {
+    return {
+      type,
+      message,
+      rule,
+      file,
+      line,
+      location: line ? `${file}:${line}` : file,
+    };
+  }
+
+  /**
+   * 汇总验证结果（strict 模式下 warning 视为 error）
+   */
+  private toResult(errors: ValidationError[], strict?: boolean): ValidationResult {
+    const normalized = strict
+      ? errors.map((e) => (e.type === 'warning' ? { ...e, type: 'error' as const } : e))
+      : errors;
+
+    return {
+      valid: !normalized.some((e) => e.type === 'error'),
+      errors: normalized,
+    };
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * TaskEditor 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TaskEditor } from './task-editor.js';
+import { ReviewManager } from './review-manager.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const TASKS = `# Tasks for add-login
+
+## 1. Backend
+
+- [x] **1.1** Create schema
+- [ ] **1.2** Add login API @alice ~3h
+  - [ ] **1.2.1** Validate input
+  - [ ] **1.2.2** Issue session
+- [ ] **1.3** Write docs
+
+## 2. Frontend
+
+- [ ] **2.1** Login form
+`;
+
+describe('TaskEditor', () => {
+  let tempDir: string;
+  let editor: TaskEditor;
+  let tasksPath: string;
+
+  const read = async () => (await fs.readFile(tasksPath, 'utf-8')).split('\n');
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'task-editor-test-'));
+    editor = new TaskEditor({ cwd: tempDir });
+
+    const changeDir = path.join(tempDir, 'openspec', 'changes', 'add-login');
+    await fs.mkdir(changeDir, { recursive: true });
+    tasksPath = path.join(changeDir, 'tasks.md');
+    await fs.writeFile(tasksPath, TASKS);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should insert tasks into the right place with the next free id', async () => {
+    const subtask = await editor.addTask('add-login', { title: 'Rate limit', parentId: '1.2', assignee: 'bob' });
+    expect(subtask.task).toMatchObject({ id: '1.2.3', title: 'Rate limit', assignee: 'bob', parentId: '1.2', line: 9 });
+
+    await editor.addTask('add-login', { title: 'Error states', section: 'frontend' });
+    const qa = await editor.addTask('add-login', { title: 'Smoke test', section: 'QA' });
+    expect(qa.task).toMatchObject({ id: '3.1', section: '3. QA' });
+
+    expect((await read()).slice(4)).toEqual([
+      '- [x] **1.1** Create schema',
+      '- [ ] **1.2** Add login API @alice ~3h',
+      '  - [ ] **1.2.1** Validate input',
+      '  - [ ] **1.2.2** Issue session',
+      '  - [ ] **1.2.3** Rate limit @bob',
+      '- [ ] **1.3** Write docs',
+      '',
+      '## 2. Frontend',
+      '',
+      '- [ ] **2.1** Login form',
+      '- [ ] **2.2** Error states',
+      '',
+      '## 3. QA',
+      '',
+      '- [ ] **3.1** Smoke test',
+      '',
+    ]);
+
+    // 指定位置且重新编号
+    const first = await editor.addTask('add-login', { title: 'Design review', beforeId: '1.1', renumber: true });
+    expect(first.task?.id).toBe('1.1');
+    expect(first.renumbered).toEqual({
+      '1.1': '1.2',
+      '1.2': '1.3',
+      '1.2.1': '1.3.1',
+      '1.2.2': '1.3.2',
+      '1.2.3': '1.3.3',
+      '1.3': '1.4',
+    });
+
+    await expect(editor.addTask('missing', { title: 'x' })).rejects.toThrow('Change not found');
+    await expect(editor.addTask('add-login', { title: 'x', afterId: '9.9' })).rejects.toThrow('Task 9.9 not found');
+  });
+
+  it('should create tasks.md for a change without one', async () => {
+    await fs.rm(tasksPath);
+    const result = await editor.addTask('add-login', { title: 'First step' });
+
+    expect(result.task).toMatchObject({ id: '1.1', section: '1. Implementation' });
+    expect(await fs.readFile(tasksPath, 'utf-8')).toBe(
+      '# Tasks for add-login\n\n## 1. Implementation\n\n- [ ] **1.1** First step\n'
+    );
+  });
+
+  it('should edit, move and remove tasks while keeping reviews on their lines', async () => {
+    const reviews = new ReviewManager({ cwd: tempDir });
+    const onDocs = await reviews.addReview({
+      targetType: 'tasks', targetId: 'add-login', lineNumber: 9, type: 'comment', body: 'Which docs?', author: 'bob',
+    });
+    const onSession = await reviews.addReview({
+      targetType: 'tasks', targetId: 'add-login', lineNumber: 8, type: 'issue', body: 'Use secure cookies', author: 'bob',
+    });
+
+    const edited = await editor.editTask('add-login', '1.2', { title: 'Add login endpoint' });
+    expect(edited.task).toMatchObject({ title: 'Add login endpoint', assignee: 'alice', estimate: '3h' });
+
+    // 移到其他章节时连同子任务重新分配 ID
+    const moved = await editor.moveTask('add-login', '1.2', { section: '2. Frontend' });
+    expect(moved.renumbered).toEqual({ '1.2': '2.2', '1.2.1': '2.2.1', '1.2.2': '2.2.2' });
+    expect(moved.reviewsUpdated).toBe(2);
+    expect((await read()).slice(4)).toEqual([
+      '- [x] **1.1** Create schema',
+      '- [ ] **1.3** Write docs',
+      '',
+      '## 2. Frontend',
+      '',
+      '- [ ] **2.1** Login form',
+      '- [ ] **2.2** Add login endpoint @alice ~3h',
+      '  - [ ] **2.2.1** Validate input',
+      '  - [ ] **2.2.2** Issue session',
+      '',
+    ]);
+    expect((await reviews.getReview('tasks', 'add-login', onDocs.id))?.lineNumber).toBe(6);
+    expect((await reviews.getReview('tasks', 'add-login', onSession.id))?.lineNumber).toBe(13);
+
+    await expect(editor.moveTask('add-login', '2.2', { parentId: '2.2.1' })).rejects.toThrow('its subtasks');
+
+    const removed = await editor.removeTask('add-login', '1.1', { renumber: true });
+    expect(removed.removed).toEqual(['1.1']);
+    expect(removed.renumbered).toEqual({ '1.3': '1.1' });
+    expect((await reviews.getReview('tasks', 'add-login', onDocs.id))?.lineNumber).toBe(5);
+
+    await editor.removeTask('add-login', '2.2');
+    expect((await reviews.getReview('tasks', 'add-login', onSession.id))?.lineNumber).toBeUndefined();
+  });
+
+  it('should keep task dependencies pointing at the renumbered tasks', async () => {
+    await fs.writeFile(
+      tasksPath,
+      '## 1. Backend\n\n- [ ] **1.1** Schema\n- [ ] **1.2** API\n- [ ] **1.3** Docs (after 1.1, 1.2)\n- [ ] **1.4** Release (after 1.3)\n'
+    );
+
+    await editor.removeTask('add-login', '1.1', { renumber: true });
+    await editor.editTask('add-login', '1.2', { title: 'Write docs' });
+
+    expect((await read()).slice(2)).toEqual([
+      '- [ ] **1.1** API',
+      '- [ ] **1.2** Write docs (after 1.1)',
+      '- [ ] **1.3** Release (after 1.2)',
+      '',
+    ]);
+  });
+
+  it('should keep the reason of an extended state when editing the title', async () => {
+    await fs.writeFile(tasksPath, '## 1. Backend\n\n- [~] **1.1** Legacy import (reason: out of scope) @bob\n');
+
+    const edited = await editor.editTask('add-login', '1.1', { title: 'Legacy import v2' });
+
+    expect(edited.task).toMatchObject({ status: 'cancelled', title: 'Legacy import v2', reason: 'out of scope', assignee: 'bob' });
+    expect((await read())[2]).toBe('- [~] **1.1** Legacy import v2 @bob (reason: out of scope)');
+  });
+});
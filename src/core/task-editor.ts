@@ -0,0 +1,597 @@
+/**
+ * 任务编辑器
+ * 在 tasks.md 中新增、编辑、删除、移动任务，保留原有格式（缩进、**1.2** 写法、行内元数据），可选重新编号
+ *
+ * 编辑后 tasks 评审的行号同步更新，评审定位不会因为插入或删除行而错位；
+ * ID 变化或任务删除后同步改写其他任务中的 (after ...) 依赖
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TaskParser, parseTaskMetadata, rewriteTaskDependencies, writeTaskMetadata } from './task-parser.js';
+import { ReviewManager } from './review-manager.js';
+import { ProjectIndex } from './project-index.js';
+import { taskCheckboxClass } from '../utils/constants.js';
+import { ensureSafeId } from '../utils/ids.js';
+import type { Task, TaskMetadataUpdate } from '../types/openspec.js';
+
+// 任务行：缩进、复选框、可选的 ID（**1.2** 或 1.2）、标题（复选框字符含注册的扩展状态）
+const taskLine = () =>
+  new RegExp(
+    String.raw`^(\s*)(-\s+\[${taskCheckboxClass()}\]\s+)(?:(\*\*)(\d+(?:\.\d+)*)\*\*\s+|(\d+(?:\.\d+)*)\s+)?(.*)$`
+  );
+const HEADING = /^#{2,3}\s+(.+)/;
+const NUMERIC_ID = /^\d+(?:\.\d+)*$/;
+
+/**
+ * 任务位置：章节、父任务，或某个任务之前 / 之后（默认追加到末尾）
+ */
+export interface TaskPosition {
+  section?: string;
+  parentId?: string;
+  afterId?: string;
+  beforeId?: string;
+}
+
+export interface AddTaskOptions extends TaskPosition, TaskMetadataUpdate {
+  title: string;
+  renumber?: boolean;
+}
+
+export interface MoveTaskOptions extends TaskPosition {
+  renumber?: boolean;
+}
+
+/**
+ * 任务编辑结果
+ */
+export interface TaskEditResult {
+  task?: Task;                          // 新增 / 编辑 / 移动后的任务，删除时为被删除的任务
+  removed?: string[];                   // 删除的任务 ID（含子任务）
+  renumbered: Record<string, string>;   // 旧 ID -> 新 ID
+  reviewsUpdated: number;               // 行号已更新的评审数量
+}
+
+export interface TaskEditorOptions {
+  cwd?: string;
+  index?: ProjectIndex;
+}
+
+/**
+ * 文档中的一行，origin 为编辑前的行号（新插入的行没有）
+ */
+interface DocLine {
+  text: string;
+  origin?: number;
+}
+
+/**
+ * 插入位置
+ */
+interface InsertTarget {
+  index: number;
+  indent: string;
+  section: string;
+  parent?: Task;
+  reference?: Task;           // 参照其格式的任务
+  heading?: string;           // 需要新建的章节标题
+}
+
+/**
+ * 单次编辑的结果
+ */
+interface EditOutcome {
+  line?: DocLine;
+  task?: Task;
+  removed?: string[];
+  renamed?: Record<string, string>;
+}
+
+export class TaskEditor {
+  private cwd: string;
+  private parser: TaskParser;
+  private reviews: ReviewManager;
+  private index?: ProjectIndex;
+
+  constructor(options?: TaskEditorOptions) {
+    this.cwd = options?.cwd || process.cwd();
+    this.parser = new TaskParser();
+    this.index = options?.index;
+    this.reviews = new ReviewManager({ cwd: this.cwd, index: options?.index });
+  }
+
+  /**
+   * 获取 openspec 目录路径
+   */
+  private getOpenSpecDir(): string {
+    return path.join(this.cwd, 'openspec');
+  }
+
+  /**
+   * 新增任务（tasks.md 不存在时创建）
+   */
+  async addTask(changeId: string, options: AddTaskOptions): Promise<TaskEditResult> {
+    const title = options.title?.trim();
+    if (!title) {
+      throw new Error('Task title is required');
+    }
+
+    return this.apply(changeId, options.renumber, true, (lines) => {
+      const tasks = this.parseLines(lines);
+      const target = this.resolvePosition(lines, tasks, options);
+      const id = nextTaskId(lines, tasks, target);
+      const metadata: TaskMetadataUpdate = {
+        assignee: options.assignee ?? undefined,
+        estimate: options.estimate ?? undefined,
+        due: options.due ?? undefined,
+        tags: options.tags ?? undefined,
+      };
+      const line: DocLine = {
+        text: writeTaskMetadata(formatTaskLine(lines, target, id, title, tasks), metadata),
+      };
+
+      insertLines(lines, target, [line]);
+      return { line };
+    });
+  }
+
+  /**
+   * 修改任务标题（保留状态、ID、缩进和原有元数据）
+   */
+  async editTask(changeId: string, taskId: string, options: { title: string }): Promise<TaskEditResult> {
+    const title = options.title?.trim();
+    if (!title) {
+      throw new Error('Task title is required');
+    }
+
+    return this.apply(changeId, false, false, (lines) => {
+      const task = findTask(this.parseLines(lines), taskId);
+      const line = lines[task.line - 1];
+      const match = line.text.match(taskLine())!;
+      const prefix = line.text.slice(0, line.text.length - match[6].length);
+
+      // 新标题里没有写的元数据沿用原值
+      const next = parseTaskMetadata(title);
+      const after = !next.dependsOn && task.dependsOn ? ` (after ${task.dependsOn.join(', ')})` : '';
+      line.text = writeTaskMetadata(`${prefix}${title}${after}`, {
+        assignee: next.assignee ? undefined : task.assignee,
+        estimate: next.estimate ? undefined : task.estimate,
+        due: next.due ? undefined : task.due,
+        tags: next.tags ? undefined : task.tags,
+        reason: next.reason ? undefined : task.reason,
+      });
+      return { line };
+    });
+  }
+
+  /**
+   * 删除任务及其子任务
+   */
+  async removeTask(changeId: string, taskId: string, options?: { renumber?: boolean }): Promise<TaskEditResult> {
+    return this.apply(changeId, options?.renumber, false, (lines) => {
+      const tasks = this.parseLines(lines);
+      const task = findTask(tasks, taskId);
+      const end = blockEnd(lines, tasks, task);
+      lines.splice(task.line - 1, end - task.line + 1);
+      return { task, removed: [task.id, ...descendantsOf(tasks, task).map((t) => t.id)] };
+    });
+  }
+
+  /**
+   * 移动任务（连同子任务）到其他章节、父任务下或某个任务前后
+   *
+   * 父任务或章节编号变化时，移动的任务及其子任务按新位置分配 ID
+   */
+  async moveTask(changeId: string, taskId: string, options: MoveTaskOptions): Promise<TaskEditResult> {
+    if (!options.section && !options.parentId && !options.afterId && !options.beforeId) {
+      throw new Error('Target position is required (section, parentId, afterId or beforeId)');
+    }
+
+    return this.apply(changeId, options.renumber, false, (lines) => {
+      const tasks = this.parseLines(lines);
+      const task = findTask(tasks, taskId);
+      const subtree = new Set([task.id, ...descendantsOf(tasks, task).map((t) => t.id)]);
+      for (const id of [options.parentId, options.afterId, options.beforeId]) {
+        if (id && subtree.has(id)) {
+          throw new Error(`Cannot move task ${task.id} relative to itself or its subtasks`);
+        }
+      }
+
+      const indent = lineIndent(lines[task.line - 1].text);
+      const block = lines.splice(task.line - 1, blockEnd(lines, tasks, task) - task.line + 1);
+      const remaining = this.parseLines(lines);
+      const target = this.resolvePosition(lines, remaining, options);
+
+      // 调整缩进
+      const shift = indentWidth(target.indent) - indentWidth(indent);
+      for (const line of block) {
+        if (!line.text.trim()) continue;
+        line.text = shift >= 0
+          ? `${' '.repeat(shift)}${line.text}`
+          : line.text.replace(new RegExp(`^\\s{0,${-shift}}`), '');
+      }
+
+      // 父任务或章节编号变化时重新分配 ID
+      const renamed: Record<string, string> = {};
+      const candidate = NUMERIC_ID.test(task.id) ? nextTaskId(lines, remaining, target) : undefined;
+      if (candidate && idPrefix(candidate) !== idPrefix(task.id)) {
+        for (const line of block) {
+          const id = taskIdOf(line.text);
+          if (id && (id === task.id || id.startsWith(`${task.id}.`))) {
+            renamed[id] = `${candidate}${id.slice(task.id.length)}`;
+            line.text = setTaskId(line.text, renamed[id]);
+          }
+        }
+      }
+
+      insertLines(lines, target, block);
+      return { line: block[0], renamed };
+    });
+  }
+
+  /**
+   * 读取 tasks.md、执行编辑、可选重新编号后写回，并同步评审行号
+   */
+  private async apply(
+    changeId: string,
+    renumber: boolean | undefined,
+    create: boolean,
+    edit: (lines: DocLine[]) => EditOutcome
+  ): Promise<TaskEditResult> {
+    const changeDir = path.join(this.getOpenSpecDir(), 'changes', ensureSafeId(changeId, 'change'));
+    const tasksPath = path.join(changeDir, 'tasks.md');
+
+    let content: string;
+    try {
+      content = await fs.readFile(tasksPath, 'utf-8');
+    } catch {
+      try {
+        await fs.access(changeDir);
+      } catch {
+        throw new Error(`Change not found: ${changeId}`);
+      }
+      if (!create) {
+        throw new Error(`No tasks.md in change: ${changeId}`);
+      }
+      content = `# Tasks for ${changeId}\n`;
+    }
+
+    const lines: DocLine[] = content.split('\n').map((text, i) => ({ text, origin: i + 1 }));
+    const outcome = edit(lines);
+
+    let renumbered = outcome.renamed || {};
+    if (renumber) {
+      // 新增任务的临时 ID 不算重新编号
+      const added = outcome.line && outcome.line.origin === undefined ? taskIdOf(outcome.line.text) : undefined;
+      const changes = renumberTasks(lines, this.parseLines(lines));
+      if (added) delete changes[added];
+      renumbered = Object.fromEntries([
+        ...Object.entries(changes).filter(([id]) => !Object.values(renumbered).includes(id)),
+        ...Object.entries(renumbered).map(([from, to]) => [from, changes[to] || to]),
+      ]);
+    }
+
+    // 依赖跟随新 ID，已删除的任务不再作为前置任务
+    const removed = new Set(outcome.removed || []);
+    if (removed.size > 0 || Object.keys(renumbered).length > 0) {
+      for (const line of lines) {
+        line.text = rewriteTaskDependencies(line.text, (id) => (removed.has(id) ? null : renumbered[id] ?? id));
+      }
+    }
+
+    await fs.writeFile(tasksPath, lines.map((l) => l.text).join('\n'), 'utf-8');
+    this.index?.invalidate(tasksPath);
+
+    // 行号映射：旧行号 -> 新行号（已删除为 null）
+    const lineMap = new Map<number, number | null>();
+    const originals = content.split('\n').length;
+    for (let i = 1; i <= originals; i++) lineMap.set(i, null);
+    lines.forEach((line, i) => {
+      if (line.origin !== undefined) lineMap.set(line.origin, i + 1);
+    });
+    const reviewsUpdated = await this.reviews.remapLineNumbers('tasks', changeId, lineMap);
+
+    const lineNumber = outcome.line ? lines.indexOf(outcome.line) + 1 : 0;
+    const task = lineNumber > 0
+      ? this.parseLines(lines).find((t) => t.line === lineNumber)
+      : outcome.task;
+
+    return {
+      task,
+      ...(outcome.removed ? { removed: outcome.removed } : {}),
+      renumbered,
+      reviewsUpdated,
+    };
+  }
+
+  /**
+   * 解析当前文档中的任务
+   */
+  private parseLines(lines: DocLine[]): Task[] {
+    return this.parser.parseTasksFromContent(lines.map((l) => l.text).join('\n'));
+  }
+
+  /**
+   * 确定插入位置
+   */
+  private resolvePosition(lines: DocLine[], tasks: Task[], position: TaskPosition): InsertTarget {
+    // 某个任务之前 / 之后，与其同级
+    const refId = position.afterId || position.beforeId;
+    if (refId) {
+      const ref = findTask(tasks, refId);
+      if (position.parentId && ref.parentId !== position.parentId) {
+        throw new Error(`Task ${ref.id} is not a subtask of ${position.parentId}`);
+      }
+      return {
+        index: position.afterId ? blockEnd(lines, tasks, ref) : ref.line - 1,
+        indent: lineIndent(lines[ref.line - 1].text),
+        section: ref.section,
+        parent: ref.parentId ? findTask(tasks, ref.parentId) : undefined,
+        reference: ref,
+      };
+    }
+
+    // 父任务的最后一个子任务
+    if (position.parentId) {
+      const parent = findTask(tasks, position.parentId);
+      const children = tasks.filter((t) => t.parentId === parent.id);
+      return {
+        index: blockEnd(lines, tasks, parent),
+        indent: children.length > 0
+          ? lineIndent(lines[children[0].line - 1].text)
+          : `${lineIndent(lines[parent.line - 1].text)}${childIndent(lines, tasks)}`,
+        section: parent.section,
+        parent,
+        reference: children[children.length - 1] || parent,
+      };
+    }
+
+    // 章节末尾：默认为最后一个有任务的章节
+    const headings = lines
+      .map((line, index) => ({ index, title: line.text.match(HEADING)?.[1].trim() }))
+      .filter((h): h is { index: number; title: string } => h.title !== undefined);
+    const name = position.section?.trim() ?? tasks[tasks.length - 1]?.section ?? '';
+    const heading = headings.find((h) => h.title === name)
+      || headings.find((h) => normalizeSection(h.title) === normalizeSection(name));
+
+    if (!heading && (name || tasks.length === 0)) {
+      const numbered = headings.length === 0 || headings.some((h) => /^\d+\.\s/.test(h.title));
+      const title = name || 'Implementation';
+      return {
+        index: lastContentIndex(lines, lines.length),
+        indent: '',
+        section: title,
+        heading: numbered && !/^\d+\.\s/.test(title) ? `${maxSectionNumber(headings, tasks) + 1}. ${title}` : title,
+      };
+    }
+
+    const section = heading?.title ?? '';
+    const roots = tasks.filter((t) => t.section === section && !t.parentId);
+    if (roots.length > 0) {
+      const last = roots[roots.length - 1];
+      return {
+        index: blockEnd(lines, tasks, last),
+        indent: lineIndent(lines[roots[0].line - 1].text),
+        section,
+        reference: last,
+      };
+    }
+
+    const next = headings.find((h) => h.index > (heading?.index ?? -1));
+    return {
+      index: lastContentIndex(lines, next ? next.index : lines.length),
+      indent: '',
+      section,
+    };
+  }
+}
+
+/**
+ * 查找任务
+ */
+function findTask(tasks: Task[], taskId: string): Task {
+  const task = tasks.find((t) => t.id === taskId);
+  if (!task) {
+    throw new Error(`Task ${taskId} not found`);
+  }
+  return task;
+}
+
+/**
+ * 任务的全部子孙任务
+ */
+function descendantsOf(tasks: Task[], task: Task): Task[] {
+  const ids = new Set([task.id]);
+  const result: Task[] = [];
+  for (const t of tasks) {
+    if (t.parentId && ids.has(t.parentId) && t.line > task.line) {
+      ids.add(t.id);
+      result.push(t);
+    }
+  }
+  return result;
+}
+
+/**
+ * 任务块的结束位置（不含）：任务行、子孙任务以及缩进更深的续行
+ */
+function blockEnd(lines: DocLine[], tasks: Task[], task: Task): number {
+  const descendants = new Set(descendantsOf(tasks, task).map((t) => t.line));
+  const byLine = new Set(tasks.map((t) => t.line));
+  const indent = indentWidth(lineIndent(lines[task.line - 1].text));
+  let end = task.line;
+
+  for (let i = task.line; i < lines.length; i++) {
+    const text = lines[i].text;
+    if (HEADING.test(text)) break;
+    if (byLine.has(i + 1)) {
+      if (!descendants.has(i + 1)) break;
+      end = i + 1;
+      continue;
+    }
+    if (!text.trim()) continue;
+    if (indentWidth(lineIndent(text)) <= indent) break;
+    end = i + 1;
+  }
+
+  return end;
+}
+
+/**
+ * 插入行（新章节时先插入标题），在标题后插入时补空行
+ */
+function insertLines(lines: DocLine[], target: InsertTarget, inserted: DocLine[]): void {
+  const before: DocLine[] = [];
+  if (target.heading) {
+    if (target.index > 0 && lines[target.index - 1].text.trim()) before.push({ text: '' });
+    before.push({ text: `## ${target.heading}` }, { text: '' });
+  } else if (target.index > 0 && HEADING.test(lines[target.index - 1].text)) {
+    before.push({ text: '' });
+  }
+  lines.splice(target.index, 0, ...before, ...inserted);
+}
+
+/**
+ * 为新位置分配下一个可用 ID，不使用编号的文档返回 undefined
+ */
+function nextTaskId(lines: DocLine[], tasks: Task[], target: InsertTarget): string | undefined {
+  const numbered = tasks.filter((t) => NUMERIC_ID.test(t.id));
+  if (tasks.length > 0 && numbered.length === 0) return undefined;
+
+  let prefix: string;
+  if (target.parent) {
+    if (!NUMERIC_ID.test(target.parent.id)) return undefined;
+    prefix = target.parent.id;
+  } else {
+    const headingNumber = (target.heading || target.section).match(/^(\d+)\.\s/)?.[1];
+    const sibling = numbered.find((t) => t.section === target.section && !t.parentId);
+    prefix = headingNumber
+      ?? (sibling ? idPrefix(sibling.id) : String(maxSectionNumber([], numbered) + 1));
+  }
+
+  const used = numbered
+    .filter((t) => idPrefix(t.id) === prefix)
+    .map((t) => parseInt(t.id.slice(t.id.lastIndexOf('.') + 1), 10));
+  const next = Math.max(0, ...used) + 1;
+  return prefix ? `${prefix}.${next}` : String(next);
+}
+
+/**
+ * 按文档顺序重新编号：顶层任务按章节编号（或原前缀）连续编号，子任务为父任务 ID 加序号
+ */
+function renumberTasks(lines: DocLine[], tasks: Task[]): Record<string, string> {
+  const renamed: Record<string, string> = {};
+  const newIds = new Map<Task, string>();
+  const counters = new Map<string, number>();
+
+  tasks.forEach((task, index) => {
+    if (!NUMERIC_ID.test(task.id)) return;
+
+    let prefix: string;
+    if (task.parentId) {
+      const parent = tasks.slice(0, index).reverse().find((t) => t.id === task.parentId);
+      if (!parent || !newIds.has(parent)) return;
+      prefix = newIds.get(parent)!;
+    } else {
+      prefix = task.section.match(/^(\d+)\.\s/)?.[1] ?? idPrefix(task.id);
+    }
+
+    const count = (counters.get(prefix) || 0) + 1;
+    counters.set(prefix, count);
+    const id = prefix ? `${prefix}.${count}` : String(count);
+    newIds.set(task, id);
+
+    if (id !== task.id) {
+      renamed[task.id] = id;
+      lines[task.line - 1].text = setTaskId(lines[task.line - 1].text, id);
+    }
+  });
+
+  return renamed;
+}
+
+/**
+ * 按参照任务的写法（**1.2** 或 1.2）生成任务行
+ */
+function formatTaskLine(lines: DocLine[], target: InsertTarget, id: string | undefined, title: string, tasks: Task[]): string {
+  if (!id) return `${target.indent}- [ ] ${title}`;
+  const reference = [target.reference, target.parent, ...tasks].find((t) => t && NUMERIC_ID.test(t.id));
+  const stars = !reference || lines[reference.line - 1].text.match(taskLine())?.[3] === '**';
+  return `${target.indent}- [ ] ${stars ? `**${id}**` : id} ${title}`;
+}
+
+/**
+ * 读取任务行中的 ID
+ */
+function taskIdOf(text: string): string | undefined {
+  const match = text.match(taskLine());
+  return match ? match[4] || match[5] : undefined;
+}
+
+/**
+ * 替换任务行中的 ID，保持原有写法
+ */
+function setTaskId(text: string, id: string): string {
+  return text.replace(taskLine(), (all, indent: string, box: string, stars?: string, starred?: string, plain?: string, rest?: string) => {
+    if (!starred && !plain) return all;
+    return `${indent}${box}${stars ? `**${id}**` : id} ${rest}`;
+  });
+}
+
+/**
+ * ID 的父级前缀（2.3.1 -> 2.3，顶层为空）
+ */
+function idPrefix(id: string): string {
+  return id.includes('.') ? id.slice(0, id.lastIndexOf('.')) : '';
+}
+
+/**
+ * 最大的章节编号（来自章节标题或任务 ID 的第一段）
+ */
+function maxSectionNumber(headings: { title: string }[], tasks: Task[]): number {
+  return Math.max(
+    0,
+    ...headings.map((h) => parseInt(h.title.match(/^(\d+)\.\s/)?.[1] || '0', 10)),
+    ...tasks.filter((t) => NUMERIC_ID.test(t.id)).map((t) => parseInt(t.id, 10))
+  );
+}
+
+/**
+ * 章节名比较时忽略编号和大小写（"2. Implementation" 与 "implementation" 相同）
+ */
+function normalizeSection(title: string): string {
+  return title.replace(/^\d+(?:\.\d+)*\.?\s+/, '').trim().toLowerCase();
+}
+
+/**
+ * end 之前最后一个非空行之后的位置
+ */
+function lastContentIndex(lines: DocLine[], end: number): number {
+  let index = end;
+  while (index > 0 && !lines[index - 1].text.trim()) index--;
+  return index;
+}
+
+/**
+ * 子任务相对父任务的缩进（取文档中已有的写法，默认两个空格）
+ */
+function childIndent(lines: DocLine[], tasks: Task[]): string {
+  for (const task of tasks) {
+    const parent = task.parentId ? tasks.find((t) => t.id === task.parentId) : undefined;
+    if (!parent) continue;
+    const diff = indentWidth(lineIndent(lines[task.line - 1].text)) - indentWidth(lineIndent(lines[parent.line - 1].text));
+    if (diff > 0) return ' '.repeat(diff);
+  }
+  return '  ';
+}
+
+function lineIndent(text: string): string {
+  return text.match(/^\s*/)![0];
+}
+
+/**
+ * 缩进宽度（Tab 按 4 个空格计算）
+ */
+function indentWidth(indent: string): number {
+  return indent.replace(/\t/g, '    ').length;
+}
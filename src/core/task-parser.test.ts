@@ -2,8 +2,12 @@
  * TaskParser 单元测试
  */
 
-import { describe, it, expect } from 'vitest';
-import { TaskParser } from './task-parser.js';
+import { describe, it, expect, afterEach } from 'vitest';
+import { TaskParser, parseTaskMetadata, writeTaskMetadata, filterTasks, findNextTasks } from './task-parser.js';
+import { TASK_STATUSES, describeTaskCheckboxes, registerTaskStates } from '../utils/constants.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
 
 describe('TaskParser', () => {
   const parser = new TaskParser();
@@ -90,6 +94,46 @@ describe('TaskParser', () => {
       expect(tasks[1].section).toBe('Phase 2');
     });
 
+    it('should build a tree from id prefixes and indentation', () => {
+      const content = `
+## 1. Backend
+
+- [x] **1.1** API
+- [x] **1.1.1** Routes
+- [ ] **1.1.2** Handlers
+- [ ] 1.2 Storage
+  - [x] Schema
+  - [-] Migrations
+    - [x] Up
+- [x] **1.3** Docs
+`;
+      const tasks = parser.parseTasksFromContent(content);
+
+      expect(tasks.map((t) => [t.id, t.parentId, t.depth])).toEqual([
+        ['1.1', undefined, 0],
+        ['1.1.1', '1.1', 1],
+        ['1.1.2', '1.1', 1],
+        ['1.2', undefined, 0],
+        ['line-8', '1.2', 1],
+        ['line-9', '1.2', 1],
+        ['line-10', 'line-9', 2],
+        ['1.3', undefined, 0],
+      ]);
+
+      // 父任务状态由子任务推导
+      const status = Object.fromEntries(tasks.map((t) => [t.id, t.status]));
+      expect(status).toMatchObject({ '1.1': 'in_progress', '1.2': 'done', 'line-9': 'done' });
+
+      const tree = parser.buildTaskTree(tasks);
+      expect(tree.map((t) => t.id)).toEqual(['1.1', '1.2', '1.3']);
+      expect(tree[1].children!.map((t) => t.id)).toEqual(['line-8', 'line-9']);
+      expect(tree[1].children![1].children!.map((t) => t.id)).toEqual(['line-10']);
+      // 父任务附带子任务进度（只统计叶子任务）
+      expect(tree[0].progress).toMatchObject({ total: 2, completed: 1, pending: 1 });
+      expect(tree[1].progress).toMatchObject({ total: 2, completed: 2 });
+      expect(tree[2].progress).toBeUndefined();
+    });
+
     it('should return empty array for content with no tasks', () => {
       const content = `
 # Just a title
@@ -127,6 +171,30 @@ Some text without any tasks.
       expect(progress.percentage).toBe(0);
     });
 
+    it('should count leaf tasks only and support weighted progress', () => {
+      const tasks = parser.parseTasksFromContent(`
+- [ ] **1.1** Parent
+- [x] **1.1.1** Child A
+- [ ] **1.1.2** Child B
+- [ ] **1.1.3** Child C
+- [ ] **1.1.4** Child D
+- [x] **1.2** Single task
+`);
+
+      expect(parser.calculateProgress(tasks)).toEqual({
+        total: 5,
+        completed: 2,
+        inProgress: 0,
+        pending: 3,
+        blocked: 0,
+        deferred: 0,
+        cancelled: 0,
+        percentage: 40,
+      });
+      // (1/4 + 1) / 2
+      expect(parser.calculateProgress(tasks, 'weighted').percentage).toBe(63);
+    });
+
     it('should round percentage correctly', () => {
       const tasks = [
         { id: '1.1', section: '', title: 'Task 1', status: 'done' as const, line: 1 },
@@ -138,4 +206,239 @@ Some text without any tasks.
       expect(progress.percentage).toBe(33); // 1/3 = 33.33... rounded to 33
     });
   });
+
+  describe('planStatusUpdate', () => {
+    const tasks = parser.parseTasksFromContent(`
+- [ ] **1.1** Parent
+- [ ] **1.1.1** Child A
+- [ ] **1.1.2** Child B
+  - [ ] Grandchild
+`);
+
+    it('should cascade to subtasks and re-derive ancestors', () => {
+      expect(parser.planStatusUpdate(tasks, '1.1', 'done')).toEqual([
+        { taskId: '1.1', status: 'done' },
+        { taskId: '1.1.1', status: 'done' },
+        { taskId: '1.1.2', status: 'done' },
+        { taskId: 'line-5', status: 'done' },
+      ]);
+
+      expect(parser.planStatusUpdate(tasks, 'line-5', 'done')).toEqual([
+        { taskId: 'line-5', status: 'done' },
+        { taskId: '1.1.2', status: 'done' },
+        { taskId: '1.1', status: 'in_progress' },
+      ]);
+
+      expect(() => parser.planStatusUpdate(tasks, '9.9', 'done')).toThrow('Task 9.9 not found');
+    });
+  });
+
+  describe('task metadata', () => {
+    it('should parse assignee, estimate, due date and tags out of the title', () => {
+      expect(parseTaskMetadata('Add login API @alice ~2d due:2026-11-01 #backend #auth')).toEqual({
+        title: 'Add login API',
+        assignee: 'alice',
+        estimate: '2d',
+        estimateHours: 16,
+        due: '2026-11-01',
+        tags: ['backend', 'auth'],
+      });
+      // @spec 标签、邮箱和 issue 编号不是元数据
+      expect(parseTaskMetadata('Cover @spec auth#AUTH-001 for bob@example.com (#42)')).toEqual({
+        title: 'Cover @spec auth#AUTH-001 for bob@example.com (#42)',
+      });
+
+      const [task] = parser.parseTasksFromContent('- [ ] **1.1** Write docs ~30m @bob');
+      expect(task).toMatchObject({ title: 'Write docs', assignee: 'bob', estimate: '30m', estimateHours: 0.5 });
+    });
+
+    it('should write metadata back without disturbing the rest of the line', () => {
+      const line = '  - [-] **2.1** Add login API @alice ~3h #backend (see design.md)';
+
+      expect(writeTaskMetadata(line, { assignee: 'bob', due: '2026-11-01' })).toBe(
+        '  - [-] **2.1** Add login API @bob ~3h #backend (see design.md) due:2026-11-01'
+      );
+      expect(writeTaskMetadata(line, { estimate: null, tags: ['backend', 'api'] })).toBe(
+        '  - [-] **2.1** Add login API @alice #backend (see design.md) #api'
+      );
+      expect(() => writeTaskMetadata(line, { due: 'next week' })).toThrow('Invalid due date');
+    });
+
+    it('should filter tasks by assignee, tag and overdue', () => {
+      const tasks = parser.parseTasksFromContent(`
+- [x] **1.1** Schema @alice due:2026-01-01 #backend
+- [ ] **1.2** API @Alice due:2026-01-01 #backend
+- [ ] **1.3** UI @bob due:2026-12-01 #frontend
+`);
+      const ids = (filter: Parameters<typeof filterTasks>[1]) => filterTasks(tasks, filter).map((t) => t.id);
+
+      expect(ids({ assignee: '@alice' })).toEqual(['1.1', '1.2']);
+      expect(ids({ tag: 'frontend' })).toEqual(['1.3']);
+      expect(ids({ overdue: true, today: '2026-06-01' })).toEqual(['1.2']);
+      expect(ids({ assignee: 'bob', overdue: true, today: '2026-06-01' })).toEqual([]);
+    });
+  });
+
+  describe('task dependencies', () => {
+    const tasks = parser.parseTasksFromContent(`
+## 1. Backend
+- [x] **1.1** Schema
+- [ ] **1.2** API (after 1.1)
+- [ ] **1.3** Docs (after 1.2, 1.1) @bob
+## 2. Frontend
+- [ ] **2.1** Form (after 1.2)
+  - [ ] **2.1.1** Inputs
+- [-] **2.2** Styles
+`);
+
+    it('should parse after markers and compute blocked tasks', () => {
+      const byId = Object.fromEntries(tasks.map((t) => [t.id, t]));
+
+      expect(byId['1.3']).toMatchObject({ title: 'Docs', dependsOn: ['1.2', '1.1'], assignee: 'bob', blockedBy: ['1.2'] });
+      expect(byId['1.2'].blocked).toBeUndefined();
+      // 子任务继承父任务的前置任务
+      expect(byId['2.1.1']).toMatchObject({ blocked: true, blockedBy: ['1.2'] });
+    });
+
+    it('should list pending leaf tasks whose prerequisites are done', () => {
+      expect(findNextTasks(tasks).map((t) => t.id)).toEqual(['1.2']);
+    });
+  });
+
+  describe('extended task states', () => {
+    const tasks = parser.parseTasksFromContent(`
+- [ ] **1.1** Parent
+  - [x] **1.1.1** Schema
+  - [~] **1.1.2** Legacy import (reason: no longer needed)
+  - [!] **1.1.3** API (reason: waiting on auth team)
+- [>] **1.2** Polish (reason: next release)
+- [ ] **1.3** Docs (after 1.1.2)
+`);
+    const byId = Object.fromEntries(tasks.map((t) => [t.id, t]));
+
+    it('should parse blocked, cancelled and deferred checkboxes with a reason', () => {
+      expect(byId['1.1.2']).toMatchObject({ status: 'cancelled', title: 'Legacy import', reason: 'no longer needed' });
+      expect(byId['1.1.3']).toMatchObject({ status: 'blocked', reason: 'waiting on auth team' });
+      expect(byId['1.2']).toMatchObject({ status: 'deferred', reason: 'next release' });
+      // 已取消的前置任务不再阻塞
+      expect(byId['1.3'].blocked).toBeUndefined();
+
+      expect(writeTaskMetadata('- [!] **1.1** API', { reason: 'waiting on auth' })).toBe(
+        '- [!] **1.1** API (reason: waiting on auth)'
+      );
+      expect(writeTaskMetadata('- [!] **1.1** API (reason: old) @bob', { reason: null })).toBe('- [!] **1.1** API @bob');
+      expect(() => writeTaskMetadata('- [!] **1.1** API', { reason: 'see (1.2)' })).toThrow('Invalid reason');
+    });
+
+    it('should leave cancelled tasks out of progress', () => {
+      expect(parser.calculateProgress(tasks)).toEqual({
+        total: 4,
+        completed: 1,
+        inProgress: 0,
+        pending: 1,
+        blocked: 1,
+        deferred: 1,
+        cancelled: 1,
+        percentage: 25,
+      });
+      // 1.1 = 1/2，(0.5 + 0 + 0) / 3
+      expect(parser.calculateProgress(tasks, 'weighted').percentage).toBe(17);
+    });
+
+    it('should derive parent status and cascade while skipping cancelled subtasks', () => {
+      expect(parser.planStatusUpdate(tasks, '1.1.3', 'done')).toEqual([
+        { taskId: '1.1.3', status: 'done' },
+        { taskId: '1.1', status: 'done' },
+      ]);
+      expect(parser.planStatusUpdate(tasks, '1.1', 'deferred')).toEqual([
+        { taskId: '1.1', status: 'deferred' },
+        { taskId: '1.1.1', status: 'deferred' },
+        { taskId: '1.1.3', status: 'deferred' },
+      ]);
+      expect(parser.planStatusUpdate(tasks, '1.1.1', 'pending')).toEqual([
+        { taskId: '1.1.1', status: 'pending' },
+        { taskId: '1.1', status: 'blocked' },
+      ]);
+    });
+
+    it('should keep parent status updates after re-parsing and reject derived-only states', async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'task-parser-test-'));
+      const tasksPath = path.join(tempDir, 'tasks.md');
+      await fs.writeFile(tasksPath, '- [ ] **1.1** Parent\n  - [ ] **1.1.1** Schema\n  - [ ] **1.1.2** API\n');
+
+      try {
+        for (const status of ['done', 'deferred', 'cancelled', 'pending'] as const) {
+          const current = await parser.parseTasks(tasksPath);
+          await parser.batchUpdateTaskStatus(tasksPath, parser.planStatusUpdate(current, '1.1', status));
+          const reparsed = await parser.parseTasks(tasksPath);
+          expect(reparsed.find((t) => t.id === '1.1')!.status).toBe(status);
+        }
+
+        const current = await parser.parseTasks(tasksPath);
+        expect(() => parser.planStatusUpdate(current, '1.1', 'in_progress')).toThrow('Task 1.1 has subtasks');
+        expect(() => parser.planStatusUpdate(current, '1.1', 'blocked')).toThrow('Task 1.1 has subtasks');
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('configured task states', () => {
+    afterEach(() => registerTaskStates([]));
+
+    it('should parse, count and write registered states', async () => {
+      registerTaskStates([
+        { status: 'needs_review', char: '?', icon: '👀', label: 'Needs review' },
+        { status: 'wont_fix', char: 'w', countsTowardProgress: false },
+      ]);
+
+      expect(TASK_STATUSES).toContain('needs_review');
+      expect(describeTaskCheckboxes()).toBe('[ ], [-], [x], [!], [>], [~], [?] or [w]');
+
+      const tasks = parser.parseTasksFromContent(`
+- [ ] **1.1** Parent
+  - [?] **1.1.1** Schema
+  - [?] **1.1.2** API
+- [w] **1.2** Legacy
+- [x] **1.3** Docs
+`);
+      const byId = Object.fromEntries(tasks.map((t) => [t.id, t]));
+      expect(byId['1.1.1'].status).toBe('needs_review');
+      // 子任务状态全部相同时父任务取该状态
+      expect(byId['1.1'].status).toBe('needs_review');
+
+      expect(parser.calculateProgress(tasks)).toMatchObject({
+        total: 3,
+        completed: 1,
+        otherStatuses: { needs_review: 2, wont_fix: 1 },
+      });
+
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'task-parser-test-'));
+      const tasksPath = path.join(tempDir, 'tasks.md');
+      await fs.writeFile(tasksPath, '- [?] **1.1** Schema\n- [ ] **1.2** API\n');
+      try {
+        await parser.batchUpdateTaskStatus(tasksPath, [{ taskId: '1.2', status: 'wont_fix' }]);
+        expect(await fs.readFile(tasksPath, 'utf-8')).toBe('- [?] **1.1** Schema\n- [w] **1.2** API\n');
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject duplicate or unsafe checkbox characters', () => {
+      expect(() => registerTaskStates([{ status: 'review', char: 'X' }])).toThrow(
+        'Invalid task state "review": checkbox [X] is already used by done'
+      );
+      expect(() => registerTaskStates([{ status: 'done', char: 'd' }])).toThrow('status is already defined');
+      expect(() => registerTaskStates([{ status: 'review', char: '$' }])).toThrow('checkbox must be one printable ASCII');
+      expect(() => registerTaskStates([{ status: 'Review', char: 'r' }])).toThrow('status must be lowercase');
+      expect(() =>
+        registerTaskStates([
+          { status: 'review', char: 'r' },
+          { status: 'rework', char: 'R' },
+        ])
+      ).toThrow('checkbox [R] is already used by review');
+      // 注册失败时保持原有状态
+      expect(TASK_STATUSES).not.toContain('review');
+    });
+  });
 });
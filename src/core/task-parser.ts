@@ -4,7 +4,195 @@
  */
 
 import * as fs from 'fs/promises';
-import type { Task, Progress, TaskStatus } from '../types/openspec.js';
+import type { Task, Progress, ProgressMode, TaskMetadataUpdate, TaskStatus } from '../types/openspec.js';
+import { BUILTIN_TASK_STATES, getTaskState, taskCheckboxClass } from '../utils/constants.js';
+
+// 任务行（checkbox 字符来自 TASK_STATES，含注册的扩展状态，因此每次使用时构建）
+function taskPatterns() {
+  const checkbox = taskCheckboxClass();
+  return {
+    withStars: new RegExp(String.raw`^(\s*)-\s+\[(${checkbox})\]\s+\*\*(\d+(?:\.\d+)*)\*\*\s+(.+)`),
+    noStars: new RegExp(String.raw`^(\s*)-\s+\[(${checkbox})\]\s+(\d+(?:\.\d+)*)\s+(.+)`),
+    simple: new RegExp(String.raw`^(\s*)-\s+\[(${checkbox})\]\s+(.+)`),
+  };
+}
+
+function updatePatterns() {
+  const checkbox = taskCheckboxClass();
+  return {
+    withStars: new RegExp(String.raw`^(\s*-\s+\[)(${checkbox})(\]\s+\*\*)(\d+(?:\.\d+)*)(\*\*.+)`),
+    noStars: new RegExp(String.raw`^(\s*-\s+\[)(${checkbox})(\]\s+)(\d+(?:\.\d+)*)(\s+.+)`),
+    simple: new RegExp(String.raw`^(\s*-\s+\[)(${checkbox})(\]\s+.+)`),
+  };
+}
+
+// 不计入进度的状态（如已取消）
+function isExcluded(status: TaskStatus): boolean {
+  return !getTaskState(status).countsTowardProgress;
+}
+
+// 行内元数据标记：@alice ~3h due:2026-11-01 #backend（前面需有空白）
+const METADATA_TOKENS = {
+  assignee: /(^|\s)@(?!spec\b)([\w.-]*\w)(?=\s|$)/gu,
+  estimate: /(^|\s)~(\d+(?:\.\d+)?)([mhdw])(?=\s|$)/gu,
+  due: /(^|\s)due:(\d{4}-\d{2}-\d{2})(?=\s|$)/gu,
+  tag: /(^|\s)#([\p{L}_][\p{L}\p{N}_/-]*)(?=\s|$)/gu,
+  reason: /(^|\s)\(reason:\s*([^()]*?)\s*\)(?=\s|$)/giu,
+  after: /(^|\s)\(after\s+(\d+(?:\.\d+)*(?:\s*,\s*\d+(?:\.\d+)*)*)\)(?=\s|$)/giu,
+};
+
+const ESTIMATE_HOURS: Record<string, number> = { m: 1 / 60, h: 1, d: 8, w: 40 };
+
+/**
+ * 任务筛选条件
+ */
+export interface TaskFilter {
+  assignee?: string;
+  tag?: string;
+  overdue?: boolean;
+  today?: string;              // YYYY-MM-DD，默认为当天
+}
+
+/**
+ * 解析任务标题中的行内元数据，返回去掉标记后的标题
+ */
+export function parseTaskMetadata(
+  text: string
+): Pick<Task, 'title' | 'assignee' | 'estimate' | 'estimateHours' | 'due' | 'tags' | 'reason' | 'dependsOn'> {
+  const first = (pattern: RegExp) => [...text.matchAll(pattern)][0];
+  const assignee = first(METADATA_TOKENS.assignee);
+  const estimate = first(METADATA_TOKENS.estimate);
+  const due = first(METADATA_TOKENS.due);
+  const reason = first(METADATA_TOKENS.reason);
+  const tags = [...new Set([...text.matchAll(METADATA_TOKENS.tag)].map((m) => m[2]))];
+  const dependsOn = [
+    ...new Set([...text.matchAll(METADATA_TOKENS.after)].flatMap((m) => m[2].split(',').map((id) => id.trim()))),
+  ];
+
+  let title = text;
+  for (const pattern of Object.values(METADATA_TOKENS)) {
+    title = title.replace(pattern, '$1');
+  }
+
+  return {
+    title: title.replace(/\s+/g, ' ').trim(),
+    ...(assignee ? { assignee: assignee[2] } : {}),
+    ...(estimate
+      ? {
+          estimate: `${estimate[2]}${estimate[3]}`,
+          estimateHours: Math.round(parseFloat(estimate[2]) * ESTIMATE_HOURS[estimate[3]] * 100) / 100,
+        }
+      : {}),
+    ...(due ? { due: due[2] } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(reason && reason[2] ? { reason: reason[2] } : {}),
+    ...(dependsOn.length > 0 ? { dependsOn } : {}),
+  };
+}
+
+/**
+ * 改写任务行中 (after ...) 引用的任务 ID，rename 返回 null 时去掉该引用
+ */
+export function rewriteTaskDependencies(line: string, rename: (id: string) => string | null): string {
+  return line.replace(METADATA_TOKENS.after, (match, space: string, ids: string) => {
+    const renamed = ids.split(',').map((id) => rename(id.trim())).filter((id): id is string => id !== null);
+    return renamed.length > 0 ? `${space}(after ${renamed.join(', ')})` : '';
+  });
+}
+
+/**
+ * 将元数据写回任务行：已有标记原地替换，没有则追加到行尾，null 删除，其余文本保持不变
+ */
+export function writeTaskMetadata(line: string, metadata: TaskMetadataUpdate): string {
+  const replaceToken = (text: string, pattern: RegExp, token: string | null): string => {
+    let replaced = false;
+    const result = text.replace(pattern, (match, space: string) => {
+      if (token === null || replaced) return '';
+      replaced = true;
+      return `${space}${token}`;
+    });
+    return replaced || token === null ? result : `${result.trimEnd()} ${token}`;
+  };
+
+  let result = line;
+
+  if (metadata.assignee !== undefined) {
+    const assignee = metadata.assignee?.replace(/^@/, '') ?? null;
+    if (assignee !== null && !/^[\w.-]*\w$/.test(assignee)) {
+      throw new Error(`Invalid assignee: ${metadata.assignee}`);
+    }
+    result = replaceToken(result, METADATA_TOKENS.assignee, assignee === null ? null : `@${assignee}`);
+  }
+
+  if (metadata.estimate !== undefined) {
+    const estimate = metadata.estimate?.replace(/^~/, '') ?? null;
+    if (estimate !== null && !/^\d+(?:\.\d+)?[mhdw]$/.test(estimate)) {
+      throw new Error(`Invalid estimate: ${metadata.estimate} (use e.g. 30m, 3h, 2d, 1w)`);
+    }
+    result = replaceToken(result, METADATA_TOKENS.estimate, estimate === null ? null : `~${estimate}`);
+  }
+
+  if (metadata.due !== undefined) {
+    if (metadata.due !== null && !/^\d{4}-\d{2}-\d{2}$/.test(metadata.due)) {
+      throw new Error(`Invalid due date: ${metadata.due} (use YYYY-MM-DD)`);
+    }
+    result = replaceToken(result, METADATA_TOKENS.due, metadata.due === null ? null : `due:${metadata.due}`);
+  }
+
+  if (metadata.reason !== undefined) {
+    const reason = metadata.reason?.trim() || null;
+    if (reason !== null && /[()\n]/.test(reason)) {
+      throw new Error(`Invalid reason: ${metadata.reason} (parentheses and line breaks are not allowed)`);
+    }
+    result = replaceToken(result, METADATA_TOKENS.reason, reason === null ? null : `(reason: ${reason})`);
+  }
+
+  if (metadata.tags !== undefined) {
+    const tags = (metadata.tags || []).map((t) => t.replace(/^#/, ''));
+    const invalid = tags.find((t) => !/^[\p{L}_][\p{L}\p{N}_/-]*$/u.test(t));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid tag: ${invalid}`);
+    }
+
+    // 保留仍在列表中的标签，删除其余标签，追加新标签
+    const kept = new Set<string>();
+    result = result.replace(METADATA_TOKENS.tag, (match, space: string, tag: string) => {
+      if (!tags.includes(tag) || kept.has(tag)) return '';
+      kept.add(tag);
+      return match;
+    });
+    const added = tags.filter((t) => !kept.has(t));
+    if (added.length > 0) {
+      result = `${result.trimEnd()} ${added.map((t) => `#${t}`).join(' ')}`;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 下一步可做的任务：未开始、没有被前置任务阻塞的叶子任务（按文档顺序）
+ */
+export function findNextTasks(tasks: Task[]): Task[] {
+  const parents = new Set(tasks.map((t) => t.parentId).filter(Boolean));
+  return tasks.filter((t) => !parents.has(t.id) && t.status === 'pending' && !t.blocked);
+}
+
+/**
+ * 按负责人、标签、是否逾期筛选任务（逾期：截止日期早于今天且未完成）
+ */
+export function filterTasks(tasks: Task[], filter: TaskFilter): Task[] {
+  const today = filter.today || new Date().toISOString().slice(0, 10);
+  const assignee = filter.assignee?.replace(/^@/, '').toLowerCase();
+  const tag = filter.tag?.replace(/^#/, '').toLowerCase();
+
+  return tasks.filter((task) => {
+    if (assignee && task.assignee?.toLowerCase() !== assignee) return false;
+    if (tag && !task.tags?.some((t) => t.toLowerCase() === tag)) return false;
+    if (filter.overdue && !(task.due && task.due < today && !isSettled(task.status))) return false;
+    return true;
+  });
+}
 
 export class TaskParser {
   /**
@@ -18,6 +206,9 @@ export class TaskParser {
    * 任务 ID 格式：
    * - **1.1** 任务描述
    * - **2.3.1** 子任务描述
+   *
+   * 层级：2.3.1 的父任务为 2.3（ID 前缀），没有前缀匹配时按缩进确定；
+   * 父任务的状态由子任务推导
    */
   async parseTasks(tasksPath: string): Promise<Task[]> {
     const content = await fs.readFile(tasksPath, 'utf-8');
@@ -25,11 +216,13 @@ export class TaskParser {
   }
 
   /**
-   * 从内容解析任务
+   * 从内容解析任务，按文档顺序返回全部任务（含 parentId / depth）
    */
   parseTasksFromContent(content: string): Task[] {
     const lines = content.split('\n');
+    const patterns = taskPatterns();
     const tasks: Task[] = [];
+    const indents: number[] = [];
     let currentSection = '';
 
     for (let i = 0; i < lines.length; i++) {
@@ -47,16 +240,17 @@ export class TaskParser {
       // 格式1: - [x] **1.1** 任务描述 (有 ** 包围)
       // 格式2: - [x] 1.1 任务描述 (无 ** 包围)
       const taskMatchWithStars = line.match(
-        /^(\s*)-\s+\[([ x-])\]\s+\*\*(\d+(?:\.\d+)*)\*\*\s+(.+)/
+        patterns.withStars
       );
 
       if (taskMatchWithStars) {
         const [, indent, statusChar, id, title] = taskMatchWithStars;
 
+        indents.push(indentWidth(indent));
         tasks.push({
           id,
           section: currentSection,
-          title: title.trim(),
+          ...parseTaskMetadata(title),
           status: this.parseStatus(statusChar),
           line: lineNum,
         });
@@ -65,16 +259,17 @@ export class TaskParser {
 
       // 格式2: - [x] 1.1 任务描述 (无 ** 包围，但有数字 ID)
       const taskMatchNoStars = line.match(
-        /^(\s*)-\s+\[([ x-])\]\s+(\d+(?:\.\d+)*)\s+(.+)/
+        patterns.noStars
       );
 
       if (taskMatchNoStars) {
         const [, indent, statusChar, id, title] = taskMatchNoStars;
 
+        indents.push(indentWidth(indent));
         tasks.push({
           id,
           section: currentSection,
-          title: title.trim(),
+          ...parseTaskMetadata(title),
           status: this.parseStatus(statusChar),
           line: lineNum,
         });
@@ -83,122 +278,243 @@ export class TaskParser {
 
       // 检测简单任务项（无 ID）
       // 格式: - [ ] 任务描述
-      const simpleTaskMatch = line.match(/^(\s*)-\s+\[([ x-])\]\s+(.+)/);
+      const simpleTaskMatch = line.match(patterns.simple);
       if (simpleTaskMatch && !simpleTaskMatch[3].startsWith('**')) {
         const [, indent, statusChar, title] = simpleTaskMatch;
 
         // 为简单任务生成一个基于行号的 ID
+        indents.push(indentWidth(indent));
         tasks.push({
           id: `line-${lineNum}`,
           section: currentSection,
-          title: title.trim(),
+          ...parseTaskMetadata(title),
           status: this.parseStatus(statusChar),
           line: lineNum,
         });
       }
     }
 
+    this.linkParents(tasks, indents);
+    this.deriveParentStatus(tasks);
+    this.resolveDependencies(tasks);
     return tasks;
   }
 
   /**
-   * 解析状态字符
+   * 计算阻塞状态：自身或祖先任务的前置任务未完成（含不存在的任务）时为 blocked；
+   * 已取消的前置任务不再等待
    */
-  private parseStatus(char: string): TaskStatus {
-    switch (char) {
-      case 'x':
-        return 'done';
-      case '-':
-        return 'in_progress';
-      default:
-        return 'pending';
+  private resolveDependencies(tasks: Task[]): void {
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+    const unfinished = (task: Task) =>
+      (task.dependsOn || []).filter((id) => !isSettled(byId.get(id)?.status));
+
+    for (const task of tasks) {
+      const blockedBy = new Set<string>();
+      const seen = new Set<string>();
+      for (let current: Task | undefined = task; current && !seen.has(current.id); current = byId.get(current.parentId || '')) {
+        seen.add(current.id);
+        unfinished(current).forEach((id) => blockedBy.add(id));
+      }
+
+      if (blockedBy.size > 0 && !isSettled(task.status)) {
+        task.blocked = true;
+        task.blockedBy = [...blockedBy];
+      }
     }
   }
 
   /**
-   * 获取状态字符
+   * 确定父任务：优先 ID 前缀（2.3.1 -> 2.3），其次同一章节内缩进更小的上一个任务
    */
-  private getStatusChar(status: TaskStatus): string {
-    switch (status) {
-      case 'done':
-        return 'x';
-      case 'in_progress':
-        return '-';
-      default:
-        return ' ';
+  private linkParents(tasks: Task[], indents: number[]): void {
+    const byId = new Map<string, Task>();
+    let stack: { indent: number; task: Task }[] = [];
+    let section: string | undefined;
+
+    tasks.forEach((task, index) => {
+      const indent = indents[index];
+      if (task.section !== section) {
+        section = task.section;
+        stack = [];
+      }
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+
+      const prefix = task.id.includes('.') ? task.id.slice(0, task.id.lastIndexOf('.')) : '';
+      const parent = (prefix && byId.get(prefix)) || stack[stack.length - 1]?.task;
+      if (parent) {
+        task.parentId = parent.id;
+      }
+      task.depth = parent ? (parent.depth || 0) + 1 : 0;
+
+      byId.set(task.id, task);
+      stack.push({ indent, task });
+    });
+  }
+
+  /**
+   * 父任务状态由子任务推导（子任务在父任务之后，倒序处理即可自底向上）
+   */
+  private deriveParentStatus(tasks: Task[]): void {
+    const children = groupChildren(tasks);
+    for (const task of [...tasks].reverse()) {
+      const own = children.get(task.id);
+      if (own) {
+        task.status = deriveStatus(own.map((c) => c.status));
+      }
     }
   }
 
   /**
-   * 计算进度
+   * 将平铺的任务列表组装为树（返回顶层任务，子任务在 children 中，父任务附带子任务进度）
    */
-  calculateProgress(tasks: Task[]): Progress {
-    const total = tasks.length;
-    const completed = tasks.filter((t) => t.status === 'done').length;
-    const inProgress = tasks.filter((t) => t.status === 'in_progress').length;
-    const pending = tasks.filter((t) => t.status === 'pending').length;
+  buildTaskTree(tasks: Task[]): Task[] {
+    const nodes = new Map(tasks.map((t) => [t.id, { ...t, children: [] as Task[] }]));
+    const roots: Task[] = [];
+
+    for (const task of tasks) {
+      const node = nodes.get(task.id)!;
+      const parent = task.parentId ? nodes.get(task.parentId) : undefined;
+      if (parent) {
+        parent.children!.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
 
-    return {
-      total,
-      completed,
-      inProgress,
-      pending,
-      percentage: total > 0 ? Math.round((completed / total) * 100) : 0,
-    };
+    const descendants = (task: Task): Task[] => task.children!.flatMap((c) => [c, ...descendants(c)]);
+    for (const node of nodes.values()) {
+      if (node.children.length > 0) {
+        node.progress = this.calculateProgress(descendants(node));
+      }
+    }
+
+    return roots;
   }
 
   /**
-   * 更新任务状态
+   * 计算更新任务状态时需要写入的全部任务：
+   * 完成 / 重置 / 取消 / 延后父任务时子任务一起更新，祖先任务按子任务重新推导；
+   * 父任务不能直接设为进行中或阻塞
    */
-  async updateTaskStatus(
-    tasksPath: string,
-    taskId: string,
-    newStatus: TaskStatus
-  ): Promise<void> {
-    const content = await fs.readFile(tasksPath, 'utf-8');
-    const lines = content.split('\n');
-    const statusChar = this.getStatusChar(newStatus);
-    let found = false;
+  planStatusUpdate(tasks: Task[], taskId: string, status: TaskStatus): { taskId: string; status: TaskStatus }[] {
+    const target = tasks.find((t) => t.id === taskId);
+    if (!target) {
+      throw new Error(`Task ${taskId} not found`);
+    }
 
-    for (let i = 0; i < lines.length; i++) {
-      // 匹配带 ** 的任务 ID
-      const taskMatchWithStars = lines[i].match(
-        /^(\s*-\s+\[)([ x-])(\]\s+\*\*)(\d+(?:\.\d+)*)(\*\*.+)/
-      );
+    const children = groupChildren(tasks);
+    // 父任务状态由子任务推导，单独写入进行中 / 阻塞会在下次解析时被覆盖
+    if (children.has(taskId) && (status === 'in_progress' || status === 'blocked')) {
+      throw new Error(`Task ${taskId} has subtasks and its status follows them; set ${status} on a subtask instead`);
+    }
 
-      if (taskMatchWithStars && taskMatchWithStars[4] === taskId) {
-        lines[i] = `${taskMatchWithStars[1]}${statusChar}${taskMatchWithStars[3]}${taskMatchWithStars[4]}${taskMatchWithStars[5]}`;
-        found = true;
-        break;
+    const statuses = new Map(tasks.map((t) => [t.id, t.status]));
+    const updates = new Map<string, TaskStatus>([[taskId, status]]);
+
+    // 进行中和阻塞只作用于自身；其余状态连同子任务一起更新
+    // （已取消的子任务保持不变，除非恢复的是已取消的父任务，否则父任务会被重新推导为已取消）
+    if (status !== 'in_progress' && status !== 'blocked') {
+      const revive = target.status === 'cancelled';
+      const queue = [...(children.get(taskId) || [])];
+      while (queue.length > 0) {
+        const child = queue.shift()!;
+        if (child.status === 'cancelled' && status !== 'cancelled' && !revive) continue;
+        updates.set(child.id, status);
+        queue.push(...(children.get(child.id) || []));
       }
+    }
+    for (const [id, value] of updates) statuses.set(id, value);
+
+    let parentId = target.parentId;
+    while (parentId) {
+      const derived = deriveStatus((children.get(parentId) || []).map((c) => statuses.get(c.id)!));
+      statuses.set(parentId, derived);
+      updates.set(parentId, derived);
+      parentId = tasks.find((t) => t.id === parentId)?.parentId;
+    }
 
-      // 匹配无 ** 的任务 ID
-      const taskMatchNoStars = lines[i].match(
-        /^(\s*-\s+\[)([ x-])(\]\s+)(\d+(?:\.\d+)*)(\s+.+)/
-      );
+    return [...updates].map(([id, value]) => ({ taskId: id, status: value }));
+  }
 
-      if (taskMatchNoStars && taskMatchNoStars[4] === taskId) {
-        lines[i] = `${taskMatchNoStars[1]}${statusChar}${taskMatchNoStars[3]}${taskMatchNoStars[4]}${taskMatchNoStars[5]}`;
-        found = true;
-        break;
-      }
+  /**
+   * 解析状态字符
+   */
+  private parseStatus(char: string): TaskStatus {
+    return getTaskState(char).status;
+  }
 
-      // 匹配基于行号的任务 ID
-      if (taskId === `line-${i + 1}`) {
-        const simpleMatch = lines[i].match(/^(\s*-\s+\[)([ x-])(\]\s+.+)/);
-        if (simpleMatch) {
-          lines[i] = `${simpleMatch[1]}${statusChar}${simpleMatch[3]}`;
-          found = true;
-          break;
-        }
-      }
+  /**
+   * 获取状态字符
+   */
+  private getStatusChar(status: TaskStatus): string {
+    return getTaskState(status).char;
+  }
+
+  /**
+   * 计算进度
+   *
+   * 计数只包含叶子任务，不计入进度的状态（如已取消）不算在 total 中；
+   * percentage 在 leaf 模式下为完成的叶子任务占比，
+   * weighted 模式下为顶层任务完成度的平均值（父任务取子任务完成度的平均值）
+   */
+  calculateProgress(tasks: Task[], mode: ProgressMode = 'leaf'): Progress {
+    const children = groupChildren(tasks);
+    const leaves = tasks.filter((t) => !children.has(t.id));
+    const count = (status: TaskStatus) => leaves.filter((t) => t.status === status).length;
+
+    const total = leaves.filter((t) => !isExcluded(t.status)).length;
+    const completed = count('done');
+
+    let percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
+    if (mode === 'weighted') {
+      const counted = (list: Task[]) => list.filter((t) => !isExcluded(t.status));
+      const completion = (task: Task): number => {
+        const own = counted(children.get(task.id) || []);
+        if (!children.has(task.id)) return task.status === 'done' ? 1 : 0;
+        return own.length > 0 ? own.reduce((sum, c) => sum + completion(c), 0) / own.length : 0;
+      };
+      const ids = new Set(tasks.map((t) => t.id));
+      const roots = counted(tasks.filter((t) => !t.parentId || !ids.has(t.parentId)));
+      percentage = roots.length > 0
+        ? Math.round((roots.reduce((sum, t) => sum + completion(t), 0) / roots.length) * 100)
+        : 0;
     }
 
-    if (!found) {
+    const builtin = new Set<TaskStatus>(BUILTIN_TASK_STATES.map((s) => s.status));
+    const others = leaves.filter((t) => !builtin.has(t.status));
+    const otherStatuses = others.length > 0
+      ? Object.fromEntries([...new Set(others.map((t) => t.status))].map((status) => [status, count(status)]))
+      : undefined;
+
+    return {
+      total,
+      completed,
+      inProgress: count('in_progress'),
+      pending: count('pending'),
+      blocked: count('blocked'),
+      deferred: count('deferred'),
+      cancelled: count('cancelled'),
+      percentage,
+      ...(otherStatuses ? { otherStatuses } : {}),
+    };
+  }
+
+  /**
+   * 写回任务的行内元数据（负责人、估时、截止日期、标签）
+   */
+  async updateTaskMetadata(tasksPath: string, taskId: string, metadata: TaskMetadataUpdate): Promise<Task> {
+    const content = await fs.readFile(tasksPath, 'utf-8');
+    const task = this.parseTasksFromContent(content).find((t) => t.id === taskId);
+    if (!task) {
       throw new Error(`Task ${taskId} not found`);
     }
 
+    const lines = content.split('\n');
+    lines[task.line - 1] = writeTaskMetadata(lines[task.line - 1], metadata);
     await fs.writeFile(tasksPath, lines.join('\n'), 'utf-8');
+
+    return this.parseTasksFromContent(lines.join('\n')).find((t) => t.line === task.line)!;
   }
 
   /**
@@ -210,6 +526,7 @@ export class TaskParser {
   ): Promise<void> {
     const content = await fs.readFile(tasksPath, 'utf-8');
     let lines = content.split('\n');
+    const patterns = updatePatterns();
 
     for (const { taskId, status } of updates) {
       const statusChar = this.getStatusChar(status);
@@ -217,7 +534,7 @@ export class TaskParser {
       for (let i = 0; i < lines.length; i++) {
         // 匹配带 ** 的任务 ID
         const taskMatchWithStars = lines[i].match(
-          /^(\s*-\s+\[)([ x-])(\]\s+\*\*)(\d+(?:\.\d+)*)(\*\*.+)/
+          patterns.withStars
         );
 
         if (taskMatchWithStars && taskMatchWithStars[4] === taskId) {
@@ -227,7 +544,7 @@ export class TaskParser {
 
         // 匹配无 ** 的任务 ID
         const taskMatchNoStars = lines[i].match(
-          /^(\s*-\s+\[)([ x-])(\]\s+)(\d+(?:\.\d+)*)(\s+.+)/
+          patterns.noStars
         );
 
         if (taskMatchNoStars && taskMatchNoStars[4] === taskId) {
@@ -236,7 +553,7 @@ export class TaskParser {
         }
 
         if (taskId === `line-${i + 1}`) {
-          const simpleMatch = lines[i].match(/^(\s*-\s+\[)([ x-])(\]\s+.+)/);
+          const simpleMatch = lines[i].match(patterns.simple);
           if (simpleMatch) {
             lines[i] = `${simpleMatch[1]}${statusChar}${simpleMatch[3]}`;
             break;
@@ -248,3 +565,45 @@ export class TaskParser {
     await fs.writeFile(tasksPath, lines.join('\n'), 'utf-8');
   }
 }
+
+/**
+ * 按 parentId 分组子任务
+ */
+function groupChildren(tasks: Task[]): Map<string, Task[]> {
+  const children = new Map<string, Task[]>();
+  for (const task of tasks) {
+    if (!task.parentId) continue;
+    const list = children.get(task.parentId) || [];
+    list.push(task);
+    children.set(task.parentId, list);
+  }
+  return children;
+}
+
+/**
+ * 由子任务状态推导父任务状态（忽略已取消的子任务）：
+ * 状态全部相同时取该状态（如全部完成为 done、全部延后为 deferred，扩展状态同理），
+ * 否则有已完成或进行中的为 in_progress，有阻塞的为 blocked，其余为 pending；子任务全部取消时为 cancelled
+ */
+function deriveStatus(statuses: TaskStatus[]): TaskStatus {
+  const active = statuses.filter((s) => !isExcluded(s));
+  if (active.length === 0) return statuses[0] ?? 'pending';
+  if (active.every((s) => s === active[0])) return active[0];
+  if (active.some((s) => s === 'done' || s === 'in_progress')) return 'in_progress';
+  if (active.includes('blocked')) return 'blocked';
+  return 'pending';
+}
+
+/**
+ * 已完成或不再计入进度（如已取消）的任务不需要再等待
+ */
+function isSettled(status: TaskStatus | undefined): boolean {
+  return status === 'done' || (status !== undefined && isExcluded(status));
+}
+
+/**
+ * 缩进宽度（Tab 按 4 个空格计算）
+ */
+function indentWidth(indent: string): number {
+  return indent.replace(/\t/g, '    ').length;
+}
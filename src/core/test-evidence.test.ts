@@ -0,0 +1,149 @@
+/**
+ * TestEvidenceManager 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TestEvidenceManager, parseJUnit, parseTap, detectEvidenceFormat } from './test-evidence.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const DELTA = `## ADDED Requirements
+
+### Requirement: Login {#AUTH-001}
+The system SHALL accept a password.
+
+#### Scenario: Valid password
+- **WHEN** the password matches
+- **THEN** a session is created
+
+#### Scenario: Wrong password
+- **WHEN** the password does not match
+- **THEN** an error is shown
+
+### Requirement: Session expiry
+The system SHALL expire idle sessions.
+
+#### Scenario: Idle timeout
+- **WHEN** a session is idle
+- **THEN** it expires
+
+## REMOVED Requirements
+
+### Requirement: Remember me
+**Reason**: Replaced by session expiry
+`;
+
+const JUNIT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="src/auth.test.ts" tests="4">
+    <testcase classname="src/auth.test.ts" name="Auth &gt; Requirement: Login &gt; Scenario: Valid password" time="0.01"/>
+    <testcase classname="src/auth.test.ts" name="rejects bad input">
+      <properties><property name="spec" value="auth#AUTH-001/wrong-password"/></properties>
+      <failure message="expected 401 to be 403">AssertionError</failure>
+    </testcase>
+    <testcase classname="src/auth.test.ts" name="unrelated test"/>
+    <testcase classname="src/auth.test.ts" name="Idle timeout">
+      <skipped/>
+    </testcase>
+  </testsuite>
+</testsuites>
+`;
+
+const TAP = `TAP version 13
+# Subtest: Session expiry
+    # Subtest: Idle timeout
+    ok 1 - Idle timeout
+      ---
+      duration_ms: 0.4
+      ...
+    1..1
+ok 1 - Session expiry
+# Subtest: login
+    ok 1 - @spec auth#AUTH-001/wrong-password rejects bad input
+    ok 2 - pending case # TODO not written
+    1..2
+ok 2 - login
+1..2
+`;
+
+describe('TestEvidenceManager', () => {
+  let tempDir: string;
+  let manager: TestEvidenceManager;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'test-evidence-test-'));
+    manager = new TestEvidenceManager({ cwd: tempDir });
+
+    const changeDir = path.join(tempDir, 'openspec', 'changes', 'add-login');
+    await fs.mkdir(path.join(changeDir, 'specs', 'auth'), { recursive: true });
+    await fs.writeFile(path.join(changeDir, 'proposal.md'), '# Add login\n\n## Why\nUsers need to sign in.\n');
+    await fs.writeFile(path.join(changeDir, 'specs', 'auth', 'spec.md'), DELTA);
+    await fs.mkdir(path.join(tempDir, 'reports'), { recursive: true });
+    await fs.writeFile(path.join(tempDir, 'reports', 'junit.xml'), JUNIT);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should parse JUnit XML and TAP reports', () => {
+    expect(detectEvidenceFormat(JUNIT)).toBe('junit');
+    expect(detectEvidenceFormat(TAP)).toBe('tap');
+    expect(detectEvidenceFormat('hello')).toBeNull();
+
+    const junit = parseJUnit(JUNIT);
+    expect(junit.map((c) => c.outcome)).toEqual(['passed', 'failed', 'passed', 'skipped']);
+    expect(junit[0].name).toBe('Auth > Requirement: Login > Scenario: Valid password');
+    expect(junit[1]).toMatchObject({ tags: ['auth#AUTH-001/wrong-password'], message: 'expected 401 to be 403' });
+
+    // 有子测试的父级不计为用例
+    expect(parseTap(TAP)).toEqual([
+      { name: 'Idle timeout', suite: 'Session expiry', outcome: 'passed', tags: [] },
+      {
+        name: '@spec auth#AUTH-001/wrong-password rejects bad input',
+        suite: 'login',
+        outcome: 'passed',
+        tags: ['auth#AUTH-001/wrong-password'],
+      },
+      { name: 'pending case', suite: 'login', outcome: 'skipped', tags: [] },
+    ]);
+  });
+
+  it('should map test cases to change scenarios by tag and name', async () => {
+    const { run, verification } = await manager.attach('add-login', { file: 'reports/junit.xml' });
+
+    expect(run).toMatchObject({ format: 'junit', source: 'reports/junit.xml', total: 4, matched: 3 });
+    expect(run.unmatched).toEqual(['src/auth.test.ts > unrelated test']);
+    expect(verification).toMatchObject({ total: 3, verified: 1, failed: 1, skipped: 1, missing: 0 });
+    expect(verification.summary).toBe('1/3 scenarios verified, 1 failing');
+    expect(verification.scenarios.map((s) => [s.scenario, s.status])).toEqual([
+      ['Valid password', 'passed'],
+      ['Wrong password', 'failed'],
+      ['Idle timeout', 'skipped'],
+    ]);
+
+    const saved = JSON.parse(
+      await fs.readFile(path.join(tempDir, 'openspec/changes/add-login/evidence.json'), 'utf-8')
+    );
+    expect(Object.keys(saved.scenarios)).toContain('auth#session-expiry/idle-timeout');
+
+    for (const id of ['..', '.', '../add-login']) {
+      await expect(manager.attach(id, { content: 'ok 1 - x' })).rejects.toThrow('Invalid change id');
+    }
+  });
+
+  it('should let later runs override earlier results per scenario', async () => {
+    await manager.attach('add-login', { content: JUNIT });
+    await manager.attach('add-login', { content: TAP, attachedBy: 'ci' });
+
+    const verification = await manager.getVerification('add-login');
+    expect(verification.summary).toBe('3/3 scenarios verified');
+    expect(verification.runs.map((r) => r.format)).toEqual(['junit', 'tap']);
+    expect(await manager.hasEvidence('add-login')).toBe(true);
+
+    await expect(manager.attach('missing', { content: TAP })).rejects.toThrow('Change not found');
+    await expect(manager.attach('add-login', { content: 'hello' })).rejects.toThrow('Unsupported test report format');
+    await expect(manager.attach('add-login', { file: '../outside.xml' })).rejects.toThrow('inside the project');
+  });
+});
@@ -0,0 +1,503 @@
+/**
+ * 测试证据
+ * 导入 JUnit XML / TAP 测试结果，将测试用例映射到变更中的规格场景，记录每个变更的验证状态
+ *
+ * 映射规则（按顺序）：
+ * 1. 测试名称、套件名称或 JUnit property 中的 @spec 标签，如 @spec auth#AUTH-001/valid-password
+ * 2. 命名约定：测试全名（套件 + 名称）中包含场景名称，如 "Auth > Requirement: Login > Scenario: Valid password"
+ *    或 Go 的 "TestLogin/Valid_password"；只带需求的标签会把候选范围缩小到该需求的场景
+ *
+ * 验证状态保存在 openspec/changes/<id>/evidence.json，后导入的结果覆盖同一场景之前的状态
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { OpenSpecCli } from './openspec-cli.js';
+import { ProjectIndex } from './project-index.js';
+import { findSpecTags, parseSpecTag } from './traceability.js';
+import { formatSpecTag } from './test-generator.js';
+import { slugify } from '../utils/markdown.js';
+import { ensureSafeId } from '../utils/ids.js';
+
+export type EvidenceFormat = 'junit' | 'tap';
+
+export const EVIDENCE_FORMATS: EvidenceFormat[] = ['junit', 'tap'];
+
+export type TestOutcome = 'passed' | 'failed' | 'skipped';
+
+export type ScenarioVerificationStatus = TestOutcome | 'missing';
+
+/**
+ * 测试结果中的一个用例
+ */
+export interface TestCaseResult {
+  name: string;
+  suite?: string;              // JUnit classname / TAP 父级子测试
+  outcome: TestOutcome;
+  tags: string[];              // @spec 标签引用
+  message?: string;            // 失败信息
+}
+
+/**
+ * 一次导入的测试结果
+ */
+export interface EvidenceRun {
+  id: string;
+  format: EvidenceFormat;
+  source: string;              // 文件路径或 "upload"
+  attachedAt: string;
+  attachedBy: string;
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  matched: number;             // 映射到场景的用例数
+  unmatched: string[];         // 未映射到场景的用例名称
+}
+
+/**
+ * 场景的验证状态
+ */
+export interface ScenarioEvidence {
+  specId: string;
+  requirement: string;
+  scenario: string;
+  tag: string;                 // 场景的 @spec 引用
+  status: ScenarioVerificationStatus;
+  tests: string[];
+  runId?: string;
+  updatedAt?: string;
+}
+
+/**
+ * 变更的验证状态
+ */
+export interface ChangeVerification {
+  changeId: string;
+  total: number;
+  verified: number;
+  failed: number;
+  skipped: number;
+  missing: number;
+  summary: string;             // 如 "12/14 scenarios verified"
+  scenarios: ScenarioEvidence[];
+  runs: EvidenceRun[];
+}
+
+/**
+ * evidence.json 文件结构
+ */
+interface EvidenceFile {
+  changeId: string;
+  runs: EvidenceRun[];
+  scenarios: Record<string, { status: TestOutcome; tests: string[]; runId: string; updatedAt: string }>;
+}
+
+export interface TestEvidenceOptions {
+  cwd?: string;
+  cli?: OpenSpecCli;
+  index?: ProjectIndex;        // 共享的项目索引（不传则不缓存）
+}
+
+const MAX_RUNS = 20;
+const MAX_UNMATCHED = 50;
+
+/**
+ * 根据内容判断测试结果格式
+ */
+export function detectEvidenceFormat(content: string): EvidenceFormat | null {
+  const text = content.trimStart();
+  if (/^(<\?xml|<testsuites?\b)/.test(text) || /<testcase\b/.test(text)) return 'junit';
+  if (/^TAP version \d+/m.test(text) || /^\s*(not )?ok\b/m.test(text)) return 'tap';
+  return null;
+}
+
+/**
+ * 解析 JUnit XML（testsuite / testcase / failure / error / skipped / property）
+ */
+export function parseJUnit(xml: string): TestCaseResult[] {
+  const text = xml.replace(/<!--[\s\S]*?-->/g, '');
+  const results: TestCaseResult[] = [];
+
+  for (const match of text.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+    const attrs = parseAttributes(match[1]);
+    const body = (match[2] || '').replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '');
+    const name = attrs.name || '';
+
+    const failure = body.match(/<(failure|error)\b([^>]*)>/);
+    const outcome: TestOutcome = failure ? 'failed' : /<skipped\b/.test(body) ? 'skipped' : 'passed';
+
+    const tags = findSpecTags(`${attrs.classname || ''} ${name}`);
+    for (const property of body.matchAll(/<property\b([^>]*?)\/?>/g)) {
+      const { name: key, value } = parseAttributes(property[1]);
+      if (!value || !/^(spec|specs|tag|tags)$/i.test(key || '')) continue;
+      for (const tag of value.split(/[\s,]+/).filter(Boolean)) {
+        tags.push(...(tag.startsWith('@spec') ? findSpecTags(tag) : [tag.replace(/^spec:/, '')]));
+      }
+    }
+
+    const message = failure ? parseAttributes(failure[2]).message : undefined;
+    results.push({
+      name,
+      ...(attrs.classname ? { suite: attrs.classname } : {}),
+      outcome,
+      tags,
+      ...(message ? { message } : {}),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * 解析 TAP（支持 # SKIP / # TODO 指令和 node:test 的缩进子测试）
+ */
+export function parseTap(text: string): TestCaseResult[] {
+  const results: TestCaseResult[] = [];
+  const stack: { indent: number; name: string; hasChildren: boolean }[] = [];
+  let yamlIndent = -1;
+
+  for (const raw of text.split('\n')) {
+    const line = raw.replace(/\r$/, '');
+    const indent = line.length - line.trimStart().length;
+    const trimmed = line.trim();
+
+    // 跳过 YAML 诊断块
+    if (yamlIndent >= 0) {
+      if (trimmed === '...' && indent === yamlIndent) yamlIndent = -1;
+      continue;
+    }
+    if (trimmed === '---') {
+      yamlIndent = indent;
+      continue;
+    }
+
+    const subtest = trimmed.match(/^# Subtest:\s*(.+)$/);
+    if (subtest) {
+      stack.push({ indent, name: subtest[1], hasChildren: false });
+      continue;
+    }
+
+    const result = trimmed.match(/^(not ok|ok)\b\s*\d*\s*(?:-\s*)?(.*)$/i);
+    if (!result) continue;
+
+    const [description, directive = ''] = splitDirective(result[2]);
+    const parents = stack.filter((e) => e.indent < indent);
+    const own = stack.find((e) => e.indent === indent);
+    parents.forEach((e) => (e.hasChildren = true));
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+
+    // 有子测试的父级（describe）不作为用例
+    if (own?.hasChildren) continue;
+
+    const name = description || own?.name || '';
+    const outcome: TestOutcome = /^(skip|todo)\b/i.test(directive)
+      ? 'skipped'
+      : result[1].toLowerCase() === 'ok'
+        ? 'passed'
+        : 'failed';
+    const suite = parents.map((e) => e.name).join(' > ');
+
+    results.push({
+      name,
+      ...(suite ? { suite } : {}),
+      outcome,
+      tags: findSpecTags(`${suite} ${name}`),
+    });
+  }
+
+  return results;
+}
+
+export class TestEvidenceManager {
+  private cwd: string;
+  private cli: OpenSpecCli;
+  private index: ProjectIndex;
+
+  constructor(options?: TestEvidenceOptions) {
+    this.cwd = options?.cwd || process.cwd();
+    this.index = options?.index || new ProjectIndex({ cwd: this.cwd });
+    this.cli = options?.cli || new OpenSpecCli({ cwd: this.cwd, index: this.index });
+  }
+
+  /**
+   * 获取 openspec 目录路径
+   */
+  private getOpenSpecDir(): string {
+    return path.join(this.cwd, 'openspec');
+  }
+
+  /**
+   * 获取 evidence.json 路径
+   */
+  private getEvidencePath(changeId: string): string {
+    return path.join(this.getOpenSpecDir(), 'changes', ensureSafeId(changeId, 'change'), 'evidence.json');
+  }
+
+  /**
+   * 导入测试结果：content 为报告内容，或通过 file 指定项目内的报告文件
+   */
+  async attach(
+    changeId: string,
+    input: { content?: string; file?: string; format?: EvidenceFormat; attachedBy?: string }
+  ): Promise<{ run: EvidenceRun; verification: ChangeVerification }> {
+    changeId = ensureSafeId(changeId, 'change');
+    if (changeId === 'archive') {
+      throw new Error(`Invalid change id: ${changeId}`);
+    }
+    const changeDir = path.join(this.getOpenSpecDir(), 'changes', changeId);
+    try {
+      await fs.access(changeDir);
+    } catch {
+      throw new Error(`Change not found: ${changeId}`);
+    }
+
+    let content = input.content;
+    let source = 'upload';
+    if (content === undefined) {
+      if (!input.file) {
+        throw new Error('Either content or file is required');
+      }
+      const filePath = path.resolve(this.cwd, input.file);
+      if (path.relative(this.cwd, filePath).startsWith('..')) {
+        throw new Error(`Evidence file must be inside the project: ${input.file}`);
+      }
+      content = await fs.readFile(filePath, 'utf-8');
+      source = path.relative(this.cwd, filePath).split(path.sep).join('/');
+    }
+
+    const format = input.format || detectEvidenceFormat(content);
+    if (!format || !EVIDENCE_FORMATS.includes(format)) {
+      throw new Error(`Unsupported test report format${input.format ? `: ${input.format}` : ''} (use junit or tap)`);
+    }
+
+    const cases = format === 'junit' ? parseJUnit(content) : parseTap(content);
+    if (cases.length === 0) {
+      throw new Error(`No test cases found in ${format} report`);
+    }
+
+    const scenarios = await this.loadScenarios(changeId);
+    const run: EvidenceRun = {
+      id: `run-${randomUUID().substring(0, 8)}`,
+      format,
+      source,
+      attachedAt: new Date().toISOString(),
+      attachedBy: input.attachedBy || 'AI',
+      total: cases.length,
+      passed: cases.filter((c) => c.outcome === 'passed').length,
+      failed: cases.filter((c) => c.outcome === 'failed').length,
+      skipped: cases.filter((c) => c.outcome === 'skipped').length,
+      matched: 0,
+      unmatched: [],
+    };
+
+    // 同一场景的多个用例：有失败即失败，否则有通过即通过
+    const outcomes = new Map<string, { status: TestOutcome; tests: string[] }>();
+    for (const testCase of cases) {
+      const matches = this.match(testCase, scenarios);
+      const label = testCase.suite ? `${testCase.suite} > ${testCase.name}` : testCase.name;
+      if (matches.length === 0) {
+        if (run.unmatched.length < MAX_UNMATCHED) run.unmatched.push(label);
+        continue;
+      }
+
+      run.matched++;
+      for (const scenario of matches) {
+        const current = outcomes.get(scenario.tag) || { status: testCase.outcome, tests: [] };
+        current.status = mergeOutcome(current.status, testCase.outcome);
+        current.tests.push(label);
+        outcomes.set(scenario.tag, current);
+      }
+    }
+
+    const data = await this.load(changeId);
+    for (const [tag, outcome] of outcomes) {
+      data.scenarios[tag] = { ...outcome, runId: run.id, updatedAt: run.attachedAt };
+    }
+    data.runs = [...data.runs, run].slice(-MAX_RUNS);
+    await fs.writeFile(this.getEvidencePath(changeId), JSON.stringify(data, null, 2), 'utf-8');
+    this.index.invalidate(this.getEvidencePath(changeId));
+
+    return { run, verification: this.summarize(changeId, scenarios, data) };
+  }
+
+  /**
+   * 获取变更的验证状态（以变更当前的 delta 场景为准）
+   */
+  async getVerification(changeId: string): Promise<ChangeVerification> {
+    const scenarios = await this.loadScenarios(changeId);
+    return this.summarize(changeId, scenarios, await this.load(changeId));
+  }
+
+  /**
+   * 是否导入过测试结果
+   */
+  async hasEvidence(changeId: string): Promise<boolean> {
+    return (await this.load(changeId)).runs.length > 0;
+  }
+
+  /**
+   * 将用例映射到场景：先按 @spec 标签，再按名称
+   */
+  private match(testCase: TestCaseResult, scenarios: ScenarioEvidence[]): ScenarioEvidence[] {
+    let candidates = scenarios;
+
+    for (const tag of testCase.tags) {
+      const parsed = parseSpecTag(tag);
+      if (parsed.id) {
+        const byId = scenarios.filter((s) => s.specId === parsed.id || this.requirementMatches(s, parsed.id!));
+        if (byId.length > 0) candidates = byId;
+        continue;
+      }
+
+      const inRequirement = scenarios.filter(
+        (s) => s.specId === parsed.specId && this.requirementMatches(s, parsed.requirement!)
+      );
+      if (parsed.scenario) {
+        const exact = inRequirement.filter((s) => slugify(s.scenario) === parsed.scenario!.toLowerCase());
+        if (exact.length > 0) return exact;
+      }
+      if (inRequirement.length > 0) candidates = inRequirement;
+    }
+
+    // 命名约定：测试全名包含场景名称，取最长的匹配；同名场景再按需求标题区分
+    const fullName = ` ${normalizeName(`${testCase.suite || ''} ${testCase.name}`)} `;
+    const named = candidates.filter((s) => fullName.includes(` ${normalizeName(s.scenario)} `));
+    if (named.length === 0) return [];
+
+    const longest = Math.max(...named.map((s) => normalizeName(s.scenario).length));
+    let best = named.filter((s) => normalizeName(s.scenario).length === longest);
+    if (best.length > 1) {
+      best = best.filter((s) => fullName.includes(` ${normalizeName(s.requirement)} `));
+    }
+    return best.length === 1 ? best : [];
+  }
+
+  /**
+   * 需求引用是否指向该场景所属的需求（稳定 ID 或标题 slug）
+   */
+  private requirementMatches(scenario: ScenarioEvidence, ref: string): boolean {
+    const requirementRef = scenario.tag.slice(scenario.specId.length + 1).split('/')[0];
+    return requirementRef.toLowerCase() === ref.toLowerCase() || slugify(scenario.requirement) === ref.toLowerCase();
+  }
+
+  /**
+   * 变更中新增和修改的需求的场景
+   */
+  private async loadScenarios(changeId: string): Promise<ScenarioEvidence[]> {
+    const change = await this.cli.showChange(changeId);
+    if (!change) {
+      throw new Error(`Change not found: ${changeId}`);
+    }
+
+    const scenarios: ScenarioEvidence[] = [];
+    for (const delta of change.deltas) {
+      if (delta.operation !== 'ADDED' && delta.operation !== 'MODIFIED') continue;
+      for (const requirement of delta.requirements) {
+        for (const scenario of requirement.scenarios) {
+          scenarios.push({
+            specId: delta.specName,
+            requirement: requirement.title,
+            scenario: scenario.name,
+            tag: formatSpecTag(delta.specName, requirement, scenario),
+            status: 'missing',
+            tests: [],
+          });
+        }
+      }
+    }
+    return scenarios;
+  }
+
+  /**
+   * 加载 evidence.json
+   */
+  private async load(changeId: string): Promise<EvidenceFile> {
+    const evidencePath = this.getEvidencePath(changeId);
+    return this.index.get('evidence', evidencePath, async () => {
+      try {
+        const content = await fs.readFile(evidencePath, 'utf-8');
+        return JSON.parse(content) as EvidenceFile;
+      } catch {
+        return { changeId, runs: [], scenarios: {} };
+      }
+    });
+  }
+
+  /**
+   * 合并场景列表和已保存的结果
+   */
+  private summarize(changeId: string, scenarios: ScenarioEvidence[], data: EvidenceFile): ChangeVerification {
+    const merged = scenarios.map((s) => {
+      const saved = data.scenarios[s.tag];
+      return saved ? { ...s, ...saved } : s;
+    });
+
+    const count = (status: ScenarioVerificationStatus) => merged.filter((s) => s.status === status).length;
+    const verified = count('passed');
+    const failed = count('failed');
+
+    return {
+      changeId,
+      total: merged.length,
+      verified,
+      failed,
+      skipped: count('skipped'),
+      missing: count('missing'),
+      summary: `${verified}/${merged.length} scenarios verified${failed > 0 ? `, ${failed} failing` : ''}`,
+      scenarios: merged,
+      runs: data.runs,
+    };
+  }
+}
+
+/**
+ * 合并同一场景的多个用例结果
+ */
+function mergeOutcome(a: TestOutcome, b: TestOutcome): TestOutcome {
+  if (a === 'failed' || b === 'failed') return 'failed';
+  if (a === 'passed' || b === 'passed') return 'passed';
+  return 'skipped';
+}
+
+/**
+ * 名称归一化：小写，非字母数字（含 Go 子测试的下划线）统一为空格
+ */
+function normalizeName(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * 拆分 TAP 描述和 # SKIP / # TODO 指令（描述中的 @spec 标签本身含有 #）
+ */
+function splitDirective(text: string): [string, string?] {
+  const match = text.match(/^(.*?)\s*(?<!\\)#\s*((?:skip|todo)\b.*)$/i);
+  if (!match) return [text.trim().replace(/\\#/g, '#')];
+  return [match[1].trim().replace(/\\#/g, '#'), match[2].trim()];
+}
+
+/**
+ * 解析 XML 属性
+ */
+function parseAttributes(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attrs;
+}
+
+/**
+ * 解码 XML 实体
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
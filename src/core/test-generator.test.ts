@@ -0,0 +1,93 @@
+/**
+ * TestGenerator 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TestGenerator, formatSpecTag } from './test-generator.js';
+import { parseGherkin } from './spec-importer.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const AUTH_SPEC = `# Auth Specification
+
+## Requirements
+
+### Requirement: Login {#AUTH-001}
+The system SHALL accept a password.
+
+#### Scenario: Valid password
+- **GIVEN** a registered user
+- **WHEN** the password matches
+- **THEN** a session is created
+
+#### Scenario: User's wrong password
+- **WHEN** the password does not match
+- **THEN** an error is shown
+
+### Requirement: Session expiry
+The system SHALL expire idle sessions.
+
+#### Scenario: Idle timeout
+- **WHEN** a session is idle for 30 minutes
+- **THEN** it expires
+`;
+
+describe('TestGenerator', () => {
+  let tempDir: string;
+  let generator: TestGenerator;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'test-generator-test-'));
+    generator = new TestGenerator({ cwd: tempDir });
+    const specDir = path.join(tempDir, 'openspec', 'specs', 'auth');
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.writeFile(path.join(specDir, 'spec.md'), AUTH_SPEC);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should build spec tags from stable ids or title slugs', () => {
+    expect(formatSpecTag('auth', { title: 'Login', anchor: 'AUTH-001' })).toBe('auth#AUTH-001');
+    expect(formatSpecTag('auth', { title: 'Session expiry' }, { name: 'Idle timeout' })).toBe(
+      'auth#session-expiry/idle-timeout'
+    );
+  });
+
+  it('should export scenarios as a Gherkin feature that round-trips through the importer', async () => {
+    const result = await generator.generate('auth', 'gherkin');
+
+    expect(result).toMatchObject({ fileName: 'auth.feature', requirements: 2, scenarios: 3 });
+    expect(result.content).toContain('  @spec:auth#AUTH-001\n  Rule: Login');
+    expect(result.content).toContain('    @spec:auth#AUTH-001/valid-password\n    Scenario: Valid password');
+    expect(result.content).toContain('      Given a registered user\n      When the password matches');
+
+    const feature = parseGherkin(result.content);
+    expect(feature.name).toBe('Auth Specification');
+    expect(feature.rules.map((r) => r.scenarios.length)).toEqual([2, 1]);
+  });
+
+  it('should generate vitest, jest and go stubs', async () => {
+    const vitest = await generator.generate('auth', 'vitest');
+    expect(vitest.fileName).toBe('auth.spec.test.ts');
+    expect(vitest.content).toContain("import { describe, it } from 'vitest';");
+    expect(vitest.content).toContain("  // @spec auth#AUTH-001\n  describe('Requirement: Login', () => {");
+    expect(vitest.content).toContain("    // THEN a session is created\n    it.todo('Scenario: Valid password');");
+    expect(vitest.content).toContain("it.todo('Scenario: User\\'s wrong password');");
+
+    const jest = await generator.generate('auth', 'jest', { requirement: 'session expiry' });
+    expect(jest.content).not.toContain('vitest');
+    expect(jest.content).not.toContain('Login');
+    expect(jest.content).toContain('// @spec auth#session-expiry/idle-timeout');
+
+    const go = await generator.generate('auth', 'go');
+    expect(go.content).toContain('package auth_test');
+    expect(go.content).toContain('func TestLogin(t *testing.T) {');
+    expect(go.content).toContain('\t// @spec auth#session-expiry/idle-timeout\n\tt.Run("Idle timeout", func(t *testing.T) {');
+
+    await expect(generator.generate('auth', 'go', { requirement: 'AUTH-999' })).rejects.toThrow('Requirement not found');
+    await expect(generator.generate('missing', 'go')).rejects.toThrow('Spec not found');
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * 测试骨架生成
+ * 将规格中的需求和场景导出为 Gherkin feature 文件或测试桩（vitest / jest / go）
+ *
+ * 每个需求 / 场景都带有 @spec 标签，测试文件可追溯回规格：
+ * - 需求：@spec auth#AUTH-001（有稳定 ID 时使用 ID，否则使用标题 slug）
+ * - 场景：@spec auth#AUTH-001/valid-password
+ * Gherkin 中标签写作 @spec:auth#AUTH-001/valid-password
+ */
+
+import { OpenSpecCli } from './openspec-cli.js';
+import { slugify } from '../utils/markdown.js';
+import type { Requirement, Scenario } from '../types/openspec.js';
+
+export type TestFormat = 'gherkin' | 'vitest' | 'jest' | 'go';
+
+export const TEST_FORMATS: TestFormat[] = ['gherkin', 'vitest', 'jest', 'go'];
+
+export interface TestGeneratorOptions {
+  cwd?: string;
+  cli?: OpenSpecCli;
+}
+
+export interface GeneratedTests {
+  specId: string;
+  format: TestFormat;
+  fileName: string;
+  contentType: string;
+  content: string;
+  requirements: number;
+  scenarios: number;
+}
+
+/**
+ * 需求在 @spec 标签中的引用
+ */
+export function requirementRef(requirement: Pick<Requirement, 'title' | 'anchor'>): string {
+  return requirement.anchor || slugify(requirement.title);
+}
+
+/**
+ * 生成 @spec 标签的引用部分：<specId>#<需求>[/<场景>]
+ */
+export function formatSpecTag(
+  specId: string,
+  requirement: Pick<Requirement, 'title' | 'anchor'>,
+  scenario?: Pick<Scenario, 'name'>
+): string {
+  return `${specId}#${requirementRef(requirement)}${scenario ? `/${slugify(scenario.name)}` : ''}`;
+}
+
+export class TestGenerator {
+  private cwd: string;
+  private cli: OpenSpecCli;
+
+  constructor(options?: TestGeneratorOptions) {
+    this.cwd = options?.cwd || process.cwd();
+    this.cli = options?.cli || new OpenSpecCli({ cwd: this.cwd });
+  }
+
+  /**
+   * 生成测试骨架，指定 requirement（稳定 ID 或标题）时只导出该需求
+   */
+  async generate(specId: string, format: TestFormat, options?: { requirement?: string }): Promise<GeneratedTests> {
+    if (!TEST_FORMATS.includes(format)) {
+      throw new Error(`Unsupported test format: ${format} (use ${TEST_FORMATS.join(', ')})`);
+    }
+
+    const spec = await this.cli.showSpec(specId);
+    if (!spec) {
+      throw new Error(`Spec not found: ${specId}`);
+    }
+
+    let requirements = spec.requirements;
+    if (options?.requirement) {
+      const wanted = options.requirement.trim().toLowerCase();
+      requirements = requirements.filter(
+        (r) => r.anchor?.toLowerCase() === wanted || r.title.toLowerCase() === wanted
+      );
+      if (requirements.length === 0) {
+        throw new Error(`Requirement not found in ${specId}: ${options.requirement}`);
+      }
+    }
+
+    const source = `openspec/specs/${specId}/spec.md`;
+    const render = {
+      gherkin: () => this.renderGherkin(specId, spec.title, requirements, source),
+      vitest: () => this.renderJs(specId, spec.title, requirements, source, true),
+      jest: () => this.renderJs(specId, spec.title, requirements, source, false),
+      go: () => this.renderGo(specId, requirements, source),
+    }[format];
+
+    const fileNames: Record<TestFormat, string> = {
+      gherkin: `${specId}.feature`,
+      vitest: `${specId}.spec.test.ts`,
+      jest: `${specId}.spec.test.js`,
+      go: `${specId.replace(/-/g, '_')}_spec_test.go`,
+    };
+
+    return {
+      specId,
+      format,
+      fileName: fileNames[format],
+      contentType: format === 'gherkin' ? 'text/plain' : format === 'go' ? 'text/x-go' : 'text/javascript',
+      content: render(),
+      requirements: requirements.length,
+      scenarios: requirements.reduce((sum, r) => sum + r.scenarios.length, 0),
+    };
+  }
+
+  /**
+   * Gherkin：规格 -> Feature，需求 -> Rule，场景 -> Scenario
+   */
+  private renderGherkin(specId: string, title: string, requirements: Requirement[], source: string): string {
+    const lines = [`# Generated from ${source}`, `@spec:${specId}`, `Feature: ${title}`];
+
+    for (const requirement of requirements) {
+      lines.push('', `  @spec:${formatSpecTag(specId, requirement)}`, `  Rule: ${requirement.title}`);
+      for (const scenario of requirement.scenarios) {
+        lines.push('', `    @spec:${formatSpecTag(specId, requirement, scenario)}`, `    Scenario: ${scenario.name}`);
+        if (scenario.clauses.length === 0) {
+          lines.push('      # TODO: describe the steps');
+        }
+        for (const clause of scenario.clauses) {
+          const keyword = clause.keyword.charAt(0) + clause.keyword.slice(1).toLowerCase();
+          lines.push(`      ${keyword} ${clause.text}`);
+        }
+      }
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * vitest / jest：规格 -> describe，需求 -> describe，场景 -> it.todo（步骤写在注释中）
+   */
+  private renderJs(
+    specId: string,
+    title: string,
+    requirements: Requirement[],
+    source: string,
+    vitest: boolean
+  ): string {
+    const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    const lines = [`// Generated from ${source}`];
+    if (vitest) {
+      lines.push("import { describe, it } from 'vitest';");
+    }
+    lines.push('', `// @spec ${specId}`, `describe(${quote(title)}, () => {`);
+
+    requirements.forEach((requirement, index) => {
+      if (index > 0) lines.push('');
+      lines.push(`  // @spec ${formatSpecTag(specId, requirement)}`);
+      lines.push(`  describe(${quote(`Requirement: ${requirement.title}`)}, () => {`);
+      if (requirement.scenarios.length === 0) {
+        lines.push(`    it.todo(${quote('has at least one scenario')});`);
+      }
+      requirement.scenarios.forEach((scenario, i) => {
+        if (i > 0) lines.push('');
+        lines.push(`    // @spec ${formatSpecTag(specId, requirement, scenario)}`);
+        lines.push(...scenario.clauses.map((c) => `    // ${c.keyword} ${c.text}`));
+        lines.push(`    it.todo(${quote(`Scenario: ${scenario.name}`)});`);
+      });
+      lines.push('  });');
+    });
+
+    lines.push('});');
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * go：需求 -> TestXxx，场景 -> t.Run 子测试（t.Skip 占位）
+   */
+  private renderGo(specId: string, requirements: Requirement[], source: string): string {
+    const quote = (text: string) => JSON.stringify(text);
+    const lines = [
+      `// Generated from ${source}`,
+      `package ${specId.replace(/[^\w]/g, '_').toLowerCase()}_test`,
+      '',
+      'import "testing"',
+    ];
+
+    const used = new Set<string>();
+    for (const requirement of requirements) {
+      const base = `Test${toPascalCase(requirement.title) || 'Requirement'}`;
+      let name = base;
+      for (let n = 2; used.has(name); n++) name = `${base}${n}`;
+      used.add(name);
+
+      lines.push('', `// @spec ${formatSpecTag(specId, requirement)}`, `// Requirement: ${requirement.title}`);
+      lines.push(`func ${name}(t *testing.T) {`);
+      if (requirement.scenarios.length === 0) {
+        lines.push('\tt.Skip("no scenarios defined")');
+      }
+      requirement.scenarios.forEach((scenario, i) => {
+        if (i > 0) lines.push('');
+        lines.push(`\t// @spec ${formatSpecTag(specId, requirement, scenario)}`);
+        lines.push(`\tt.Run(${quote(scenario.name)}, func(t *testing.T) {`);
+        lines.push(...scenario.clauses.map((c) => `\t\t// ${c.keyword} ${c.text}`));
+        lines.push('\t\tt.Skip("not implemented")', '\t})');
+      });
+      lines.push('}');
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+/**
+ * 转换为 PascalCase（Go 测试函数名）
+ */
+function toPascalCase(text: string): string {
+  return text
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+    .replace(/^\d+/, '');
+}
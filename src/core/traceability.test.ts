@@ -0,0 +1,139 @@
+/**
+ * TraceabilityScanner 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TraceabilityScanner, parseSpecTag } from './traceability.js';
+import { TestGenerator } from './test-generator.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const AUTH_SPEC = `# Auth Specification
+
+## Requirements
+
+### Requirement: Login {#AUTH-001}
+The system SHALL accept a password.
+
+#### Scenario: Valid password
+- **WHEN** the password matches
+- **THEN** a session is created
+
+### Requirement: Login throttling
+The system SHALL lock accounts after 5 failures.
+
+#### Scenario: Too many attempts
+- **WHEN** 5 attempts fail
+- **THEN** the account is locked
+
+### Requirement: Session expiry
+The system SHALL expire idle sessions.
+
+#### Scenario: Idle timeout
+- **WHEN** a session is idle
+- **THEN** it expires
+`;
+
+const AUTH_TEST = `import { describe, it } from 'vitest';
+
+describe('auth', () => {
+  // @spec auth/login-throttling/too-many-attempts
+  it('locks the account', () => {});
+
+  /** @spec AUTH-001 */
+  it('accepts a password', () => {});
+
+  // @spec auth#unknown-requirement
+  it('does something else', () => {});
+});
+`;
+
+describe('TraceabilityScanner', () => {
+  let tempDir: string;
+  let scanner: TraceabilityScanner;
+
+  async function write(file: string, content: string): Promise<void> {
+    const filePath = path.join(tempDir, file);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'traceability-test-'));
+    scanner = new TraceabilityScanner({ cwd: tempDir });
+
+    await write('openspec/specs/auth/spec.md', AUTH_SPEC);
+    await write('src/auth.test.ts', AUTH_TEST);
+    // 忽略的目录和非源码文件
+    await write('node_modules/lib/index.test.js', '// @spec auth#session-expiry\n');
+    await write('openspec/changes/x/tasks.md', '- [ ] 1.1 @spec auth#session-expiry\n');
+    await write('README.md', '// @spec auth#session-expiry\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should parse the supported tag forms', () => {
+    expect(parseSpecTag('auth#AUTH-001/valid-password')).toEqual({
+      specId: 'auth',
+      requirement: 'AUTH-001',
+      scenario: 'valid-password',
+    });
+    expect(parseSpecTag('auth/login-throttling')).toEqual({ specId: 'auth', requirement: 'login-throttling' });
+    expect(parseSpecTag('AUTH-001')).toEqual({ id: 'AUTH-001' });
+  });
+
+  it('should build a requirement to test matrix and report uncovered requirements', async () => {
+    const report = await scanner.scan();
+
+    expect(report.annotations).toBe(3);
+    expect(report.specs).toEqual([
+      { specId: 'auth', requirements: 3, covered: 2, percentage: 67, uncovered: ['Session expiry'] },
+    ]);
+
+    const matrix = Object.fromEntries(report.matrix.map((t) => [t.title, t]));
+    expect(matrix['Login throttling'].references).toEqual([
+      {
+        file: 'src/auth.test.ts',
+        line: 4,
+        tag: 'auth/login-throttling/too-many-attempts',
+        test: 'locks the account',
+        scenario: 'Too many attempts',
+      },
+    ]);
+    expect(matrix['Login throttling'].scenarios).toEqual([{ name: 'Too many attempts', references: 1 }]);
+    expect(matrix['Login'].references[0]).toMatchObject({ line: 7, test: 'accepts a password' });
+
+    expect(report.unresolved).toEqual([
+      expect.objectContaining({
+        line: 10,
+        reason: 'Requirement not found in auth: unknown-requirement',
+      }),
+    ]);
+  });
+
+  it('should scan nested test directories at any depth', async () => {
+    await write('packages/api/src/auth/__tests__/session.test.ts', "it('expires', () => {}); // @spec auth#session-expiry\n");
+    await write('packages/api/src/auth/node_modules/lib/a.test.js', '// @spec auth#unknown\n');
+
+    const report = await scanner.scan({ specId: 'auth' });
+    expect(report.specs[0]).toMatchObject({ covered: 3, uncovered: [] });
+    expect(report.matrix.find((t) => t.title === 'Session expiry')!.references[0].file).toBe(
+      'packages/api/src/auth/__tests__/session.test.ts'
+    );
+    expect(report.unresolved).toHaveLength(1);
+  });
+
+  it('should trace stubs produced by the test generator', async () => {
+    const stubs = await new TestGenerator({ cwd: tempDir }).generate('auth', 'go');
+    await write('auth_spec_test.go', stubs.content);
+
+    const report = await scanner.scan({ specId: 'auth' });
+    expect(report.specs[0]).toMatchObject({ covered: 3, percentage: 100, uncovered: [] });
+
+    const expiry = report.matrix.find((t) => t.title === 'Session expiry')!;
+    expect(expiry.references.map((r) => r.test)).toContain('Idle timeout');
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * 需求追溯
+ * 扫描项目源码和测试中的 @spec 标注，建立 需求 -> 文件 / 测试 的追溯矩阵，并统计每个规格的覆盖率
+ *
+ * 支持的标注：
+ * - @spec auth#AUTH-003 / @spec auth#login-throttling    需求（稳定 ID 或标题 slug）
+ * - @spec auth/login-throttling/too-many-attempts         需求 / 场景
+ * - @spec AUTH-003                                        仅稳定 ID（在所有规格中查找）
+ * - @spec:auth#AUTH-003                                   Gherkin 标签写法
+ *
+ * 文件列表来自 ContextAnalyzer（相同的忽略规则），跳过 openspec 目录和非源码文件
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ContextAnalyzer } from './context-analyzer.js';
+import { RequirementParser } from './requirement-parser.js';
+import { slugify } from '../utils/markdown.js';
+import type { Requirement } from '../types/openspec.js';
+
+const SPEC_TAG = /@spec(?::|[ \t]+)([\p{L}\p{N}_.#/-]+)/gu;
+const MAX_FILE_SIZE = 1024 * 1024;
+
+const SOURCE_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.go', '.py', '.java', '.kt', '.rs', '.rb',
+  '.php', '.swift', '.cs', '.scala', '.vue', '.svelte', '.feature',
+]);
+
+// 标注之后几行内的测试名称
+const TEST_NAME_PATTERNS = [
+  /\b(?:it|test)(?:\.\w+)?\(\s*(['"`])(.+?)\1/,
+  /\bt\.Run\(\s*"(.+?)"/,
+  /\bfunc\s+(Test\w+)/,
+  /\bdef\s+(test_\w+)/,
+  /^\s*(?:Scenario(?: Outline)?|Rule):\s*(.+)$/,
+  /\bdescribe\(\s*(['"`])(.+?)\1/,
+];
+
+export interface TraceabilityOptions {
+  cwd?: string;
+}
+
+/**
+ * 源码中的一处追溯标注
+ */
+export interface TraceReference {
+  file: string;                // 相对项目根目录
+  line: number;
+  tag: string;                 // 原始引用，如 auth#AUTH-003
+  test?: string;               // 紧随标注的测试名称
+  scenario?: string;           // 指向的场景名称
+}
+
+/**
+ * 需求的追溯信息
+ */
+export interface RequirementTrace {
+  specId: string;
+  title: string;
+  anchor?: string;
+  line: number;                // 规格中的行号
+  references: TraceReference[];
+  scenarios: { name: string; references: number }[];
+  covered: boolean;
+}
+
+/**
+ * 规格覆盖率
+ */
+export interface SpecCoverage {
+  specId: string;
+  requirements: number;
+  covered: number;
+  percentage: number;
+  uncovered: string[];         // 未覆盖的需求标题
+}
+
+/**
+ * 无法解析的标注
+ */
+export interface UnresolvedReference extends TraceReference {
+  reason: string;
+}
+
+export interface TraceabilityReport {
+  scannedFiles: number;
+  annotations: number;
+  specs: SpecCoverage[];
+  matrix: RequirementTrace[];
+  unresolved: UnresolvedReference[];
+}
+
+/**
+ * 提取文本中的 @spec 标注引用（去掉结尾的标点）
+ */
+export function findSpecTags(text: string): string[] {
+  return [...text.matchAll(SPEC_TAG)].map((match) => match[1].replace(/[./]+$/, ''));
+}
+
+/**
+ * 解析标注引用：spec#req[/scenario]、spec/req[/scenario] 或单独的稳定 ID / 规格 ID
+ */
+export function parseSpecTag(tag: string): { specId?: string; requirement?: string; scenario?: string; id?: string } {
+  const hash = tag.indexOf('#');
+  if (hash >= 0) {
+    const [requirement, scenario] = tag.slice(hash + 1).split('/');
+    return { specId: tag.slice(0, hash), requirement, ...(scenario ? { scenario } : {}) };
+  }
+
+  const parts = tag.split('/');
+  if (parts.length > 1) {
+    return { specId: parts[0], requirement: parts[1], ...(parts[2] ? { scenario: parts[2] } : {}) };
+  }
+
+  return { id: tag };
+}
+
+export class TraceabilityScanner {
+  private cwd: string;
+  private contextAnalyzer: ContextAnalyzer;
+  private requirementParser: RequirementParser;
+
+  constructor(options?: TraceabilityOptions) {
+    this.cwd = options?.cwd || process.cwd();
+    this.contextAnalyzer = new ContextAnalyzer({ cwd: this.cwd });
+    this.requirementParser = new RequirementParser();
+  }
+
+  /**
+   * 获取 openspec 目录路径
+   */
+  private getOpenSpecDir(): string {
+    return path.join(this.cwd, 'openspec');
+  }
+
+  /**
+   * 扫描并生成追溯报告，指定 specId 时只报告该规格
+   */
+  async scan(options?: { specId?: string }): Promise<TraceabilityReport> {
+    const specs = await this.loadRequirements();
+    const matrix: RequirementTrace[] = [...specs].flatMap(([specId, requirements]) =>
+      requirements.map((r) => ({
+        specId,
+        title: r.title,
+        ...(r.anchor ? { anchor: r.anchor } : {}),
+        line: r.line,
+        references: [],
+        scenarios: r.scenarios.map((s) => ({ name: s.name, references: 0 })),
+        covered: false,
+      }))
+    );
+
+    const files = (await this.contextAnalyzer.listFiles()).filter(
+      (file) => !file.startsWith('openspec/') && SOURCE_EXTENSIONS.has(path.extname(file))
+    );
+
+    const unresolved: UnresolvedReference[] = [];
+    let annotations = 0;
+
+    for (const file of files) {
+      for (const reference of await this.findAnnotations(file)) {
+        annotations++;
+        const resolved = this.resolve(reference.tag, matrix, specs);
+        if ('reason' in resolved) {
+          unresolved.push({ ...reference, reason: resolved.reason });
+          continue;
+        }
+        if (!resolved.trace) continue; // 规格级标注
+
+        const scenario = resolved.scenario;
+        resolved.trace.references.push({ ...reference, ...(scenario ? { scenario: scenario.name } : {}) });
+        resolved.trace.covered = true;
+        if (scenario) scenario.references++;
+      }
+    }
+
+    const selected = options?.specId ? matrix.filter((t) => t.specId === options.specId) : matrix;
+    const specIds = options?.specId ? [options.specId] : [...specs.keys()];
+
+    return {
+      scannedFiles: files.length,
+      annotations,
+      specs: specIds.map((specId) => {
+        const traces = matrix.filter((t) => t.specId === specId);
+        const covered = traces.filter((t) => t.covered).length;
+        return {
+          specId,
+          requirements: traces.length,
+          covered,
+          percentage: traces.length > 0 ? Math.round((covered / traces.length) * 100) : 0,
+          uncovered: traces.filter((t) => !t.covered).map((t) => t.title),
+        };
+      }),
+      matrix: selected,
+      unresolved: options?.specId
+        ? unresolved.filter((u) => parseSpecTag(u.tag).specId === options.specId)
+        : unresolved,
+    };
+  }
+
+  /**
+   * 查找文件中的 @spec 标注
+   */
+  private async findAnnotations(file: string): Promise<TraceReference[]> {
+    const filePath = path.join(this.cwd, file);
+    let content: string;
+    try {
+      const stat = await fs.stat(filePath);
+      if (stat.size > MAX_FILE_SIZE) return [];
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return [];
+    }
+    if (!content.includes('@spec')) return [];
+
+    const lines = content.split('\n');
+    const references: TraceReference[] = [];
+
+    lines.forEach((text, index) => {
+      for (const tag of findSpecTags(text)) {
+        const test = this.findTestName(lines, index);
+        references.push({ file, line: index + 1, tag, ...(test ? { test } : {}) });
+      }
+    });
+
+    return references;
+  }
+
+  /**
+   * 在标注所在行及其后第一行代码（跳过注释、空行和其他标签）中查找测试名称
+   */
+  private findTestName(lines: string[], index: number): string | undefined {
+    const next = lines.slice(index + 1, index + 12).find((text) => text.trim() && !/^\s*(\/\/|\/\*|\*|#|@)/.test(text));
+    for (const text of [lines[index], ...(next ? [next] : [])]) {
+      for (const pattern of TEST_NAME_PATTERNS) {
+        const match = text.match(pattern);
+        if (match) return match[match.length - 1];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 将标注解析到追溯矩阵中的需求（和场景）
+   */
+  private resolve(
+    tag: string,
+    matrix: RequirementTrace[],
+    specs: Map<string, Requirement[]>
+  ): { trace?: RequirementTrace; scenario?: RequirementTrace['scenarios'][number] } | { reason: string } {
+    const parsed = parseSpecTag(tag);
+    const matches = (trace: RequirementTrace, ref: string) =>
+      trace.anchor?.toLowerCase() === ref.toLowerCase() || slugify(trace.title) === ref.toLowerCase();
+
+    if (parsed.id) {
+      const byId = matrix.filter((t) => t.anchor?.toLowerCase() === parsed.id!.toLowerCase());
+      if (byId.length === 1) return { trace: byId[0] };
+      if (byId.length > 1) return { reason: `Requirement id ${parsed.id} is used by several specs` };
+      if (specs.has(parsed.id)) return {};
+      return { reason: `Unknown requirement id or spec: ${parsed.id}` };
+    }
+
+    if (!specs.has(parsed.specId!)) {
+      return { reason: `Spec not found: ${parsed.specId}` };
+    }
+    const trace = matrix.find((t) => t.specId === parsed.specId && matches(t, parsed.requirement!));
+    if (!trace) {
+      return { reason: `Requirement not found in ${parsed.specId}: ${parsed.requirement}` };
+    }
+    if (!parsed.scenario) {
+      return { trace };
+    }
+
+    const scenario = trace.scenarios.find((s) => slugify(s.name) === parsed.scenario!.toLowerCase());
+    return scenario ? { trace, scenario } : { reason: `Scenario not found in ${trace.title}: ${parsed.scenario}` };
+  }
+
+  /**
+   * 读取所有主规格的需求
+   */
+  private async loadRequirements(): Promise<Map<string, Requirement[]>> {
+    const specsDir = path.join(this.getOpenSpecDir(), 'specs');
+    const specs = new Map<string, Requirement[]>();
+
+    let entries: string[] = [];
+    try {
+      const dirents = await fs.readdir(specsDir, { withFileTypes: true });
+      entries = dirents.filter((e) => e.isDirectory()).map((e) => e.name).sort();
+    } catch {
+      return specs;
+    }
+
+    for (const specId of entries) {
+      try {
+        const content = await fs.readFile(path.join(specsDir, specId, 'spec.md'), 'utf-8');
+        specs.set(specId, this.requirementParser.parseRequirements(content));
+      } catch {
+        // 没有 spec.md
+      }
+    }
+
+    return specs;
+  }
+}
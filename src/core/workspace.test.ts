@@ -0,0 +1,109 @@
+/**
+ * Workspace 单元测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Workspace, WORKSPACE_CONFIG_FILE } from './workspace.js';
+import { OpenSpecCli } from './openspec-cli.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Workspace', () => {
+  let tempDir: string;
+
+  /**
+   * 创建包含一个变更的 OpenSpec 项目
+   */
+  async function createProject(relativePath: string, changeId: string): Promise<string> {
+    const root = path.join(tempDir, relativePath);
+    const changeDir = path.join(root, 'openspec', 'changes', changeId);
+    await fs.mkdir(changeDir, { recursive: true });
+    await fs.writeFile(path.join(changeDir, 'proposal.md'), `# ${changeId}\n`);
+    return root;
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should fall back to cwd as the only project', async () => {
+    await createProject('packages/api', 'add-login');
+
+    const workspace = await Workspace.load({ cwd: tempDir });
+
+    expect(workspace.isMultiRoot()).toBe(false);
+    expect(workspace.current().root).toBe(tempDir);
+  });
+
+  it('should discover nested roots and disambiguate duplicate names', async () => {
+    const api = await createProject('packages/api', 'add-login');
+    const webApi = await createProject('apps/web/api', 'add-page');
+    await createProject('node_modules/dep', 'ignored');
+
+    const workspace = await Workspace.load({ cwd: tempDir, discover: true });
+
+    expect(workspace.getProjects()).toEqual([
+      { name: 'apps/web/api', root: webApi },
+      { name: 'packages/api', root: api },
+    ]);
+  });
+
+  it('should read projects from the workspace config', async () => {
+    const billing = await createProject('services/billing', 'add-invoice');
+    const auth = await createProject('services/auth', 'add-sso');
+    await fs.writeFile(
+      path.join(tempDir, WORKSPACE_CONFIG_FILE),
+      JSON.stringify({ projects: ['services/billing', { name: 'identity', path: 'services/auth' }], defaultProject: 'identity' })
+    );
+
+    const workspace = await Workspace.load({ cwd: tempDir });
+
+    expect(workspace.getProjects()).toEqual([
+      { name: 'billing', root: billing },
+      { name: 'identity', root: auth },
+    ]);
+    expect(workspace.current().name).toBe('identity');
+    expect(() => workspace.resolve('missing')).toThrow('Unknown project: missing');
+  });
+
+  it('should read extra task states from the workspace config', async () => {
+    await fs.writeFile(
+      path.join(tempDir, WORKSPACE_CONFIG_FILE),
+      JSON.stringify({ projects: ['.'], taskStates: [{ status: 'needs_review', char: '?' }] })
+    );
+
+    const workspace = await Workspace.load({ cwd: tempDir });
+
+    expect(workspace.getTaskStates()).toEqual([{ status: 'needs_review', char: '?' }]);
+  });
+
+  it('should name the workspace config when it is not valid JSON', async () => {
+    const configPath = path.join(tempDir, WORKSPACE_CONFIG_FILE);
+    await fs.writeFile(configPath, '{ "projects": [');
+
+    await expect(Workspace.load({ cwd: tempDir })).rejects.toThrow(`Invalid workspace config ${configPath}:`);
+  });
+
+  it('should dispatch scoped instances to the current project', async () => {
+    await createProject('packages/api', 'add-login');
+    await createProject('packages/web', 'add-page');
+    const workspace = await Workspace.load({ cwd: tempDir, discover: true });
+
+    let created = 0;
+    const cli = workspace.scoped(({ root }) => {
+      created++;
+      return new OpenSpecCli({ cwd: root });
+    });
+
+    const ids = async () => (await cli.listChanges()).map((c) => c.id);
+    expect(await ids()).toEqual(['add-login']);
+    expect(await workspace.run('web', ids)).toEqual(['add-page']);
+    expect(await workspace.run('api', ids)).toEqual(['add-login']);
+    expect(created).toBe(2);
+  });
+});
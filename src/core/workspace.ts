@@ -0,0 +1,261 @@
+/**
+ * 多根工作区
+ * 一个服务同时管理多个 OpenSpec 根目录（如 monorepo 中的 packages/*\/openspec）
+ *
+ * - 项目来源：openspec-workspace.json 配置，或在 cwd 下自动发现
+ * - 通过 AsyncLocalStorage 保存当前请求的项目作用域
+ * - scoped() 返回按当前项目分派的实例代理，现有工具和路由无需感知多项目
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { TaskStateConfig } from '../types/openspec.js';
+
+export const WORKSPACE_CONFIG_FILE = 'openspec-workspace.json';
+
+// 自动发现时跳过的目录
+const IGNORED_DIRS = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', 'openspec']);
+const DEFAULT_DISCOVERY_DEPTH = 3;
+
+export interface WorkspaceProject {
+  name: string;
+  root: string;               // 包含 openspec/ 的绝对路径
+}
+
+export interface WorkspaceConfig {
+  projects: Array<string | { name?: string; path: string }>;
+  defaultProject?: string;
+  taskStates?: TaskStateConfig[];   // 扩展任务状态，所有项目共用
+}
+
+export interface WorkspaceOptions {
+  cwd?: string;
+  projects?: WorkspaceProject[];
+  defaultProject?: string;
+  taskStates?: TaskStateConfig[];
+}
+
+export interface WorkspaceLoadOptions {
+  cwd?: string;
+  discover?: boolean;          // 无配置文件时自动发现子项目
+  depth?: number;
+}
+
+export class Workspace {
+  private cwd: string;
+  private projects: Map<string, WorkspaceProject>;
+  private defaultProject: string;
+  private taskStates: TaskStateConfig[];
+  private storage = new AsyncLocalStorage<WorkspaceProject>();
+
+  constructor(options?: WorkspaceOptions) {
+    this.cwd = options?.cwd || process.cwd();
+    const projects = options?.projects?.length
+      ? options.projects
+      : [{ name: path.basename(this.cwd) || 'default', root: this.cwd }];
+
+    this.projects = new Map(projects.map((project) => [project.name, project]));
+    this.defaultProject = options?.defaultProject && this.projects.has(options.defaultProject)
+      ? options.defaultProject
+      : projects[0].name;
+    this.taskStates = options?.taskStates || [];
+  }
+
+  /**
+   * 从配置文件或目录扫描创建工作区
+   *
+   * 都没有找到时退化为以 cwd 为唯一项目的单根模式
+   */
+  static async load(options?: WorkspaceLoadOptions): Promise<Workspace> {
+    const cwd = options?.cwd || process.cwd();
+
+    const config = await readWorkspaceConfig(cwd);
+    if (config) {
+      const roots = config.projects.map((entry) =>
+        typeof entry === 'string'
+          ? { root: path.resolve(cwd, entry) }
+          : { name: entry.name, root: path.resolve(cwd, entry.path) }
+      );
+      return new Workspace({
+        cwd,
+        projects: nameProjects(cwd, roots),
+        defaultProject: config.defaultProject,
+        taskStates: config.taskStates,
+      });
+    }
+
+    if (options?.discover) {
+      const roots = await discoverProjectRoots(cwd, options.depth ?? DEFAULT_DISCOVERY_DEPTH);
+      if (roots.length > 0) {
+        return new Workspace({ cwd, projects: nameProjects(cwd, roots.map((root) => ({ root }))) });
+      }
+    }
+
+    return new Workspace({ cwd });
+  }
+
+  /**
+   * 获取所有项目
+   */
+  getProjects(): WorkspaceProject[] {
+    return [...this.projects.values()];
+  }
+
+  /**
+   * 获取默认项目名
+   */
+  getDefaultProject(): string {
+    return this.defaultProject;
+  }
+
+  /**
+   * 配置的扩展任务状态（由调用方通过 registerTaskStates 注册）
+   */
+  getTaskStates(): TaskStateConfig[] {
+    return this.taskStates;
+  }
+
+  /**
+   * 是否包含多个项目
+   */
+  isMultiRoot(): boolean {
+    return this.projects.size > 1;
+  }
+
+  /**
+   * 是否存在指定项目
+   */
+  has(name: string): boolean {
+    return this.projects.has(name);
+  }
+
+  /**
+   * 解析项目，未指定时返回默认项目
+   */
+  resolve(name?: string): WorkspaceProject {
+    const project = this.projects.get(name || this.defaultProject);
+    if (!project) {
+      throw new Error(
+        `Unknown project: ${name}. Available projects: ${[...this.projects.keys()].join(', ')}`
+      );
+    }
+    return project;
+  }
+
+  /**
+   * 在指定项目作用域内执行
+   */
+  run<T>(name: string | undefined, fn: () => T): T {
+    return this.storage.run(this.resolve(name), fn);
+  }
+
+  /**
+   * 当前作用域的项目，不在作用域内时返回默认项目
+   */
+  current(): WorkspaceProject {
+    return this.storage.getStore() || this.resolve();
+  }
+
+  /**
+   * 创建按当前项目分派的实例代理
+   *
+   * 每个项目的实例在首次访问时创建并复用
+   */
+  scoped<T extends object>(factory: (project: WorkspaceProject) => T): T {
+    const instances = new Map<string, T>();
+    const instanceFor = (project: WorkspaceProject): T => {
+      let instance = instances.get(project.name);
+      if (!instance) {
+        instance = factory(project);
+        instances.set(project.name, instance);
+      }
+      return instance;
+    };
+
+    return new Proxy({} as T, {
+      get: (_target, property) => {
+        const instance = instanceFor(this.current());
+        const value = Reflect.get(instance, property, instance);
+        return typeof value === 'function' ? value.bind(instance) : value;
+      },
+      has: (_target, property) => Reflect.has(instanceFor(this.current()), property),
+    });
+  }
+}
+
+/**
+ * 读取工作区配置文件
+ */
+async function readWorkspaceConfig(cwd: string): Promise<WorkspaceConfig | null> {
+  const configPath = path.join(cwd, WORKSPACE_CONFIG_FILE);
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let config: WorkspaceConfig;
+  try {
+    config = JSON.parse(content) as WorkspaceConfig;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid workspace config ${configPath}: ${message}`);
+  }
+  if (!Array.isArray(config?.projects) || config.projects.length === 0) {
+    throw new Error(`${WORKSPACE_CONFIG_FILE} must list at least one project`);
+  }
+  if (config.taskStates !== undefined && !Array.isArray(config.taskStates)) {
+    throw new Error(`Invalid workspace config ${configPath}: taskStates must be an array`);
+  }
+  return config;
+}
+
+/**
+ * 扫描包含 openspec/ 目录的项目根目录（包括 cwd 本身）
+ */
+export async function discoverProjectRoots(cwd: string, depth = DEFAULT_DISCOVERY_DEPTH): Promise<string[]> {
+  const roots: string[] = [];
+
+  const walk = async (dir: string, level: number): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    if (entries.some((entry) => entry.isDirectory() && entry.name === 'openspec')) {
+      roots.push(dir);
+    }
+    if (level >= depth) return;
+
+    const children = entries
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.') && !IGNORED_DIRS.has(entry.name))
+      .map((entry) => entry.name)
+      .sort();
+    for (const child of children) {
+      await walk(path.join(dir, child), level + 1);
+    }
+  };
+
+  await walk(cwd, 0);
+  return roots;
+}
+
+/**
+ * 为项目生成唯一名称：优先目录名，重名时使用相对路径
+ */
+function nameProjects(cwd: string, roots: Array<{ name?: string; root: string }>): WorkspaceProject[] {
+  const baseNames = roots.map(({ root }) => path.basename(root));
+
+  return roots.map(({ name, root }, i) => {
+    if (name) return { name, root };
+
+    const relative = path.relative(cwd, root).split(path.sep).join('/');
+    const baseName = baseNames[i];
+    const unique = baseNames.filter((n) => n === baseName).length === 1;
+    return { name: unique && baseName ? baseName : relative || baseName || 'default', root };
+  });
+}
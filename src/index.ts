@@ -7,8 +7,9 @@
  * real-time dashboard and approval workflow
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import * as path from 'path';
 import { Command } from 'commander';
 import { OpenSpecCli } from './core/openspec-cli.js';
 import { ApprovalManager } from './core/approval-manager.js';
@@ -16,6 +17,7 @@ import { ReviewManager } from './core/review-manager.js';
 import { TemplateManager } from './core/template-manager.js';
 import { HooksManager } from './core/hooks-manager.js';
 import { ProposalGenerator } from './core/proposal-generator.js';
+import { TaskEditor } from './core/task-editor.js';
 import { registerGuidesTools } from './server/tools/guides.js';
 import { registerManagementTools } from './server/tools/management.js';
 import { registerValidationTools } from './server/tools/validation.js';
@@ -31,36 +33,68 @@ import { registerCritiqueTools } from './server/tools/critique.js';
 import { registerContextTools } from './server/tools/context.js';
 import { registerAIContextTools } from './server/tools/ai-context.js';
 import { registerRevisionTools } from './server/tools/revision.js';
+import { registerSearchTools } from './server/tools/search.js';
+import { registerChangeGraphTools } from './server/tools/change-graph.js';
+import { registerSpecHistoryTools } from './server/tools/spec-history.js';
+import { registerConflictTools } from './server/tools/conflicts.js';
+import { registerSpecGraphTools } from './server/tools/spec-graph.js';
+import { registerImportTools, formatImportResult } from './server/tools/import.js';
+import { registerTestGenerationTools } from './server/tools/test-generation.js';
+import { registerTraceabilityTools } from './server/tools/traceability.js';
+import { registerEvidenceTools } from './server/tools/evidence.js';
 import { CrossServiceManager } from './core/cross-service-manager.js';
 import { SpecCritic } from './core/spec-critic.js';
 import { ContextAnalyzer } from './core/context-analyzer.js';
 import { RevisionManager } from './core/revision-manager.js';
+import { SpecSearch } from './core/spec-search.js';
+import { ChangeDependencies } from './core/change-dependencies.js';
+import { SpecHistory } from './core/spec-history.js';
+import { ChangeConflicts } from './core/change-conflicts.js';
+import { SpecParser } from './core/spec-parser.js';
+import { SiteExporter } from './core/site-exporter.js';
+import { SpecImporter } from './core/spec-importer.js';
+import { TestGenerator } from './core/test-generator.js';
+import { TraceabilityScanner } from './core/traceability.js';
+import { TestEvidenceManager } from './core/test-evidence.js';
+import type { ImportFormat } from './core/spec-importer.js';
+import { ProjectIndex } from './core/project-index.js';
+import { FileWatcher } from './core/file-watcher.js';
+import { Workspace } from './core/workspace.js';
+import type { WorkspaceLoadOptions } from './core/workspace.js';
+import { registerTaskStates } from './utils/constants.js';
+import { ProjectScopedMcpServer } from './server/project-scope.js';
 import { VERSION } from './utils/version.js';
 
 /**
  * 创建并配置 MCP Server
+ *
+ * 核心模块按工作区项目分派，工具通过 project 参数选择项目
  */
-function createMcpServer(cwd: string): McpServer {
-  const server = new McpServer({
-    name: 'openspec-mcp',
-    version: VERSION,
-  });
+function createMcpServer(workspace: Workspace, projectIndex: ProjectIndex): McpServer {
+  const server = new ProjectScopedMcpServer(
+    {
+      name: 'openspec-mcp',
+      version: VERSION,
+    },
+    workspace
+  );
 
   // 创建核心模块实例
-  const cli = new OpenSpecCli({ cwd });
-  const approvalManager = new ApprovalManager({ cwd });
-  const reviewManager = new ReviewManager({ cwd });
-  const templateManager = new TemplateManager({ cwd });
-  const hooksManager = new HooksManager({ cwd });
-  const proposalGenerator = new ProposalGenerator({ cwd });
-  const revisionManager = new RevisionManager({ cwd });
+  const cli = workspace.scoped(({ root }) => new OpenSpecCli({ cwd: root, index: projectIndex }));
+  const approvalManager = workspace.scoped(({ root }) => new ApprovalManager({ cwd: root, index: projectIndex }));
+  const reviewManager = workspace.scoped(({ root }) => new ReviewManager({ cwd: root, index: projectIndex }));
+  const templateManager = workspace.scoped(({ root }) => new TemplateManager({ cwd: root }));
+  const hooksManager = workspace.scoped(({ root }) => new HooksManager({ cwd: root }));
+  const proposalGenerator = workspace.scoped(({ root }) => new ProposalGenerator({ cwd: root }));
+  const revisionManager = workspace.scoped(({ root }) => new RevisionManager({ cwd: root }));
+  const taskEditor = workspace.scoped(({ root }) => new TaskEditor({ cwd: root, index: projectIndex }));
 
   // 注册所有工具
   registerGuidesTools(server, cli);
-  registerManagementTools(server, cli);
+  registerManagementTools(server, cli, projectIndex);
   registerValidationTools(server, cli);
-  registerArchiveTools(server, cli, revisionManager);
-  registerTasksTools(server, cli);
+  registerArchiveTools(server, cli, revisionManager, approvalManager);
+  registerTasksTools(server, cli, taskEditor);
   registerApprovalTools(server, approvalManager);
   registerReviewTools(server, reviewManager);
   registerTemplatesTools(server, templateManager);
@@ -68,43 +102,160 @@ function createMcpServer(cwd: string): McpServer {
   registerGeneratorTools(server, proposalGenerator);
 
   // 跨服务文档管理
-  const crossServiceManager = new CrossServiceManager({ cwd });
+  const crossServiceManager = workspace.scoped(({ root }) => new CrossServiceManager({ cwd: root }));
   registerCrossServiceTools(server, crossServiceManager);
 
   // 规格评审
-  const specCritic = new SpecCritic({ cwd });
+  const specCritic = workspace.scoped(({ root }) => new SpecCritic({ cwd: root }));
   registerCritiqueTools(server, specCritic);
 
   // 项目上下文分析
-  const contextAnalyzer = new ContextAnalyzer({ cwd });
+  const contextAnalyzer = workspace.scoped(({ root }) => new ContextAnalyzer({ cwd: root }));
   registerContextTools(server, contextAnalyzer);
   registerAIContextTools(server, contextAnalyzer);
 
   // 设计变更记录
   registerRevisionTools(server, revisionManager);
 
+  // 全文搜索
+  const specSearch = workspace.scoped(({ root }) => new SpecSearch({ cwd: root }));
+  registerSearchTools(server, specSearch);
+
+  // 变更依赖
+  const changeDependencies = workspace.scoped(({ root }) => new ChangeDependencies({ cwd: root, index: projectIndex }));
+  registerChangeGraphTools(server, changeDependencies);
+
+  // 规格历史
+  const specHistory = workspace.scoped(({ root }) => new SpecHistory({ cwd: root }));
+  registerSpecHistoryTools(server, specHistory);
+
+  // 变更冲突
+  const changeConflicts = workspace.scoped(({ root }) => new ChangeConflicts({ cwd: root, index: projectIndex }));
+  registerConflictTools(server, changeConflicts);
+
+  // 规格依赖图
+  const specParser = workspace.scoped(({ root }) => new SpecParser({ cwd: root }));
+  registerSpecGraphTools(server, specParser);
+
+  // 导入 Gherkin / ADR
+  const specImporter = workspace.scoped(({ root }) => new SpecImporter({ cwd: root }));
+  registerImportTools(server, specImporter);
+
+  // 测试骨架生成
+  const testGenerator = workspace.scoped(({ root }) => new TestGenerator({ cwd: root, cli }));
+  registerTestGenerationTools(server, testGenerator);
+
+  // 需求追溯
+  const traceabilityScanner = workspace.scoped(({ root }) => new TraceabilityScanner({ cwd: root }));
+  registerTraceabilityTools(server, traceabilityScanner);
+
+  // 测试证据
+  const testEvidence = workspace.scoped(({ root }) => new TestEvidenceManager({ cwd: root, cli, index: projectIndex }));
+  registerEvidenceTools(server, testEvidence);
+
   return server;
 }
 
+/**
+ * 创建按项目分派的项目索引
+ */
+function createProjectIndex(workspace: Workspace): ProjectIndex {
+  return workspace.scoped(({ root }) => new ProjectIndex({ cwd: root }));
+}
+
 /**
  * 启动 MCP Server (stdio 模式)
+ *
+ * 未与 Dashboard 共享索引时，为每个项目启动一个静默的文件监控器驱动索引失效
  */
-async function startMcpServer(cwd: string): Promise<void> {
-  const server = createMcpServer(cwd);
+async function startMcpServer(workspace: Workspace, projectIndex?: ProjectIndex): Promise<void> {
+  let index = projectIndex;
+  if (!index) {
+    index = createProjectIndex(workspace);
+    for (const project of workspace.getProjects()) {
+      const fileWatcher = new FileWatcher({ cwd: project.root, silent: true });
+      workspace.run(project.name, () => index!.attach(fileWatcher));
+      await fileWatcher.start();
+    }
+  }
+
+  const server = createMcpServer(workspace, index);
   const transport = new StdioServerTransport();
 
   await server.connect(transport);
 
   console.error(`OpenSpec MCP Server v${VERSION} started`);
-  console.error(`Working directory: ${cwd}`);
+  for (const project of workspace.getProjects()) {
+    console.error(`Project ${project.name}: ${project.root}`);
+  }
 }
 
 /**
  * 启动 Dashboard (HTTP 模式)
  */
-async function startDashboard(cwd: string, port: number): Promise<void> {
+async function startDashboard(workspace: Workspace, port: number, projectIndex?: ProjectIndex): Promise<void> {
   const { startApiServer } = await import('./api/server.js');
-  await startApiServer({ cwd, port });
+  await startApiServer({ cwd: workspace.resolve().root, port, projectIndex, workspace });
+}
+
+/**
+ * 加载工作区并注册配置的扩展任务状态（须在创建工具和路由之前）
+ */
+async function loadWorkspace(options: WorkspaceLoadOptions): Promise<Workspace> {
+  const workspace = await Workspace.load(options);
+  registerTaskStates(workspace.getTaskStates());
+  return workspace;
+}
+
+/**
+ * 导出静态站点 / spec book
+ */
+async function exportDocs(cwd: string, options: { html?: string; markdown?: string }): Promise<void> {
+  const workspace = await loadWorkspace({ cwd });
+  const { root } = workspace.resolve();
+  const cli = new OpenSpecCli({ cwd: root });
+  if (!(await cli.isInitialized())) {
+    throw new Error(`OpenSpec is not initialized in ${root}`);
+  }
+
+  const exporter = new SiteExporter({ cwd: root, cli });
+
+  if (options.html) {
+    const result = await exporter.exportHtml(path.resolve(options.html));
+    console.error(`Exported ${result.specs} specs and ${result.changes} changes to ${result.outDir}`);
+  }
+  if (options.markdown) {
+    const file = await exporter.exportBook(path.resolve(options.markdown));
+    console.error(`Exported spec book to ${file}`);
+  }
+}
+
+/**
+ * 导入 Gherkin feature 文件 / ADR
+ */
+async function importDocs(
+  cwd: string,
+  source: string,
+  options: { format?: ImportFormat; spec?: string; change?: string; preview?: boolean }
+): Promise<void> {
+  const workspace = await loadWorkspace({ cwd });
+  const importer = new SpecImporter({ cwd: workspace.resolve().root });
+  const result = await importer.import(path.resolve(source), {
+    format: options.format,
+    specId: options.spec,
+    changeId: options.change,
+    preview: options.preview,
+  });
+  console.log(formatImportResult(result));
+}
+
+/**
+ * 解析项目目录参数
+ */
+function resolveProjectPath(projectPath: string): string {
+  return projectPath.startsWith('/')
+    ? projectPath
+    : `${process.cwd()}/${projectPath}`;
 }
 
 /**
@@ -121,24 +272,60 @@ async function main(): Promise<void> {
     .option('--dashboard', 'Start web dashboard instead of MCP server')
     .option('--with-dashboard', 'Start MCP server with web dashboard')
     .option('-p, --port <number>', 'Dashboard port', '3000')
-    .action(async (projectPath: string, options: { dashboard?: boolean; withDashboard?: boolean; port: string }) => {
-      const cwd = projectPath.startsWith('/')
-        ? projectPath
-        : `${process.cwd()}/${projectPath}`;
+    .option('--workspace', 'Discover OpenSpec projects under path (multi-root workspace)')
+    .action(async (
+      projectPath: string,
+      options: { dashboard?: boolean; withDashboard?: boolean; port: string; workspace?: boolean }
+    ) => {
+      const cwd = resolveProjectPath(projectPath);
+
+      // openspec-workspace.json 存在时总是启用工作区模式
+      const workspace = await loadWorkspace({ cwd, discover: options.workspace });
 
       if (options.dashboard) {
         // 仅 Dashboard 模式
-        await startDashboard(cwd, parseInt(options.port, 10));
+        await startDashboard(workspace, parseInt(options.port, 10));
       } else if (options.withDashboard) {
-        // MCP + Dashboard 模式
-        startDashboard(cwd, parseInt(options.port, 10)).catch(console.error);
-        await startMcpServer(cwd);
+        // MCP + Dashboard 模式：共享同一个项目索引
+        const projectIndex = createProjectIndex(workspace);
+        startDashboard(workspace, parseInt(options.port, 10), projectIndex).catch(console.error);
+        await startMcpServer(workspace, projectIndex);
       } else {
         // 仅 MCP 模式
-        await startMcpServer(cwd);
+        await startMcpServer(workspace);
       }
     });
 
+  const exportCommand = program
+    .command('export')
+    .description('Export all specs and changes as a static HTML site and/or a Markdown spec book')
+    .argument('[path]', 'Project directory path', process.cwd())
+    .option('--html <dir>', 'Write a static HTML site to <dir>')
+    .option('--markdown <file>', 'Write a single-file Markdown spec book to <file>')
+    .action(async (projectPath: string, options: { html?: string; markdown?: string }) => {
+      if (!options.html && !options.markdown) {
+        exportCommand.error('error: specify --html <dir> and/or --markdown <file>');
+      }
+      await exportDocs(resolveProjectPath(projectPath), options);
+    });
+
+  program
+    .command('import')
+    .description('Import Cucumber .feature files as specs or ADR markdown as change proposals')
+    .argument('<source>', 'File or directory to import')
+    .argument('[path]', 'Project directory path', process.cwd())
+    .option('--format <format>', 'Source format: gherkin or adr (default: by file extension)')
+    .option('--spec <id>', 'Gherkin: target spec ID')
+    .option('--change <id>', 'Gherkin: add requirements as a delta in this change; ADR: change ID')
+    .option('--preview', 'Print the generated files without writing them')
+    .action(async (
+      source: string,
+      projectPath: string,
+      options: { format?: ImportFormat; spec?: string; change?: string; preview?: boolean }
+    ) => {
+      await importDocs(resolveProjectPath(projectPath), source, options);
+    });
+
   await program.parseAsync(process.argv);
 }
 
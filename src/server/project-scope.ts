@@ -0,0 +1,61 @@
+/**
+ * MCP 工具的项目作用域
+ * 为所有工具注入可选的 project 参数，并在对应项目作用域内执行处理函数
+ */
+
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RegisteredTool, ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AnySchema, ZodRawShapeCompat } from '@modelcontextprotocol/sdk/server/zod-compat.js';
+import type { CallToolResult, Implementation, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { Workspace } from '../core/workspace.js';
+
+/**
+ * 工具注册配置（与 McpServer.registerTool 一致）
+ */
+interface ToolConfig<InputArgs, OutputArgs> {
+  title?: string;
+  description?: string;
+  inputSchema?: InputArgs;
+  outputSchema?: OutputArgs;
+  annotations?: ToolAnnotations;
+  _meta?: Record<string, unknown>;
+}
+
+// 工具处理函数：有 inputSchema 时为 (args, extra)，否则为 (extra)
+type ToolHandler = (...args: unknown[]) => CallToolResult | Promise<CallToolResult>;
+
+/**
+ * 工具按 project 参数在对应项目作用域内执行的 MCP Server
+ *
+ * 工具的 inputSchema 须为 zod raw shape（本项目所有工具均如此）
+ */
+export class ProjectScopedMcpServer extends McpServer {
+  private workspace: Workspace;
+
+  constructor(serverInfo: Implementation, workspace: Workspace) {
+    super(serverInfo);
+    this.workspace = workspace;
+  }
+
+  override registerTool<
+    OutputArgs extends ZodRawShapeCompat | AnySchema,
+    InputArgs extends undefined | ZodRawShapeCompat | AnySchema = undefined,
+  >(name: string, config: ToolConfig<InputArgs, OutputArgs>, cb: ToolCallback<InputArgs>): RegisteredTool {
+    const hasInput = config.inputSchema !== undefined;
+    const projects = this.workspace.getProjects().map((p) => p.name).join(', ');
+    const inputSchema: ZodRawShapeCompat = {
+      ...(config.inputSchema as ZodRawShapeCompat | undefined),
+      project: z
+        .string()
+        .optional()
+        .describe(`Workspace project to operate on (default: ${this.workspace.getDefaultProject()}; available: ${projects})`),
+    };
+    const handler = cb as ToolHandler;
+
+    return super.registerTool<OutputArgs, ZodRawShapeCompat>(name, { ...config, inputSchema }, (args, extra) => {
+      const { project, ...rest } = args as Record<string, unknown>;
+      return this.workspace.run(project as string | undefined, () => (hasInput ? handler(rest, extra) : handler(extra)));
+    });
+  }
+}
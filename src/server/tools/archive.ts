@@ -7,28 +7,65 @@ import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { OpenSpecCli } from '../../core/openspec-cli.js';
 import { RevisionManager } from '../../core/revision-manager.js';
+import { ApprovalManager } from '../../core/approval-manager.js';
+import type { ArchiveSpecReport } from '../../core/change-archiver.js';
 
-export function registerArchiveTools(server: McpServer, cli: OpenSpecCli, revisionManager?: RevisionManager): void {
+/**
+ * 格式化每个规格的归档结果
+ */
+function formatSpecReports(specs: ArchiveSpecReport[], includeDiff: boolean): string {
+  if (specs.length === 0) {
+    return '\n\nNo specs updated.';
+  }
+
+  const sections = specs.map((spec) => {
+    const changes = [
+      ...spec.added.map((t) => `  + ADDED ${t}`),
+      ...spec.modified.map((t) => `  ~ MODIFIED ${t}`),
+      ...spec.removed.map((t) => `  - REMOVED ${t}`),
+      ...spec.renamed.map((r) => `  → RENAMED ${r.from} → ${r.to}`),
+    ];
+    let text = `**${spec.path}** (${spec.status})\n${changes.join('\n')}`;
+    if (includeDiff && spec.diff) {
+      text += `\n\n\`\`\`diff\n${spec.diff}\`\`\``;
+    }
+    return text;
+  });
+
+  return `\n\nSpecs:\n\n${sections.join('\n\n')}`;
+}
+
+export function registerArchiveTools(
+  server: McpServer,
+  cli: OpenSpecCli,
+  revisionManager?: RevisionManager,
+  approvalManager?: ApprovalManager
+): void {
   /**
    * 归档变更
    */
   server.registerTool(
     'openspec_archive_change',
     {
-      description: 'Archive a completed change proposal. Automatically syncs revisions to design.md before archiving.',
+      description:
+        'Archive a completed change proposal: merges its delta specs into openspec/specs and moves it to changes/archive. Automatically syncs revisions to design.md before archiving. Use dryRun to preview the resulting spec diffs without writing anything.',
       inputSchema: {
         changeId: z.string().describe('Change ID to archive'),
         skipSpecs: z
           .boolean()
           .optional()
           .describe('Skip merging delta specs into main specs'),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe('Preview the spec diffs only, without writing files or moving the change'),
       },
     },
-    async ({ changeId, skipSpecs }) => {
+    async ({ changeId, skipSpecs, dryRun }) => {
       let revisionsSynced = 0;
 
-      // 归档前：同步 revisions 到文档
-      if (revisionManager) {
+      // 归档前：同步 revisions 到文档（预览模式不修改文件）
+      if (revisionManager && !dryRun) {
         try {
           const hasRevisions = await revisionManager.hasRevisions(changeId);
           if (hasRevisions) {
@@ -43,10 +80,25 @@ export function registerArchiveTools(server: McpServer, cli: OpenSpecCli, revisi
         }
       }
 
-      const result = await cli.archiveChange(changeId, { skipSpecs });
+      const result = await cli.archiveChange(changeId, { skipSpecs, dryRun });
+
+      if (result.success && result.dryRun) {
+        let message = `🔍 Archive preview for ${changeId} (no files written)\n\nWould archive to: ${result.archivedPath}`;
+        message += formatSpecReports(result.specs, true);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: message,
+            },
+          ],
+        };
+      }
 
       if (result.success) {
         let message = `✅ Successfully archived change: ${changeId}\n\nArchived to: ${result.archivedPath}`;
+        message += formatSpecReports(result.specs, false);
         
         if (revisionsSynced > 0) {
           message += `\n\n📝 Synced ${revisionsSynced} revision(s) to document before archiving.`;
@@ -73,4 +125,61 @@ export function registerArchiveTools(server: McpServer, cli: OpenSpecCli, revisi
       }
     }
   );
+
+  /**
+   * 恢复已归档的变更
+   */
+  server.registerTool(
+    'openspec_restore_change',
+    {
+      description:
+        'Restore (unarchive) an archived change: moves it back into changes/, reverts the requirement-level edits its archive made to main specs where it is safe to do so, and resets its approval to draft.',
+      inputSchema: {
+        changeId: z.string().describe('Change ID or archive folder name (e.g., 2025-01-01-add-feature)'),
+      },
+    },
+    async ({ changeId }) => {
+      const result = await cli.restoreChange(changeId);
+
+      if (!result.success) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `❌ Failed to restore change: ${changeId}\n\nError: ${result.error}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      if (approvalManager) {
+        await approvalManager.resetToDraft(result.changeId, 'user');
+      }
+
+      let message = `✅ Restored change: ${result.changeId}\n\nMoved ${result.archivedPath} → ${result.restoredPath}`;
+      if (result.specs.length > 0) {
+        const sections = result.specs.map((spec) => {
+          const lines = [
+            ...spec.reverted.map((r) => `  ↩ ${r}`),
+            ...spec.skipped.map((r) => `  ⚠️ ${r}`),
+          ];
+          return `**${spec.path}** (${spec.status})${lines.length > 0 ? `\n${lines.join('\n')}` : ''}`;
+        });
+        message += `\n\nSpecs:\n\n${sections.join('\n\n')}`;
+      }
+      if (approvalManager) {
+        message += '\n\nApproval reset to draft.';
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: message,
+          },
+        ],
+      };
+    }
+  );
 }
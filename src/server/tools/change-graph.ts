@@ -0,0 +1,59 @@
+/**
+ * Change Graph 类工具
+ * 输出变更之间的依赖关系
+ */
+
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ChangeDependencies } from '../../core/change-dependencies.js';
+
+export function registerChangeGraphTools(server: McpServer, dependencies: ChangeDependencies): void {
+  /**
+   * 变更依赖图
+   */
+  server.registerTool(
+    'openspec_change_graph',
+    {
+      description:
+        'Show the change dependency DAG (from proposal frontmatter `dependsOn`) as Mermaid, with blocked changes, missing references and cycles',
+      inputSchema: {
+        includeArchived: z
+          .boolean()
+          .optional()
+          .describe('Include all archived changes (default: only those active changes depend on)'),
+      },
+    },
+    async ({ includeArchived }) => {
+      const report = await dependencies.analyze();
+      const mermaid = await dependencies.toMermaid({ includeArchived });
+
+      const lines = ['```mermaid', mermaid.trimEnd(), '```'];
+
+      const blocked = report.nodes.filter((n) => n.status === 'active' && n.blockedBy.length > 0);
+      if (blocked.length > 0) {
+        lines.push('', '## Blocked');
+        for (const node of blocked) {
+          lines.push(`- ${node.id}: blocked by ${node.blockedBy.join(', ')}`);
+        }
+      }
+
+      if (report.missing.length > 0) {
+        lines.push('', '## Missing references');
+        for (const { changeId, dependsOn } of report.missing) {
+          lines.push(`- ${changeId} depends on unknown change ${dependsOn}`);
+        }
+      }
+
+      if (report.cycles.length > 0) {
+        lines.push('', '## Cycles');
+        for (const cycle of report.cycles) {
+          lines.push(`- ${[...cycle, cycle[0]].join(' -> ')}`);
+        }
+      }
+
+      return {
+        content: [{ type: 'text', text: lines.join('\n') }],
+      };
+    }
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Conflicts 类工具
+ * 检查活跃变更之间是否修改了相同的需求
+ */
+
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ChangeConflicts } from '../../core/change-conflicts.js';
+
+export function registerConflictTools(server: McpServer, changeConflicts: ChangeConflicts): void {
+  /**
+   * 检查变更冲突
+   */
+  server.registerTool(
+    'openspec_check_conflicts',
+    {
+      description:
+        'Check active changes for conflicting delta specs: several changes that MODIFY, REMOVE or RENAME the same requirement, or ADD requirements with the same name',
+      inputSchema: {
+        changeId: z.string().optional().describe('Only report conflicts involving this change'),
+      },
+    },
+    async ({ changeId }) => {
+      const conflicts = changeId
+        ? await changeConflicts.getConflictsFor(changeId)
+        : await changeConflicts.analyze();
+
+      if (conflicts.length === 0) {
+        return {
+          content: [{ type: 'text', text: `✅ No conflicts${changeId ? ` for ${changeId}` : ' between active changes'}.` }],
+        };
+      }
+
+      const sections = conflicts.map((conflict) => {
+        const label = conflict.kind === 'overlap' ? 'touched by multiple changes' : 'added by multiple changes';
+        const operations = conflict.operations.map(
+          (op) => `  - ${op.changeId}: ${op.operation} (${op.file}:${op.line})`
+        );
+        return `- **${conflict.specName} / ${conflict.requirement}** ${label}\n${operations.join('\n')}`;
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `⚠️ ${conflicts.length} conflict(s) found:\n\n${sections.join('\n')}`,
+          },
+        ],
+      };
+    }
+  );
+}
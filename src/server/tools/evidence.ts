@@ -0,0 +1,120 @@
+/**
+ * Evidence 类工具
+ * 导入 JUnit / TAP 测试结果作为场景的验证证据
+ */
+
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { TestEvidenceManager } from '../../core/test-evidence.js';
+import type { ChangeVerification, ScenarioVerificationStatus } from '../../core/test-evidence.js';
+
+const STATUS_ICONS: Record<ScenarioVerificationStatus, string> = {
+  passed: '✅',
+  failed: '❌',
+  skipped: '⏭️',
+  missing: '⬜',
+};
+
+export function registerEvidenceTools(server: McpServer, evidence: TestEvidenceManager): void {
+  /**
+   * 导入测试结果
+   */
+  server.registerTool(
+    'openspec_attach_evidence',
+    {
+      description:
+        'Attach JUnit XML or TAP test results to a change as verification evidence. Test cases are mapped to the change\'s scenarios by "@spec <spec>#<requirement>/<scenario>" tags or by scenario name, and the per-change verification status (e.g. "12/14 scenarios verified") is stored',
+      inputSchema: {
+        changeId: z.string().describe('Change ID'),
+        path: z.string().optional().describe('Report file path relative to the project root'),
+        content: z.string().optional().describe('Report content (instead of path)'),
+        format: z.enum(['junit', 'tap']).optional().describe('Report format (detected when omitted)'),
+        attachedBy: z.string().optional().default('AI').describe('Who attached the results'),
+      },
+    },
+    async ({ changeId, path, content, format, attachedBy }) => {
+      if (!path && content === undefined) {
+        return {
+          content: [{ type: 'text', text: 'Either path or content is required' }],
+          isError: true,
+        };
+      }
+
+      try {
+        const { run, verification } = await evidence.attach(changeId, { file: path, content, format, attachedBy });
+
+        const lines = [
+          `Attached ${run.format} results from ${run.source}: ${run.total} test(s), ${run.passed} passed, ${run.failed} failed, ${run.skipped} skipped.`,
+          `${run.matched} test(s) mapped to scenarios.`,
+        ];
+        if (run.unmatched.length > 0) {
+          lines.push(`Unmatched: ${run.unmatched.join('; ')}`);
+        }
+        lines.push('', formatVerification(verification));
+
+        return {
+          content: [{ type: 'text', text: lines.join('\n') }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * 查看验证状态
+   */
+  server.registerTool(
+    'openspec_get_verification',
+    {
+      description: 'Show which scenarios of a change are verified by attached test results',
+      inputSchema: {
+        changeId: z.string().describe('Change ID'),
+      },
+    },
+    async ({ changeId }) => {
+      try {
+        const verification = await evidence.getVerification(changeId);
+        return {
+          content: [{ type: 'text', text: formatVerification(verification) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * 格式化变更的验证状态
+ */
+function formatVerification(verification: ChangeVerification): string {
+  const lines = [`Verification: ${verification.changeId}`, `**${verification.summary}**`];
+
+  if (verification.total === 0) {
+    lines.push('', 'The change has no ADDED or MODIFIED scenarios.');
+  }
+
+  let specId = '';
+  for (const scenario of verification.scenarios) {
+    if (scenario.specId !== specId) {
+      specId = scenario.specId;
+      lines.push('', `### ${specId}`);
+    }
+    const tests = scenario.tests.length > 0 ? ` — ${scenario.tests.join('; ')}` : '';
+    lines.push(`- ${STATUS_ICONS[scenario.status]} ${scenario.requirement} / ${scenario.scenario}${tests}`);
+  }
+
+  const run = verification.runs[verification.runs.length - 1];
+  if (run) {
+    lines.push('', `Last run: ${run.source} (${run.format}) at ${run.attachedAt} by ${run.attachedBy}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,74 @@
+/**
+ * Import 类工具
+ * 将 Gherkin feature 文件和 ADR 导入为规格 / 变更
+ */
+
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SpecImporter } from '../../core/spec-importer.js';
+import type { ImportResult } from '../../core/spec-importer.js';
+
+export function registerImportTools(server: McpServer, specImporter: SpecImporter): void {
+  /**
+   * 导入 Gherkin / ADR
+   */
+  server.registerTool(
+    'openspec_import',
+    {
+      description:
+        'Import Cucumber .feature files as specs (Feature → spec, Rule → requirement, Scenario → "#### Scenario:" with GIVEN/WHEN/THEN) or ADR markdown as a change proposal/design skeleton. Use preview to see the generated files without writing',
+      inputSchema: {
+        source: z.string().describe('File or directory to import, relative to the project root'),
+        format: z
+          .enum(['gherkin', 'adr'])
+          .optional()
+          .describe('Source format (default: adr for .md files, otherwise gherkin)'),
+        specId: z.string().optional().describe('Gherkin: target spec ID (single file only)'),
+        changeId: z
+          .string()
+          .optional()
+          .describe('Gherkin: add the requirements as an ADDED delta in this change; ADR: change ID (single file only)'),
+        preview: z.boolean().optional().default(false).describe('Show generated files without writing them'),
+      },
+    },
+    async ({ source, format, specId, changeId, preview }) => {
+      try {
+        const result = await specImporter.import(source, { format, specId, changeId, preview, insideProject: true });
+        return {
+          content: [{ type: 'text', text: formatImportResult(result) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Error: ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * 格式化导入结果（预览时附带文件内容）
+ */
+export function formatImportResult(result: ImportResult): string {
+  const created = result.files.filter((f) => !f.exists);
+  const lines = [
+    result.written
+      ? `✅ Imported ${result.format}: created ${created.length} file(s)`
+      : `👀 Preview of ${result.format} import: ${created.length} file(s) would be created`,
+    '',
+    ...result.files.map((f) => `- ${f.path}${f.exists ? ' (exists, skipped)' : ''} ← ${f.source}`),
+  ];
+
+  if (result.warnings.length > 0) {
+    lines.push('', '**Warnings:**', ...result.warnings.map((w) => `- ${w}`));
+  }
+
+  if (!result.written) {
+    for (const file of created) {
+      lines.push('', `### ${file.path}`, '', '```markdown', file.content.trimEnd(), '```');
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -6,24 +6,41 @@
 import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { OpenSpecCli } from '../../core/openspec-cli.js';
+import { ProjectIndex } from '../../core/project-index.js';
+import { filterChanges } from '../../core/change-metadata.js';
 
-export function registerManagementTools(server: McpServer, cli: OpenSpecCli): void {
+export function registerManagementTools(
+  server: McpServer,
+  cli: OpenSpecCli,
+  projectIndex?: ProjectIndex
+): void {
   /**
    * 列出所有变更
    */
   server.registerTool(
     'openspec_list_changes',
     {
-      description: 'List all OpenSpec change proposals',
+      description: 'List all OpenSpec change proposals, optionally filtered by proposal frontmatter metadata',
       inputSchema: {
         includeArchived: z
           .boolean()
           .optional()
           .describe('Include archived changes in the list'),
+        owner: z.string().optional().describe('Only changes owned by this person'),
+        priority: z.enum(['high', 'medium', 'low']).optional().describe('Only changes with this priority'),
+        labels: z.array(z.string()).optional().describe('Only changes carrying all of these labels'),
+        targetRelease: z.string().optional().describe('Only changes targeting this release'),
+        dueBefore: z.string().optional().describe('Only changes due on or before this date (YYYY-MM-DD)'),
       },
     },
-    async ({ includeArchived }) => {
-      const changes = await cli.listChanges({ includeArchived });
+    async ({ includeArchived, owner, priority, labels, targetRelease, dueBefore }) => {
+      const changes = filterChanges(await cli.listChanges({ includeArchived }), {
+        owner,
+        priority,
+        labels,
+        targetRelease,
+        dueBefore,
+      });
       return {
         content: [
           {
@@ -104,6 +121,18 @@ export function registerManagementTools(server: McpServer, cli: OpenSpecCli): vo
         };
       }
 
+      // Deltas 模式：返回完整的结构化 delta
+      if (deltasOnly) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ id: change.id, title: change.title, deltas: change.deltas }, null, 2),
+            },
+          ],
+        };
+      }
+
       // 截断过长的内容
       const tasks = change.tasks || [];
       const truncatedChange: Record<string, unknown> = {
@@ -118,12 +147,17 @@ export function registerManagementTools(server: McpServer, cli: OpenSpecCli): vo
         tasks: tasks.length > maxTasks
           ? [...tasks.slice(0, maxTasks), { id: '...', name: `... and ${tasks.length - maxTasks} more tasks`, status: 'info' }]
           : tasks,
-        // 限制 deltas 内容
-        deltas: change.deltas?.slice(0, 10).map((delta: any) => ({
-          ...delta,
-          content: delta.content?.length > 1000
-            ? delta.content.substring(0, 1000) + `\n\n... [truncated]`
-            : delta.content,
+        // deltas 只保留需求标题和场景名称
+        deltas: change.deltas?.slice(0, 10).map((delta) => ({
+          specName: delta.specName,
+          operation: delta.operation,
+          line: delta.line,
+          requirements: delta.requirements.map((req) => ({
+            title: req.title,
+            line: req.line,
+            scenarios: req.scenarios.map((s) => s.name),
+          })),
+          renames: delta.renames,
         })),
         // 如果 deltas 被截断，添加提示
         deltasNote: change.deltas?.length > 10 ? `Showing 10 of ${change.deltas.length} deltas` : undefined,
@@ -146,12 +180,21 @@ export function registerManagementTools(server: McpServer, cli: OpenSpecCli): vo
   server.registerTool(
     'openspec_show_spec',
     {
-      description: 'Show details of a specific specification',
+      description: 'Show details of a specific specification, including parsed requirements and scenarios',
       inputSchema: {
         specId: z.string().describe('Spec ID (e.g., offline-message)'),
+        requirement: z
+          .string()
+          .optional()
+          .describe('Only return the requirement with this title, number or stable id (e.g., "User Login", "2" or "AUTH-003")'),
+        includeContent: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe('Include raw spec.md markdown in the response'),
       },
     },
-    async ({ specId }) => {
+    async ({ specId, requirement, includeContent }) => {
       const spec = await cli.showSpec(specId);
 
       if (!spec) {
@@ -166,14 +209,58 @@ export function registerManagementTools(server: McpServer, cli: OpenSpecCli): vo
         };
       }
 
+      // 只返回单个需求
+      if (requirement) {
+        const key = requirement.trim().toLowerCase();
+        const match = spec.requirements.find(
+          (r) => String(r.id) === key || r.title.toLowerCase() === key || r.anchor?.toLowerCase() === key
+        );
+
+        if (!match) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Requirement not found in ${specId}: ${requirement}\n\nAvailable: ${spec.requirements.map((r) => `${r.id}. ${r.title}`).join(', ') || 'none'}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ specId, requirement: match }, null, 2) }],
+        };
+      }
+
+      const result = includeContent ? spec : { ...spec, content: undefined };
+
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(spec, null, 2),
+            text: JSON.stringify(result, null, 2),
           },
         ],
       };
     }
   );
+
+  /**
+   * 项目索引统计
+   */
+  if (projectIndex) {
+    server.registerTool(
+      'openspec_index_stats',
+      {
+        description: 'Show cache statistics (entries, hits, misses, invalidations) of the in-memory project index',
+        inputSchema: {},
+      },
+      async () => {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(projectIndex.getStats(), null, 2) }],
+        };
+      }
+    );
+  }
 }
@@ -0,0 +1,85 @@
+/**
+ * Search 类工具
+ * 全文搜索规格、变更和归档
+ */
+
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SpecSearch } from '../../core/spec-search.js';
+import type { SearchResult } from '../../core/spec-search.js';
+
+export function registerSearchTools(server: McpServer, specSearch: SpecSearch): void {
+  /**
+   * 全文搜索
+   */
+  server.registerTool(
+    'openspec_search',
+    {
+      description:
+        'Full-text search across spec requirements and scenarios, change proposals, designs, tasks, delta specs and archived changes. Results are ranked and link to the owning spec/change and line.',
+      inputSchema: {
+        query: z.string().describe('Search terms; every term must match'),
+        types: z
+          .array(z.enum(['requirement', 'scenario', 'proposal', 'design', 'task']))
+          .optional()
+          .describe('Only return these result types'),
+        status: z
+          .enum(['active', 'archived'])
+          .optional()
+          .describe('Only search active content (specs and active changes) or archived changes'),
+        specId: z.string().optional().describe('Only search this spec and delta specs targeting it'),
+        limit: z.number().int().positive().optional().describe('Maximum results (default: 20)'),
+      },
+    },
+    async ({ query, types, status, specId, limit }) => {
+      const response = await specSearch.search(query, { types, status, specId, limit });
+
+      if (response.total === 0) {
+        return {
+          content: [{ type: 'text', text: `No results for "${query}"` }],
+        };
+      }
+
+      const lines = [`Found ${response.total} result(s) for "${query}":`, ''];
+      response.results.forEach((result, i) => {
+        lines.push(`${i + 1}. [${result.type}] ${result.title} (score ${result.score})`);
+        lines.push(`   ${formatOwner(result)} — ${result.file}:${result.line}`);
+        lines.push(`   ${highlight(result)}`);
+      });
+      if (response.total > response.results.length) {
+        lines.push('', `Showing ${response.results.length} of ${response.total}; raise limit or add filters for more.`);
+      }
+
+      return {
+        content: [{ type: 'text', text: lines.join('\n') }],
+      };
+    }
+  );
+}
+
+/**
+ * 结果所属的规格或变更
+ */
+function formatOwner(result: SearchResult): string {
+  const parts: string[] = [];
+  if (result.changeId) {
+    parts.push(`change ${result.changeId}${result.status === 'archived' ? ' (archived)' : ''}`);
+  }
+  if (result.specId) {
+    parts.push(`spec ${result.specId}`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * 用 ** 标记摘要中的命中
+ */
+function highlight(result: SearchResult): string {
+  let text = '';
+  let cursor = 0;
+  for (const { start, end } of result.highlights) {
+    text += `${result.snippet.slice(cursor, start)}**${result.snippet.slice(start, end)}**`;
+    cursor = end;
+  }
+  return text + result.snippet.slice(cursor);
+}
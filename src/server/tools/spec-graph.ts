@@ -0,0 +1,151 @@
+/**
+ * Spec Graph 类工具
+ * 规格依赖图、反向依赖和变更影响分析
+ */
+
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SpecParser } from '../../core/spec-parser.js';
+import { exportGraph, listGraphFormats } from '../../core/graph-exporters.js';
+
+export function registerSpecGraphTools(server: McpServer, specParser: SpecParser): void {
+  /**
+   * 规格依赖
+   */
+  server.registerTool(
+    'openspec_spec_dependencies',
+    {
+      description:
+        'Show spec dependencies (frontmatter `dependsOn` or `<!-- @depends-on: ... -->`). Without specId returns the whole graph as Mermaid with missing targets and cycles; with specId returns its dependencies and the specs that depend on it',
+      inputSchema: {
+        specId: z.string().optional().describe('Spec ID to inspect (default: whole graph)'),
+      },
+    },
+    async ({ specId }) => {
+      const graph = await specParser.buildDependencyGraph();
+      const lines: string[] = [];
+
+      if (specId) {
+        const direct = await specParser.parseDependencies(specId);
+        const chain = await specParser.getDependencyChain(specId);
+        const dependents = await specParser.getDependents(specId);
+        const allDependents = await specParser.getDependents(specId, { transitive: true });
+        const list = (items: string[]) => items.join(', ') || 'none';
+
+        lines.push(
+          `# ${specId}`,
+          '',
+          `- Depends on: ${list(direct)}`,
+          `- Transitively depends on: ${list(chain.filter((d) => !direct.includes(d)))}`,
+          `- Depended on by: ${list(dependents)}`,
+          `- Transitively depended on by: ${list(allDependents.filter((d) => !dependents.includes(d)))}`
+        );
+      } else {
+        lines.push('```mermaid', (await specParser.toMermaid()).trimEnd(), '```');
+      }
+
+      const missing = graph.missing.filter((e) => !specId || e.from === specId);
+      if (missing.length > 0) {
+        lines.push('', '## Missing targets');
+        for (const edge of missing) {
+          lines.push(`- ${edge.from} depends on unknown spec ${edge.to}`);
+        }
+      }
+
+      const cycles = graph.cycles.filter((c) => !specId || c.includes(specId));
+      if (cycles.length > 0) {
+        lines.push('', '## Cycles');
+        for (const cycle of cycles) {
+          lines.push(`- ${[...cycle, cycle[0]].join(' -> ')}`);
+        }
+      }
+
+      return {
+        content: [{ type: 'text', text: lines.join('\n') }],
+      };
+    }
+  );
+
+  /**
+   * 导出依赖图 / 影响图
+   */
+  server.registerTool(
+    'openspec_export_graph',
+    {
+      description:
+        'Export the spec dependency graph or the change→spec impact graph as Mermaid, Graphviz DOT, PlantUML or JSON. Specs are clustered by capability prefix and colored by status (stable, changing, new, missing)',
+      inputSchema: {
+        format: z
+          .string()
+          .optional()
+          .default('mermaid')
+          .describe(`Output format: ${listGraphFormats().join(', ')}`),
+        graph: z
+          .enum(['specs', 'impact'])
+          .optional()
+          .default('specs')
+          .describe('specs: spec dependencies; impact: active changes and the specs they touch or affect'),
+        changeId: z.string().optional().describe('Limit the impact graph to one change'),
+      },
+    },
+    async ({ format, graph, changeId }) => {
+      try {
+        const exportable = graph === 'impact'
+          ? await specParser.toImpactGraph(changeId)
+          : await specParser.toExportGraph();
+        const output = exportGraph(format, exportable);
+
+        return {
+          content: [{ type: 'text', text: `\`\`\`${format}\n${output.trimEnd()}\n\`\`\`` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Error: ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * 变更影响分析
+   */
+  server.registerTool(
+    'openspec_impact_analysis',
+    {
+      description:
+        'Analyze the impact of a change: the specs its delta specs touch and every spec that transitively depends on them, with the dependency path',
+      inputSchema: {
+        changeId: z.string().describe('Change ID'),
+      },
+    },
+    async ({ changeId }) => {
+      try {
+        const impact = await specParser.analyzeChangeImpact(changeId);
+        const lines = [
+          `# Impact of ${changeId}`,
+          '',
+          `Touched specs: ${impact.touched.join(', ') || 'none'}`,
+        ];
+
+        if (impact.impacted.length === 0) {
+          lines.push('', 'No other specs depend on the touched specs.');
+        } else {
+          lines.push('', '## Impacted specs', '', 'Each line shows the dependency chain back to a touched spec.', '');
+          for (const { specId, path } of impact.impacted) {
+            lines.push(`- ${specId}: ${[...path].reverse().join(' → ')}`);
+          }
+        }
+
+        return {
+          content: [{ type: 'text', text: lines.join('\n') }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Error: ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * Spec History 类工具
+ * 基于归档变更重建规格的历史、blame 和任意时间点的差异
+ */
+
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SpecHistory } from '../../core/spec-history.js';
+import type { SpecHistoryReport } from '../../core/spec-history.js';
+
+/**
+ * 格式化历史和 blame
+ */
+function formatHistory(report: SpecHistoryReport, requirement?: string): string {
+  const lines: string[] = [`# History of ${report.specId}`];
+
+  if (report.entries.length === 0) {
+    lines.push('', 'No archived changes touch this spec.');
+  } else {
+    lines.push('', '## Changes');
+    for (const entry of report.entries) {
+      const ops = [
+        ...entry.added.map((t) => `+${t}`),
+        ...entry.modified.map((t) => `~${t}`),
+        ...entry.removed.map((t) => `-${t}`),
+        ...entry.renamed.map((r) => `${r.from}→${r.to}`),
+      ];
+      lines.push(`- ${entry.date} **${entry.changeId}**: ${ops.join(', ') || 'no requirement changes'}`);
+      for (const error of entry.errors) {
+        lines.push(`  - ⚠️ ${error}`);
+      }
+    }
+  }
+
+  const needle = requirement?.trim().toLowerCase();
+  const blame = needle ? report.blame.filter((b) => b.title.toLowerCase().includes(needle)) : report.blame;
+
+  lines.push('', '## Blame');
+  if (blame.length === 0) {
+    lines.push('', needle ? `No requirement matching "${requirement}".` : 'No requirements in the current spec.');
+  } else {
+    lines.push('', '| Requirement | Line | Introduced | Last changed |', '| --- | --- | --- | --- |');
+    for (const b of blame) {
+      const introduced = b.introducedBy ? `${b.introducedBy} (${b.introducedAt})` : '—';
+      let last = b.lastChangedBy ? `${b.lastOperation} by ${b.lastChangedBy} (${b.lastChangedAt})` : 'not in archive history';
+      if (b.editedSinceArchive) {
+        last += ' ⚠️ edited since';
+      }
+      lines.push(`| ${b.title} | ${b.line} | ${introduced} | ${last} |`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function registerSpecHistoryTools(server: McpServer, specHistory: SpecHistory): void {
+  /**
+   * 规格历史
+   */
+  server.registerTool(
+    'openspec_spec_history',
+    {
+      description:
+        'Reconstruct the history of a spec by replaying archived change deltas in date order. Shows which archived change introduced and last touched each requirement (blame), the spec as of a date (at), or a diff between two points (from/to)',
+      inputSchema: {
+        specId: z.string().describe('Spec ID'),
+        requirement: z.string().optional().describe('Only blame requirements whose title contains this text'),
+        at: z
+          .string()
+          .optional()
+          .describe('Show the spec as of this point: YYYY-MM-DD or an archived change ID'),
+        from: z
+          .string()
+          .optional()
+          .describe('Diff from this point: "initial", YYYY-MM-DD, an archived change ID or "current"'),
+        to: z.string().optional().describe('Diff to this point (default: "current")'),
+      },
+    },
+    async ({ specId, requirement, at, from, to }) => {
+      try {
+        if (at) {
+          const content = await specHistory.getSnapshot(specId, at);
+          const text = content
+            ? `# ${specId} as of ${at}\n\n\`\`\`markdown\n${content.trimEnd()}\n\`\`\``
+            : `Spec ${specId} did not exist as of ${at}.`;
+          return { content: [{ type: 'text', text }] };
+        }
+
+        if (from || to) {
+          const diff = await specHistory.diff(specId, from || 'initial', to || 'current');
+          const text = diff ? `\`\`\`diff\n${diff}\`\`\`` : 'No differences.';
+          return { content: [{ type: 'text', text }] };
+        }
+
+        const report = await specHistory.getHistory(specId);
+        return { content: [{ type: 'text', text: formatHistory(report, requirement) }] };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Error: ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -6,47 +6,86 @@
 import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { OpenSpecCli } from '../../core/openspec-cli.js';
-import type { ProgressSummary } from '../../types/openspec.js';
+import { TaskParser, filterTasks, findNextTasks } from '../../core/task-parser.js';
+import type { TaskFilter } from '../../core/task-parser.js';
+import { TaskEditor } from '../../core/task-editor.js';
+import type { TaskEditResult } from '../../core/task-editor.js';
+import { TASK_STATES, TASK_STATUSES, getTaskState } from '../../utils/constants.js';
+import type { Progress, ProgressSummary, Task, TaskMetadataUpdate } from '../../types/openspec.js';
 
-export function registerTasksTools(server: McpServer, cli: OpenSpecCli): void {
+// 任务筛选参数
+const filterSchema = {
+  assignee: z.string().optional().describe('Only tasks assigned to this person ("my tasks"), e.g. alice or @alice'),
+  tag: z.string().optional().describe('Only tasks with this tag, e.g. backend or #backend'),
+  overdue: z.boolean().optional().describe('Only unfinished tasks past their due date'),
+};
+
+// 任务位置参数
+const positionSchema = {
+  section: z.string().optional().describe('Section heading, e.g. "2. Implementation" or "implementation" (created when missing)'),
+  parentId: z.string().optional().describe('Insert as the last subtask of this task'),
+  afterId: z.string().optional().describe('Insert after this task (and its subtasks), as its sibling'),
+  beforeId: z.string().optional().describe('Insert before this task, as its sibling'),
+};
+
+const renumberSchema = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe('Renumber all task ids in document order afterwards');
+
+export function registerTasksTools(server: McpServer, cli: OpenSpecCli, editor: TaskEditor): void {
   /**
    * 获取变更的任务列表和进度
    */
   server.registerTool(
     'openspec_get_tasks',
     {
-      description: 'Get tasks and progress for a change',
+      description:
+        'Get the task tree and progress for a change (parent status is derived from subtasks). Inline "@assignee ~3h due:YYYY-MM-DD #tag" tokens are shown as metadata and can be used as filters',
       inputSchema: {
         changeId: z.string().describe('Change ID'),
+        ...filterSchema,
+        progressMode: z
+          .enum(['leaf', 'weighted'])
+          .optional()
+          .default('leaf')
+          .describe('leaf: count leaf tasks only; weighted: average sibling completion up the tree'),
       },
     },
-    async ({ changeId }) => {
-      const { tasks, progress } = await cli.getTasks(changeId);
+    async ({ changeId, progressMode, assignee, tag, overdue }) => {
+      const filter: TaskFilter = { assignee, tag, overdue };
+      const filtered = Boolean(assignee || tag || overdue);
+      const result = await cli.getTasks(changeId, { progressMode });
+      // 有筛选条件时平铺列出匹配的任务，进度只统计这些任务
+      const tree = filtered ? filterTasks(result.tasks, filter) : result.tree;
+      const progress = filtered
+        ? new TaskParser().calculateProgress(tree, progressMode)
+        : result.progress;
 
       // 格式化输出
       let text = `Tasks for: ${changeId}\n`;
       text += `========================\n\n`;
-      text += `Progress: ${progress.percentage}% (${progress.completed}/${progress.total})\n`;
-      text += `  ✅ Completed: ${progress.completed}\n`;
-      text += `  🔄 In Progress: ${progress.inProgress}\n`;
-      text += `  ⏳ Pending: ${progress.pending}\n\n`;
+      if (filtered) {
+        text += `Filter: ${describeFilter(filter)}\n`;
+      }
+      text += `Progress: ${progress.percentage}% (${progress.completed}/${progress.total}${progressMode === 'weighted' ? ', weighted' : ''})\n`;
+      text += formatProgressCounts(progress);
+      text += `\n`;
 
-      if (tasks.length > 0) {
+      if (tree.length > 0) {
         text += `Tasks:\n`;
         let currentSection = '';
 
-        for (const task of tasks) {
+        for (const task of tree) {
           if (task.section !== currentSection) {
             currentSection = task.section;
             text += `\n### ${currentSection}\n`;
           }
-
-          const statusIcon =
-            task.status === 'done' ? '✅' : task.status === 'in_progress' ? '🔄' : '⏳';
-          text += `${statusIcon} [${task.id}] ${task.title}\n`;
+          text += renderTaskTree(task, 0);
         }
       } else {
-        text += `No tasks found.\n`;
+        text += filtered ? `No matching tasks.\n` : `No tasks found.\n`;
       }
 
       return {
@@ -56,31 +95,109 @@ export function registerTasksTools(server: McpServer, cli: OpenSpecCli): void {
   );
 
   /**
-   * 更新任务状态
+   * 下一步可做的任务
+   */
+  server.registerTool(
+    'openspec_next_tasks',
+    {
+      description:
+        'List the next actionable tasks of a change: pending leaf tasks whose "(after 1.2, 1.3)" prerequisites (including those of their parent tasks) are all done. Blocked tasks are listed with what they wait on',
+      inputSchema: {
+        changeId: z.string().describe('Change ID'),
+        assignee: z.string().optional().describe('Only tasks assigned to this person'),
+        limit: z.number().optional().describe('Maximum number of tasks to return'),
+      },
+    },
+    async ({ changeId, assignee, limit }) => {
+      const { tasks } = await cli.getTasks(changeId);
+      const scope = (list: Task[]) => (assignee ? filterTasks(list, { assignee }) : list);
+      const parents = new Set(tasks.map((t) => t.parentId).filter(Boolean));
+      const next = scope(findNextTasks(tasks));
+      const blocked = scope(tasks.filter((t) => t.blocked && !parents.has(t.id)));
+
+      let text = `Next tasks for: ${changeId}\n`;
+      text += `========================\n\n`;
+
+      if (next.length === 0) {
+        text += tasks.length === 0 ? `No tasks found.\n` : `No actionable tasks.\n`;
+      }
+      for (const task of next.slice(0, limit || next.length)) {
+        text += `⏳ [${task.id}] ${task.title}${formatTaskMetadata(task)}\n`;
+      }
+      if (limit && next.length > limit) {
+        text += `... and ${next.length - limit} more\n`;
+      }
+
+      if (blocked.length > 0) {
+        text += `\nBlocked (${blocked.length}):\n`;
+        for (const task of blocked) {
+          text += `⛔ [${task.id}] ${task.title} — waiting on ${task.blockedBy!.join(', ')}\n`;
+        }
+      }
+
+      return {
+        content: [{ type: 'text', text }],
+      };
+    }
+  );
+
+  /**
+   * 更新任务状态和行内元数据
    */
   server.registerTool(
     'openspec_update_task',
     {
-      description: 'Update task status',
+      description:
+        `Update task status and/or its inline metadata (assignee, estimate, due date, tags, reason). Statuses: ${describeStates()}. The rest of the task line is left untouched; pass an empty string (or an empty tags array) to remove a value`,
       inputSchema: {
         changeId: z.string().describe('Change ID'),
         taskId: z.string().describe('Task ID (e.g., 1.1, 2.3)'),
-        status: z
-          .enum(['pending', 'in_progress', 'done'])
-          .describe('New status'),
+        status: z.enum(TASK_STATUSES).optional().describe('New status'),
+        assignee: z.string().optional().describe('Assignee, written as @name'),
+        estimate: z.string().optional().describe('Estimate such as 30m, 3h, 2d or 1w, written as ~3h'),
+        due: z.string().optional().describe('Due date YYYY-MM-DD, written as due:YYYY-MM-DD'),
+        tags: z.array(z.string()).optional().describe('Tags (replace the existing tags), written as #tag'),
+        reason: z.string().optional().describe('Why the task is blocked, deferred or cancelled, written as (reason: ...)'),
       },
     },
-    async ({ changeId, taskId, status }) => {
-      const result = await cli.updateTaskStatus(changeId, taskId, status);
+    async ({ changeId, taskId, status, assignee, estimate, due, tags, reason }) => {
+      const metadata: TaskMetadataUpdate = {
+        ...(assignee !== undefined ? { assignee: assignee || null } : {}),
+        ...(estimate !== undefined ? { estimate: estimate || null } : {}),
+        ...(due !== undefined ? { due: due || null } : {}),
+        ...(tags !== undefined ? { tags: tags.length > 0 ? tags : null } : {}),
+        ...(reason !== undefined ? { reason: reason || null } : {}),
+      };
+      const hasMetadata = Object.keys(metadata).length > 0;
+      if (!status && !hasMetadata) {
+        return {
+          content: [{ type: 'text', text: '❌ Nothing to update: pass a status or metadata' }],
+          isError: true,
+        };
+      }
+
+      const messages: string[] = [];
+      let result: { success: boolean; error?: string } = { success: true };
+
+      if (hasMetadata) {
+        const updated = await cli.updateTaskMetadata(changeId, taskId, metadata);
+        result = updated;
+        if (updated.task) {
+          messages.push(`📝 Task ${taskId}: ${updated.task.title}${formatTaskMetadata(updated.task)}`);
+        }
+      }
+
+      if (result.success && status) {
+        result = await cli.updateTaskStatus(changeId, taskId, status);
+        messages.push(`${getTaskState(status).icon} Task ${taskId} updated to: ${status}`);
+      }
 
       if (result.success) {
-        const statusIcon =
-          status === 'done' ? '✅' : status === 'in_progress' ? '🔄' : '⏳';
         return {
           content: [
             {
               type: 'text',
-              text: `${statusIcon} Task ${taskId} updated to: ${status}`,
+              text: messages.join('\n'),
             },
           ],
         };
@@ -104,28 +221,37 @@ export function registerTasksTools(server: McpServer, cli: OpenSpecCli): void {
   server.registerTool(
     'openspec_get_progress_summary',
     {
-      description: 'Get progress summary for all changes',
-      inputSchema: {},
+      description: 'Get progress summary for all changes, optionally only for "my tasks" (assignee), a tag or overdue tasks',
+      inputSchema: filterSchema,
     },
-    async () => {
+    async ({ assignee, tag, overdue }) => {
+      const filter: TaskFilter = { assignee, tag, overdue };
+      const filtered = Boolean(assignee || tag || overdue);
+      const parser = new TaskParser();
       const changes = await cli.listChanges();
-      const summaries: ProgressSummary[] = [];
+      const summaries: (ProgressSummary & { tasks: Task[] })[] = [];
 
       for (const change of changes) {
-        const { progress } = await cli.getTasks(change.id);
+        const { tasks, progress } = await cli.getTasks(change.id);
+        const matching = filtered ? filterTasks(tasks, filter) : [];
+        if (filtered && matching.length === 0) continue;
         summaries.push({
           changeId: change.id,
           title: change.title,
-          progress,
+          progress: filtered ? parser.calculateProgress(matching) : progress,
+          tasks: matching,
         });
       }
 
       // 格式化输出
       let text = `Progress Summary\n`;
       text += `================\n\n`;
+      if (filtered) {
+        text += `Filter: ${describeFilter(filter)}\n\n`;
+      }
 
       if (summaries.length === 0) {
-        text += `No active changes found.\n`;
+        text += filtered ? `No changes have tasks matching the filter.\n` : `No active changes found.\n`;
       } else {
         // 按进度排序
         summaries.sort((a, b) => b.progress.percentage - a.progress.percentage);
@@ -134,7 +260,11 @@ export function registerTasksTools(server: McpServer, cli: OpenSpecCli): void {
           const bar = renderProgressBar(summary.progress.percentage);
           text += `${summary.title}\n`;
           text += `  ${bar} ${summary.progress.percentage}%\n`;
-          text += `  (${summary.progress.completed}/${summary.progress.total} tasks)\n\n`;
+          text += `  (${summary.progress.completed}/${summary.progress.total} tasks)\n`;
+          for (const task of summary.tasks) {
+            text += `  - [${task.id}] ${task.title}${formatTaskMetadata(task)}\n`;
+          }
+          text += `\n`;
         }
 
         // 总体统计
@@ -156,6 +286,127 @@ export function registerTasksTools(server: McpServer, cli: OpenSpecCli): void {
     }
   );
 
+  /**
+   * 新增任务
+   */
+  server.registerTool(
+    'openspec_add_task',
+    {
+      description:
+        'Add a task to a change\'s tasks.md. It is inserted into the given section (or under a parent task / next to a task) with the next free id in the existing format; tasks.md is created when missing',
+      inputSchema: {
+        changeId: z.string().describe('Change ID'),
+        title: z.string().describe('Task title'),
+        ...positionSchema,
+        assignee: z.string().optional().describe('Assignee, written as @name'),
+        estimate: z.string().optional().describe('Estimate such as 3h or 2d, written as ~3h'),
+        due: z.string().optional().describe('Due date YYYY-MM-DD'),
+        tags: z.array(z.string()).optional().describe('Tags, written as #tag'),
+        renumber: renumberSchema,
+      },
+    },
+    async ({ changeId, ...options }) => {
+      try {
+        const result = await editor.addTask(changeId, options);
+        return {
+          content: [{ type: 'text', text: formatEditResult('Added', result) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `❌ Failed to add task: ${error instanceof Error ? error.message : String(error)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * 修改任务标题
+   */
+  server.registerTool(
+    'openspec_edit_task',
+    {
+      description:
+        'Change the title of a task. Status, id, indentation and inline metadata not present in the new title are kept',
+      inputSchema: {
+        changeId: z.string().describe('Change ID'),
+        taskId: z.string().describe('Task ID (e.g., 1.1, 2.3)'),
+        title: z.string().describe('New task title'),
+      },
+    },
+    async ({ changeId, taskId, title }) => {
+      try {
+        const result = await editor.editTask(changeId, taskId, { title });
+        return {
+          content: [{ type: 'text', text: formatEditResult('Updated', result) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `❌ Failed to edit task: ${error instanceof Error ? error.message : String(error)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * 删除任务
+   */
+  server.registerTool(
+    'openspec_remove_task',
+    {
+      description: 'Remove a task and its subtasks from tasks.md',
+      inputSchema: {
+        changeId: z.string().describe('Change ID'),
+        taskId: z.string().describe('Task ID (e.g., 1.1, 2.3)'),
+        renumber: renumberSchema,
+      },
+    },
+    async ({ changeId, taskId, renumber }) => {
+      try {
+        const result = await editor.removeTask(changeId, taskId, { renumber });
+        return {
+          content: [{ type: 'text', text: formatEditResult('Removed', result) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `❌ Failed to remove task: ${error instanceof Error ? error.message : String(error)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * 移动任务
+   */
+  server.registerTool(
+    'openspec_move_task',
+    {
+      description:
+        'Move a task together with its subtasks to another section, under another parent or next to another task. Ids are reassigned when the parent or section number changes',
+      inputSchema: {
+        changeId: z.string().describe('Change ID'),
+        taskId: z.string().describe('Task ID (e.g., 1.1, 2.3)'),
+        ...positionSchema,
+        renumber: renumberSchema,
+      },
+    },
+    async ({ changeId, taskId, ...options }) => {
+      try {
+        const result = await editor.moveTask(changeId, taskId, options);
+        return {
+          content: [{ type: 'text', text: formatEditResult('Moved', result) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `❌ Failed to move task: ${error instanceof Error ? error.message : String(error)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   /**
    * 批量更新任务状态
    */
@@ -169,7 +420,7 @@ export function registerTasksTools(server: McpServer, cli: OpenSpecCli): void {
           .array(
             z.object({
               taskId: z.string().describe('Task ID (e.g., 1.1, 2.3)'),
-              status: z.enum(['pending', 'in_progress', 'done']).describe('New status'),
+              status: z.enum(TASK_STATUSES).describe('New status'),
             })
           )
           .describe('Array of task updates'),
@@ -209,6 +460,98 @@ export function registerTasksTools(server: McpServer, cli: OpenSpecCli): void {
   );
 }
 
+/**
+ * 渲染任务及其子任务（父任务附带叶子任务完成数）
+ */
+function renderTaskTree(task: Task, depth: number): string {
+  const statusIcon = getTaskState(task.status).icon;
+  const rollup = task.progress ? ` (${task.progress.completed}/${task.progress.total})` : '';
+
+  let text = `${'  '.repeat(depth)}${statusIcon} [${task.id}] ${task.title}${formatTaskMetadata(task)}${rollup}\n`;
+  for (const child of task.children || []) {
+    text += renderTaskTree(child, depth + 1);
+  }
+  return text;
+}
+
+/**
+ * 格式化任务编辑结果
+ */
+function formatEditResult(action: string, result: TaskEditResult): string {
+  const lines: string[] = [];
+  if (result.task) {
+    const section = result.task.section ? ` (${result.task.section})` : '';
+    lines.push(`✅ ${action} task [${result.task.id}] ${result.task.title}${formatTaskMetadata(result.task)}${section}`);
+  }
+  if (result.removed && result.removed.length > 1) {
+    lines.push(`Subtasks removed: ${result.removed.slice(1).join(', ')}`);
+  }
+
+  const renumbered = Object.entries(result.renumbered);
+  if (renumbered.length > 0) {
+    lines.push(`Renumbered: ${renumbered.map(([from, to]) => `${from} → ${to}`).join(', ')}`);
+  }
+  if (result.reviewsUpdated > 0) {
+    lines.push(`${result.reviewsUpdated} review(s) moved to the new line numbers`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 格式化任务的行内元数据
+ */
+function formatTaskMetadata(task: Task): string {
+  const tokens = [
+    task.assignee && `@${task.assignee}`,
+    task.estimate && `~${task.estimate}`,
+    task.due && `due:${task.due}`,
+    ...(task.tags || []).map((t) => `#${t}`),
+    task.dependsOn && `(after ${task.dependsOn.join(', ')})`,
+    task.reason && `(reason: ${task.reason})`,
+  ].filter(Boolean);
+  const overdue = filterTasks([task], { overdue: true }).length > 0;
+  const blocked = task.blocked ? ` ⛔ blocked by ${task.blockedBy!.join(', ')}` : '';
+  return `${tokens.length > 0 ? ` — ${tokens.join(' ')}` : ''}${overdue ? ' ⚠️ overdue' : ''}${blocked}`;
+}
+
+/**
+ * 格式化各状态的叶子任务数（为 0 的扩展状态省略）
+ */
+function formatProgressCounts(progress: Progress): string {
+  const counts: Record<string, number> = {
+    done: progress.completed,
+    in_progress: progress.inProgress,
+    pending: progress.pending,
+    blocked: progress.blocked,
+    deferred: progress.deferred,
+    cancelled: progress.cancelled,
+    ...progress.otherStatuses,
+  };
+  return TASK_STATES.filter((s) => ['done', 'in_progress', 'pending'].includes(s.status) || counts[s.status] > 0)
+    .map((s) => `  ${s.icon} ${s.label}: ${counts[s.status]}${s.countsTowardProgress ? '' : ' (not counted)'}\n`)
+    .join('');
+}
+
+/**
+ * 描述可用的任务状态，如 "[ ] pending, [x] done"
+ */
+function describeStates(): string {
+  return TASK_STATES.map((s) => `[${s.char}] ${s.status}`).join(', ');
+}
+
+/**
+ * 描述筛选条件
+ */
+function describeFilter(filter: TaskFilter): string {
+  return [
+    filter.assignee && `assignee @${filter.assignee.replace(/^@/, '')}`,
+    filter.tag && `tag #${filter.tag.replace(/^#/, '')}`,
+    filter.overdue && 'overdue',
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
 /**
  * 渲染进度条
  */
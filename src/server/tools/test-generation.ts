@@ -0,0 +1,48 @@
+/**
+ * Test Generation 类工具
+ * 将规格场景导出为 Gherkin 或测试桩
+ */
+
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { TestGenerator } from '../../core/test-generator.js';
+
+export function registerTestGenerationTools(server: McpServer, testGenerator: TestGenerator): void {
+  /**
+   * 生成测试骨架
+   */
+  server.registerTool(
+    'openspec_generate_tests',
+    {
+      description:
+        'Generate a Gherkin .feature file or vitest/jest/go test stubs from a spec. Requirements and scenarios become describe/it (or Rule/Scenario, TestXxx/t.Run) with embedded "@spec <spec>#<requirement>/<scenario>" tags for traceability',
+      inputSchema: {
+        specId: z.string().describe('Spec ID'),
+        format: z.enum(['gherkin', 'vitest', 'jest', 'go']).optional().default('vitest').describe('Output format'),
+        requirement: z.string().optional().describe('Only this requirement (stable ID or title)'),
+      },
+    },
+    async ({ specId, format, requirement }) => {
+      try {
+        const result = await testGenerator.generate(specId, format, { requirement });
+        const fence = format === 'gherkin' ? 'gherkin' : format === 'go' ? 'go' : 'typescript';
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                `**${result.fileName}** (${result.requirements} requirement(s), ${result.scenarios} scenario(s))\n\n` +
+                `\`\`\`${fence}\n${result.content.trimEnd()}\n\`\`\``,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Error: ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * Traceability 类工具
+ * 扫描源码中的 @spec 标注，报告需求的测试覆盖情况
+ */
+
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { TraceabilityScanner } from '../../core/traceability.js';
+
+export function registerTraceabilityTools(server: McpServer, scanner: TraceabilityScanner): void {
+  /**
+   * 需求追溯矩阵
+   */
+  server.registerTool(
+    'openspec_traceability',
+    {
+      description:
+        'Scan project source and tests for "@spec <spec>#<requirement>" annotations (or "@spec <spec>/<requirement>", "@spec <ID>") and report which requirements have tests, per-spec coverage and uncovered requirements',
+      inputSchema: {
+        specId: z.string().optional().describe('Only report this spec'),
+        uncoveredOnly: z.boolean().optional().default(false).describe('Only list uncovered requirements'),
+      },
+    },
+    async ({ specId, uncoveredOnly }) => {
+      const report = await scanner.scan({ specId });
+
+      const lines = [
+        `Scanned ${report.scannedFiles} file(s), found ${report.annotations} @spec annotation(s).`,
+        '',
+        '| Spec | Covered | Coverage |',
+        '| ---- | ------- | -------- |',
+        ...report.specs.map((s) => `| ${s.specId} | ${s.covered}/${s.requirements} | ${s.percentage}% |`),
+      ];
+
+      for (const spec of report.specs) {
+        const traces = report.matrix.filter((t) => t.specId === spec.specId && (!uncoveredOnly || !t.covered));
+        if (traces.length === 0) continue;
+
+        lines.push('', `### ${spec.specId}`);
+        for (const trace of traces) {
+          const label = `${trace.title}${trace.anchor ? ` {#${trace.anchor}}` : ''}`;
+          if (!trace.covered) {
+            lines.push(`- ❌ ${label}`);
+            continue;
+          }
+          lines.push(`- ✅ ${label}`);
+          for (const ref of trace.references) {
+            lines.push(`  - ${ref.file}:${ref.line}${ref.test ? ` — ${ref.test}` : ''}`);
+          }
+        }
+      }
+
+      if (report.unresolved.length > 0) {
+        lines.push('', '**Unresolved annotations:**');
+        lines.push(...report.unresolved.map((u) => `- ${u.file}:${u.line} \`@spec ${u.tag}\` — ${u.reason}`));
+      }
+
+      return {
+        content: [{ type: 'text', text: lines.join('\n') }],
+      };
+    }
+  );
+}
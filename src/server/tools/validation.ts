@@ -21,10 +21,14 @@ export function registerValidationTools(server: McpServer, cli: OpenSpecCli): vo
           .boolean()
           .optional()
           .describe('Use strict validation mode'),
+        engine: z
+          .enum(['native', 'cli'])
+          .optional()
+          .describe('Validation engine: native (built-in, default) or cli (external openspec command)'),
       },
     },
-    async ({ changeId, strict }) => {
-      const result = await cli.validateChange(changeId, { strict });
+    async ({ changeId, strict, engine }) => {
+      const result = await cli.validateChange(changeId, { strict, engine });
 
       const statusText = result.valid ? '✅ Valid' : '❌ Invalid';
       let text = `${statusText}\n\nChange: ${changeId}\n`;
@@ -33,7 +37,8 @@ export function registerValidationTools(server: McpServer, cli: OpenSpecCli): vo
         text += '\nErrors:\n';
         for (const error of result.errors) {
           const prefix = error.type === 'error' ? '❌' : '⚠️';
-          text += `${prefix} ${error.message}\n`;
+          const rule = error.rule ? ` [${error.rule}]` : '';
+          text += `${prefix} ${error.message}${rule}\n`;
           if (error.location) {
             text += `   Location: ${error.location}\n`;
           }
@@ -59,10 +64,14 @@ export function registerValidationTools(server: McpServer, cli: OpenSpecCli): vo
           .boolean()
           .optional()
           .describe('Use strict validation mode'),
+        engine: z
+          .enum(['native', 'cli'])
+          .optional()
+          .describe('Validation engine: native (built-in, default) or cli (external openspec command)'),
       },
     },
-    async ({ specId, strict }) => {
-      const result = await cli.validateSpec(specId, { strict });
+    async ({ specId, strict, engine }) => {
+      const result = await cli.validateSpec(specId, { strict, engine });
 
       const statusText = result.valid ? '✅ Valid' : '❌ Invalid';
       let text = `${statusText}\n\nSpec: ${specId}\n`;
@@ -71,7 +80,8 @@ export function registerValidationTools(server: McpServer, cli: OpenSpecCli): vo
         text += '\nErrors:\n';
         for (const error of result.errors) {
           const prefix = error.type === 'error' ? '❌' : '⚠️';
-          text += `${prefix} ${error.message}\n`;
+          const rule = error.rule ? ` [${error.rule}]` : '';
+          text += `${prefix} ${error.message}${rule}\n`;
           if (error.location) {
             text += `   Location: ${error.location}\n`;
           }
@@ -101,18 +111,22 @@ export function registerValidationTools(server: McpServer, cli: OpenSpecCli): vo
           .boolean()
           .optional()
           .describe('Use strict validation mode'),
+        engine: z
+          .enum(['native', 'cli'])
+          .optional()
+          .describe('Validation engine: native (built-in, default) or cli (external openspec command)'),
       },
     },
-    async ({ type, strict }) => {
+    async ({ type, strict, engine }) => {
       const results: { item: string; valid: boolean; errorCount: number }[] = [];
 
       // 验证变更
       if (type === 'changes' || type === 'all') {
         const changes = await cli.listChanges();
-        for (const change of changes) {
-          const result = await cli.validateChange(change.id, { strict });
+        const validated = await cli.validateChanges(changes.map((c) => c.id), { strict, engine });
+        for (const [changeId, result] of validated) {
           results.push({
-            item: `change:${change.id}`,
+            item: `change:${changeId}`,
             valid: result.valid,
             errorCount: result.errors.length,
           });
@@ -122,10 +136,10 @@ export function registerValidationTools(server: McpServer, cli: OpenSpecCli): vo
       // 验证规格
       if (type === 'specs' || type === 'all') {
         const specs = await cli.listSpecs();
-        for (const spec of specs) {
-          const result = await cli.validateSpec(spec.id, { strict });
+        const validated = await cli.validateSpecs(specs.map((s) => s.id), { strict, engine });
+        for (const [specId, result] of validated) {
           results.push({
-            item: `spec:${spec.id}`,
+            item: `spec:${specId}`,
             valid: result.valid,
             errorCount: result.errors.length,
           });
@@ -5,8 +5,11 @@
 // 变更状态
 export type ChangeStatus = 'active' | 'archived';
 
-// 任务状态
-export type TaskStatus = 'pending' | 'in_progress' | 'done';
+// 内置任务状态（checkbox 字符见 utils/constants 中的 TASK_STATES）
+export type BuiltinTaskStatus = 'pending' | 'in_progress' | 'done' | 'blocked' | 'deferred' | 'cancelled';
+
+// 任务状态：内置状态或工作区配置的扩展状态
+export type TaskStatus = BuiltinTaskStatus | (string & {});
 
 // 审批状态 (5 个: draft → pending → in_progress → completed, rejected 回到 draft)
 export type ApprovalStatus =
@@ -19,10 +22,25 @@ export type ApprovalStatus =
 // Delta 操作类型
 export type DeltaOperation = 'ADDED' | 'MODIFIED' | 'REMOVED' | 'RENAMED';
 
+// 变更优先级
+export type ChangePriority = 'high' | 'medium' | 'low';
+
+/**
+ * 变更元数据 (proposal.md frontmatter)
+ */
+export interface ChangeMetadata {
+  owner?: string;
+  priority?: ChangePriority;
+  labels?: string[];
+  targetRelease?: string;
+  dueDate?: string;          // YYYY-MM-DD
+  dependsOn?: string[];      // 必须先归档的变更 ID
+}
+
 /**
  * 变更提案
  */
-export interface Change {
+export interface Change extends ChangeMetadata {
   id: string;
   title: string;
   status: ChangeStatus;
@@ -97,18 +115,74 @@ export interface Task {
   title: string;
   status: TaskStatus;
   line: number;              // 文件行号
-  children?: Task[];         // 子任务
+  assignee?: string;         // @alice
+  estimate?: string;         // ~3h / ~2d
+  estimateHours?: number;    // 估时折算为小时（1d = 8h，1w = 40h）
+  due?: string;              // due:2026-11-01
+  tags?: string[];           // #backend
+  reason?: string;           // (reason: ...)，说明阻塞、取消或延后的原因
+  dependsOn?: string[];      // (after 1.2, 1.3)
+  blocked?: boolean;         // 未完成且有前置任务未完成（含祖先任务的前置任务）
+  blockedBy?: string[];      // 未完成的前置任务 ID
+  parentId?: string;         // 父任务 ID（按 ID 前缀或缩进确定）
+  depth?: number;            // 层级，顶层为 0
+  children?: Task[];         // 子任务（buildTaskTree 填充）
+  progress?: Progress;       // 子任务进度（buildTaskTree 填充，仅父任务）
+}
+
+/**
+ * 任务行内元数据（写回时 null 表示删除）
+ */
+export interface TaskMetadataUpdate {
+  assignee?: string | null;
+  estimate?: string | null;
+  due?: string | null;
+  tags?: string[] | null;
+  reason?: string | null;
+}
+
+/**
+ * 任务状态定义
+ */
+export interface TaskStateDefinition {
+  status: TaskStatus;
+  char: string;                   // checkbox 字符，如 [x] 中的 x
+  icon: string;
+  label: string;
+  countsTowardProgress: boolean;  // false 时不计入进度（如已取消）
+}
+
+/**
+ * 工作区配置中的扩展任务状态（openspec-workspace.json 的 taskStates）
+ */
+export interface TaskStateConfig {
+  status: string;                 // 小写字母、数字和下划线，如 needs_review
+  char: string;                   // 单个 checkbox 字符，不能与其他状态重复
+  icon?: string;
+  label?: string;
+  countsTowardProgress?: boolean; // 默认 true
 }
 
+/**
+ * 进度计算方式
+ * - leaf: 只统计叶子任务（父任务不重复计数）
+ * - weighted: 同级任务权重相同，父任务完成度为子任务完成度的平均值
+ */
+export type ProgressMode = 'leaf' | 'weighted';
+
 /**
  * 进度统计
  */
 export interface Progress {
-  total: number;
+  total: number;             // 计入进度的叶子任务数（不含已取消）
   completed: number;
   inProgress: number;
   pending: number;
+  blocked: number;
+  deferred: number;
+  cancelled: number;
   percentage: number;
+  otherStatuses?: Record<string, number>;   // 扩展状态的叶子任务数（有扩展状态的任务时才返回）
 }
 
 /**
@@ -117,17 +191,42 @@ export interface Progress {
 export interface Delta {
   specName: string;
   operation: DeltaOperation;
-  requirements: Requirement[];
+  requirements: Requirement[];   // RENAMED 段落为空
+  renames?: RequirementRename[]; // 仅 RENAMED 段落
+  line: number;                  // 操作段落标题所在行号
+}
+
+/**
+ * 需求重命名 (RENAMED Requirements 中的 FROM/TO)
+ */
+export interface RequirementRename {
+  from: string;
+  to: string;
+  line: number;              // FROM 所在行号
 }
 
 /**
  * 需求
  */
 export interface Requirement {
-  id: number;
+  id: number;                // 在所属文档中的序号 (1-based)
   title: string;
-  content: string;
+  anchor?: string;           // 稳定 ID，如 {#AUTH-003} 或 frontmatter ids 映射
+  content: string;           // 需求描述（不含标题和场景）
   scenarios: Scenario[];
+  line: number;              // 标题所在行号
+  endLine: number;           // 需求块最后一行行号
+}
+
+// 场景子句关键字
+export type ScenarioKeyword = 'GIVEN' | 'WHEN' | 'THEN' | 'AND';
+
+/**
+ * 场景子句
+ */
+export interface ScenarioClause {
+  keyword: ScenarioKeyword;
+  text: string;
 }
 
 /**
@@ -135,8 +234,12 @@ export interface Requirement {
  */
 export interface Scenario {
   name: string;
+  given?: string;
   when: string;
   then: string;
+  and?: string[];
+  clauses: ScenarioClause[]; // 按原文顺序的全部子句
+  line: number;              // 标题所在行号
 }
 
 /**
@@ -145,7 +248,10 @@ export interface Scenario {
 export interface ValidationError {
   type: 'error' | 'warning';
   message: string;
-  location?: string;
+  location?: string;         // "file:line" 形式
+  file?: string;             // 相对项目根目录的路径
+  line?: number;             // 行号 (1-based)
+  rule?: string;             // 规则 ID, e.g. "requirement.shall"
 }
 
 /**
@@ -3,6 +3,8 @@
  * 集中管理所有魔法字符串
  */
 
+import type { TaskStateConfig, TaskStateDefinition, TaskStatus } from '../types/openspec.js';
+
 /**
  * OpenSpec 文件名常量
  */
@@ -27,6 +29,11 @@ export const OPENSPEC_DIRS = {
   ARCHIVE: 'archive',
 } as const;
 
+/**
+ * 归档目录名的日期前缀 (changes/archive/<YYYY-MM-DD>-<change-id>)
+ */
+export const ARCHIVE_DATE_PREFIX = /^\d{4}-\d{2}-\d{2}-/;
+
 /**
  * WebSocket 事件类型
  */
@@ -55,3 +62,92 @@ export const APPROVAL_STATUS = {
   REJECTED: 'rejected',
   COMPLETED: 'completed',
 } as const;
+
+// 内置任务状态
+export const BUILTIN_TASK_STATES: readonly TaskStateDefinition[] = [
+  { status: 'pending', char: ' ', icon: '⏳', label: 'Pending', countsTowardProgress: true },
+  { status: 'in_progress', char: '-', icon: '🔄', label: 'In progress', countsTowardProgress: true },
+  { status: 'done', char: 'x', icon: '✅', label: 'Done', countsTowardProgress: true },
+  { status: 'blocked', char: '!', icon: '⛔', label: 'Blocked', countsTowardProgress: true },
+  { status: 'deferred', char: '>', icon: '⏭️', label: 'Deferred', countsTowardProgress: true },
+  { status: 'cancelled', char: '~', icon: '🚫', label: 'Cancelled', countsTowardProgress: false },
+];
+
+const taskStates: TaskStateDefinition[] = [...BUILTIN_TASK_STATES];
+const taskStatuses = taskStates.map((s) => s.status) as [TaskStatus, ...TaskStatus[]];
+
+// 扩展状态不能使用的 checkbox 字符（会破坏 Markdown 或 hook 脚本的引号）
+const RESERVED_TASK_CHARS = new Set(['[', ']', '\\', '"', "'", '`', '$']);
+
+/**
+ * 任务状态定义：checkbox 字符、图标、标签，以及是否计入进度
+ *
+ * 解析器、验证器、Git hooks、看板进度和 Web 图例共用这一份定义；
+ * 内置状态之外的扩展状态通过 registerTaskStates 注册（来自 openspec-workspace.json 的 taskStates）
+ */
+export const TASK_STATES: readonly TaskStateDefinition[] = taskStates;
+
+export const TASK_STATUSES: readonly [TaskStatus, ...TaskStatus[]] = taskStatuses;
+
+/**
+ * 注册扩展任务状态，替换之前注册的扩展状态（传空数组恢复为内置状态）
+ *
+ * 状态名和 checkbox 字符（不区分大小写）都不能与其他状态重复
+ */
+export function registerTaskStates(configs: readonly TaskStateConfig[]): void {
+  const states = [...BUILTIN_TASK_STATES];
+  for (const config of configs) {
+    const status = String(config?.status ?? '');
+    const char = String(config?.char ?? '');
+    const invalid = (reason: string) => new Error(`Invalid task state "${status}": ${reason}`);
+
+    if (!/^[a-z][a-z0-9_]*$/.test(status)) {
+      throw invalid('status must be lowercase letters, digits or underscores');
+    }
+    if (!/^[!-~]$/.test(char) || RESERVED_TASK_CHARS.has(char)) {
+      throw invalid(`checkbox must be one printable ASCII character other than ${[...RESERVED_TASK_CHARS].join(' ')}`);
+    }
+    if (states.some((s) => s.status === status)) {
+      throw invalid('status is already defined');
+    }
+    const taken = states.find((s) => s.char.toLowerCase() === char.toLowerCase());
+    if (taken) {
+      throw invalid(`checkbox [${char}] is already used by ${taken.status}`);
+    }
+
+    states.push({
+      status,
+      char,
+      icon: config.icon || '•',
+      label: config.label || status.replace(/_/g, ' ').replace(/^./, (c) => c.toUpperCase()),
+      countsTowardProgress: config.countsTowardProgress ?? true,
+    });
+  }
+
+  taskStates.splice(0, taskStates.length, ...states);
+  taskStatuses.splice(0, taskStatuses.length, ...states.map((s) => s.status));
+}
+
+/**
+ * 按状态或 checkbox 字符查找状态定义（未知字符视为 pending）
+ */
+export function getTaskState(statusOrChar: string): TaskStateDefinition {
+  return TASK_STATES.find((s) => s.status === statusOrChar || s.char === statusOrChar) || TASK_STATES[0];
+}
+
+/**
+ * checkbox 字符的正则字符类，如 [ x!>~-]
+ */
+export function taskCheckboxClass(states: readonly TaskStateDefinition[] = TASK_STATES): string {
+  const chars = states.map((s) => s.char);
+  const escaped = chars.filter((c) => c !== '-').map((c) => c.replace(/[\\\]^]/g, '\\$&'));
+  return `[${escaped.join('')}${chars.includes('-') ? '-' : ''}]`;
+}
+
+/**
+ * 可用 checkbox 的说明文字，如 "[ ], [-], [x] or [~]"
+ */
+export function describeTaskCheckboxes(): string {
+  const boxes = TASK_STATES.map((s) => `[${s.char}]`);
+  return boxes.length > 1 ? `${boxes.slice(0, -1).join(', ')} or ${boxes[boxes.length - 1]}` : boxes.join('');
+}
@@ -0,0 +1,108 @@
+/**
+ * 文本差异工具
+ * 生成按行比较的 unified diff（用于归档预览等场景）
+ */
+
+export interface UnifiedDiffOptions {
+  oldLabel?: string;
+  newLabel?: string;
+  context?: number;   // 上下文行数，默认 3
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; text: string };
+
+/**
+ * 拆分行，忽略结尾换行
+ */
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+/**
+ * 基于最长公共子序列计算行级编辑序列
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        oldLines[i] === newLines[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      ops.push({ type: ' ', text: oldLines[i++] });
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: '-', text: oldLines[i++] });
+    } else {
+      ops.push({ type: '+', text: newLines[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: '-', text: oldLines[i++] });
+  while (j < m) ops.push({ type: '+', text: newLines[j++] });
+
+  return ops;
+}
+
+/**
+ * 生成 unified diff，内容相同时返回空字符串
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options?: UnifiedDiffOptions): string {
+  const context = options?.context ?? 3;
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  const changed = ops.map((op, index) => (op.type === ' ' ? -1 : index)).filter((index) => index >= 0);
+  if (changed.length === 0) return '';
+
+  // 相邻改动间隔不超过 2 * context 时合并为同一个 hunk
+  const groups: [number, number][] = [];
+  for (const index of changed) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= context * 2) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  }
+
+  // 每个编辑位置之前已经过的旧/新行数
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const op of ops) {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    if (op.type !== '+') oldCount++;
+    if (op.type !== '-') newCount++;
+  }
+
+  const output = [`--- ${options?.oldLabel ?? 'a'}`, `+++ ${options?.newLabel ?? 'b'}`];
+
+  for (const [start, end] of groups) {
+    const from = Math.max(0, start - context);
+    const to = Math.min(ops.length - 1, end + context);
+    const hunk = ops.slice(from, to + 1);
+    const oldLength = hunk.filter((op) => op.type !== '+').length;
+    const newLength = hunk.filter((op) => op.type !== '-').length;
+    const oldStart = oldLength === 0 ? oldBefore[from] : oldBefore[from] + 1;
+    const newStart = newLength === 0 ? newBefore[from] : newBefore[from] + 1;
+
+    output.push(`@@ -${oldStart},${oldLength} +${newStart},${newLength} @@`);
+    output.push(...hunk.map((op) => `${op.type}${op.text}`));
+  }
+
+  return output.join('\n') + '\n';
+}
@@ -0,0 +1,47 @@
+/**
+ * 图工具
+ * 依赖图中的环检测（变更依赖、规格依赖共用）
+ */
+
+/**
+ * 查找有向图中的所有环，每个环只报告一次
+ *
+ * successors: 节点 -> 后继节点；环从字典序最小的节点开始，便于去重和比较
+ */
+export function findCycles(successors: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    for (const next of successors.get(id) || []) {
+      if (state.get(next) === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(next));
+        const start = cycle.indexOf([...cycle].sort()[0]);
+        const normalized = [...cycle.slice(start), ...cycle.slice(0, start)];
+        const key = normalized.join('>');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(normalized);
+        }
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  for (const id of successors.keys()) {
+    if (!state.has(id)) {
+      visit(id);
+    }
+  }
+
+  return cycles;
+}
@@ -0,0 +1,15 @@
+/**
+ * ID 工具
+ * 变更 / 规格 ID 在拼接路径前的安全校验
+ */
+
+/**
+ * 校验 ID 参数，防止路径遍历（不能为空或 .，不能包含 ..、/ 或 \）
+ */
+export function ensureSafeId(id: string, type?: 'change' | 'spec'): string {
+  const trimmed = id.trim();
+  if (!trimmed || trimmed === '.' || trimmed.includes('..') || trimmed.includes('/') || trimmed.includes('\\')) {
+    throw new Error(`Invalid ${type ? `${type} ` : ''}id: ${id}`);
+  }
+  return trimmed;
+}
@@ -0,0 +1,180 @@
+/**
+ * Markdown 渲染工具
+ * 将规格 / 变更文档转换为 HTML（用于静态站点导出）
+ *
+ * 只支持 OpenSpec 文档常用的子集：标题、段落、列表（含任务复选框）、
+ * 引用、代码块、表格、分隔线，以及行内代码、粗体、斜体和链接
+ * mermaid 代码块输出为 <pre class="mermaid">，由页面脚本渲染
+ */
+
+import { getTaskState, taskCheckboxClass } from './constants.js';
+
+// 任务复选框（字符来自 TASK_STATES，含注册的扩展状态）
+const taskCheckbox = () => new RegExp(String.raw`^\[(${taskCheckboxClass()})\]\s*`, 'i');
+
+/**
+ * 转义 HTML 特殊字符
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 生成锚点 slug（保留中文等非 ASCII 字符）
+ */
+export function slugify(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/\s+/g, '-');
+}
+
+/**
+ * 渲染行内元素
+ */
+export function renderInline(text: string): string {
+  const codes: string[] = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code: string) => {
+    codes.push(`<code>${code}</code>`);
+    return `\0${codes.length - 1}\0`;
+  });
+
+  html = html
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, href: string) =>
+      /^\s*javascript:/i.test(href) ? label : `<a href="${href}">${label}</a>`
+    )
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*\w])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>');
+
+  return html.replace(/\0(\d+)\0/g, (_, i: string) => codes[Number(i)]);
+}
+
+/**
+ * 渲染 Markdown 为 HTML
+ *
+ * 标题带 slug id，便于页面内跳转；带 {#ID} 稳定 ID 的标题额外输出同名锚点
+ */
+export function renderMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let i = 0;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${renderInline(paragraph.join(' '))}</p>`);
+      paragraph = [];
+    }
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // 代码块
+    const fence = line.match(/^\s*(```|~~~)\s*([\w-]*)/);
+    if (fence) {
+      flush();
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      const code = escapeHtml(body.join('\n'));
+      html.push(
+        fence[2] === 'mermaid'
+          ? `<pre class="mermaid">${code}</pre>`
+          : `<pre><code${fence[2] ? ` class="language-${fence[2]}"` : ''}>${code}</code></pre>`
+      );
+      continue;
+    }
+
+    // 标题
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      const anchor = heading[2].match(/\s*\{#([A-Za-z][\w-]*)\}$/);
+      const text = anchor ? heading[2].slice(0, anchor.index) : heading[2];
+      const target = anchor ? `<a id="${escapeHtml(anchor[1])}"></a>` : '';
+      html.push(`${target}<h${level} id="${escapeHtml(slugify(text))}">${renderInline(text)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    // 分隔线
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    // 列表
+    if (/^\s*([-*+]|\d+[.)])\s+/.test(line)) {
+      flush();
+      const ordered = /^\s*\d/.test(line);
+      const items: string[] = [];
+      while (i < lines.length && /^\s*([-*+]|\d+[.)])\s+/.test(lines[i])) {
+        const indent = lines[i].match(/^\s*/)![0].length;
+        let text = lines[i].replace(/^\s*([-*+]|\d+[.)])\s+/, '');
+        const checkbox = text.match(taskCheckbox());
+        let prefix = '';
+        if (checkbox) {
+          const checked = getTaskState(checkbox[1].toLowerCase()).status === 'done' ? ' checked' : '';
+          prefix = `<input type="checkbox" disabled${checked}> `;
+          text = text.slice(checkbox[0].length);
+        }
+        const style = indent > 0 ? ` style="margin-left:${Math.min(indent, 12) * 0.5}em"` : '';
+        items.push(`<li${style}>${prefix}${renderInline(text)}</li>`);
+        i++;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      html.push(`<${tag}>${items.join('')}</${tag}>`);
+      continue;
+    }
+
+    // 引用
+    if (/^\s*>/.test(line)) {
+      flush();
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^\s*>\s?/, ''));
+        i++;
+      }
+      html.push(`<blockquote>${renderMarkdown(quoted.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    // 表格（表头 + 分隔行）
+    if (/^\s*\|/.test(line) && /^\s*\|?[\s:|-]+\|?\s*$/.test(lines[i + 1] || '') && lines[i + 1].includes('-')) {
+      flush();
+      const cells = (row: string) => row.trim().replace(/^\||\|$/g, '').split('|').map((c) => c.trim());
+      const header = cells(line).map((c) => `<th>${renderInline(c)}</th>`).join('');
+      const rows: string[] = [];
+      i += 2;
+      while (i < lines.length && /^\s*\|/.test(lines[i])) {
+        rows.push(`<tr>${cells(lines[i]).map((c) => `<td>${renderInline(c)}</td>`).join('')}</tr>`);
+        i++;
+      }
+      html.push(`<table><thead><tr>${header}</tr></thead><tbody>${rows.join('')}</tbody></table>`);
+      continue;
+    }
+
+    if (line.trim() === '' || /^\s*<!--.*-->\s*$/.test(line)) {
+      flush();
+    } else {
+      paragraph.push(line.trim());
+    }
+    i++;
+  }
+
+  flush();
+  return html.join('\n');
+}
@@ -1,7 +1,14 @@
 import { useEffect, useState } from 'react';
 import { Routes, Route, Link, useLocation } from 'react-router-dom';
 import { useWebSocket } from './hooks/useWebSocket';
-import { projectApi } from './api/client';
+import {
+  projectApi,
+  workspaceApi,
+  getCurrentProject,
+  setCurrentProject,
+  PROJECT_CHANGED_EVENT,
+  WorkspaceProject,
+} from './api/client';
 import Dashboard from './components/Dashboard';
 import ChangeList from './components/ChangeList';
 import ChangeDetail from './components/ChangeDetail';
@@ -14,8 +21,37 @@ function App() {
   const location = useLocation();
   const { connected } = useWebSocket();
   const [projectName, setProjectName] = useState<string | null>(null);
+  const [projects, setProjects] = useState<WorkspaceProject[]>([]);
+  const [project, setProject] = useState<string | null>(getCurrentProject());
+  const [workspaceReady, setWorkspaceReady] = useState(false);
 
+  // 加载工作区项目，校验本地保存的项目选择
   useEffect(() => {
+    workspaceApi
+      .get()
+      .then(({ projects, defaultProject, multiRoot }) => {
+        setProjects(multiRoot ? projects : []);
+        const current = getCurrentProject();
+        if (!multiRoot) {
+          setCurrentProject(null);
+        } else if (!current || !projects.some((p) => p.name === current)) {
+          setCurrentProject(defaultProject);
+        }
+      })
+      .catch(() => {
+        // Older servers have no workspace endpoint, keep single-project mode.
+      })
+      .finally(() => setWorkspaceReady(true));
+  }, []);
+
+  useEffect(() => {
+    const onProjectChanged = (e: Event) => setProject((e as CustomEvent<string | null>).detail);
+    window.addEventListener(PROJECT_CHANGED_EVENT, onProjectChanged);
+    return () => window.removeEventListener(PROJECT_CHANGED_EVENT, onProjectChanged);
+  }, []);
+
+  useEffect(() => {
+    if (!workspaceReady) return;
     let active = true;
     projectApi
       .get()
@@ -30,7 +66,7 @@ function App() {
     return () => {
       active = false;
     };
-  }, []);
+  }, [workspaceReady, project]);
 
   const navItems = [
     { path: '/', label: 'Dashboard' },
@@ -49,6 +85,20 @@ function App() {
           <div className="flex justify-between items-center py-4">
             <div className="flex items-center space-x-4">
               <h1 className="text-xl font-bold text-gray-900">OpenSpec MCP</h1>
+              {projects.length > 1 ? (
+                <select
+                  value={project ?? ''}
+                  onChange={(e) => setCurrentProject(e.target.value)}
+                  className="text-sm border border-gray-200 rounded-md px-2 py-1 text-gray-700 bg-white"
+                  title="Workspace project"
+                >
+                  {projects.map((p) => (
+                    <option key={p.name} value={p.name} title={p.root}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
               {projectName ? (
                 <span className="text-sm text-gray-500" title={projectName}>
                   {projectName}
@@ -85,15 +135,18 @@ function App() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <Routes>
-          <Route path="/" element={<Dashboard />} />
-          <Route path="/kanban" element={<Kanban />} />
-          <Route path="/context" element={<ProjectContext />} />
-          <Route path="/changes" element={<ChangeList />} />
-          <Route path="/changes/:id" element={<ChangeDetail />} />
-          <Route path="/specs" element={<SpecList />} />
-          <Route path="/approvals" element={<ApprovalQueue />} />
-        </Routes>
+        {/* 切换项目时重新挂载页面以重新加载数据 */}
+        {workspaceReady ? (
+          <Routes key={project ?? ''}>
+            <Route path="/" element={<Dashboard />} />
+            <Route path="/kanban" element={<Kanban />} />
+            <Route path="/context" element={<ProjectContext />} />
+            <Route path="/changes" element={<ChangeList />} />
+            <Route path="/changes/:id" element={<ChangeDetail />} />
+            <Route path="/specs" element={<SpecList />} />
+            <Route path="/approvals" element={<ApprovalQueue />} />
+          </Routes>
+        ) : null}
       </main>
     </div>
   );
@@ -1,10 +1,31 @@
 const API_BASE = '/api';
+const PROJECT_STORAGE_KEY = 'openspec-project';
+export const PROJECT_CHANGED_EVENT = 'openspec:project-changed';
+
+// 当前工作区项目（多根工作区时随请求发送）
+let currentProject: string | null = localStorage.getItem(PROJECT_STORAGE_KEY);
+
+export function getCurrentProject(): string | null {
+  return currentProject;
+}
+
+export function setCurrentProject(project: string | null): void {
+  if (project === currentProject) return;
+  currentProject = project;
+  if (project) {
+    localStorage.setItem(PROJECT_STORAGE_KEY, project);
+  } else {
+    localStorage.removeItem(PROJECT_STORAGE_KEY);
+  }
+  window.dispatchEvent(new CustomEvent(PROJECT_CHANGED_EVENT, { detail: project }));
+}
 
 async function fetchJson<T>(url: string, options?: RequestInit): Promise<T> {
   const response = await fetch(`${API_BASE}${url}`, {
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...(currentProject ? { 'X-OpenSpec-Project': currentProject } : {}),
       ...options?.headers,
     },
   });
@@ -18,9 +39,26 @@ async function fetchJson<T>(url: string, options?: RequestInit): Promise<T> {
 }
 
 // Changes API
+export interface ChangeSummary {
+  id: string;
+  title: string;
+  status: 'active' | 'archived';
+  tasksCompleted: number;
+  tasksTotal: number;
+  createdAt: string;
+  updatedAt: string;
+  // proposal.md frontmatter
+  owner?: string;
+  priority?: 'high' | 'medium' | 'low';
+  labels?: string[];
+  targetRelease?: string;
+  dueDate?: string;
+  dependsOn?: string[];
+}
+
 export const changesApi = {
   list: (includeArchived = false) =>
-    fetchJson<{ changes: any[] }>(`/changes?includeArchived=${includeArchived}`),
+    fetchJson<{ changes: ChangeSummary[] }>(`/changes?includeArchived=${includeArchived}`),
 
   get: (id: string) => fetchJson<{ change: any }>(`/changes/${id}`),
 
@@ -30,12 +68,32 @@ export const changesApi = {
       body: JSON.stringify({ strict }),
     }),
 
-  archive: (id: string, skipSpecs = false) =>
-    fetchJson<{ success: boolean; archivedPath: string }>(`/changes/${id}/archive`, {
+  archive: (id: string, skipSpecs = false, dryRun = false) =>
+    fetchJson<{
+      success: boolean;
+      archivedPath: string;
+      dryRun: boolean;
+      specs: Array<{
+        specName: string;
+        path: string;
+        status: 'created' | 'updated' | 'unchanged';
+        added: string[];
+        modified: string[];
+        removed: string[];
+        renamed: Array<{ from: string; to: string }>;
+        diff: string;
+      }>;
+    }>(`/changes/${id}/archive${dryRun ? '?dryRun=true' : ''}`, {
       method: 'POST',
       body: JSON.stringify({ skipSpecs }),
     }),
 
+  restore: (id: string) =>
+    fetchJson<{ success: boolean; changeId: string; restoredPath: string; archivedPath: string }>(
+      `/changes/${id}/restore`,
+      { method: 'POST', body: JSON.stringify({}) }
+    ),
+
   // Reviews
   getReviews: (id: string) =>
     fetchJson<{
@@ -82,7 +140,7 @@ export const changesApi = {
 
   // Specs
   getSpecs: (id: string) =>
-    fetchJson<{ specs: Array<{ id: string; title: string; content: string }> }>(
+    fetchJson<{ specs: Array<{ id: string; title: string; content: string; deltas: SpecDelta[] }> }>(
       `/changes/${id}/specs`
     ),
 
@@ -116,6 +174,34 @@ export const changesApi = {
 };
 
 // Specs API
+export interface SpecScenario {
+  name: string;
+  given?: string;
+  when: string;
+  then: string;
+  and?: string[];
+  clauses: Array<{ keyword: 'GIVEN' | 'WHEN' | 'THEN' | 'AND'; text: string }>;
+  line: number;
+}
+
+export interface SpecRequirement {
+  id: number;
+  title: string;
+  anchor?: string;
+  content: string;
+  scenarios: SpecScenario[];
+  line: number;
+  endLine: number;
+}
+
+export interface SpecDelta {
+  specName: string;
+  operation: 'ADDED' | 'MODIFIED' | 'REMOVED' | 'RENAMED';
+  requirements: SpecRequirement[];
+  renames?: Array<{ from: string; to: string; line: number }>;
+  line: number;
+}
+
 export const specsApi = {
   list: () => fetchJson<{ specs: any[] }>('/specs'),
 
@@ -158,10 +244,120 @@ export const specsApi = {
     fetchJson<{ graph: { nodes: any[]; edges: any[] }; mermaid: string }>('/specs/dependencies'),
 };
 
+// Traceability API
+export interface SpecCoverage {
+  specId: string;
+  requirements: number;
+  covered: number;
+  percentage: number;
+  uncovered: string[];
+}
+
+export interface RequirementTrace {
+  specId: string;
+  title: string;
+  anchor?: string;
+  line: number;
+  references: Array<{ file: string; line: number; tag: string; test?: string; scenario?: string }>;
+  scenarios: Array<{ name: string; references: number }>;
+  covered: boolean;
+}
+
+export const traceabilityApi = {
+  get: (specId?: string) =>
+    fetchJson<{ scannedFiles: number; annotations: number; specs: SpecCoverage[]; matrix: RequirementTrace[] }>(
+      `/traceability${specId ? `?specId=${encodeURIComponent(specId)}` : ''}`
+    ),
+};
+
+// Evidence API
+export interface ScenarioEvidence {
+  specId: string;
+  requirement: string;
+  scenario: string;
+  tag: string;
+  status: 'passed' | 'failed' | 'skipped' | 'missing';
+  tests: string[];
+  runId?: string;
+  updatedAt?: string;
+}
+
+export interface ChangeVerification {
+  changeId: string;
+  total: number;
+  verified: number;
+  failed: number;
+  skipped: number;
+  missing: number;
+  summary: string;
+  scenarios: ScenarioEvidence[];
+  runs: Array<{
+    id: string;
+    format: 'junit' | 'tap';
+    source: string;
+    attachedAt: string;
+    attachedBy: string;
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+  }>;
+}
+
+export const evidenceApi = {
+  get: (changeId: string) => fetchJson<ChangeVerification>(`/evidence/${changeId}`),
+
+  attach: (changeId: string, content: string, format?: 'junit' | 'tap') =>
+    fetchJson<{ verification: ChangeVerification }>('/evidence', {
+      method: 'POST',
+      body: JSON.stringify({ changeId, content, format }),
+    }),
+};
+
 // Tasks API
+export interface TaskState {
+  status: string;
+  char: string;
+  icon: string;
+  label: string;
+  countsTowardProgress: boolean;
+}
+
+export interface Progress {
+  total: number;
+  completed: number;
+  inProgress: number;
+  pending: number;
+  blocked: number;
+  deferred: number;
+  cancelled: number;
+  percentage: number;
+  otherStatuses?: Record<string, number>;   // 扩展状态的任务数
+}
+
+export interface Task {
+  id: string;
+  section: string;
+  title: string;
+  status: string;
+  line: number;
+  assignee?: string;
+  estimate?: string;
+  due?: string;
+  tags?: string[];
+  reason?: string;
+  dependsOn?: string[];
+  blocked?: boolean;
+  blockedBy?: string[];
+  parentId?: string;
+  depth?: number;
+  children?: Task[];
+  progress?: Progress;         // 父任务的子任务进度
+}
+
 export const tasksApi = {
   get: (changeId: string) =>
-    fetchJson<{ tasks: any[]; progress: any }>(`/changes/${changeId}/tasks`),
+    fetchJson<{ tasks: Task[]; tree: Task[]; progress: Progress }>(`/changes/${changeId}/tasks`),
 
   update: (changeId: string, taskId: string, status: string) =>
     fetchJson<{ success: boolean }>(`/changes/${changeId}/tasks/${taskId}`, {
@@ -169,11 +365,35 @@ export const tasksApi = {
       body: JSON.stringify({ status }),
     }),
 
-  getProgress: () =>
-    fetchJson<{
+  updateMetadata: (
+    changeId: string,
+    taskId: string,
+    metadata: {
+      assignee?: string | null;
+      estimate?: string | null;
+      due?: string | null;
+      tags?: string[] | null;
+      reason?: string | null;
+    }
+  ) =>
+    fetchJson<{ success: boolean; task?: Task }>(`/changes/${changeId}/tasks/${taskId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(metadata),
+    }),
+
+  getProgress: (filters?: { assignee?: string; tag?: string; overdue?: boolean }) => {
+    const params = new URLSearchParams();
+    if (filters?.assignee) params.set('assignee', filters.assignee);
+    if (filters?.tag) params.set('tag', filters.tag);
+    if (filters?.overdue) params.set('overdue', 'true');
+    const query = params.toString();
+    return fetchJson<{
       summaries: any[];
       overall: { total: number; completed: number; percentage: number };
-    }>('/progress'),
+    }>(`/progress${query ? `?${query}` : ''}`);
+  },
+
+  getStates: () => fetchJson<{ states: TaskState[] }>('/tasks/states'),
 };
 
 // Approvals API
@@ -211,6 +431,20 @@ export const projectApi = {
     ),
 };
 
+// Workspace API
+export interface WorkspaceProject {
+  name: string;
+  root: string;
+}
+
+export const workspaceApi = {
+  // 工作区信息与当前项目无关，不发送（可能已失效的）项目
+  get: () =>
+    fetchJson<{ projects: WorkspaceProject[]; defaultProject: string; multiRoot: boolean }>('/workspace', {
+      headers: { 'X-OpenSpec-Project': '' },
+    }),
+};
+
 // Kanban API
 export interface KanbanCard {
   id: string;
@@ -218,8 +452,15 @@ export interface KanbanCard {
   description?: string;
   progress: number;
   column: string;
+  project: string;
   labels: string[];
   priority?: 'high' | 'medium' | 'low';
+  owner?: string;
+  targetRelease?: string;
+  dueDate?: string;
+  blockedBy?: string[];
+  conflictsWith?: string[];
+  verification?: { verified: number; failed: number; total: number };
   updatedAt: string;
   createdAt: string;
 }
@@ -240,14 +481,15 @@ export interface KanbanData {
 }
 
 export const kanbanApi = {
-  get: () => fetchJson<KanbanData>('/kanban'),
+  get: (combined = false) => fetchJson<KanbanData>(`/kanban${combined ? '?combined=true' : ''}`),
   
   getSummary: () => fetchJson<{ total: number; columns: Record<string, number> }>('/kanban/summary'),
   
-  moveCard: (id: string, toColumn: string, note?: string) =>
+  moveCard: (id: string, toColumn: string, note?: string, project?: string) =>
     fetchJson<{ success: boolean; changeId: string; newColumn: string }>(`/kanban/${id}/move`, {
       method: 'PUT',
       body: JSON.stringify({ toColumn, note }),
+      headers: project ? { 'X-OpenSpec-Project': project } : undefined,
     }),
 };
 
@@ -2,10 +2,51 @@ import { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { changesApi, tasksApi } from '../api/client';
+import {
+  changesApi,
+  tasksApi,
+  evidenceApi,
+  SpecDelta,
+  ChangeVerification,
+  ScenarioEvidence,
+  TaskState,
+  Task,
+  Progress,
+} from '../api/client';
 import { useWebSocket } from '../hooks/useWebSocket';
 import CrossServiceDocs from './CrossServiceDocs';
 
+const deltaStyles: Record<SpecDelta['operation'], string> = {
+  ADDED: 'bg-green-100 text-green-700',
+  MODIFIED: 'bg-yellow-100 text-yellow-700',
+  REMOVED: 'bg-red-100 text-red-700',
+  RENAMED: 'bg-blue-100 text-blue-700',
+};
+
+const verificationIcons: Record<ScenarioEvidence['status'], string> = {
+  passed: '✅',
+  failed: '❌',
+  skipped: '⏭️',
+  missing: '⬜',
+};
+
+// 扩展任务状态（blocked / deferred / cancelled 等）的按钮样式，工作区配置的状态使用默认样式
+const taskStateStyles: Record<string, string> = {
+  blocked: 'bg-orange-100 border-orange-400',
+  deferred: 'bg-gray-100 border-gray-400',
+  cancelled: 'bg-gray-200 border-gray-300',
+};
+
+// 进度统计中各状态对应的字段
+const progressCounts: Record<string, Exclude<keyof Progress, 'otherStatuses'>> = {
+  done: 'completed',
+  in_progress: 'inProgress',
+  pending: 'pending',
+  blocked: 'blocked',
+  deferred: 'deferred',
+  cancelled: 'cancelled',
+};
+
 interface Review {
   id: string;
   targetType: string;
@@ -64,12 +105,13 @@ export default function ChangeDetail() {
   const { id } = useParams<{ id: string }>();
   const { lastMessage } = useWebSocket();
   const [change, setChange] = useState<any>(null);
-  const [tasks, setTasks] = useState<any[]>([]);
-  const [progress, setProgress] = useState<any>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [taskStates, setTaskStates] = useState<TaskState[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'proposal' | 'tasks' | 'design' | 'specs' | 'cross-service'>('proposal');
   const [showResolved, setShowResolved] = useState(false);
-  const [specs, setSpecs] = useState<Array<{ id: string; title: string; content: string }>>([]);
+  const [specs, setSpecs] = useState<Array<{ id: string; title: string; content: string; deltas: SpecDelta[] }>>([]);
   
   // Reviews state
   const [reviews, setReviews] = useState<{
@@ -82,6 +124,8 @@ export default function ChangeDetail() {
   // Revisions state
   const [revisions, setRevisions] = useState<Revision[]>([]);
   const [expandedRevisionId, setExpandedRevisionId] = useState<string | null>(null);
+  const [verification, setVerification] = useState<ChangeVerification | null>(null);
+  const [evidenceError, setEvidenceError] = useState<string | null>(null);
 
   // Fetch data on mount
   useEffect(() => {
@@ -98,7 +142,7 @@ export default function ChangeDetail() {
         ]);
 
         setChange(changeRes.change);
-        setTasks(tasksRes.tasks);
+        setTasks(tasksRes.tree);
         setProgress(tasksRes.progress);
         setReviews(reviewsRes);
         setSpecs(specsRes.specs);
@@ -111,8 +155,40 @@ export default function ChangeDetail() {
     }
 
     fetchData();
+    fetchVerification();
   }, [id]);
 
+  // 任务状态定义（checkbox 字符、图标、是否计入进度）
+  useEffect(() => {
+    tasksApi
+      .getStates()
+      .then((res) => setTaskStates(res.states))
+      .catch((error) => console.error('Failed to fetch task states:', error));
+  }, []);
+
+  const stateOf = (status: string) => taskStates.find((s) => s.status === status);
+
+  // 场景验证状态（来自导入的测试结果）
+  const fetchVerification = async () => {
+    if (!id) return;
+    try {
+      setVerification(await evidenceApi.get(id));
+    } catch (error) {
+      console.error('Failed to fetch verification:', error);
+    }
+  };
+
+  const handleEvidenceUpload = async (file: File) => {
+    if (!id) return;
+    setEvidenceError(null);
+    try {
+      const res = await evidenceApi.attach(id, await file.text());
+      setVerification(res.verification);
+    } catch (error) {
+      setEvidenceError(error instanceof Error ? error.message : 'Failed to attach test results');
+    }
+  };
+
   // Listen for WebSocket events to update in real-time
   useEffect(() => {
     if (!lastMessage || !id) return;
@@ -162,18 +238,21 @@ export default function ChangeDetail() {
     // Handle tasks:updated event (from file watcher - tasks.md changes)
     if (event === 'tasks:updated' && data.changeId === id) {
       tasksApi.get(id).then(tasksRes => {
-        setTasks(tasksRes.tasks);
+        setTasks(tasksRes.tree);
         setProgress(tasksRes.progress);
       }).catch(err => {
         console.error('Failed to refresh tasks:', err);
       });
     }
     
-    // Handle task:updated event (from REST API)
+    // Handle task:updated event (from REST API) - parent status is derived, so refetch the tree
     if (event === 'task:updated' && data.changeId === id) {
-      setTasks(prev => prev.map(t => 
-        t.id === data.taskId ? { ...t, status: data.status } : t
-      ));
+      tasksApi.get(id).then(tasksRes => {
+        setTasks(tasksRes.tree);
+        setProgress(tasksRes.progress);
+      }).catch(err => {
+        console.error('Failed to refresh tasks:', err);
+      });
     }
     
     // Handle change:content_updated event (from file watcher - proposal/design changes)
@@ -185,6 +264,11 @@ export default function ChangeDetail() {
       });
     }
     
+    // Handle evidence:updated event (test results attached via REST or MCP)
+    if (event === 'evidence:updated' && data.changeId === id) {
+      fetchVerification();
+    }
+
     // Handle revisions:updated event (from file watcher - revisions.json changes)
     if (event === 'revisions:updated' && data.changeId === id) {
       changesApi.getRevisions(id).then(revisionsRes => {
@@ -201,7 +285,7 @@ export default function ChangeDetail() {
     try {
       await tasksApi.update(id, taskId, status);
       const tasksRes = await tasksApi.get(id);
-      setTasks(tasksRes.tasks);
+      setTasks(tasksRes.tree);
       setProgress(tasksRes.progress);
     } catch (error) {
       console.error('Failed to update task:', error);
@@ -224,6 +308,102 @@ export default function ChangeDetail() {
     }
   };
 
+  // 渲染任务及其子任务，父任务显示服务端统计的子任务进度
+  const renderTask = (task: Task, depth: number): JSX.Element => {
+    const rollup = task.progress ? `${task.progress.completed}/${task.progress.total} subtasks` : null;
+    const settled = task.status === 'done' || stateOf(task.status)?.countsTowardProgress === false;
+    const overdue = task.due && !settled && task.due < new Date().toISOString().slice(0, 10);
+    const extraState = ['pending', 'in_progress', 'done'].includes(task.status) ? undefined : stateOf(task.status);
+
+    return (
+      <div key={task.id} className="space-y-2">
+        <div
+          className="flex items-center justify-between p-3 rounded border hover:bg-gray-50"
+          style={{ marginLeft: `${depth * 1.5}rem` }}
+        >
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => {
+                // 父任务状态由子任务推导，只能整体完成或重置
+                const nextStatus = task.children?.length
+                  ? task.status === 'done'
+                    ? 'pending'
+                    : 'done'
+                  : task.status === 'pending'
+                  ? 'in_progress'
+                  : task.status === 'in_progress'
+                  ? 'done'
+                  : 'pending';
+                handleTaskUpdate(task.id, nextStatus);
+              }}
+              className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
+                task.status === 'done'
+                  ? 'bg-green-500 border-green-500 text-white'
+                  : task.status === 'in_progress'
+                  ? 'bg-blue-500 border-blue-500 text-white'
+                  : taskStateStyles[task.status] || 'border-gray-300'
+              }`}
+              title={extraState?.label}
+            >
+              {task.status === 'done' && '✓'}
+              {task.status === 'in_progress' && '●'}
+              {extraState && <span className="text-xs">{extraState.icon}</span>}
+            </button>
+            <div>
+              <span className="font-mono text-sm text-gray-500">[{task.id}]</span>
+              <span className={`ml-2 ${task.status === 'cancelled' ? 'line-through text-gray-400' : ''}`}>{task.title}</span>
+              {rollup && <span className="ml-2 text-xs text-gray-400">{rollup}</span>}
+              {task.assignee && (
+                <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-purple-100 text-purple-700">@{task.assignee}</span>
+              )}
+              {task.estimate && <span className="ml-2 text-xs text-gray-500">~{task.estimate}</span>}
+              {task.due && (
+                <span
+                  className={`ml-2 px-1.5 py-0.5 text-xs rounded ${
+                    overdue ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-600'
+                  }`}
+                  title={overdue ? 'Overdue' : 'Due date'}
+                >
+                  {overdue ? '⚠️ ' : ''}due {task.due}
+                </span>
+              )}
+              {task.tags?.map((tag) => (
+                <span key={tag} className="ml-2 text-xs text-blue-600">
+                  #{tag}
+                </span>
+              ))}
+              {task.blocked && task.blockedBy ? (
+                <span
+                  className="ml-2 px-1.5 py-0.5 text-xs rounded bg-orange-100 text-orange-700"
+                  title={`Waiting on ${task.blockedBy.join(', ')}`}
+                >
+                  ⛔ blocked by {task.blockedBy.join(', ')}
+                </span>
+              ) : (
+                task.dependsOn && <span className="ml-2 text-xs text-gray-400">after {task.dependsOn.join(', ')}</span>
+              )}
+              {task.reason && <span className="ml-2 text-xs italic text-gray-500">— {task.reason}</span>}
+            </div>
+          </div>
+          <span
+            className={`text-xs ${
+              task.status === 'done'
+                ? 'text-green-600'
+                : task.status === 'in_progress'
+                ? 'text-blue-600'
+                : task.status === 'blocked'
+                ? 'text-orange-600'
+                : 'text-gray-400'
+            }`}
+          >
+            {stateOf(task.status)?.label || task.status}
+          </span>
+        </div>
+        {task.children?.map((child) => renderTask(child, depth + 1))}
+      </div>
+    );
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -299,13 +479,63 @@ export default function ChangeDetail() {
             />
           </div>
           <div className="flex justify-between mt-2 text-xs text-gray-500">
-            <span>✅ {progress.completed} done</span>
-            <span>🔄 {progress.inProgress} in progress</span>
-            <span>⏳ {progress.pending} pending</span>
+            {taskStates.map((state) => (
+              <span
+                key={state.status}
+                title={`[${state.char}]${state.countsTowardProgress ? '' : ' — not counted toward progress'}`}
+              >
+                {state.icon} {progress[progressCounts[state.status]] ?? progress.otherStatuses?.[state.status] ?? 0}{' '}
+                {state.label.toLowerCase()}
+              </span>
+            ))}
           </div>
         </div>
       )}
 
+      {/* Verification */}
+      {verification && verification.total > 0 && (
+        <div className="bg-white rounded-lg shadow p-4">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm font-medium text-gray-700">Verification</span>
+            <div className="flex items-center space-x-3">
+              <span className={`text-sm ${verification.failed > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                {verification.summary}
+              </span>
+              <label className="text-xs text-blue-500 hover:text-blue-700 cursor-pointer">
+                Upload JUnit / TAP
+                <input
+                  type="file"
+                  accept=".xml,.tap,.txt"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleEvidenceUpload(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+          <div className="w-full h-3 bg-gray-200 rounded-full">
+            <div
+              className="h-full bg-green-500 rounded-full transition-all duration-300"
+              style={{ width: `${Math.round((verification.verified / verification.total) * 100)}%` }}
+            />
+          </div>
+          {evidenceError && <p className="text-xs text-red-600 mt-2">{evidenceError}</p>}
+          {verification.runs.length > 0 && (
+            <ul className="mt-3 space-y-1 text-xs text-gray-600">
+              {verification.scenarios.map((s) => (
+                <li key={s.tag} title={s.tests.join('\n')}>
+                  {verificationIcons[s.status]} <span className="font-mono text-gray-400">{s.specId}</span>{' '}
+                  {s.requirement} / {s.scenario}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Main content grid */}
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* Tabs and content - 3 columns */}
@@ -384,50 +614,16 @@ export default function ChangeDetail() {
                   <p className="text-gray-500">No tasks defined.</p>
                 ) : (
                   <div className="space-y-2">
-                    {tasks.map((task) => (
-                      <div
-                        key={task.id}
-                        className="flex items-center justify-between p-3 rounded border hover:bg-gray-50"
-                      >
-                        <div className="flex items-center space-x-3">
-                          <button
-                            onClick={() => {
-                              const nextStatus =
-                                task.status === 'pending'
-                                  ? 'in_progress'
-                                  : task.status === 'in_progress'
-                                  ? 'done'
-                                  : 'pending';
-                              handleTaskUpdate(task.id, nextStatus);
-                            }}
-                            className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
-                              task.status === 'done'
-                                ? 'bg-green-500 border-green-500 text-white'
-                                : task.status === 'in_progress'
-                                ? 'bg-blue-500 border-blue-500 text-white'
-                                : 'border-gray-300'
-                            }`}
-                          >
-                            {task.status === 'done' && '✓'}
-                            {task.status === 'in_progress' && '●'}
-                          </button>
-                          <div>
-                            <span className="font-mono text-sm text-gray-500">[{task.id}]</span>
-                            <span className="ml-2">{task.title}</span>
-                          </div>
-                        </div>
-                        <span
-                          className={`text-xs ${
-                            task.status === 'done'
-                              ? 'text-green-600'
-                              : task.status === 'in_progress'
-                              ? 'text-blue-600'
-                              : 'text-gray-400'
-                          }`}
-                        >
-                          {task.status}
-                        </span>
-                      </div>
+                    {tasks.map((task) => renderTask(task, 0))}
+                  </div>
+                )}
+                {taskStates.length > 0 && (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-4 pt-3 border-t text-xs text-gray-500">
+                    {taskStates.map((state) => (
+                      <span key={state.status}>
+                        <code className="font-mono">[{state.char}]</code> {state.icon} {state.label}
+                        {!state.countsTowardProgress && ' (not counted)'}
+                      </span>
                     ))}
                   </div>
                 )}
@@ -458,6 +654,38 @@ export default function ChangeDetail() {
                           <h4 className="font-semibold text-green-800">{spec.title}</h4>
                           <span className="text-xs text-green-600 font-mono">{spec.id}</span>
                         </div>
+                        {spec.deltas?.length > 0 && (
+                          <div className="px-4 py-3 border-b bg-gray-50 space-y-1">
+                            {spec.deltas.flatMap((delta) =>
+                              delta.operation === 'RENAMED'
+                                ? (delta.renames || []).map((rename) => (
+                                    <div key={`${delta.line}-${rename.line}`} className="flex items-center text-sm">
+                                      <span className={`px-2 py-0.5 rounded text-xs font-medium mr-2 ${deltaStyles.RENAMED}`}>
+                                        RENAMED
+                                      </span>
+                                      <span className="text-gray-500 line-through mr-1">{rename.from}</span>
+                                      <span className="text-gray-800">→ {rename.to}</span>
+                                    </div>
+                                  ))
+                                : delta.requirements.map((req) => (
+                                    <div key={`${delta.line}-${req.line}`} className="flex items-center text-sm">
+                                      <span className={`px-2 py-0.5 rounded text-xs font-medium mr-2 ${deltaStyles[delta.operation]}`}>
+                                        {delta.operation}
+                                      </span>
+                                      <span className="text-gray-800">{req.title}</span>
+                                      {req.anchor && (
+                                        <span className="ml-2 text-[10px] font-mono text-indigo-600">#{req.anchor}</span>
+                                      )}
+                                      {req.scenarios.length > 0 && (
+                                        <span className="ml-2 text-xs text-gray-400">
+                                          {req.scenarios.length} scenario{req.scenarios.length !== 1 ? 's' : ''}
+                                        </span>
+                                      )}
+                                    </div>
+                                  ))
+                            )}
+                          </div>
+                        )}
                         <div className="p-4 prose prose-sm max-w-none">
                           <ReactMarkdown remarkPlugins={[remarkGfm]}>
                             {spec.content}
@@ -1,13 +1,37 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Link } from 'react-router-dom';
-import { changesApi } from '../api/client';
+import { changesApi, ChangeSummary } from '../api/client';
 import { useWebSocket } from '../hooks/useWebSocket';
 
+const priorityStyles: Record<string, string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  low: 'bg-gray-100 text-gray-600',
+};
+
 export default function ChangeList() {
   const { lastMessage } = useWebSocket();
-  const [changes, setChanges] = useState<any[]>([]);
+  const [changes, setChanges] = useState<ChangeSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [includeArchived, setIncludeArchived] = useState(false);
+  const [ownerFilter, setOwnerFilter] = useState('');
+  const [priorityFilter, setPriorityFilter] = useState('');
+  const [labelFilter, setLabelFilter] = useState('');
+
+  // 过滤选项来自已加载的变更
+  const owners = useMemo(
+    () => [...new Set(changes.map((c) => c.owner).filter((o): o is string => !!o))].sort(),
+    [changes]
+  );
+  const labels = useMemo(() => [...new Set(changes.flatMap((c) => c.labels || []))].sort(), [changes]);
+
+  const visibleChanges = changes.filter(
+    (c) =>
+      (!ownerFilter || c.owner === ownerFilter) &&
+      (!priorityFilter || c.priority === priorityFilter) &&
+      (!labelFilter || c.labels?.includes(labelFilter))
+  );
+  const today = new Date().toISOString().slice(0, 10);
 
   const fetchChanges = async () => {
     try {
@@ -29,7 +53,7 @@ export default function ChangeList() {
     const { event } = lastMessage;
     
     // Refresh list when changes are archived or tasks updated
-    if (['change:archived', 'tasks:updated', 'task:updated', 'change:content_updated'].includes(event)) {
+    if (['change:archived', 'change:restored', 'tasks:updated', 'task:updated', 'change:content_updated'].includes(event)) {
       fetchChanges();
     }
   }, [lastMessage]);
@@ -46,18 +70,50 @@ export default function ChangeList() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Changes</h2>
-        <label className="flex items-center space-x-2 text-sm">
-          <input
-            type="checkbox"
-            checked={includeArchived}
-            onChange={(e) => setIncludeArchived(e.target.checked)}
-            className="rounded border-gray-300"
-          />
-          <span>Include archived</span>
-        </label>
+        <div className="flex items-center space-x-3">
+          <select
+            value={ownerFilter}
+            onChange={(e) => setOwnerFilter(e.target.value)}
+            className="text-sm border border-gray-300 rounded-md px-2 py-1"
+          >
+            <option value="">All owners</option>
+            {owners.map((owner) => (
+              <option key={owner} value={owner}>@{owner}</option>
+            ))}
+          </select>
+          <select
+            value={priorityFilter}
+            onChange={(e) => setPriorityFilter(e.target.value)}
+            className="text-sm border border-gray-300 rounded-md px-2 py-1"
+          >
+            <option value="">All priorities</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+          <select
+            value={labelFilter}
+            onChange={(e) => setLabelFilter(e.target.value)}
+            className="text-sm border border-gray-300 rounded-md px-2 py-1"
+          >
+            <option value="">All labels</option>
+            {labels.map((label) => (
+              <option key={label} value={label}>{label}</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={includeArchived}
+              onChange={(e) => setIncludeArchived(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Include archived</span>
+          </label>
+        </div>
       </div>
 
-      {changes.length === 0 ? (
+      {visibleChanges.length === 0 ? (
         <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
           No changes found.
         </div>
@@ -72,6 +128,12 @@ export default function ChangeList() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Owner
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Release / Due
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Progress
                 </th>
@@ -81,7 +143,7 @@ export default function ChangeList() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {changes.map((change) => (
+              {visibleChanges.map((change) => (
                 <tr key={change.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4">
                     <Link
@@ -91,6 +153,20 @@ export default function ChangeList() {
                       <div className="font-medium">{change.title}</div>
                       <div className="text-sm text-gray-500">{change.id}</div>
                     </Link>
+                    {(change.priority || change.labels?.length) ? (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {change.priority && (
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${priorityStyles[change.priority]}`}>
+                            {change.priority}
+                          </span>
+                        )}
+                        {change.labels?.map((label) => (
+                          <span key={label} className="px-2 py-0.5 text-xs rounded-full bg-blue-50 text-blue-700">
+                            {label}
+                          </span>
+                        ))}
+                      </div>
+                    ) : null}
                   </td>
                   <td className="px-6 py-4">
                     <span
@@ -101,6 +177,21 @@ export default function ChangeList() {
                       {change.status}
                     </span>
                   </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {change.owner ? `@${change.owner}` : '—'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    <div>{change.targetRelease || '—'}</div>
+                    {change.dueDate && (
+                      <div
+                        className={
+                          change.status === 'active' && change.dueDate < today ? 'text-red-600 font-medium' : 'text-gray-500'
+                        }
+                      >
+                        due {change.dueDate}
+                      </div>
+                    )}
+                  </td>
                   <td className="px-6 py-4">
                     <div className="flex items-center space-x-2">
                       <div className="w-24 h-2 bg-gray-200 rounded-full">
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Link } from 'react-router-dom';
-import { changesApi, specsApi, tasksApi, approvalsApi } from '../api/client';
+import { changesApi, specsApi, tasksApi, approvalsApi, TaskState } from '../api/client';
 import { useWebSocket } from '../hooks/useWebSocket';
 
 interface Stats {
@@ -19,6 +19,7 @@ export default function Dashboard() {
     overallProgress: 0,
   });
   const [recentChanges, setRecentChanges] = useState<any[]>([]);
+  const [taskStates, setTaskStates] = useState<TaskState[]>([]);
   const [loading, setLoading] = useState(true);
 
   const fetchData = useCallback(async () => {
@@ -47,6 +48,14 @@ export default function Dashboard() {
     fetchData().finally(() => setLoading(false));
   }, [fetchData]);
 
+  // 任务状态图例（与服务端的 checkbox 定义一致）
+  useEffect(() => {
+    tasksApi
+      .getStates()
+      .then((res) => setTaskStates(res.states))
+      .catch((error) => console.error('Failed to fetch task states:', error));
+  }, []);
+
   // Listen for WebSocket events to refresh dashboard
   useEffect(() => {
     if (!lastMessage) return;
@@ -209,7 +218,25 @@ export default function Dashboard() {
                 <span className="ml-3 font-medium text-gray-700 group-hover:text-purple-700">Browse Specs</span>
              </Link>
           </div>
-          
+
+          {taskStates.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-5">
+              <h4 className="text-sm font-semibold text-gray-700 mb-3">Task States</h4>
+              <ul className="space-y-1.5 text-sm">
+                {taskStates.map((state) => (
+                  <li key={state.status} className="flex items-center text-gray-600">
+                    <span className="w-6">{state.icon}</span>
+                    <code className="bg-gray-100 px-1 rounded text-xs font-mono">[{state.char}]</code>
+                    <span className="ml-2">{state.label}</span>
+                    {!state.countsTowardProgress && (
+                      <span className="ml-auto text-xs text-gray-400">not counted</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="bg-gradient-to-br from-indigo-500 to-purple-600 rounded-xl p-6 text-white shadow-lg">
              <h4 className="font-bold text-lg mb-2">Pro Tip</h4>
              <p className="text-indigo-100 text-sm opacity-90">
@@ -1,6 +1,14 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Link } from 'react-router-dom';
-import { kanbanApi, KanbanData, KanbanCard, KanbanColumn as KanbanColumnType } from '../api/client';
+import {
+  kanbanApi,
+  workspaceApi,
+  getCurrentProject,
+  setCurrentProject,
+  KanbanData,
+  KanbanCard,
+  KanbanColumn as KanbanColumnType,
+} from '../api/client';
 import { useWebSocket } from '../hooks/useWebSocket';
 
 export default function Kanban() {
@@ -11,16 +19,25 @@ export default function Kanban() {
   const [draggedCard, setDraggedCard] = useState<KanbanCard | null>(null);
   const [movingCard, setMovingCard] = useState<string | null>(null);
   const [dragOverColumn, setDragOverColumn] = useState<string | null>(null);
+  const [multiRoot, setMultiRoot] = useState(false);
+  const [combined, setCombined] = useState(false);
+
+  useEffect(() => {
+    workspaceApi
+      .get()
+      .then(({ multiRoot }) => setMultiRoot(multiRoot))
+      .catch(() => setMultiRoot(false));
+  }, []);
 
   const fetchData = useCallback(async () => {
     try {
-      const data = await kanbanApi.get();
+      const data = await kanbanApi.get(combined);
       setKanbanData(data);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load kanban');
     }
-  }, []);
+  }, [combined]);
 
   useEffect(() => {
     fetchData().finally(() => setLoading(false));
@@ -32,7 +49,7 @@ export default function Kanban() {
     const { event } = lastMessage;
     
     if ([
-      'kanban:updated', 'change:archived', 'tasks:updated',
+      'kanban:updated', 'change:archived', 'change:restored', 'tasks:updated',
       'approval:requested', 'approval:approved', 'approval:rejected'
     ].includes(event)) {
       fetchData();
@@ -60,10 +77,10 @@ export default function Kanban() {
     }
 
     // Optimistic update
-    setMovingCard(draggedCard.id);
+    setMovingCard(cardKey(draggedCard));
     
     try {
-      await kanbanApi.moveCard(draggedCard.id, targetColumn);
+      await kanbanApi.moveCard(draggedCard.id, targetColumn, undefined, draggedCard.project);
       await fetchData();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to move card');
@@ -118,6 +135,18 @@ export default function Kanban() {
           </p>
         </div>
         <div className="flex items-center space-x-3">
+          {multiRoot && (
+            <button
+              onClick={() => setCombined(!combined)}
+              className={`px-4 py-2 text-sm font-medium border rounded-lg shadow-sm transition-all ${
+                combined
+                  ? 'bg-indigo-600 text-white border-indigo-600 hover:bg-indigo-700'
+                  : 'text-gray-700 hover:text-gray-900 bg-white hover:bg-gray-50 border-gray-200'
+              }`}
+            >
+              All projects
+            </button>
+          )}
           <button
             onClick={fetchData}
             className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900 bg-white hover:bg-gray-50 border border-gray-200 rounded-lg shadow-sm transition-all hover:shadow"
@@ -151,6 +180,7 @@ export default function Kanban() {
             onDrop={() => handleDrop(column.id)}
             isDragOver={dragOverColumn === column.id && draggedCard?.column !== column.id}
             movingCardId={movingCard}
+            showProject={combined}
           />
         ))}
       </div>
@@ -174,6 +204,17 @@ export default function Kanban() {
   );
 }
 
+const priorityStyles: Record<string, string> = {
+  high: 'bg-red-100 text-red-700 ring-1 ring-red-200',
+  medium: 'bg-yellow-100 text-yellow-700 ring-1 ring-yellow-200',
+  low: 'bg-gray-100 text-gray-600',
+};
+
+// 合并视图中不同项目可能有同名变更
+function cardKey(card: KanbanCard): string {
+  return `${card.project}:${card.id}`;
+}
+
 function KanbanColumn({
   column,
   onDragStart,
@@ -182,6 +223,7 @@ function KanbanColumn({
   onDrop,
   isDragOver,
   movingCardId,
+  showProject,
 }: {
   column: KanbanColumnType;
   onDragStart: (card: KanbanCard) => void;
@@ -190,6 +232,7 @@ function KanbanColumn({
   onDrop: () => void;
   isDragOver: boolean;
   movingCardId: string | null;
+  showProject: boolean;
 }) {
   return (
     <div
@@ -228,11 +271,12 @@ function KanbanColumn({
         ) : (
           column.cards.map((card) => (
             <KanbanCardComponent
-              key={card.id}
+              key={cardKey(card)}
               card={card}
               onDragStart={onDragStart}
-              isMoving={movingCardId === card.id}
+              isMoving={movingCardId === cardKey(card)}
               columnColor={column.color}
+              showProject={showProject}
             />
           ))
         )}
@@ -246,11 +290,13 @@ function KanbanCardComponent({
   onDragStart,
   isMoving,
   columnColor,
+  showProject,
 }: {
   card: KanbanCard;
   onDragStart: (card: KanbanCard) => void;
   isMoving: boolean;
   columnColor: string;
+  showProject: boolean;
 }) {
   return (
     <div
@@ -263,12 +309,63 @@ function KanbanCardComponent({
       }`}
       style={{ borderLeftWidth: '3px', borderLeftColor: columnColor }}
     >
-      <Link to={`/changes/${card.id}`} className="block space-y-3">
+      <Link
+        to={`/changes/${card.id}`}
+        onClick={() => {
+          // 合并视图中打开其他项目的变更时切换项目
+          if (showProject && card.project !== getCurrentProject()) setCurrentProject(card.project);
+        }}
+        className="block space-y-3"
+      >
+        {/* Project */}
+        {showProject && (
+          <span className="inline-block px-2 py-0.5 text-xs font-medium rounded bg-indigo-50 text-indigo-700">
+            {card.project}
+          </span>
+        )}
+
         {/* Title */}
         <h4 className="font-semibold text-gray-900 text-sm leading-snug line-clamp-2 group-hover:text-indigo-600 transition-colors">
           {card.name}
         </h4>
 
+        {/* Blocked */}
+        {card.blockedBy && card.blockedBy.length > 0 && (
+          <div
+            className="flex items-center gap-1 text-xs font-medium text-red-700 bg-red-50 ring-1 ring-red-200 rounded-md px-2 py-1"
+            title="Dependencies must be archived before this change can move forward"
+          >
+            ⛔ Blocked by {card.blockedBy.join(', ')}
+          </div>
+        )}
+
+        {/* Conflicts */}
+        {card.conflictsWith && card.conflictsWith.length > 0 && (
+          <div
+            className="flex items-center gap-1 text-xs font-medium text-amber-800 bg-amber-50 ring-1 ring-amber-200 rounded-md px-2 py-1"
+            title="Another active change modifies the same requirements; archiving one may clobber the other"
+          >
+            ⚠️ Conflicts with {card.conflictsWith.join(', ')}
+          </div>
+        )}
+
+        {/* Verification */}
+        {card.verification && (
+          <div
+            className={`flex items-center gap-1 text-xs font-medium rounded-md px-2 py-1 ring-1 ${
+              card.verification.failed > 0
+                ? 'text-red-700 bg-red-50 ring-red-200'
+                : card.verification.verified === card.verification.total
+                  ? 'text-green-700 bg-green-50 ring-green-200'
+                  : 'text-gray-700 bg-gray-50 ring-gray-200'
+            }`}
+            title="Scenarios verified by attached test results"
+          >
+            🧪 {card.verification.verified}/{card.verification.total} scenarios verified
+            {card.verification.failed > 0 && `, ${card.verification.failed} failing`}
+          </div>
+        )}
+
         {/* Labels */}
         {card.labels.length > 0 && (
           <div className="flex flex-wrap gap-1.5">
@@ -313,11 +410,35 @@ function KanbanCardComponent({
           </div>
         </div>
 
+        {/* Metadata */}
+        {(card.owner || card.targetRelease || card.dueDate) && (
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-500">
+            {card.owner && <span>@{card.owner}</span>}
+            {card.targetRelease && <span>🚀 {card.targetRelease}</span>}
+            {card.dueDate && (
+              <span
+                className={
+                  card.column !== 'completed' && card.column !== 'archived' && card.dueDate < new Date().toISOString().slice(0, 10)
+                    ? 'text-red-600 font-medium'
+                    : ''
+                }
+              >
+                📅 {card.dueDate}
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Footer */}
         <div className="flex items-center justify-between pt-1">
           <span className="text-xs text-gray-400 font-mono bg-gray-50 px-1.5 py-0.5 rounded truncate max-w-[140px]">
             {card.id}
           </span>
+          {card.priority && (
+            <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${priorityStyles[card.priority]}`}>
+              {card.priority}
+            </span>
+          )}
           <ArrowRightIcon className="w-4 h-4 text-gray-300 group-hover:text-indigo-400 group-hover:translate-x-0.5 transition-all" />
         </div>
       </Link>
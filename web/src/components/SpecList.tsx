@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { specsApi } from '../api/client';
+import { specsApi, traceabilityApi, SpecRequirement, SpecCoverage, RequirementTrace } from '../api/client';
 import { useWebSocket } from '../hooks/useWebSocket';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
@@ -33,6 +33,16 @@ const typeIcons: Record<Review['type'], string> = {
   issue: '🚨',
 };
 
+const clauseColors: Record<string, string> = {
+  GIVEN: 'text-gray-500',
+  WHEN: 'text-blue-600',
+  THEN: 'text-green-600',
+  AND: 'text-gray-500',
+};
+
+const coverageColor = (percentage: number) =>
+  percentage >= 80 ? 'bg-green-100 text-green-700' : percentage > 0 ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-500';
+
 const severityColors: Record<string, string> = {
   low: 'bg-gray-100 text-gray-600',
   medium: 'bg-yellow-100 text-yellow-700',
@@ -42,8 +52,11 @@ const severityColors: Record<string, string> = {
 export default function SpecList() {
   const { lastMessage } = useWebSocket();
   const [specs, setSpecs] = useState<any[]>([]);
+  const [coverage, setCoverage] = useState<Record<string, SpecCoverage>>({});
+  const [traces, setTraces] = useState<RequirementTrace[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedSpec, setSelectedSpec] = useState<any>(null);
+  const [viewMode, setViewMode] = useState<'document' | 'requirements'>('document');
   
   // Review State
   const [reviews, setReviews] = useState<Review[]>([]);
@@ -60,6 +73,18 @@ export default function SpecList() {
     } catch (error) {
       console.error('Failed to fetch specs:', error);
     }
+    fetchCoverage();
+  };
+
+  // 测试覆盖率（扫描 @spec 标注），失败时不影响规格列表
+  const fetchCoverage = async () => {
+    try {
+      const res = await traceabilityApi.get();
+      setCoverage(Object.fromEntries(res.specs.map((s) => [s.specId, s])));
+      setTraces(res.matrix);
+    } catch (error) {
+      console.error('Failed to fetch traceability:', error);
+    }
   };
 
   useEffect(() => {
@@ -227,7 +252,21 @@ export default function SpecList() {
                   }`}
                 >
                   <div className="font-semibold text-gray-900">{spec.title}</div>
-                  <div className="text-xs text-gray-500 mt-1 font-mono">{spec.id}</div>
+                  <div className="flex items-center justify-between mt-1">
+                    <span className="text-xs text-gray-500 font-mono">{spec.id}</span>
+                    {coverage[spec.id]?.requirements > 0 && (
+                      <span
+                        className={`text-[10px] font-medium rounded px-1.5 py-0.5 ${coverageColor(coverage[spec.id].percentage)}`}
+                        title={
+                          coverage[spec.id].uncovered.length > 0
+                            ? `Untested: ${coverage[spec.id].uncovered.join(', ')}`
+                            : 'All requirements have tests'
+                        }
+                      >
+                        🧪 {coverage[spec.id].covered}/{coverage[spec.id].requirements}
+                      </span>
+                    )}
+                  </div>
                 </button>
               ))}
             </div>
@@ -241,10 +280,95 @@ export default function SpecList() {
               <div className="p-4 border-b border-gray-100 bg-gray-50/50 rounded-t-xl flex justify-between items-center">
                 <div>
                   <h3 className="text-lg font-bold text-gray-900">{selectedSpec.title}</h3>
-                  <p className="text-xs text-gray-500 mt-0.5">Select text to add review comment</p>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {viewMode === 'document'
+                      ? 'Select text to add review comment'
+                      : `${selectedSpec.requirements?.length || 0} requirements`}
+                  </p>
+                </div>
+                <div className="flex space-x-1">
+                  {(['document', 'requirements'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setViewMode(mode)}
+                      className={`px-3 py-1 text-xs rounded-full transition-colors ${
+                        viewMode === mode
+                          ? 'bg-indigo-100 text-indigo-700'
+                          : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                      }`}
+                    >
+                      {mode === 'document' ? 'Document' : 'Requirements'}
+                    </button>
+                  ))}
                 </div>
               </div>
-              
+
+              {viewMode === 'requirements' ? (
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                  {(selectedSpec.requirements || []).length === 0 ? (
+                    <p className="text-sm text-gray-400 text-center py-10">No requirements parsed from this spec.</p>
+                  ) : (
+                    (selectedSpec.requirements as SpecRequirement[]).map((req) => (
+                      <div key={req.id} className="border border-gray-200 rounded-lg overflow-hidden">
+                        <div className="bg-gray-50 px-4 py-2 border-b border-gray-200 flex justify-between items-center">
+                          <h4 className="font-semibold text-gray-900 text-sm">
+                            <span className="text-gray-400 mr-2">{req.id}.</span>
+                            {req.title}
+                            {req.anchor && (
+                              <span className="ml-2 text-[10px] font-mono font-normal text-indigo-600 bg-indigo-50 rounded px-1.5 py-0.5">
+                                #{req.anchor}
+                              </span>
+                            )}
+                          </h4>
+                          <div className="flex items-center gap-2">
+                            {(() => {
+                              const trace = traces.find((t) => t.specId === selectedSpec.id && t.line === req.line);
+                              if (!trace) return null;
+                              return trace.covered ? (
+                                <span
+                                  className="text-[10px] rounded px-1.5 py-0.5 bg-green-100 text-green-700"
+                                  title={trace.references.map((r) => `${r.file}:${r.line}${r.test ? ` — ${r.test}` : ''}`).join('\n')}
+                                >
+                                  🧪 {trace.references.length} test{trace.references.length !== 1 ? 's' : ''}
+                                </span>
+                              ) : (
+                                <span className="text-[10px] rounded px-1.5 py-0.5 bg-gray-100 text-gray-500">untested</span>
+                              );
+                            })()}
+                            <span className="text-[10px] font-mono text-gray-400">
+                              L{req.line}–{req.endLine}
+                            </span>
+                          </div>
+                        </div>
+                        <div className="p-4 space-y-3">
+                          {req.content && (
+                            <div className="prose prose-sm max-w-none">
+                              <ReactMarkdown remarkPlugins={[remarkGfm]}>{req.content}</ReactMarkdown>
+                            </div>
+                          )}
+                          {req.scenarios.map((scenario) => (
+                            <div key={scenario.line} className="bg-indigo-50/40 border-l-2 border-indigo-200 rounded px-3 py-2">
+                              <div className="text-xs font-semibold text-indigo-800 mb-1">
+                                Scenario: {scenario.name}
+                              </div>
+                              <ul className="space-y-0.5">
+                                {scenario.clauses.map((clause, i) => (
+                                  <li key={i} className="text-xs text-gray-700">
+                                    <span className={`font-bold mr-1 ${clauseColors[clause.keyword]}`}>
+                                      {clause.keyword}
+                                    </span>
+                                    {clause.text}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              ) : (
               <div 
                 className="flex-1 overflow-y-auto p-6 relative"
                 ref={contentRef}
@@ -330,6 +454,7 @@ export default function SpecList() {
                   </div>
                 )}
               </div>
+              )}
             </>
           ) : (
             <div className="flex-1 flex flex-col justify-center items-center text-gray-400 p-8">